@@ -0,0 +1,139 @@
+/**
+ * Create ILP ledger tables and functions
+ *
+ * Restores the users and invoices tables dropped by
+ * 20251125_022004_drop_payment_tables.js. Balances are no longer a single
+ * msats column on users: each pubkey holds one balance per asset code,
+ * stored at the asset scale of the first amount credited in that asset.
+ *
+ * Created:
+ * - users table
+ * - balances table
+ * - invoices table (asset_code/asset_scale instead of unit)
+ * - confirm_invoice() function
+ * - charge_user() function
+ * - now_utc() function
+ * - ASSERT_SERIALIZED() function
+ */
+
+exports.up = async function (knex) {
+  await knex.schema
+    .raw(`CREATE OR REPLACE FUNCTION now_utc() RETURNS timestamp AS $$
+  SELECT now() AT TIME ZONE 'utc';
+$$ LANGUAGE sql;`)
+    .raw(`CREATE OR REPLACE FUNCTION ASSERT_SERIALIZED() RETURNS void AS $$
+BEGIN
+    IF (SELECT current_setting('transaction_isolation') <> 'serializable') THEN
+        RAISE EXCEPTION 'SN_NOT_SERIALIZABLE';
+    END IF;
+END;
+$$ LANGUAGE plpgsql;`)
+
+  await knex.schema.createTable('users', (table) => {
+    table.binary('pubkey').primary()
+    table.boolean('is_admitted').default(0)
+    table.datetime('tos_accepted_at', { useTz: false, precision: 3 })
+    table.timestamps(true, true, false)
+  })
+
+  await knex.schema.createTable('balances', (table) => {
+    table.binary('pubkey').notNullable().references('pubkey').inTable('users').onDelete('CASCADE')
+    table.text('asset_code').notNullable()
+    table.smallint('asset_scale').notNullable()
+    table.bigint('amount').notNullable().default(0)
+    table.timestamps(true, true, false)
+    table.primary(['pubkey', 'asset_code'])
+  })
+
+  await knex.schema.raw('ALTER TABLE balances ADD CONSTRAINT balances_amount_check CHECK (amount >= 0);')
+
+  await knex.schema.createTable('invoices', (table) => {
+    table.text('id').primary()
+    table.binary('pubkey').notNullable().index()
+    table.text('bolt11').notNullable()
+    table.bigint('amount_requested').unsigned().notNullable()
+    table.bigint('amount_paid').unsigned()
+    table.text('asset_code').notNullable()
+    table.smallint('asset_scale').notNullable()
+    table.enum('status', ['pending', 'completed', 'expired'])
+    table.text('description')
+    table.text('verify_url')
+    table.datetime('confirmed_at', { useTz: false, precision: 3 })
+    table.datetime('expires_at', { useTz: false, precision: 3 })
+    table.timestamps(true, true, false)
+  })
+
+  await knex.schema
+    .raw(`CREATE OR REPLACE FUNCTION confirm_invoice(invoice_id TEXT, amount_received BIGINT, confirmation_date TIMESTAMP WITHOUT TIME ZONE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  payee BYTEA;
+  confirmed_date TIMESTAMP WITHOUT TIME ZONE;
+  invoice_asset_code TEXT;
+  invoice_asset_scale SMALLINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  SELECT "pubkey", "confirmed_at", "asset_code", "asset_scale"
+  INTO payee, confirmed_date, invoice_asset_code, invoice_asset_scale
+  FROM "invoices" WHERE id = invoice_id;
+  IF confirmed_date IS NULL THEN
+      UPDATE invoices
+      SET
+        "confirmed_at" = confirmation_date,
+        "amount_paid" = amount_received,
+        "updated_at" = now_utc()
+      WHERE id = invoice_id;
+      INSERT INTO balances ("pubkey", "asset_code", "asset_scale", "amount")
+      VALUES (payee, invoice_asset_code, invoice_asset_scale, amount_received)
+      ON CONFLICT ("pubkey", "asset_code") DO UPDATE
+      SET
+        "amount" = balances.amount
+          + floor(amount_received * power(10::numeric, balances.asset_scale - invoice_asset_scale))::BIGINT,
+        "updated_at" = now_utc();
+  END IF;
+  RETURN 0;
+END;
+$$;`)
+    .raw(`CREATE OR REPLACE FUNCTION charge_user(charged_user BYTEA, charged_asset_code TEXT, charged_asset_scale INTEGER, charged_amount BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_balance BIGINT;
+  current_scale SMALLINT;
+  scaled_amount BIGINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  SELECT "amount", "asset_scale" INTO current_balance, current_scale
+  FROM "balances" WHERE "pubkey" = charged_user AND "asset_code" = charged_asset_code;
+  IF current_balance IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  scaled_amount := ceil(charged_amount * power(10::numeric, current_scale - charged_asset_scale))::BIGINT;
+  IF current_balance - scaled_amount >= 0 THEN
+    UPDATE "balances"
+    SET "amount" = "amount" - scaled_amount, "updated_at" = now_utc()
+    WHERE "pubkey" = charged_user AND "asset_code" = charged_asset_code;
+    RETURN 1;
+  ELSE
+    RETURN 0;
+  END IF;
+END;
+$$;`)
+}
+
+exports.down = async function (knex) {
+  await knex.schema
+    .raw('DROP FUNCTION IF EXISTS charge_user(BYTEA, TEXT, INTEGER, BIGINT);')
+    .raw('DROP FUNCTION IF EXISTS confirm_invoice(TEXT, BIGINT, TIMESTAMP WITHOUT TIME ZONE);')
+    .dropTableIfExists('invoices')
+    .dropTableIfExists('balances')
+    .dropTableIfExists('users')
+    .raw('DROP FUNCTION IF EXISTS ASSERT_SERIALIZED();')
+    .raw('DROP FUNCTION IF EXISTS now_utc();')
+}
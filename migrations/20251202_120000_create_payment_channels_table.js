@@ -0,0 +1,76 @@
+/**
+ * Create payment channels table and claim function
+ *
+ * Payment channels are registered off-chain by the relay. Each signed claim
+ * against a channel must cumulatively exceed the last accepted claim, and the
+ * increase is credited to the balance of the pubkey owning the channel.
+ *
+ * Created:
+ * - payment_channels table
+ * - claim_payment_channel() function
+ */
+
+exports.up = async function (knex) {
+  await knex.schema.createTable('payment_channels', (table) => {
+    table.text('id').primary()
+    table.text('chain').notNullable()
+    table.binary('pubkey').notNullable().index().references('pubkey').inTable('users').onDelete('CASCADE')
+    table.text('sender_key').notNullable()
+    table.text('asset_code').notNullable()
+    table.smallint('asset_scale').notNullable()
+    table.bigint('capacity').notNullable()
+    table.bigint('claimed_amount').notNullable().default(0)
+    table.text('last_signature')
+    table.datetime('expires_at', { useTz: false, precision: 3 })
+    table.timestamps(true, true, false)
+  })
+
+  await knex.schema
+    .raw('ALTER TABLE payment_channels ADD CONSTRAINT payment_channels_claimed_amount_check CHECK (claimed_amount >= 0 AND claimed_amount <= capacity);')
+    .raw(`CREATE OR REPLACE FUNCTION claim_payment_channel(channel_id TEXT, claim_amount BIGINT, claim_signature TEXT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  payee BYTEA;
+  previous_amount BIGINT;
+  channel_asset_code TEXT;
+  channel_asset_scale SMALLINT;
+  increase BIGINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  SELECT "pubkey", "claimed_amount", "asset_code", "asset_scale"
+  INTO payee, previous_amount, channel_asset_code, channel_asset_scale
+  FROM "payment_channels" WHERE id = channel_id
+  FOR UPDATE;
+  IF payee IS NULL OR claim_amount <= previous_amount THEN
+    RETURN 0;
+  END IF;
+
+  increase := claim_amount - previous_amount;
+
+  UPDATE "payment_channels"
+  SET
+    "claimed_amount" = claim_amount,
+    "last_signature" = claim_signature,
+    "updated_at" = now_utc()
+  WHERE id = channel_id;
+  INSERT INTO balances ("pubkey", "asset_code", "asset_scale", "amount")
+  VALUES (payee, channel_asset_code, channel_asset_scale, increase)
+  ON CONFLICT ("pubkey", "asset_code") DO UPDATE
+  SET
+    "amount" = balances.amount
+      + floor(increase * power(10::numeric, balances.asset_scale - channel_asset_scale))::BIGINT,
+    "updated_at" = now_utc();
+
+  RETURN increase;
+END;
+$$;`)
+}
+
+exports.down = async function (knex) {
+  await knex.schema
+    .raw('DROP FUNCTION IF EXISTS claim_payment_channel(TEXT, BIGINT, TEXT);')
+    .dropTableIfExists('payment_channels')
+}
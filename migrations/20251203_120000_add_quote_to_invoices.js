@@ -0,0 +1,113 @@
+/**
+ * Record exchange rate quotes on invoices
+ *
+ * Invoices paid in an asset other than the relay's base asset record the
+ * base asset amount they were quoted for. confirm_invoice() credits that
+ * amount in the base asset, pro rata if underpaid, instead of crediting the
+ * payer's asset.
+ */
+
+exports.up = async function (knex) {
+  await knex.schema.alterTable('invoices', (table) => {
+    table.bigint('quote_amount').unsigned()
+    table.text('quote_asset_code')
+    table.smallint('quote_asset_scale')
+    table.text('quote_rate')
+    table.double('quote_slippage')
+  })
+
+  await knex.schema
+    .raw(`CREATE OR REPLACE FUNCTION confirm_invoice(invoice_id TEXT, amount_received BIGINT, confirmation_date TIMESTAMP WITHOUT TIME ZONE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  payee BYTEA;
+  confirmed_date TIMESTAMP WITHOUT TIME ZONE;
+  credit_asset_code TEXT;
+  credit_asset_scale SMALLINT;
+  credit_amount BIGINT;
+  requested_amount BIGINT;
+  quoted_amount BIGINT;
+  quoted_asset_code TEXT;
+  quoted_asset_scale SMALLINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  SELECT "pubkey", "confirmed_at", "asset_code", "asset_scale", "amount_requested",
+    "quote_amount", "quote_asset_code", "quote_asset_scale"
+  INTO payee, confirmed_date, credit_asset_code, credit_asset_scale, requested_amount,
+    quoted_amount, quoted_asset_code, quoted_asset_scale
+  FROM "invoices" WHERE id = invoice_id;
+  IF confirmed_date IS NULL THEN
+      UPDATE invoices
+      SET
+        "confirmed_at" = confirmation_date,
+        "amount_paid" = amount_received,
+        "updated_at" = now_utc()
+      WHERE id = invoice_id;
+
+      credit_amount := amount_received;
+      IF quoted_amount IS NOT NULL AND requested_amount > 0 THEN
+        credit_asset_code := quoted_asset_code;
+        credit_asset_scale := quoted_asset_scale;
+        credit_amount := floor(quoted_amount * LEAST(amount_received, requested_amount)::numeric / requested_amount)::BIGINT;
+      END IF;
+
+      INSERT INTO balances ("pubkey", "asset_code", "asset_scale", "amount")
+      VALUES (payee, credit_asset_code, credit_asset_scale, credit_amount)
+      ON CONFLICT ("pubkey", "asset_code") DO UPDATE
+      SET
+        "amount" = balances.amount
+          + floor(credit_amount * power(10::numeric, balances.asset_scale - credit_asset_scale))::BIGINT,
+        "updated_at" = now_utc();
+  END IF;
+  RETURN 0;
+END;
+$$;`)
+}
+
+exports.down = async function (knex) {
+  await knex.schema
+    .raw(`CREATE OR REPLACE FUNCTION confirm_invoice(invoice_id TEXT, amount_received BIGINT, confirmation_date TIMESTAMP WITHOUT TIME ZONE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  payee BYTEA;
+  confirmed_date TIMESTAMP WITHOUT TIME ZONE;
+  invoice_asset_code TEXT;
+  invoice_asset_scale SMALLINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  SELECT "pubkey", "confirmed_at", "asset_code", "asset_scale"
+  INTO payee, confirmed_date, invoice_asset_code, invoice_asset_scale
+  FROM "invoices" WHERE id = invoice_id;
+  IF confirmed_date IS NULL THEN
+      UPDATE invoices
+      SET
+        "confirmed_at" = confirmation_date,
+        "amount_paid" = amount_received,
+        "updated_at" = now_utc()
+      WHERE id = invoice_id;
+      INSERT INTO balances ("pubkey", "asset_code", "asset_scale", "amount")
+      VALUES (payee, invoice_asset_code, invoice_asset_scale, amount_received)
+      ON CONFLICT ("pubkey", "asset_code") DO UPDATE
+      SET
+        "amount" = balances.amount
+          + floor(amount_received * power(10::numeric, balances.asset_scale - invoice_asset_scale))::BIGINT,
+        "updated_at" = now_utc();
+  END IF;
+  RETURN 0;
+END;
+$$;`)
+
+  await knex.schema.alterTable('invoices', (table) => {
+    table.dropColumn('quote_amount')
+    table.dropColumn('quote_asset_code')
+    table.dropColumn('quote_asset_scale')
+    table.dropColumn('quote_rate')
+    table.dropColumn('quote_slippage')
+  })
+}
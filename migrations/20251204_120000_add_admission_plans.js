@@ -0,0 +1,27 @@
+/**
+ * Time-boxed admission plans
+ *
+ * Admitted users without an admitted_until timestamp keep their lifetime
+ * admission. Invoices record the admission plan they were issued for so
+ * that confirming them admits the payer for the plan's duration.
+ */
+
+exports.up = async function (knex) {
+  await knex.schema.alterTable('users', (table) => {
+    table.datetime('admitted_until', { useTz: false, precision: 3 })
+  })
+
+  await knex.schema.alterTable('invoices', (table) => {
+    table.text('admission_plan')
+  })
+}
+
+exports.down = async function (knex) {
+  await knex.schema.alterTable('invoices', (table) => {
+    table.dropColumn('admission_plan')
+  })
+
+  await knex.schema.alterTable('users', (table) => {
+    table.dropColumn('admitted_until')
+  })
+}
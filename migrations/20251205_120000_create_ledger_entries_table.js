@@ -0,0 +1,338 @@
+/**
+ * Create double-entry ledger
+ *
+ * Every change to a balance is posted as a ledger transaction of two
+ * entries that sum to zero: one on the pubkey's `user` account, positive
+ * for credits and negative for debits, and one on the relay account on the
+ * other side (`invoices`, `payment_channels`, `revenue` or
+ * `opening_balances`). Amounts are recorded at the scale of the balance
+ * they moved, so a balance always equals the sum of its `user` entries.
+ *
+ * Existing balances are carried over as opening balances.
+ *
+ * Created:
+ * - ledger_entries table
+ * - ledger_transaction_id_seq sequence
+ * - post_ledger_transaction() function
+ *
+ * Replaced:
+ * - confirm_invoice() posts `invoice` and `spsp` credits and returns 1 only if
+ *   it confirmed the invoice
+ * - claim_payment_channel() posts `payment_channel_claim` credits
+ * - charge_user() takes the type and reference of the debit it posts
+ */
+
+exports.up = async function (knex) {
+  await knex.schema.createTable('ledger_entries', (table) => {
+    table.bigIncrements('id')
+    table.bigint('transaction_id').notNullable().index()
+    table.text('account').notNullable()
+    table.binary('pubkey').notNullable()
+    table.text('asset_code').notNullable()
+    table.smallint('asset_scale').notNullable()
+    table.bigint('amount').notNullable()
+    table.text('type').notNullable()
+    table.text('reference')
+    table.datetime('created_at', { useTz: false, precision: 3 }).notNullable().defaultTo(knex.raw('now_utc()'))
+    table.index(['pubkey', 'account', 'asset_code'])
+  })
+
+  await knex.schema
+    .raw('CREATE SEQUENCE ledger_transaction_id_seq;')
+    .raw(`CREATE OR REPLACE FUNCTION post_ledger_transaction(entry_pubkey BYTEA, entry_asset_code TEXT, entry_asset_scale INTEGER, entry_amount BIGINT, counter_account TEXT, entry_type TEXT, entry_reference TEXT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  entry_transaction_id BIGINT;
+BEGIN
+  entry_transaction_id := nextval('ledger_transaction_id_seq');
+
+  INSERT INTO ledger_entries ("transaction_id", "account", "pubkey", "asset_code", "asset_scale", "amount", "type", "reference")
+  VALUES
+    (entry_transaction_id, 'user', entry_pubkey, entry_asset_code, entry_asset_scale, entry_amount, entry_type, entry_reference),
+    (entry_transaction_id, counter_account, entry_pubkey, entry_asset_code, entry_asset_scale, -entry_amount, entry_type, entry_reference);
+
+  RETURN entry_transaction_id;
+END;
+$$;`)
+    .raw(`SELECT post_ledger_transaction("pubkey", "asset_code", "asset_scale", "amount", 'opening_balances', 'opening_balance', NULL)
+FROM "balances" WHERE "amount" <> 0;`)
+    .raw(`CREATE OR REPLACE FUNCTION confirm_invoice(invoice_id TEXT, amount_received BIGINT, confirmation_date TIMESTAMP WITHOUT TIME ZONE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  payee BYTEA;
+  confirmed_date TIMESTAMP WITHOUT TIME ZONE;
+  credit_asset_code TEXT;
+  credit_asset_scale SMALLINT;
+  credit_amount BIGINT;
+  requested_amount BIGINT;
+  quoted_amount BIGINT;
+  quoted_asset_code TEXT;
+  quoted_asset_scale SMALLINT;
+  balance_scale SMALLINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  SELECT "pubkey", "confirmed_at", "asset_code", "asset_scale", "amount_requested",
+    "quote_amount", "quote_asset_code", "quote_asset_scale"
+  INTO payee, confirmed_date, credit_asset_code, credit_asset_scale, requested_amount,
+    quoted_amount, quoted_asset_code, quoted_asset_scale
+  FROM "invoices" WHERE id = invoice_id
+  FOR UPDATE;
+  IF payee IS NULL OR confirmed_date IS NOT NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE invoices
+  SET
+    "confirmed_at" = confirmation_date,
+    "amount_paid" = amount_received,
+    "updated_at" = now_utc()
+  WHERE id = invoice_id;
+
+  credit_amount := amount_received;
+  IF quoted_amount IS NOT NULL AND requested_amount > 0 THEN
+    credit_asset_code := quoted_asset_code;
+    credit_asset_scale := quoted_asset_scale;
+    credit_amount := floor(quoted_amount * LEAST(amount_received, requested_amount)::numeric / requested_amount)::BIGINT;
+  END IF;
+
+  INSERT INTO balances ("pubkey", "asset_code", "asset_scale", "amount")
+  VALUES (payee, credit_asset_code, credit_asset_scale, credit_amount)
+  ON CONFLICT ("pubkey", "asset_code") DO UPDATE
+  SET
+    "amount" = balances.amount
+      + floor(credit_amount * power(10::numeric, balances.asset_scale - credit_asset_scale))::BIGINT,
+    "updated_at" = now_utc()
+  RETURNING "asset_scale" INTO balance_scale;
+  -- Open amount invoices are issued for SPSP payments
+  PERFORM post_ledger_transaction(
+    payee,
+    credit_asset_code,
+    balance_scale,
+    floor(credit_amount * power(10::numeric, balance_scale - credit_asset_scale))::BIGINT,
+    'invoices',
+    CASE WHEN requested_amount = 0 THEN 'spsp' ELSE 'invoice' END,
+    invoice_id
+  );
+
+  RETURN 1;
+END;
+$$;`)
+    .raw(`CREATE OR REPLACE FUNCTION claim_payment_channel(channel_id TEXT, claim_amount BIGINT, claim_signature TEXT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  payee BYTEA;
+  previous_amount BIGINT;
+  channel_asset_code TEXT;
+  channel_asset_scale SMALLINT;
+  increase BIGINT;
+  balance_scale SMALLINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  SELECT "pubkey", "claimed_amount", "asset_code", "asset_scale"
+  INTO payee, previous_amount, channel_asset_code, channel_asset_scale
+  FROM "payment_channels" WHERE id = channel_id
+  FOR UPDATE;
+  IF payee IS NULL OR claim_amount <= previous_amount THEN
+    RETURN 0;
+  END IF;
+
+  increase := claim_amount - previous_amount;
+
+  UPDATE "payment_channels"
+  SET
+    "claimed_amount" = claim_amount,
+    "last_signature" = claim_signature,
+    "updated_at" = now_utc()
+  WHERE id = channel_id;
+  INSERT INTO balances ("pubkey", "asset_code", "asset_scale", "amount")
+  VALUES (payee, channel_asset_code, channel_asset_scale, increase)
+  ON CONFLICT ("pubkey", "asset_code") DO UPDATE
+  SET
+    "amount" = balances.amount
+      + floor(increase * power(10::numeric, balances.asset_scale - channel_asset_scale))::BIGINT,
+    "updated_at" = now_utc()
+  RETURNING "asset_scale" INTO balance_scale;
+  PERFORM post_ledger_transaction(
+    payee,
+    channel_asset_code,
+    balance_scale,
+    floor(increase * power(10::numeric, balance_scale - channel_asset_scale))::BIGINT,
+    'payment_channels',
+    'payment_channel_claim',
+    channel_id
+  );
+
+  RETURN increase;
+END;
+$$;`)
+    .raw('DROP FUNCTION IF EXISTS charge_user(BYTEA, TEXT, INTEGER, BIGINT);')
+    .raw(`CREATE OR REPLACE FUNCTION charge_user(charged_user BYTEA, charged_asset_code TEXT, charged_asset_scale INTEGER, charged_amount BIGINT, charge_type TEXT, charge_reference TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_balance BIGINT;
+  current_scale SMALLINT;
+  scaled_amount BIGINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  SELECT "amount", "asset_scale" INTO current_balance, current_scale
+  FROM "balances" WHERE "pubkey" = charged_user AND "asset_code" = charged_asset_code;
+  IF current_balance IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  scaled_amount := ceil(charged_amount * power(10::numeric, current_scale - charged_asset_scale))::BIGINT;
+  IF current_balance - scaled_amount >= 0 THEN
+    UPDATE "balances"
+    SET "amount" = "amount" - scaled_amount, "updated_at" = now_utc()
+    WHERE "pubkey" = charged_user AND "asset_code" = charged_asset_code;
+    PERFORM post_ledger_transaction(
+      charged_user,
+      charged_asset_code,
+      current_scale,
+      -scaled_amount,
+      'revenue',
+      charge_type,
+      charge_reference
+    );
+    RETURN 1;
+  ELSE
+    RETURN 0;
+  END IF;
+END;
+$$;`)
+}
+
+exports.down = async function (knex) {
+  await knex.schema
+    .raw('DROP FUNCTION IF EXISTS charge_user(BYTEA, TEXT, INTEGER, BIGINT, TEXT, TEXT);')
+    .raw(`CREATE OR REPLACE FUNCTION charge_user(charged_user BYTEA, charged_asset_code TEXT, charged_asset_scale INTEGER, charged_amount BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_balance BIGINT;
+  current_scale SMALLINT;
+  scaled_amount BIGINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  SELECT "amount", "asset_scale" INTO current_balance, current_scale
+  FROM "balances" WHERE "pubkey" = charged_user AND "asset_code" = charged_asset_code;
+  IF current_balance IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  scaled_amount := ceil(charged_amount * power(10::numeric, current_scale - charged_asset_scale))::BIGINT;
+  IF current_balance - scaled_amount >= 0 THEN
+    UPDATE "balances"
+    SET "amount" = "amount" - scaled_amount, "updated_at" = now_utc()
+    WHERE "pubkey" = charged_user AND "asset_code" = charged_asset_code;
+    RETURN 1;
+  ELSE
+    RETURN 0;
+  END IF;
+END;
+$$;`)
+    .raw(`CREATE OR REPLACE FUNCTION claim_payment_channel(channel_id TEXT, claim_amount BIGINT, claim_signature TEXT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  payee BYTEA;
+  previous_amount BIGINT;
+  channel_asset_code TEXT;
+  channel_asset_scale SMALLINT;
+  increase BIGINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  SELECT "pubkey", "claimed_amount", "asset_code", "asset_scale"
+  INTO payee, previous_amount, channel_asset_code, channel_asset_scale
+  FROM "payment_channels" WHERE id = channel_id
+  FOR UPDATE;
+  IF payee IS NULL OR claim_amount <= previous_amount THEN
+    RETURN 0;
+  END IF;
+
+  increase := claim_amount - previous_amount;
+
+  UPDATE "payment_channels"
+  SET
+    "claimed_amount" = claim_amount,
+    "last_signature" = claim_signature,
+    "updated_at" = now_utc()
+  WHERE id = channel_id;
+  INSERT INTO balances ("pubkey", "asset_code", "asset_scale", "amount")
+  VALUES (payee, channel_asset_code, channel_asset_scale, increase)
+  ON CONFLICT ("pubkey", "asset_code") DO UPDATE
+  SET
+    "amount" = balances.amount
+      + floor(increase * power(10::numeric, balances.asset_scale - channel_asset_scale))::BIGINT,
+    "updated_at" = now_utc();
+
+  RETURN increase;
+END;
+$$;`)
+    .raw(`CREATE OR REPLACE FUNCTION confirm_invoice(invoice_id TEXT, amount_received BIGINT, confirmation_date TIMESTAMP WITHOUT TIME ZONE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  payee BYTEA;
+  confirmed_date TIMESTAMP WITHOUT TIME ZONE;
+  credit_asset_code TEXT;
+  credit_asset_scale SMALLINT;
+  credit_amount BIGINT;
+  requested_amount BIGINT;
+  quoted_amount BIGINT;
+  quoted_asset_code TEXT;
+  quoted_asset_scale SMALLINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  SELECT "pubkey", "confirmed_at", "asset_code", "asset_scale", "amount_requested",
+    "quote_amount", "quote_asset_code", "quote_asset_scale"
+  INTO payee, confirmed_date, credit_asset_code, credit_asset_scale, requested_amount,
+    quoted_amount, quoted_asset_code, quoted_asset_scale
+  FROM "invoices" WHERE id = invoice_id;
+  IF confirmed_date IS NULL THEN
+      UPDATE invoices
+      SET
+        "confirmed_at" = confirmation_date,
+        "amount_paid" = amount_received,
+        "updated_at" = now_utc()
+      WHERE id = invoice_id;
+
+      credit_amount := amount_received;
+      IF quoted_amount IS NOT NULL AND requested_amount > 0 THEN
+        credit_asset_code := quoted_asset_code;
+        credit_asset_scale := quoted_asset_scale;
+        credit_amount := floor(quoted_amount * LEAST(amount_received, requested_amount)::numeric / requested_amount)::BIGINT;
+      END IF;
+
+      INSERT INTO balances ("pubkey", "asset_code", "asset_scale", "amount")
+      VALUES (payee, credit_asset_code, credit_asset_scale, credit_amount)
+      ON CONFLICT ("pubkey", "asset_code") DO UPDATE
+      SET
+        "amount" = balances.amount
+          + floor(credit_amount * power(10::numeric, balances.asset_scale - credit_asset_scale))::BIGINT,
+        "updated_at" = now_utc();
+  END IF;
+  RETURN 0;
+END;
+$$;`)
+    .raw('DROP FUNCTION IF EXISTS post_ledger_transaction(BYTEA, TEXT, INTEGER, BIGINT, TEXT, TEXT, TEXT);')
+    .raw('DROP SEQUENCE IF EXISTS ledger_transaction_id_seq;')
+    .dropTableIfExists('ledger_entries')
+}
@@ -0,0 +1,137 @@
+/**
+ * Withdrawals of unused balance
+ *
+ * Requesting a withdrawal debits the balance up front so that it can't be
+ * spent while the outgoing payment is in flight. Completing it refunds the
+ * part of the amount that could not be sent.
+ *
+ * Created:
+ * - withdrawals table
+ * - request_withdrawal() function
+ * - complete_withdrawal() function
+ */
+
+exports.up = async function (knex) {
+  await knex.schema.createTable('withdrawals', (table) => {
+    table.text('id').primary()
+    table.binary('pubkey').notNullable().index()
+    table.text('payment_pointer').notNullable()
+    table.text('asset_code').notNullable()
+    table.smallint('asset_scale').notNullable()
+    table.bigint('amount').notNullable()
+    table.bigint('amount_sent')
+    table.text('status').notNullable()
+    table.text('payment_id')
+    table.datetime('completed_at', { useTz: false, precision: 3 })
+    table.datetime('updated_at', { useTz: false, precision: 3 }).notNullable().defaultTo(knex.raw('now_utc()'))
+    table.datetime('created_at', { useTz: false, precision: 3 }).notNullable().defaultTo(knex.raw('now_utc()'))
+  })
+
+  await knex.schema
+    .raw(`CREATE OR REPLACE FUNCTION request_withdrawal(withdrawal_id TEXT, withdrawing_user BYTEA, withdrawal_payment_pointer TEXT, withdrawal_asset_code TEXT, withdrawal_asset_scale INTEGER, withdrawal_amount BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_balance BIGINT;
+  current_scale SMALLINT;
+  scaled_amount BIGINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  IF withdrawal_amount <= 0 OR EXISTS (SELECT 1 FROM "withdrawals" WHERE id = withdrawal_id) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT "amount", "asset_scale" INTO current_balance, current_scale
+  FROM "balances" WHERE "pubkey" = withdrawing_user AND "asset_code" = withdrawal_asset_code;
+  IF current_balance IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  scaled_amount := ceil(withdrawal_amount * power(10::numeric, current_scale - withdrawal_asset_scale))::BIGINT;
+  IF current_balance - scaled_amount < 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE "balances"
+  SET "amount" = "amount" - scaled_amount, "updated_at" = now_utc()
+  WHERE "pubkey" = withdrawing_user AND "asset_code" = withdrawal_asset_code;
+  INSERT INTO "withdrawals" ("id", "pubkey", "payment_pointer", "asset_code", "asset_scale", "amount", "status")
+  VALUES (withdrawal_id, withdrawing_user, withdrawal_payment_pointer, withdrawal_asset_code, withdrawal_asset_scale, withdrawal_amount, 'pending');
+  PERFORM post_ledger_transaction(
+    withdrawing_user,
+    withdrawal_asset_code,
+    current_scale,
+    -scaled_amount,
+    'withdrawals',
+    'withdrawal',
+    withdrawal_id
+  );
+  RETURN 1;
+END;
+$$;`)
+    .raw(`CREATE OR REPLACE FUNCTION complete_withdrawal(withdrawal_id TEXT, withdrawal_amount_sent BIGINT, withdrawal_payment_id TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  withdrawing_user BYTEA;
+  withdrawal_asset_code TEXT;
+  withdrawal_asset_scale SMALLINT;
+  withdrawal_amount BIGINT;
+  withdrawal_status TEXT;
+  current_scale SMALLINT;
+  refund BIGINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  SELECT "pubkey", "asset_code", "asset_scale", "amount", "status"
+  INTO withdrawing_user, withdrawal_asset_code, withdrawal_asset_scale, withdrawal_amount, withdrawal_status
+  FROM "withdrawals" WHERE id = withdrawal_id
+  FOR UPDATE;
+  IF withdrawal_status IS DISTINCT FROM 'pending' THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE "withdrawals"
+  SET
+    "amount_sent" = withdrawal_amount_sent,
+    "payment_id" = withdrawal_payment_id,
+    "status" = CASE WHEN withdrawal_amount_sent > 0 THEN 'completed' ELSE 'failed' END,
+    "completed_at" = now_utc(),
+    "updated_at" = now_utc()
+  WHERE id = withdrawal_id;
+
+  SELECT "asset_scale" INTO current_scale
+  FROM "balances" WHERE "pubkey" = withdrawing_user AND "asset_code" = withdrawal_asset_code;
+
+  -- Refunds what was debited less what was sent, both rounded up as when debited
+  refund := ceil(withdrawal_amount * power(10::numeric, current_scale - withdrawal_asset_scale))::BIGINT
+    - ceil(withdrawal_amount_sent * power(10::numeric, current_scale - withdrawal_asset_scale))::BIGINT;
+  IF refund > 0 THEN
+    UPDATE "balances"
+    SET "amount" = "amount" + refund, "updated_at" = now_utc()
+    WHERE "pubkey" = withdrawing_user AND "asset_code" = withdrawal_asset_code;
+    PERFORM post_ledger_transaction(
+      withdrawing_user,
+      withdrawal_asset_code,
+      current_scale,
+      refund,
+      'withdrawals',
+      'withdrawal_refund',
+      withdrawal_id
+    );
+  END IF;
+  RETURN 1;
+END;
+$$;`)
+}
+
+exports.down = async function (knex) {
+  await knex.schema
+    .raw('DROP FUNCTION IF EXISTS complete_withdrawal(TEXT, BIGINT, TEXT);')
+    .raw('DROP FUNCTION IF EXISTS request_withdrawal(TEXT, BYTEA, TEXT, TEXT, INTEGER, BIGINT);')
+
+  await knex.schema.dropTable('withdrawals')
+}
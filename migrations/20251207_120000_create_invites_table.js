@@ -0,0 +1,219 @@
+/**
+ * Invites issued as kind 50 events
+ *
+ * The id of the invite event doubles as the invite code. Invites without an
+ * amount admit the pubkey redeeming them; vouchers credit it instead.
+ *
+ * Voucher credit is the relay's to give, not the pubkey's to take out, so
+ * only the part of a balance that was paid in may be withdrawn.
+ *
+ * Created:
+ * - invites table
+ * - invite_redemptions table
+ * - redeem_invite() function
+ * - get_withdrawable_balance() function
+ *
+ * Replaced:
+ * - request_withdrawal() withdraws no more than get_withdrawable_balance()
+ */
+
+exports.up = async function (knex) {
+  await knex.schema.createTable('invites', (table) => {
+    table.text('id').primary()
+    table.binary('issuer').notNullable().index()
+    table.binary('invitee')
+    table.integer('max_uses').notNullable()
+    table.integer('uses').notNullable().defaultTo(0)
+    table.bigint('amount')
+    table.text('asset_code').notNullable()
+    table.smallint('asset_scale').notNullable()
+    table.datetime('expires_at', { useTz: false, precision: 3 })
+    table.datetime('updated_at', { useTz: false, precision: 3 }).notNullable().defaultTo(knex.raw('now_utc()'))
+    table.datetime('created_at', { useTz: false, precision: 3 }).notNullable().defaultTo(knex.raw('now_utc()'))
+  })
+
+  await knex.schema.createTable('invite_redemptions', (table) => {
+    table.text('invite_id').notNullable().references('id').inTable('invites').onDelete('CASCADE')
+    table.binary('pubkey').notNullable()
+    table.datetime('created_at', { useTz: false, precision: 3 }).notNullable().defaultTo(knex.raw('now_utc()'))
+    table.primary(['invite_id', 'pubkey'])
+  })
+
+  await knex.schema
+    .raw(`CREATE OR REPLACE FUNCTION redeem_invite(redeemed_invite_id TEXT, redeemer BYTEA)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  invite_invitee BYTEA;
+  invite_max_uses INTEGER;
+  invite_uses INTEGER;
+  invite_amount BIGINT;
+  invite_asset_code TEXT;
+  invite_asset_scale SMALLINT;
+  invite_expires_at TIMESTAMP WITHOUT TIME ZONE;
+  balance_scale SMALLINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  SELECT "invitee", "max_uses", "uses", "amount", "asset_code", "asset_scale", "expires_at"
+  INTO invite_invitee, invite_max_uses, invite_uses, invite_amount, invite_asset_code, invite_asset_scale, invite_expires_at
+  FROM "invites" WHERE id = redeemed_invite_id
+  FOR UPDATE;
+  IF invite_max_uses IS NULL
+    OR invite_uses >= invite_max_uses
+    OR (invite_expires_at IS NOT NULL AND invite_expires_at <= now_utc())
+    OR (invite_invitee IS NOT NULL AND invite_invitee <> redeemer)
+    OR EXISTS (SELECT 1 FROM "invite_redemptions" WHERE "invite_id" = redeemed_invite_id AND "pubkey" = redeemer)
+  THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE "invites"
+  SET "uses" = "uses" + 1, "updated_at" = now_utc()
+  WHERE id = redeemed_invite_id;
+  INSERT INTO "invite_redemptions" ("invite_id", "pubkey") VALUES (redeemed_invite_id, redeemer);
+
+  IF invite_amount > 0 THEN
+    INSERT INTO balances ("pubkey", "asset_code", "asset_scale", "amount")
+    VALUES (redeemer, invite_asset_code, invite_asset_scale, invite_amount)
+    ON CONFLICT ("pubkey", "asset_code") DO UPDATE
+    SET
+      "amount" = balances.amount
+        + floor(invite_amount * power(10::numeric, balances.asset_scale - invite_asset_scale))::BIGINT,
+      "updated_at" = now_utc()
+    RETURNING "asset_scale" INTO balance_scale;
+    PERFORM post_ledger_transaction(
+      redeemer,
+      invite_asset_code,
+      balance_scale,
+      floor(invite_amount * power(10::numeric, balance_scale - invite_asset_scale))::BIGINT,
+      'invites',
+      'invite',
+      redeemed_invite_id
+    );
+  END IF;
+  RETURN 1;
+END;
+$$;`)
+    .raw(`CREATE OR REPLACE FUNCTION get_withdrawable_balance(withdrawing_user BYTEA, withdrawal_asset_code TEXT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_balance BIGINT;
+  paid_in BIGINT;
+BEGIN
+  SELECT "amount" INTO current_balance
+  FROM "balances" WHERE "pubkey" = withdrawing_user AND "asset_code" = withdrawal_asset_code;
+  IF current_balance IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- What was paid in less what was paid out. Ledger entries of a balance are
+  -- all recorded at its scale.
+  SELECT COALESCE(sum("amount"), 0) INTO paid_in
+  FROM "ledger_entries"
+  WHERE "pubkey" = withdrawing_user
+    AND "account" = 'user'
+    AND "asset_code" = withdrawal_asset_code
+    AND "type" IN ('opening_balance', 'invoice', 'spsp', 'payment_channel_claim', 'withdrawal', 'withdrawal_refund');
+
+  RETURN GREATEST(LEAST(current_balance, paid_in), 0);
+END;
+$$;`)
+    .raw(`CREATE OR REPLACE FUNCTION request_withdrawal(withdrawal_id TEXT, withdrawing_user BYTEA, withdrawal_payment_pointer TEXT, withdrawal_asset_code TEXT, withdrawal_asset_scale INTEGER, withdrawal_amount BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_scale SMALLINT;
+  scaled_amount BIGINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  IF withdrawal_amount <= 0 OR EXISTS (SELECT 1 FROM "withdrawals" WHERE id = withdrawal_id) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT "asset_scale" INTO current_scale
+  FROM "balances" WHERE "pubkey" = withdrawing_user AND "asset_code" = withdrawal_asset_code;
+  IF current_scale IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  scaled_amount := ceil(withdrawal_amount * power(10::numeric, current_scale - withdrawal_asset_scale))::BIGINT;
+  IF get_withdrawable_balance(withdrawing_user, withdrawal_asset_code) - scaled_amount < 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE "balances"
+  SET "amount" = "amount" - scaled_amount, "updated_at" = now_utc()
+  WHERE "pubkey" = withdrawing_user AND "asset_code" = withdrawal_asset_code;
+  INSERT INTO "withdrawals" ("id", "pubkey", "payment_pointer", "asset_code", "asset_scale", "amount", "status")
+  VALUES (withdrawal_id, withdrawing_user, withdrawal_payment_pointer, withdrawal_asset_code, withdrawal_asset_scale, withdrawal_amount, 'pending');
+  PERFORM post_ledger_transaction(
+    withdrawing_user,
+    withdrawal_asset_code,
+    current_scale,
+    -scaled_amount,
+    'withdrawals',
+    'withdrawal',
+    withdrawal_id
+  );
+  RETURN 1;
+END;
+$$;`)
+}
+
+exports.down = async function (knex) {
+  await knex.schema
+    .raw('DROP FUNCTION IF EXISTS redeem_invite(TEXT, BYTEA);')
+    .raw(`CREATE OR REPLACE FUNCTION request_withdrawal(withdrawal_id TEXT, withdrawing_user BYTEA, withdrawal_payment_pointer TEXT, withdrawal_asset_code TEXT, withdrawal_asset_scale INTEGER, withdrawal_amount BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_balance BIGINT;
+  current_scale SMALLINT;
+  scaled_amount BIGINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  IF withdrawal_amount <= 0 OR EXISTS (SELECT 1 FROM "withdrawals" WHERE id = withdrawal_id) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT "amount", "asset_scale" INTO current_balance, current_scale
+  FROM "balances" WHERE "pubkey" = withdrawing_user AND "asset_code" = withdrawal_asset_code;
+  IF current_balance IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  scaled_amount := ceil(withdrawal_amount * power(10::numeric, current_scale - withdrawal_asset_scale))::BIGINT;
+  IF current_balance - scaled_amount < 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE "balances"
+  SET "amount" = "amount" - scaled_amount, "updated_at" = now_utc()
+  WHERE "pubkey" = withdrawing_user AND "asset_code" = withdrawal_asset_code;
+  INSERT INTO "withdrawals" ("id", "pubkey", "payment_pointer", "asset_code", "asset_scale", "amount", "status")
+  VALUES (withdrawal_id, withdrawing_user, withdrawal_payment_pointer, withdrawal_asset_code, withdrawal_asset_scale, withdrawal_amount, 'pending');
+  PERFORM post_ledger_transaction(
+    withdrawing_user,
+    withdrawal_asset_code,
+    current_scale,
+    -scaled_amount,
+    'withdrawals',
+    'withdrawal',
+    withdrawal_id
+  );
+  RETURN 1;
+END;
+$$;`)
+    .raw('DROP FUNCTION IF EXISTS get_withdrawable_balance(BYTEA, TEXT);')
+
+  await knex.schema.dropTable('invite_redemptions')
+  await knex.schema.dropTable('invites')
+}
@@ -0,0 +1,93 @@
+/**
+ * Proof of work accumulated by pubkeys
+ *
+ * Work is accumulated as the expected number of hashes, 2^difficulty, so an
+ * event one bit more difficult counts as much as two events. Each event
+ * counts once.
+ *
+ * Credit for work is posted as proof_of_work ledger entries, which
+ * get_withdrawable_balance() leaves out: it can be spent but not withdrawn.
+ *
+ * Created:
+ * - users.proof_of_work column
+ * - proofs_of_work table
+ * - add_proof_of_work() function
+ */
+
+exports.up = async function (knex) {
+  await knex.schema.alterTable('users', (table) => {
+    table.decimal('proof_of_work', null).notNullable().defaultTo(0)
+  })
+
+  await knex.schema.createTable('proofs_of_work', (table) => {
+    table.text('event_id').primary()
+    table.binary('pubkey').notNullable().index()
+    table.integer('difficulty').notNullable()
+    table.datetime('created_at', { useTz: false, precision: 3 }).notNullable().defaultTo(knex.raw('now_utc()'))
+  })
+
+  await knex.schema
+    .raw(`CREATE OR REPLACE FUNCTION add_proof_of_work(worker BYTEA, work_event_id TEXT, work_difficulty INTEGER, admission_difficulty INTEGER, credit_asset_code TEXT, credit_asset_scale INTEGER, credit_amount BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  total_work NUMERIC;
+  balance_scale SMALLINT;
+BEGIN
+  PERFORM ASSERT_SERIALIZED();
+
+  INSERT INTO "proofs_of_work" ("event_id", "pubkey", "difficulty")
+  VALUES (work_event_id, worker, work_difficulty)
+  ON CONFLICT DO NOTHING;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO "users" ("pubkey", "proof_of_work")
+  VALUES (worker, power(2::numeric, work_difficulty))
+  ON CONFLICT ("pubkey") DO UPDATE
+  SET
+    "proof_of_work" = users.proof_of_work + power(2::numeric, work_difficulty),
+    "updated_at" = now_utc()
+  RETURNING "proof_of_work" INTO total_work;
+
+  IF admission_difficulty IS NOT NULL AND total_work >= power(2::numeric, admission_difficulty) THEN
+    UPDATE "users"
+    SET "is_admitted" = true, "admitted_until" = NULL, "updated_at" = now_utc()
+    WHERE "pubkey" = worker AND NOT ("is_admitted" AND "admitted_until" IS NULL);
+  END IF;
+
+  IF credit_amount > 0 THEN
+    INSERT INTO balances ("pubkey", "asset_code", "asset_scale", "amount")
+    VALUES (worker, credit_asset_code, credit_asset_scale, credit_amount)
+    ON CONFLICT ("pubkey", "asset_code") DO UPDATE
+    SET
+      "amount" = balances.amount
+        + floor(credit_amount * power(10::numeric, balances.asset_scale - credit_asset_scale))::BIGINT,
+      "updated_at" = now_utc()
+    RETURNING "asset_scale" INTO balance_scale;
+    PERFORM post_ledger_transaction(
+      worker,
+      credit_asset_code,
+      balance_scale,
+      floor(credit_amount * power(10::numeric, balance_scale - credit_asset_scale))::BIGINT,
+      'proof_of_work',
+      'proof_of_work',
+      work_event_id
+    );
+  END IF;
+  RETURN 1;
+END;
+$$;`)
+}
+
+exports.down = async function (knex) {
+  await knex.schema.raw('DROP FUNCTION IF EXISTS add_proof_of_work(BYTEA, TEXT, INTEGER, INTEGER, TEXT, INTEGER, BIGINT);')
+
+  await knex.schema.dropTable('proofs_of_work')
+
+  await knex.schema.alterTable('users', (table) => {
+    table.dropColumn('proof_of_work')
+  })
+}
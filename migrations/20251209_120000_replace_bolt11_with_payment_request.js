@@ -0,0 +1,67 @@
+/**
+ * Generic payment requests on invoices
+ *
+ * Invoices carried STREAM credentials encoded as a query string in the
+ * bolt11 column. They now carry a payment request describing how to pay them:
+ * STREAM credentials, a payment pointer or a payment channel to claim on.
+ *
+ * Created:
+ * - invoices.payment_request column
+ *
+ * Dropped:
+ * - invoices.bolt11 column
+ */
+
+exports.up = async function (knex) {
+  await knex.schema.alterTable('invoices', (table) => {
+    table.jsonb('payment_request')
+  })
+
+  const invoices = await knex('invoices').select('id', 'bolt11').whereNot('bolt11', '')
+  for (const { id, bolt11 } of invoices) {
+    const params = new URLSearchParams(bolt11)
+    if (!params.has('destination_account') || !params.has('shared_secret')) {
+      continue
+    }
+
+    await knex('invoices')
+      .where('id', id)
+      .update({
+        payment_request: {
+          type: 'stream',
+          destinationAccount: params.get('destination_account'),
+          sharedSecret: params.get('shared_secret'),
+        },
+      })
+  }
+
+  await knex.schema.alterTable('invoices', (table) => {
+    table.dropColumn('bolt11')
+  })
+}
+
+exports.down = async function (knex) {
+  await knex.schema.alterTable('invoices', (table) => {
+    table.text('bolt11').notNullable().defaultTo('')
+  })
+
+  const invoices = await knex('invoices').select('id', 'payment_request').whereNotNull('payment_request')
+  for (const { id, payment_request: paymentRequest } of invoices) {
+    if (paymentRequest.type !== 'stream') {
+      continue
+    }
+
+    await knex('invoices')
+      .where('id', id)
+      .update({
+        bolt11: new URLSearchParams({
+          destination_account: paymentRequest.destinationAccount,
+          shared_secret: paymentRequest.sharedSecret,
+        }).toString(),
+      })
+  }
+
+  await knex.schema.alterTable('invoices', (table) => {
+    table.dropColumn('payment_request')
+  })
+}
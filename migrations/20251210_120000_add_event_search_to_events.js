@@ -0,0 +1,76 @@
+/**
+ * Full-text search over event content (NIP-50)
+ *
+ * Content is split into words of letters and digits before it is indexed, as
+ * live events are when matched against subscriptions. The simple text search
+ * configuration lowercases words without stemming them.
+ *
+ * The column is filled by a trigger for new events and in batches for
+ * existing ones, and the index is built concurrently, so that events stay
+ * writable while the migration runs. It therefore runs outside of a
+ * transaction and can be run again if interrupted.
+ *
+ * Created:
+ * - events.event_search column
+ * - set_event_search function and trigger
+ * - event_search_idx index
+ */
+
+const BATCH_SIZE = 10000
+
+const toEventSearch = (content) =>
+  `to_tsvector('simple'::regconfig, regexp_replace(${content}, '[^[:alnum:]]+', ' ', 'g'))`
+
+exports.config = { transaction: false }
+
+exports.up = async function (knex) {
+  await knex.raw('ALTER TABLE events ADD COLUMN IF NOT EXISTS event_search tsvector;')
+
+  await knex.raw(
+    `CREATE OR REPLACE FUNCTION set_event_search() RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.event_search := ${toEventSearch('NEW.event_content')};
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS set_event_search ON events;
+
+    CREATE TRIGGER set_event_search
+    BEFORE INSERT OR UPDATE OF event_content ON events
+    FOR EACH ROW
+    EXECUTE FUNCTION set_event_search();
+  `)
+
+  let updatedEvents = 0
+  for (;;) {
+    const { rowCount } = await knex.raw(
+      `UPDATE events SET event_search = ${toEventSearch('event_content')}
+      WHERE id IN (SELECT id FROM events WHERE event_search IS NULL LIMIT ?);`,
+      [BATCH_SIZE],
+    )
+    if (!rowCount) {
+      break
+    }
+
+    updatedEvents += rowCount
+    console.log(`${new Date().toLocaleString()} Migration progress: ${updatedEvents} events indexed for search`)
+  }
+
+  // An interrupted concurrent build leaves an invalid index behind
+  const { rows: invalidIndexes } = await knex.raw(
+    'SELECT 1 FROM pg_index WHERE indexrelid = to_regclass(\'event_search_idx\') AND NOT indisvalid;',
+  )
+  if (invalidIndexes.length) {
+    await knex.raw('DROP INDEX CONCURRENTLY event_search_idx;')
+  }
+
+  await knex.raw('CREATE INDEX CONCURRENTLY IF NOT EXISTS event_search_idx ON events USING GIN ( event_search );')
+}
+
+exports.down = async function (knex) {
+  await knex.raw('DROP INDEX CONCURRENTLY IF EXISTS event_search_idx;')
+  await knex.raw('DROP TRIGGER IF EXISTS set_event_search ON events;')
+  await knex.raw('DROP FUNCTION IF EXISTS set_event_search();')
+  await knex.raw('ALTER TABLE events DROP COLUMN IF EXISTS event_search;')
+}
@@ -1,4 +1,5 @@
 import { EventEmitter } from 'node:stream'
+import { Pubkey } from './base'
 import { SubscriptionFilter } from './subscription'
 
 export interface IWebSocketServerAdapter extends EventEmitter, IWebServerAdapter {
@@ -16,6 +17,8 @@ export type IWebSocketAdapter = EventEmitter & {
   getClientId(): string
   getClientAddress(): string
   getSubscriptions(): Map<string, SubscriptionFilter[]>
+  getAuthenticatedPubkeys(): Pubkey[]
+  getAuthChallenge(): string
 }
 
 export interface ICacheAdapter {
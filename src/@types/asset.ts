@@ -0,0 +1,8 @@
+export interface Asset {
+  assetCode: string
+  assetScale: number
+}
+
+export interface AssetAmount extends Asset {
+  amount: bigint
+}
@@ -1,12 +1,14 @@
-import { Invoice, InvoiceStatus, InvoiceUnit } from './invoice'
+import { Invoice, InvoiceStatus, PaymentRequest } from './invoice'
+import { Asset } from './asset'
+import { EventEmitter } from 'stream'
+import { Schema } from 'joi'
 
-export interface CreateInvoiceResponse {
+export interface CreateInvoiceResponse extends Asset {
   id: string
   pubkey: string
-  bolt11: string
+  paymentRequest: PaymentRequest | null
   amountRequested: bigint
   description: string
-  unit: InvoiceUnit
   status: InvoiceStatus
   expiresAt: Date | null
   confirmedAt?: Date | null
@@ -15,7 +17,10 @@ export interface CreateInvoiceResponse {
   verifyURL?: string
 }
 
-export interface CreateInvoiceRequest {
+export interface CreateInvoiceRequest extends Asset {
+  /**
+   * Zero for invoices that accept any amount, e.g. balance top-ups
+   */
   amount: bigint
   description?: string
   requestId?: string
@@ -23,7 +28,108 @@ export interface CreateInvoiceRequest {
 
 export type GetInvoiceResponse = Partial<Invoice>
 
-export interface IPaymentsProcessor {
+export interface SendPaymentRequest extends Asset {
+  paymentPointer: string
+  amount: bigint
+}
+
+export interface SendPaymentResponse extends Asset {
+  id: string
+  /**
+   * May fall short of the amount requested if the payment could not complete
+   */
+  amountSent: bigint
+}
+
+/**
+ * Processors that learn about payments as they arrive emit
+ * `PaymentsProcessorEvent.PaymentReceived` with the completed invoice
+ */
+export interface IPaymentsProcessor extends EventEmitter {
+  /**
+   * Asset the processor receives payments in, if it only receives one
+   */
+  getAsset?(): Promise<Asset>
   createInvoice(request: CreateInvoiceRequest): Promise<CreateInvoiceResponse>
   getInvoice(invoice: string | Invoice): Promise<GetInvoiceResponse>
+  sendPayment(request: SendPaymentRequest): Promise<SendPaymentResponse>
+}
+
+export interface PaymentsProcessorRegistration {
+  /**
+   * Value of `payments.processor` selecting this processor
+   */
+  name: string
+  /**
+   * Schema for the processor settings under `paymentsProcessors.<name>`
+   */
+  settingsSchema: Schema
+  create(): IPaymentsProcessor
+}
+
+export interface CreateIlpReceiverRequest extends Asset {
+  /**
+   * Zero for receivers that accept any amount
+   */
+  amount: bigint
+  expiresAt: Date
+  description?: string
+}
+
+export interface IlpReceiver extends Asset {
+  id: string
+  destinationAccount: string
+  /**
+   * Base64-encoded STREAM shared secret
+   */
+  sharedSecret: string
+  amount: bigint
+  amountReceived: bigint
+  expiresAt: Date
+  createdAt: Date
+}
+
+export interface IlpIncomingPayment {
+  id: string
+  receiverId: string
+  amount: bigint
+  receivedAt: Date
+}
+
+export interface CreateIlpOutgoingPaymentRequest extends Asset {
+  paymentPointer: string
+  amount: bigint
+}
+
+export interface IlpOutgoingPayment extends Asset {
+  id: string
+  paymentPointer: string
+  amount: bigint
+  amountSent: bigint
+  createdAt: Date
+}
+
+export enum IlpSettlementStatus {
+  PENDING = 'pending',
+  SETTLED = 'settled',
+}
+
+/**
+ * Admin/RPC interface of a local ILP connector (e.g. a Dassie node)
+ */
+export interface IIlpConnectorClient {
+  createReceiver(request: CreateIlpReceiverRequest): Promise<IlpReceiver>
+  getReceiver(receiverId: string): Promise<IlpReceiver | undefined>
+  getIncomingPayments(receiverId: string): Promise<IlpIncomingPayment[]>
+  getSettlementStatus(receiverId: string): Promise<IlpSettlementStatus>
+  sendPayment(request: CreateIlpOutgoingPaymentRequest): Promise<IlpOutgoingPayment>
+}
+
+export interface SpspResponse {
+  destinationAccount: string
+  sharedSecret: Buffer
+}
+
+export interface ISpspClient {
+  query(paymentPointer: string): Promise<SpspResponse>
 }
@@ -1,5 +1,12 @@
 import { ContextMetadata, EventId, Pubkey, Tag } from './base'
-import { ContextMetadataKey, EventDeduplicationMetadataKey, EventExpirationTimeMetadataKey, EventKinds } from '../constants/base'
+import {
+  ContextMetadataKey,
+  EventDeduplicationMetadataKey,
+  EventExpirationTimeMetadataKey,
+  EventKinds,
+  EventPublicationFeeMetadataKey,
+} from '../constants/base'
+import { AssetAmount } from './asset'
 
 export interface BaseEvent {
   id: EventId
@@ -25,10 +32,23 @@ export interface ExpiringEvent extends Event {
   [EventExpirationTimeMetadataKey]?: number
 }
 
+export interface PaidEvent extends Event {
+  [EventPublicationFeeMetadataKey]?: AssetAmount
+}
+
 export interface ParameterizedReplaceableEvent extends Event {
   [EventDeduplicationMetadataKey]: string[]
 }
 
+/**
+ * Coordinates of a parameterized replaceable event, as referenced by `a` tags
+ */
+export interface EventAddress {
+  kind: EventKinds
+  pubkey: Pubkey
+  identifier: string
+}
+
 export interface DBEvent {
   id: string
   event_id: Buffer
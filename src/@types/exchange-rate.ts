@@ -0,0 +1,28 @@
+import { Asset, AssetAmount } from './asset'
+
+/**
+ * Price of one whole unit of each asset code in whole units of the relay's
+ * base asset, as decimal strings (e.g. `{ XRP: '0.0000085' }` for a BTC relay)
+ */
+export type ExchangeRateTable = Record<string, string>
+
+export interface IExchangeRateSource {
+  getRates(): Promise<ExchangeRateTable>
+}
+
+export interface Quote {
+  /**
+   * Amount to pay in the payer's asset, slippage margin included
+   */
+  amount: AssetAmount
+  /**
+   * Amount being paid for in the relay's base asset
+   */
+  baseAmount: AssetAmount
+  rate: string
+  slippage: number
+}
+
+export interface IExchangeRateService {
+  quote(amount: bigint, asset: Asset): Promise<Quote>
+}
@@ -0,0 +1,38 @@
+import { Asset } from './asset'
+import { Pubkey } from './base'
+
+/**
+ * Invite issued as a kind 50 event. Its id is the id of the event and
+ * doubles as the invite code.
+ */
+export interface Invite extends Asset {
+  id: string
+  issuer: Pubkey
+  /**
+   * Only this pubkey may redeem the invite when set
+   */
+  invitee: Pubkey | null
+  maxUses: number
+  uses: number
+  /**
+   * Amount credited on redemption. Invites without an amount admit the pubkey redeeming them.
+   */
+  amount: bigint | null
+  expiresAt: Date | null
+  updatedAt: Date
+  createdAt: Date
+}
+
+export interface DBInvite {
+  id: string
+  issuer: Buffer
+  invitee: Buffer | null
+  max_uses: number
+  uses: number
+  amount: string | null
+  asset_code: string
+  asset_scale: number
+  expires_at: Date | null
+  updated_at: Date
+  created_at: Date
+}
@@ -1,10 +1,6 @@
+import { Asset } from './asset'
 import { Pubkey } from './base'
-
-export enum InvoiceUnit {
-  MSATS = 'msats',
-  SATS = 'sats',
-  BTC = 'btc'
-}
+import { Quote } from './exchange-rate'
 
 export enum InvoiceStatus {
   PENDING = 'pending',
@@ -12,13 +8,61 @@ export enum InvoiceStatus {
   EXPIRED = 'expired',
 }
 
-export interface Invoice {
+export enum PaymentRequestType {
+  STREAM = 'stream',
+  PAYMENT_POINTER = 'payment_pointer',
+  PAYMENT_CHANNEL = 'payment_channel',
+}
+
+/**
+ * STREAM credentials to send the payment to directly
+ */
+export interface StreamPaymentRequest {
+  type: PaymentRequestType.STREAM
+  destinationAccount: string
+  /**
+   * Base64 encoded
+   */
+  sharedSecret: string
+}
+
+/**
+ * Payment pointer resolving to STREAM credentials over SPSP
+ */
+export interface PaymentPointerPaymentRequest {
+  type: PaymentRequestType.PAYMENT_POINTER
+  paymentPointer: string
+}
+
+/**
+ * Payment channel the payer opens and signs claims on
+ */
+export interface PaymentChannelPaymentRequest {
+  type: PaymentRequestType.PAYMENT_CHANNEL
+  /**
+   * Name of the claim verifier for the chain the channel lives on
+   */
+  chain: string
+  /**
+   * Address the channel pays out to
+   */
+  destination: string
+}
+
+export type PaymentRequest =
+  | StreamPaymentRequest
+  | PaymentPointerPaymentRequest
+  | PaymentChannelPaymentRequest
+
+export interface Invoice extends Asset {
   id: string
   pubkey: Pubkey
-  bolt11: string
+  /**
+   * Unset when the payments processor takes no payments
+   */
+  paymentRequest: PaymentRequest | null
   amountRequested: bigint
   amountPaid?: bigint
-  unit: InvoiceUnit
   status: InvoiceStatus
   description: string
   confirmedAt?: Date | null
@@ -26,6 +70,14 @@ export interface Invoice {
   updatedAt: Date
   createdAt: Date
   verifyURL?: string
+  /**
+   * Set when the invoice is paid in an asset other than the base asset
+   */
+  quote?: Quote | null
+  /**
+   * Admission plan the invoice pays for
+   */
+  admissionPlan?: string | null
 }
 
 export interface LnurlInvoice extends Invoice {
@@ -35,10 +87,11 @@ export interface LnurlInvoice extends Invoice {
 export interface DBInvoice {
   id: string
   pubkey: Buffer
-  bolt11: string
+  payment_request: PaymentRequest | null
   amount_requested: bigint
   amount_paid: bigint
-  unit: InvoiceUnit
+  asset_code: string
+  asset_scale: number
   status: InvoiceStatus,
   description: string
   confirmed_at: Date
@@ -46,4 +99,10 @@ export interface DBInvoice {
   updated_at: Date
   created_at: Date
   verify_url: string
+  quote_amount: bigint | null
+  quote_asset_code: string | null
+  quote_asset_scale: number | null
+  quote_rate: string | null
+  quote_slippage: number | null
+  admission_plan: string | null
 }
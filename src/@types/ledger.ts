@@ -0,0 +1,73 @@
+import { Asset } from './asset'
+import { Pubkey } from './base'
+
+export enum LedgerAccount {
+  USER = 'user',
+  INVOICES = 'invoices',
+  PAYMENT_CHANNELS = 'payment_channels',
+  REVENUE = 'revenue',
+  OPENING_BALANCES = 'opening_balances',
+  WITHDRAWALS = 'withdrawals',
+  INVITES = 'invites',
+  PROOF_OF_WORK = 'proof_of_work',
+}
+
+export enum LedgerEntryType {
+  INVOICE = 'invoice',
+  SPSP = 'spsp',
+  PAYMENT_CHANNEL_CLAIM = 'payment_channel_claim',
+  ADMISSION = 'admission',
+  PUBLICATION_FEE = 'publication_fee',
+  QUERY_FEE = 'query_fee',
+  SUBSCRIPTION_FEE = 'subscription_fee',
+  OPENING_BALANCE = 'opening_balance',
+  WITHDRAWAL = 'withdrawal',
+  WITHDRAWAL_REFUND = 'withdrawal_refund',
+  INVITE = 'invite',
+  PROOF_OF_WORK = 'proof_of_work',
+}
+
+/**
+ * One side of a ledger transaction. Entries on the user account are
+ * positive for credits and negative for debits.
+ */
+export interface LedgerEntry extends Asset {
+  id: string
+  transactionId: string
+  account: LedgerAccount
+  pubkey: Pubkey
+  amount: bigint
+  type: LedgerEntryType
+  /**
+   * Id of the invoice, payment channel, event, subscription, withdrawal or invite behind the entry
+   */
+  reference: string | null
+  createdAt: Date
+}
+
+export interface DBLedgerEntry {
+  id: string
+  transaction_id: string
+  account: LedgerAccount
+  pubkey: Buffer
+  asset_code: string
+  asset_scale: number
+  amount: string
+  type: LedgerEntryType
+  reference: string | null
+  created_at: Date
+}
+
+/**
+ * What a balance is debited for
+ */
+export interface LedgerCharge {
+  type: LedgerEntryType
+  reference?: string
+}
+
+export interface BalanceMismatch extends Asset {
+  pubkey: Pubkey
+  balance: bigint
+  ledgerBalance: bigint
+}
@@ -9,13 +9,18 @@ export enum MessageType {
   CLOSE = 'CLOSE',
   NOTICE = 'NOTICE',
   EOSE = 'EOSE',
-  OK = 'OK'
+  OK = 'OK',
+  CLOSED = 'CLOSED',
+  AUTH = 'AUTH',
+  COUNT = 'COUNT',
 }
 
 export type IncomingMessage = (
   | SubscribeMessage
   | IncomingEventMessage
   | UnsubscribeMessage
+  | AuthMessage
+  | CountMessage
   ) & {
     [ContextMetadataKey]?: ContextMetadata
   }
@@ -26,6 +31,9 @@ export type OutgoingMessage =
   | EndOfStoredEventsNotice
   | NoticeMessage
   | CommandResult
+  | ClosedMessage
+  | AuthChallengeMessage
+  | CountResult
 
 export type SubscribeMessage = {
   [index in Range<2, 100>]: SubscriptionFilter
@@ -34,6 +42,20 @@ export type SubscribeMessage = {
   1: SubscriptionId
 } & Array<SubscriptionFilter>
 
+// NIP-45
+export type CountMessage = {
+  [index in Range<2, 100>]: SubscriptionFilter
+} & {
+  0: MessageType.COUNT
+  1: SubscriptionId
+} & Array<SubscriptionFilter>
+
+export interface CountResult {
+  0: MessageType.COUNT
+  1: SubscriptionId
+  2: { count: number }
+}
+
 export type IncomingEventMessage = EventMessage & [MessageType.EVENT, Event]
 
 export type IncomingRelayedEventMessage = [MessageType.EVENT, RelayedEvent, Secret]
@@ -67,6 +89,23 @@ export interface CommandResult {
   3: string
 }
 
+export interface ClosedMessage {
+  0: MessageType.CLOSED
+  1: SubscriptionId
+  2: string
+}
+
+// NIP-42
+export interface AuthMessage {
+  0: MessageType.AUTH
+  1: Event
+}
+
+export interface AuthChallengeMessage {
+  0: MessageType.AUTH
+  1: string
+}
+
 export interface EndOfStoredEventsNotice {
   0: MessageType.EOSE
   1: SubscriptionId
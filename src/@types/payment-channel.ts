@@ -0,0 +1,49 @@
+import { Asset } from './asset'
+import { Pubkey } from './base'
+
+export interface PaymentChannel extends Asset {
+  id: string
+  /**
+   * Name of the claim verifier for the chain the channel lives on
+   */
+  chain: string
+  pubkey: Pubkey
+  /**
+   * Public key or address the channel sender signs claims with
+   */
+  senderKey: string
+  capacity: bigint
+  claimedAmount: bigint
+  lastSignature?: string | null
+  expiresAt: Date | null
+  updatedAt: Date
+  createdAt: Date
+}
+
+export interface DBPaymentChannel {
+  id: string
+  chain: string
+  pubkey: Buffer
+  sender_key: string
+  asset_code: string
+  asset_scale: number
+  capacity: bigint
+  claimed_amount: bigint
+  last_signature: string | null
+  expires_at: Date | null
+  updated_at: Date
+  created_at: Date
+}
+
+/**
+ * Off-chain claim for the cumulative amount owed on a channel
+ */
+export interface PaymentChannelClaim {
+  channelId: string
+  amount: bigint
+  signature: string
+}
+
+export interface IClaimVerifier {
+  verifySignature(channel: PaymentChannel, claim: PaymentChannelClaim): boolean
+}
@@ -1,10 +1,15 @@
 import { PassThrough } from 'stream'
 
+import { Asset, AssetAmount } from './asset'
+import { BalanceMismatch, LedgerCharge, LedgerEntry } from './ledger'
 import { DatabaseClient, EventId, Pubkey } from './base'
-import { DBEvent, Event } from './event'
+import { DBEvent, Event, EventAddress } from './event'
+import { Invite } from './invite'
 import { Invoice } from './invoice'
+import { PaymentChannel } from './payment-channel'
 import { SubscriptionFilter } from './subscription'
 import { User } from './user'
+import { Withdrawal } from './withdrawal'
 
 export type ExposedPromiseKeys = 'then' | 'catch' | 'finally'
 
@@ -16,7 +21,11 @@ export interface IEventRepository {
   create(event: Event): Promise<number>
   upsert(event: Event): Promise<number>
   findByFilters(filters: SubscriptionFilter[]): IQueryResult<DBEvent[]>
+  countByFilters(filters: SubscriptionFilter[]): Promise<number>
   deleteByPubkeyAndIds(pubkey: Pubkey, ids: EventId[]): Promise<number>
+  deleteByPubkeyAndAddresses(pubkey: Pubkey, addresses: EventAddress[], until: number): Promise<number>
+  isAddressDeleted(address: EventAddress, since: number): Promise<boolean>
+  deleteExpiredEvents(limit: number): Promise<number>
 }
 
 export interface IInvoiceRepository {
@@ -31,16 +40,64 @@ export interface IInvoiceRepository {
     amountReceived: bigint,
     confirmedAt: Date,
     client?: DatabaseClient,
-  ): Promise<void>
+  ): Promise<boolean>
   findPendingInvoices(
     offset?: number,
     limit?: number,
     client?: DatabaseClient,
   ): Promise<Invoice[]>
+  findPendingOpenAmountInvoice(
+    pubkey: Pubkey,
+    asset: Asset,
+    expiresAfter: Date,
+    client?: DatabaseClient,
+  ): Promise<Invoice | undefined>
+}
+
+export interface IPaymentChannelRepository {
+  findById(id: string, client?: DatabaseClient): Promise<PaymentChannel | undefined>
+  upsert(channel: Partial<PaymentChannel>, client?: DatabaseClient): Promise<number>
+  claim(
+    channelId: string,
+    amount: bigint,
+    signature: string,
+    client?: DatabaseClient,
+  ): Promise<bigint>
 }
 
 export interface IUserRepository {
   findByPubkey(pubkey: Pubkey, client?: DatabaseClient): Promise<User | undefined>
   upsert(user: Partial<User>, client?: DatabaseClient): Promise<number>
-  getBalanceByPubkey(pubkey: Pubkey, client?: DatabaseClient): Promise<bigint>
+  getBalanceByPubkey(pubkey: Pubkey, asset: Asset, client?: DatabaseClient): Promise<bigint>
+  chargeBalance(pubkey: Pubkey, amount: AssetAmount, charge: LedgerCharge, client?: DatabaseClient): Promise<boolean>
+  addProofOfWork(
+    pubkey: Pubkey,
+    eventId: EventId,
+    difficulty: number,
+    admissionDifficulty: number | undefined,
+    credit: AssetAmount,
+    client?: DatabaseClient,
+  ): Promise<boolean>
+}
+
+export interface IWithdrawalRepository {
+  findById(id: string, client?: DatabaseClient): Promise<Withdrawal | undefined>
+  request(
+    withdrawal: Pick<Withdrawal, 'id' | 'pubkey' | 'paymentPointer' | 'assetCode' | 'assetScale' | 'amount'>,
+    client?: DatabaseClient,
+  ): Promise<boolean>
+  complete(id: string, amountSent: bigint, paymentId: string | null, client?: DatabaseClient): Promise<void>
+  getWithdrawableBalance(pubkey: Pubkey, asset: Asset, client?: DatabaseClient): Promise<bigint>
+}
+
+export interface IInviteRepository {
+  findById(id: string, client?: DatabaseClient): Promise<Invite | undefined>
+  create(invite: Omit<Invite, 'uses' | 'updatedAt'>, client?: DatabaseClient): Promise<number>
+  countByIssuer(issuer: Pubkey, client?: DatabaseClient): Promise<number>
+  redeem(id: string, pubkey: Pubkey, client?: DatabaseClient): Promise<boolean>
+}
+
+export interface ILedgerRepository {
+  findByPubkey(pubkey: Pubkey, client?: DatabaseClient): Promise<LedgerEntry[]>
+  findBalanceMismatches(client?: DatabaseClient): Promise<BalanceMismatch[]>
 }
@@ -1,3 +1,6 @@
+import { PaymentChannel, PaymentChannelClaim } from './payment-channel'
+import { Withdrawal, WithdrawalRequest } from './withdrawal'
+import { Asset } from './asset'
 import { Invoice } from './invoice'
 import { Pubkey } from './base'
 
@@ -7,12 +10,30 @@ export interface IPaymentsService {
     pubkey: Pubkey,
     amount: bigint,
     description: string,
+    asset?: Asset,
+    admissionPlan?: string,
   ): Promise<Invoice>
+  getTopUpInvoice(pubkey: Pubkey, description: string): Promise<Invoice>
   updateInvoice(invoice: Partial<Invoice>): Promise<void>
-  updateInvoiceStatus(invoice: Pick<Invoice, 'id' | 'status'>): Promise<Invoice>
+  updateInvoiceStatus(invoice: Pick<Invoice, 'id' | 'status'>): Promise<Invoice | undefined>
   confirmInvoice(
     invoice: Pick<Invoice, 'id' | 'amountPaid' | 'confirmedAt' | 'status' | 'pubkey'>,
-  ): Promise<void>
+  ): Promise<boolean>
   sendInvoiceUpdateNotification(invoice: Invoice): Promise<void>
-  getPendingInvoices(): Promise<Invoice[]>
+  getPendingInvoices(offset?: number, limit?: number): Promise<Invoice[]>
+  processInvoiceUpdate(invoice: Invoice, updatedInvoice: Partial<Invoice>): Promise<void>
+  watchPayments(): () => void
+  getWithdrawal(id: string): Promise<Withdrawal | undefined>
+  withdraw(request: WithdrawalRequest): Promise<Withdrawal | undefined>
+}
+
+export interface IPaymentChannelService {
+  registerChannel(
+    channel: Omit<PaymentChannel, 'claimedAmount' | 'lastSignature' | 'createdAt' | 'updatedAt'>,
+  ): Promise<void>
+  submitClaim(claim: PaymentChannelClaim): Promise<bigint>
+}
+
+export interface IInviteService {
+  redeemInvite(code: string, pubkey: Pubkey): Promise<string | undefined>
 }
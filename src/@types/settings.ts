@@ -1,4 +1,5 @@
 import { Pubkey, Secret } from './base'
+import { Asset } from './asset'
 import { EventKinds } from '../constants/base'
 import { MessageType } from './messages'
 import { SubscriptionFilter } from './subscription'
@@ -130,6 +131,22 @@ export interface Worker {
   count: number
 }
 
+export interface ExpiredEventsPurge {
+  enabled: boolean
+  /**
+   * Number of expired events deleted per query
+   */
+  batchSize: number
+  /**
+   * Milliseconds between purges
+   */
+  interval: number
+}
+
+export interface Maintenance {
+  purgeExpiredEvents?: ExpiredEventsPurge
+}
+
 export interface FeeScheduleWhitelists {
   pubkeys?: Pubkey[]
   event_kinds?: (EventKinds | [EventKinds, EventKinds])[]
@@ -138,22 +155,182 @@ export interface FeeScheduleWhitelists {
 export interface FeeSchedule {
   enabled: boolean
   description?: string
+  /**
+   * Flat amount charged, or the base amount when a per-byte rate is set
+   */
   amount: bigint
+  /**
+   * Amount charged per byte of the serialized event
+   */
+  perByteAmount?: bigint
+  /**
+   * Amount charged per stored event served to a subscription
+   */
+  perEventAmount?: bigint
+  /**
+   * Event kinds a publication or query fee applies to. Applies to all kinds when unset
+   */
+  kinds?: (EventKinds | EventKindsRange)[]
   whitelists?: FeeScheduleWhitelists
 }
 
 export interface FeeSchedules {
   admission: FeeSchedule[]
   publication: FeeSchedule[]
+  /**
+   * Fees charged to authenticated clients for REQ subscriptions
+   */
+  query?: FeeSchedule[]
+  /**
+   * Fees charged to authenticated clients per minute for each open subscription
+   */
+  subscription?: FeeSchedule[]
+}
+
+export interface AdmissionPlan {
+  /**
+   * Identifies the plan in invoice requests
+   */
+  id: string
+  description?: string
+  /**
+   * Price of the plan in units of the base asset
+   */
+  amount: bigint
+  /**
+   * Number of days the plan admits a pubkey for. Admission does not expire when unset.
+   */
+  days?: number
+}
+
+export interface Invites {
+  enabled: boolean
+  /**
+   * Most uses an invite issued by an admitted pubkey may allow. Defaults to 1.
+   * Invites issued by the relay operator are not capped.
+   */
+  maxUses?: number
+  /**
+   * Most invites a pubkey other than the relay operator may issue. Defaults to 5.
+   */
+  maxInvites?: number
+}
+
+export interface ProofOfWork {
+  enabled: boolean
+  /**
+   * Least number of leading zero bits an event id must have to count as work.
+   * Defaults to 20.
+   */
+  minLeadingZeroBits?: number
+  /**
+   * Difficulty of the work, accumulated over events, that admits a pubkey.
+   * Each event counts as 2^difficulty hashes. Work does not admit when unset.
+   */
+  admissionLeadingZeroBits?: number
+  /**
+   * Amount in units of the base asset credited per leading zero bit of each event
+   */
+  creditPerBit?: bigint
+}
+
+export interface WebMonetization {
+  enabled: boolean
+  /**
+   * Payment pointer advertised on the relay's web pages. Defaults to the
+   * relay's own SPSP endpoint, which credits the relay operator's balance.
+   */
+  paymentPointer?: string
+  /**
+   * Number of seconds a session stays bound to a pubkey. Defaults to 86400.
+   */
+  sessionTtl?: number
+}
+
+export interface PaymentChannels {
+  enabled: boolean
+  /**
+   * Chain id each Cosmos SDK chain signs claims for, keyed by chain name
+   */
+  chainIds?: Record<string, string>
 }
 
 export interface Payments {
   enabled: boolean
+  processor?: string
+  /**
+   * Asset that balances, fees and minimum balances are denominated in
+   */
+  baseAsset?: Asset
+  /**
+   * Assets payers may pay invoices in besides the base asset
+   */
+  acceptedAssets?: Asset[]
+  exchangeRates?: ExchangeRates
   feeSchedules: FeeSchedules
+  /**
+   * Admission plans offered instead of the admission fee amounts
+   */
+  admissionPlans?: AdmissionPlan[]
+  /**
+   * Invites and vouchers issued as kind 50 events
+   */
+  invites?: Invites
+  /**
+   * Proof of work accepted in place of the admission fee
+   */
+  proofOfWork?: ProofOfWork
+  /**
+   * Web Monetization of the relay's web pages
+   */
+  webMonetization?: WebMonetization
+  /**
+   * Payment channels registered by the relay operator and paid with signed claims
+   */
+  paymentChannels?: PaymentChannels
+}
+
+export interface ExchangeRates {
+  source: 'static' | 'file' | 'http'
+  /**
+   * Fraction added on top of quotes to absorb rate changes before payment (e.g. 0.01 for 1%)
+   */
+  slippage?: number
+  /**
+   * Number of seconds rates from a file or HTTP feed are reused for
+   */
+  cacheTtl?: number
+  /**
+   * Static table of prices of one unit of each asset in units of the base asset
+   */
+  rates?: Record<string, number | string>
+  path?: string
+  url?: string
+}
+
+export interface IlpStreamPaymentsProcessor {
+  /**
+   * Number of seconds an invoice accepts payments for
+   */
+  invoiceExpiry?: number
+  /**
+   * Number of seconds an outgoing payment may stall before it is given up
+   */
+  paymentTimeout?: number
 }
 
-// All centralized payment processor types removed
-// ILP payment processor types will be added in Story 1.2+
+export interface IlpConnectorPaymentsProcessor {
+  /**
+   * Number of seconds a receiver accepts payments for
+   */
+  invoiceExpiry?: number
+}
+
+export interface PaymentsProcessors {
+  ilpStream?: IlpStreamPaymentsProcessor
+  ilpConnector?: IlpConnectorPaymentsProcessor
+  [processor: string]: unknown
+}
 
 export interface Local {
   secret: Secret
@@ -177,11 +354,38 @@ export interface Mirroring {
   static?: Mirror[]
 }
 
+export interface Authentication {
+  enabled: boolean
+  /**
+   * Rejects events from clients that have not authenticated
+   */
+  requiredForEvents?: boolean
+  /**
+   * Closes subscriptions of clients that have not authenticated
+   */
+  requiredForSubscriptions?: boolean
+  /**
+   * Number of seconds the created_at of an authentication event may be off by. Defaults to 600.
+   */
+  maxCreatedAtDelta?: number
+}
+
+export interface Search {
+  /**
+   * Answers filters with a search query (NIP-50) from a full-text index over event content
+   */
+  enabled: boolean
+}
+
 export interface Settings {
   info: Info
+  authentication?: Authentication
+  search?: Search
   payments?: Payments
+  paymentsProcessors?: PaymentsProcessors
   network: Network
   workers?: Worker
+  maintenance?: Maintenance
   limits?: Limits
   mirroring?: Mirroring
 }
@@ -10,5 +10,9 @@ export interface SubscriptionFilter {
   until?: number
   authors?: Pubkey[]
   limit?: number
+  /**
+   * NIP-50 full-text search query
+   */
+  search?: string
   [key: `#${string}`]: string[]
 }
@@ -1,9 +1,13 @@
+import { Asset } from './asset'
 import { Pubkey } from './base'
 
 export interface User {
   pubkey: Pubkey
   isAdmitted: boolean
-  balance: bigint
+  /**
+   * End of a time-boxed admission. Admission does not expire when unset.
+   */
+  admittedUntil?: Date | null
   tosAcceptedAt?: Date | null
   createdAt: Date
   updatedAt: Date
@@ -12,7 +16,24 @@ export interface User {
 export interface DBUser {
   pubkey: Buffer
   is_admitted: boolean
-  balance: bigint
+  admitted_until: Date | null
+  tos_accepted_at: Date | null
+  created_at: Date
+  updated_at: Date
+}
+
+export interface Balance extends Asset {
+  pubkey: Pubkey
+  amount: bigint
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface DBBalance {
+  pubkey: Buffer
+  asset_code: string
+  asset_scale: number
+  amount: bigint
   created_at: Date
   updated_at: Date
 }
@@ -0,0 +1,50 @@
+import { Asset } from './asset'
+import { Pubkey } from './base'
+
+export enum WithdrawalStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * Payout of unused balance to a payment pointer. Its id is the id of the
+ * withdrawal request event so that resubmitting a request is harmless.
+ */
+export interface Withdrawal extends Asset {
+  id: string
+  pubkey: Pubkey
+  paymentPointer: string
+  amount: bigint
+  /**
+   * Set once the outgoing payment is done; the rest of the amount is refunded
+   */
+  amountSent: bigint | null
+  status: WithdrawalStatus
+  paymentId: string | null
+  completedAt: Date | null
+  updatedAt: Date
+  createdAt: Date
+}
+
+export interface DBWithdrawal {
+  id: string
+  pubkey: Buffer
+  payment_pointer: string
+  asset_code: string
+  asset_scale: number
+  amount: string
+  amount_sent: string | null
+  status: WithdrawalStatus
+  payment_id: string | null
+  completed_at: Date | null
+  updated_at: Date
+  created_at: Date
+}
+
+export type WithdrawalRequest = Pick<Withdrawal, 'id' | 'pubkey' | 'paymentPointer' | 'assetCode' | 'assetScale'> & {
+  /**
+   * Defaults to the whole balance
+   */
+  amount?: bigint
+}
@@ -1,10 +1,17 @@
 import cluster from 'cluster'
 import { EventEmitter } from 'stream'
 import { IncomingMessage as IncomingHttpMessage } from 'http'
+import { randomUUID } from 'crypto'
 import { WebSocket } from 'ws'
 
-import { ContextMetadata, Factory } from '../@types/base'
-import { createNoticeMessage, createOutgoingEventMessage } from '../utils/messages'
+import { ContextMetadata, Factory, Pubkey } from '../@types/base'
+import {
+  createAuthChallengeMessage,
+  createClosedMessage,
+  createNoticeMessage,
+  createOutgoingEventMessage,
+} from '../utils/messages'
+import { formatAmount, getBaseAsset } from '../utils/asset'
 import { IAbortable, IMessageHandler } from '../@types/message-handlers'
 import { IncomingMessage, OutgoingMessage } from '../@types/messages'
 import { IWebSocketAdapter, IWebSocketServerAdapter } from '../@types/adapters'
@@ -15,8 +22,11 @@ import { ContextMetadataKey } from '../constants/base'
 import { createLogger } from '../factories/logger-factory'
 import { Event } from '../@types/event'
 import { getRemoteAddress } from '../utils/http'
+import { getSubscriptionFeeSchedules } from '../utils/fees'
 import { IRateLimiter } from '../@types/utils'
 import { isEventMatchingFilter } from '../utils/event'
+import { IUserRepository } from '../@types/repositories'
+import { LedgerEntryType } from '../@types/ledger'
 import { messageSchema } from '../schemas/message-schema'
 import { Settings } from '../@types/settings'
 import { SocketAddress } from 'net'
@@ -24,6 +34,10 @@ import { SocketAddress } from 'net'
 
 const debug = createLogger('web-socket-adapter')
 const debugHeartbeat = debug.extend('heartbeat')
+const debugBilling = debug.extend('billing')
+
+const SUBSCRIPTION_BILLING_INTERVAL = 60000
+const SUBSCRIPTION_BILLING_TICK = 1000
 
 const abortableMessageHandlers: WeakMap<WebSocket, IAbortable[]> = new WeakMap()
 
@@ -32,18 +46,28 @@ export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter
   private clientAddress: SocketAddress
   private alive: boolean
   private subscriptions: Map<SubscriptionId, SubscriptionFilter[]>
+  private subscriptionsPaidUntil: Map<SubscriptionId, number>
+  private authenticatedPubkeys: Set<Pubkey>
+  private authChallenge: string
+  private billingInterval: NodeJS.Timeout | undefined
+  private isBilling: boolean
 
   public constructor(
     private readonly client: WebSocket,
     private readonly request: IncomingHttpMessage,
     private readonly webSocketServer: IWebSocketServerAdapter,
     private readonly createMessageHandler: Factory<IMessageHandler, [IncomingMessage, IWebSocketAdapter]>,
+    private readonly userRepository: IUserRepository,
     private readonly slidingWindowRateLimiter: Factory<IRateLimiter>,
     private readonly settings: Factory<Settings>,
   ) {
     super()
     this.alive = true
     this.subscriptions = new Map()
+    this.subscriptionsPaidUntil = new Map()
+    this.authenticatedPubkeys = new Set()
+    this.authChallenge = randomUUID()
+    this.isBilling = false
 
     this.clientId = Buffer.from(this.request.headers['sec-websocket-key'] as string, 'base64').toString('hex')
 
@@ -75,11 +99,16 @@ export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter
       .on(WebSocketAdapterEvent.Heartbeat, this.onHeartbeat.bind(this))
       .on(WebSocketAdapterEvent.Subscribe, this.onSubscribed.bind(this))
       .on(WebSocketAdapterEvent.Unsubscribe, this.onUnsubscribed.bind(this))
+      .on(WebSocketAdapterEvent.Authenticate, this.onAuthenticated.bind(this))
       .on(WebSocketAdapterEvent.Event, this.onSendEvent.bind(this))
       .on(WebSocketAdapterEvent.Broadcast, this.onBroadcast.bind(this))
       .on(WebSocketAdapterEvent.Message, this.sendMessage.bind(this))
 
     debug('client %s connected from %s', this.clientId, this.clientAddress.address)
+
+    if (this.settings().authentication?.enabled) {
+      this.sendMessage(createAuthChallengeMessage(this.authChallenge))
+    }
   }
 
   public getClientId(): string {
@@ -93,11 +122,20 @@ export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter
   public onUnsubscribed(subscriptionId: string): void {
     debug('client %s unsubscribed %s', this.clientId, subscriptionId)
     this.subscriptions.delete(subscriptionId)
+    this.subscriptionsPaidUntil.delete(subscriptionId)
   }
 
   public onSubscribed(subscriptionId: string, filters: SubscriptionFilter[]): void {
     debug('client %s subscribed %s to %o', this.clientId, subscriptionId, filters)
     this.subscriptions.set(subscriptionId, filters)
+    // The subscribe handler charges the first minute up front
+    this.subscriptionsPaidUntil.set(subscriptionId, Date.now() + SUBSCRIPTION_BILLING_INTERVAL)
+    this.startBilling()
+  }
+
+  public onAuthenticated(pubkey: Pubkey): void {
+    debug('client %s authenticated as %s', this.clientId, pubkey)
+    this.authenticatedPubkeys.add(pubkey)
   }
 
   public onBroadcast(event: Event): void {
@@ -144,6 +182,127 @@ export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter
     return new Map(this.subscriptions)
   }
 
+  public getAuthenticatedPubkeys(): Pubkey[] {
+    return [...this.authenticatedPubkeys]
+  }
+
+  public getAuthChallenge(): string {
+    return this.authChallenge
+  }
+
+  private startBilling(): void {
+    const currentSettings = this.settings()
+    if (
+      this.billingInterval
+      || !currentSettings.payments?.enabled
+      || !currentSettings.payments.feeSchedules?.subscription?.some((feeSchedule) => feeSchedule.enabled)
+    ) {
+      return
+    }
+
+    debugBilling('client %s billing started', this.clientId)
+    this.billingInterval = setInterval(this.onBillingTick.bind(this), SUBSCRIPTION_BILLING_TICK)
+  }
+
+  private stopBilling(): void {
+    if (!this.billingInterval) {
+      return
+    }
+
+    debugBilling('client %s billing stopped', this.clientId)
+    clearInterval(this.billingInterval)
+    this.billingInterval = undefined
+  }
+
+  /**
+   * Debits the next minute of each billed subscription whose paid minute is
+   * up from the first authenticated pubkey, closing the subscriptions once its
+   * balance runs out. Runs every second so each subscription is billed on its
+   * own minute rather than on the phase of the socket.
+   */
+  private async onBillingTick(): Promise<void> {
+    if (this.isBilling) {
+      return
+    }
+
+    this.isBilling = true
+    try {
+      const currentSettings = this.settings()
+      const [pubkey] = this.getAuthenticatedPubkeys()
+      const feeSchedules = currentSettings.payments?.enabled
+        ? currentSettings.payments.feeSchedules?.subscription
+        : undefined
+
+      const billableSubscriptions = [...this.subscriptions]
+        .map(([subscriptionId, filters]): [SubscriptionId, bigint] => [
+          subscriptionId,
+          getSubscriptionFeeSchedules(feeSchedules, filters, pubkey)
+            .reduce((sum, feeSchedule) => sum + BigInt(feeSchedule.amount), 0n),
+        ])
+        .filter(([, fee]) => fee > 0n)
+
+      if (!billableSubscriptions.length) {
+        this.stopBilling()
+        return
+      }
+
+      const now = Date.now()
+      const billedSubscriptions = billableSubscriptions
+        .filter(([subscriptionId]) => (this.subscriptionsPaidUntil.get(subscriptionId) ?? 0) <= now)
+      if (!billedSubscriptions.length) {
+        return
+      }
+
+      if (!pubkey) {
+        this.closeSubscriptions(billedSubscriptions, 'auth-required: subscriptions on this relay are paid')
+        return
+      }
+
+      const baseAsset = getBaseAsset(currentSettings)
+      const fee = billedSubscriptions.reduce((sum, [, subscriptionFee]) => sum + subscriptionFee, 0n)
+      debugBilling('charging %s for %d subscriptions of client %s', fee, billedSubscriptions.length, this.clientId)
+
+      const charge = {
+        type: LedgerEntryType.SUBSCRIPTION_FEE,
+        reference: billedSubscriptions.map(([subscriptionId]) => subscriptionId).join(','),
+      }
+      if (!await this.userRepository.chargeBalance(pubkey, { ...baseAsset, amount: fee }, charge)) {
+        this.closeSubscriptions(
+          billedSubscriptions,
+          `payment-required: insufficient balance for subscription fee of ${formatAmount(fee, baseAsset)} per minute`,
+        )
+        return
+      }
+
+      for (const [subscriptionId] of billedSubscriptions) {
+        this.subscriptionsPaidUntil.set(
+          subscriptionId,
+          (this.subscriptionsPaidUntil.get(subscriptionId) ?? now) + SUBSCRIPTION_BILLING_INTERVAL,
+        )
+      }
+
+      const balance = await this.userRepository.getBalanceByPubkey(pubkey, baseAsset)
+      if (balance < fee) {
+        this.sendMessage(createNoticeMessage(
+          `Balance of ${formatAmount(balance, baseAsset)} is running out: paid subscriptions will close within a minute`
+        ))
+      }
+    } catch (error) {
+      console.error(`web-socket-adapter: unable to bill subscriptions of client ${this.clientId}:`, error)
+    } finally {
+      this.isBilling = false
+    }
+  }
+
+  private closeSubscriptions(subscriptions: [SubscriptionId, unknown][], reason: string): void {
+    for (const [subscriptionId] of subscriptions) {
+      debugBilling('closing subscription %s of client %s: %s', subscriptionId, this.clientId, reason)
+      this.subscriptions.delete(subscriptionId)
+      this.subscriptionsPaidUntil.delete(subscriptionId)
+      this.sendMessage(createClosedMessage(subscriptionId, reason))
+    }
+  }
+
   private async onClientMessage(raw: Buffer) {
     this.alive = true
     let abortable = false
@@ -253,6 +412,7 @@ export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter
   private onClientClose() {
     this.alive = false
     this.subscriptions.clear()
+    this.stopBilling()
 
     const handlers = abortableMessageHandlers.get(this.client)
     if (Array.isArray(handlers) && handlers.length) {
@@ -5,6 +5,8 @@ import { FSWatcher } from 'fs'
 
 import { addOnion } from '../tor/client'
 import { createLogger } from '../factories/logger-factory'
+import { getPaymentsProcessorRegistration } from '../factories/payments-processor-factory'
+import { getSupportedNips } from '../utils/relay-information'
 import { IRunnable } from '../@types/base'
 import packageJson from '../../package.json'
 import { Serializable } from 'child_process'
@@ -58,7 +60,7 @@ export class App implements IRunnable {
       console.log(' '.repeat(start), input)
     }
     logCentered(`v${packageJson.version}`, width)
-    logCentered(`NIPs implemented: ${packageJson.supportedNips}`, width)
+    logCentered(`NIPs implemented: ${getSupportedNips(settings)}`, width)
     const paymentsEnabled = pathEq(['payments', 'enabled'], true, settings)
     logCentered(`Pay-to-relay ${paymentsEnabled ? 'enabled' : 'disabled'}`, width)
     if (paymentsEnabled) {
@@ -70,6 +72,15 @@ export class App implements IRunnable {
       this.process.exit(1)
     }
 
+    if (paymentsEnabled) {
+      try {
+        getPaymentsProcessorRegistration(settings)
+      } catch (error) {
+        console.error(error.message)
+        this.process.exit(1)
+      }
+    }
+
     const workerCount = process.env.WORKER_COUNT
       ? Number(process.env.WORKER_COUNT)
       : this.settings().workers?.count || cpus().length
@@ -1,22 +1,37 @@
-import { mergeDeepLeft, path, pipe } from 'ramda'
 import { IRunnable } from '../@types/base'
+import { path } from 'ramda'
 
+import { IEventRepository, ILedgerRepository } from '../@types/repositories'
+import { Invoice, InvoiceStatus } from '../@types/invoice'
 import { createLogger } from '../factories/logger-factory'
-import { delayMs } from '../utils/misc'
-import { InvoiceStatus } from '../@types/invoice'
 import { IPaymentsService } from '../@types/services'
 import { Settings } from '../@types/settings'
 
-const UPDATE_INVOICE_INTERVAL = 60000
+const RECONCILE_INVOICES_INTERVAL = 60000
+
+const PENDING_INVOICES_PAGE_SIZE = 100
+
+const AUDIT_LEDGER_INTERVAL = 3600000
+
+const PURGE_EXPIRED_EVENTS_INTERVAL = 60000
+
+const PURGE_EXPIRED_EVENTS_BATCH_SIZE = 1000
 
 const debug = createLogger('maintenance-worker')
 
 export class MaintenanceWorker implements IRunnable {
   private interval: NodeJS.Timeout | undefined
+  private auditInterval: NodeJS.Timeout | undefined
+  private purgeInterval: NodeJS.Timeout | undefined
+  private unwatchPayments: (() => void) | undefined
+  private isReconciling = false
+  private isPurging = false
 
   public constructor(
     private readonly process: NodeJS.Process,
     private readonly paymentsService: IPaymentsService,
+    private readonly ledgerRepository: ILedgerRepository,
+    private readonly eventRepository: IEventRepository,
     private readonly settings: () => Settings,
   ) {
     this.process
@@ -28,61 +43,128 @@ export class MaintenanceWorker implements IRunnable {
   }
 
   public run(): void {
-    this.interval = setInterval(() => this.onSchedule(), UPDATE_INVOICE_INTERVAL)
+    this.unwatchPayments = this.paymentsService.watchPayments()
+    this.interval = setInterval(() => this.onSchedule(), RECONCILE_INVOICES_INTERVAL)
+    this.auditInterval = setInterval(() => this.auditLedger(), AUDIT_LEDGER_INTERVAL)
+    this.purgeInterval = setInterval(
+      () => this.purgeExpiredEvents(),
+      this.settings().maintenance?.purgeExpiredEvents?.interval ?? PURGE_EXPIRED_EVENTS_INTERVAL,
+    )
   }
 
+  /**
+   * Payments are confirmed as the payments processor reports them. This
+   * sweep catches up on the ones it missed and expires unpaid invoices.
+   */
   private async onSchedule(): Promise<void> {
     const currentSettings = this.settings()
 
-    if (!path(['payments','enabled'], currentSettings)) {
+    if (!path(['payments','enabled'], currentSettings) || this.isReconciling) {
       return
     }
 
-    const invoices = await this.paymentsService.getPendingInvoices()
-    debug('found %d pending invoices', invoices.length)
-    const delay = () => delayMs(100 + Math.floor(Math.random() * 10))
+    this.isReconciling = true
+    let offset = 0
+    let reconciled = 0
+
+    try {
+      let invoices: Invoice[]
+      do {
+        invoices = await this.paymentsService.getPendingInvoices(offset, PENDING_INVOICES_PAGE_SIZE)
+        debug('found %d pending invoices at offset %d', invoices.length, offset)
+
+        for (const invoice of invoices) {
+          const status = await this.reconcileInvoice(invoice)
+          if (status === InvoiceStatus.PENDING) {
+            // invoices still pending remain in the next page's result set
+            offset++
+          } else {
+            reconciled++
+          }
+        }
+      } while (invoices.length === PENDING_INVOICES_PAGE_SIZE)
+    } catch (error) {
+      console.error('Unable to reconcile pending invoices. Reason:', error)
+    } finally {
+      this.isReconciling = false
+    }
 
-    let successful = 0
+    debug('reconciled %d invoices, %d still pending', reconciled, offset)
+  }
 
-    for (const invoice of invoices) {
-      try {
-        debug('getting invoice %s from payment processor: %o', invoice.id, invoice)
-        const updatedInvoice = await this.paymentsService.getInvoiceFromPaymentsProcessor(invoice)
-        await delay()
-        debug('updating invoice status %s: %o', updatedInvoice.id, updatedInvoice)
+  /**
+   * Balances only change together with their ledger entries, so a mismatch
+   * means a balance was written to directly
+   */
+  private async auditLedger(): Promise<void> {
+    if (!path(['payments','enabled'], this.settings())) {
+      return
+    }
 
-        if (typeof updatedInvoice.id !== 'string' || typeof updatedInvoice.status !== 'string') {
-          continue
-        }
-        const { id, status } = updatedInvoice
+    try {
+      const mismatches = await this.ledgerRepository.findBalanceMismatches()
+      debug('found %d balances not matching the ledger', mismatches.length)
 
-        await this.paymentsService.updateInvoiceStatus({ id, status })
+      for (const { pubkey, assetCode, balance, ledgerBalance } of mismatches) {
+        console.error(
+          `Balance of ${pubkey} in ${assetCode} does not match the ledger: ${balance} != ${ledgerBalance}`,
+        )
+      }
+    } catch (error) {
+      console.error('Unable to audit ledger. Reason:', error)
+    }
+  }
 
-        if (
-          invoice.status !== updatedInvoice.status
-          && updatedInvoice.status == InvoiceStatus.COMPLETED
-          && updatedInvoice.confirmedAt
-        ) {
-          debug('confirming invoice %s & notifying %s', invoice.id, invoice.pubkey)
+  /**
+   * Expired events are no longer served, so they are deleted in batches
+   * until none are left
+   */
+  private async purgeExpiredEvents(): Promise<void> {
+    const purgeSettings = this.settings().maintenance?.purgeExpiredEvents
+    if (!purgeSettings?.enabled || this.isPurging) {
+      return
+    }
 
-          const update = pipe(
-            mergeDeepLeft(updatedInvoice),
-            mergeDeepLeft({ amountPaid: invoice.amountRequested }),
-          )(invoice)
+    this.isPurging = true
+    const batchSize = purgeSettings.batchSize ?? PURGE_EXPIRED_EVENTS_BATCH_SIZE
+    let purged = 0
+
+    try {
+      let count: number
+      do {
+        count = await this.eventRepository.deleteExpiredEvents(batchSize)
+        purged += count
+      } while (count === batchSize)
+    } catch (error) {
+      console.error('Unable to purge expired events. Reason:', error)
+    } finally {
+      this.isPurging = false
+    }
 
-          await Promise.all([
-            this.paymentsService.confirmInvoice(update),
-            this.paymentsService.sendInvoiceUpdateNotification(update),
-          ])
+    debug('purged %d expired events', purged)
+  }
 
-          await delay()
-        }
-        successful++
+  private async reconcileInvoice(invoice: Invoice): Promise<InvoiceStatus> {
+    try {
+      debug('getting invoice %s from payment processor: %o', invoice.id, invoice)
+      let updatedInvoice: Partial<Invoice>
+      try {
+        updatedInvoice = await this.paymentsService.getInvoiceFromPaymentsProcessor(invoice)
       } catch (error) {
-        console.error('Unable to update invoice from payment processor. Reason:', error)
+        // Payments processors may forget invoices some time after they expire
+        if (!invoice.expiresAt || invoice.expiresAt.getTime() > Date.now()) {
+          throw error
+        }
+        updatedInvoice = { id: invoice.id, status: InvoiceStatus.EXPIRED }
       }
 
-      debug('updated %d of %d invoices successfully', successful, invoices.length)
+      await this.paymentsService.processInvoiceUpdate(invoice, updatedInvoice)
+
+      return typeof updatedInvoice.status === 'string' ? updatedInvoice.status : invoice.status
+    } catch (error) {
+      console.error('Unable to update invoice from payment processor. Reason:', error)
+
+      return invoice.status
     }
   }
 
@@ -101,6 +183,12 @@ export class MaintenanceWorker implements IRunnable {
   public close(callback?: () => void) {
     debug('closing')
     clearInterval(this.interval)
+    clearInterval(this.auditInterval)
+    clearInterval(this.purgeInterval)
+    if (typeof this.unwatchPayments === 'function') {
+      this.unwatchPayments()
+      this.unwatchPayments = undefined
+    }
     if (typeof callback === 'function') {
       callback()
     }
@@ -10,7 +10,9 @@ import { IEventRepository, IUserRepository } from '../@types/repositories'
 import { createLogger } from '../factories/logger-factory'
 import { Event } from '../@types/event'
 import { EventExpirationTimeMetadataKey } from '../constants/base'
+import { getBaseAsset } from '../utils/asset'
 import { IRunnable } from '../@types/base'
+import { isAdmissionActive } from '../utils/admission'
 import { OutgoingEventMessage } from '../@types/messages'
 import { RelayedEvent } from '../@types/event'
 import { WebSocketServerAdapterEvent } from '../constants/adapter'
@@ -284,15 +286,18 @@ export class StaticMirroringWorker implements IRunnable {
     }
 
     const user = await this.userRepository.findByPubkey(event.pubkey)
-    if (user?.isAdmitted !== true) {
+    if (!isAdmissionActive(user)) {
       debug(`user not admitted: ${event.pubkey}`)
       return false
     }
 
     const minBalance = currentSettings.limits?.event?.pubkey?.minBalance
-    if (minBalance && user.balance < minBalance) {
-      debug(`user not admitted: user balance ${user.balance} < ${minBalance}`)
-      return false
+    if (minBalance) {
+      const balance = await this.userRepository.getBalanceByPubkey(event.pubkey, getBaseAsset(currentSettings))
+      if (balance < minBalance) {
+        debug(`user not admitted: user balance ${balance} < ${minBalance}`)
+        return false
+      }
     }
 
     return true
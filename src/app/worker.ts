@@ -1,3 +1,4 @@
+import { IPaymentsService } from '../@types/services'
 import { IRunnable } from '../@types/base'
 import { IWebSocketServerAdapter } from '../@types/adapters'
 
@@ -8,10 +9,12 @@ import { SettingsStatic } from '../utils/settings'
 const debug = createLogger('app-worker')
 export class AppWorker implements IRunnable {
   private watchers: FSWatcher[] | undefined
+  private unwatchPayments: (() => void) | undefined
 
   public constructor(
     private readonly process: NodeJS.Process,
-    private readonly adapter: IWebSocketServerAdapter
+    private readonly adapter: IWebSocketServerAdapter,
+    private readonly paymentsService: IPaymentsService,
   ) {
     this.process
       .on('message', this.onMessage.bind(this))
@@ -24,6 +27,8 @@ export class AppWorker implements IRunnable {
 
   public run(): void {
     this.watchers = SettingsStatic.watchSettings()
+    // Payments reach the worker that issued the invoice
+    this.unwatchPayments = this.paymentsService.watchPayments()
 
     const port = process.env.PORT || process.env.RELAY_PORT || 8008
     this.adapter.listen(typeof port === 'number' ? port : Number(port))
@@ -57,6 +62,9 @@ export class AppWorker implements IRunnable {
         watcher.close()
       }
     }
+    if (typeof this.unwatchPayments === 'function') {
+      this.unwatchPayments()
+    }
     this.adapter.close(callback)
     debug('closed')
   }
@@ -0,0 +1,39 @@
+import * as secp256k1 from '@noble/secp256k1'
+import { createHash } from 'crypto'
+
+import { IClaimVerifier, PaymentChannel, PaymentChannelClaim } from '../@types/payment-channel'
+import { createLogger } from '../factories/logger-factory'
+
+const debug = createLogger('cosmos-claim-verifier')
+
+/**
+ * Claims are signed as a canonical (sorted keys, no whitespace) JSON sign doc,
+ * the way Cosmos SDK amino JSON messages are. The chain id keeps a claim from
+ * being replayed on a channel with the same id on another chain.
+ */
+export const getCosmosClaimSignDoc = (chainId: string, channelId: string, amount: bigint): Buffer =>
+  Buffer.from(JSON.stringify({ amount: amount.toString(), chain_id: chainId, channel_id: channelId }))
+
+/**
+ * Verifies claims on Cosmos SDK chains (e.g. Akash) signed with the sender's
+ * compressed secp256k1 public key as a 64-byte r || s signature.
+ */
+export class CosmosClaimVerifier implements IClaimVerifier {
+  public constructor(private readonly chainId: string) { }
+
+  public verifySignature(channel: PaymentChannel, claim: PaymentChannelClaim): boolean {
+    if (!/^[0-9a-fA-F]{128}$/.test(claim.signature)) {
+      return false
+    }
+
+    const hash = createHash('sha256').update(getCosmosClaimSignDoc(this.chainId, claim.channelId, claim.amount)).digest()
+
+    try {
+      return secp256k1.verify(claim.signature, hash, channel.senderKey)
+    } catch (error) {
+      debug('unable to verify claim on channel %s: %o', claim.channelId, error)
+
+      return false
+    }
+  }
+}
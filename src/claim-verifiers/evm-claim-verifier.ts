@@ -0,0 +1,64 @@
+import * as secp256k1 from '@noble/secp256k1'
+import { keccak_256 } from '@noble/hashes/sha3'
+
+import { IClaimVerifier, PaymentChannel, PaymentChannelClaim } from '../@types/payment-channel'
+import { createLogger } from '../factories/logger-factory'
+
+const debug = createLogger('evm-claim-verifier')
+
+const SIGNED_MESSAGE_PREFIX = Buffer.from('\x19Ethereum Signed Message:\n32', 'ascii')
+
+const strip0x = (input: string) => input.replace(/^0x/i, '')
+
+const keccak256 = (input: Uint8Array): Buffer => Buffer.from(keccak_256(input))
+
+/**
+ * Hash a channel contract expects to be signed with `personal_sign`:
+ * keccak256(abi.encodePacked(bytes32 channelId, uint256 amount)).
+ */
+export const getEvmClaimHash = (channelId: string, amount: bigint): Buffer => {
+  const serializedAmount = Buffer.from(amount.toString(16).padStart(64, '0'), 'hex')
+
+  return keccak256(Buffer.concat([Buffer.from(strip0x(channelId), 'hex'), serializedAmount]))
+}
+
+export const toEvmAddress = (publicKey: Uint8Array): string =>
+  `0x${keccak256(publicKey.subarray(1)).subarray(12).toString('hex')}`
+
+/**
+ * Verifies claims on EVM chains (e.g. Base) by recovering the signer address
+ * from a 65-byte r || s || v signature and comparing it with the channel sender.
+ */
+export class EvmClaimVerifier implements IClaimVerifier {
+  public verifySignature(channel: PaymentChannel, claim: PaymentChannelClaim): boolean {
+    const channelId = strip0x(claim.channelId)
+    const signature = strip0x(claim.signature)
+    if (!/^[0-9a-fA-F]{64}$/.test(channelId) || !/^[0-9a-fA-F]{130}$/.test(signature)) {
+      return false
+    }
+
+    const v = parseInt(signature.slice(128), 16)
+    const recovery = v >= 27 ? v - 27 : v
+    if (recovery !== 0 && recovery !== 1) {
+      return false
+    }
+
+    const digest = keccak256(Buffer.concat([SIGNED_MESSAGE_PREFIX, getEvmClaimHash(channelId, claim.amount)]))
+
+    try {
+      const compactSignature = secp256k1.Signature.fromCompact(signature.slice(0, 128))
+      // Reject malleable signatures like ecrecover-based contracts do
+      if (compactSignature.hasHighS()) {
+        return false
+      }
+
+      const publicKey = secp256k1.recoverPublicKey(digest, compactSignature, recovery)
+
+      return toEvmAddress(publicKey) === channel.senderKey.toLowerCase()
+    } catch (error) {
+      debug('unable to verify claim on channel %s: %o', claim.channelId, error)
+
+      return false
+    }
+  }
+}
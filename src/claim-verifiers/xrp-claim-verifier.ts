@@ -0,0 +1,61 @@
+import * as secp256k1 from '@noble/secp256k1'
+import { createHash, createPublicKey, verify } from 'crypto'
+
+import { IClaimVerifier, PaymentChannel, PaymentChannelClaim } from '../@types/payment-channel'
+import { createLogger } from '../factories/logger-factory'
+
+const debug = createLogger('xrp-claim-verifier')
+
+const CLAIM_PREFIX = Buffer.from('CLM\0', 'ascii')
+
+const ED25519_KEY_PREFIX = 'ed'
+
+/**
+ * Serializes a claim the way rippled does before signing: the `CLM\0` hash
+ * prefix, the 256-bit channel id and the amount in drops as a big-endian uint64.
+ */
+export const getXrpClaimMessage = (channelId: string, amount: bigint): Buffer => {
+  const serializedAmount = Buffer.alloc(8)
+  serializedAmount.writeBigUInt64BE(amount)
+
+  return Buffer.concat([CLAIM_PREFIX, Buffer.from(channelId, 'hex'), serializedAmount])
+}
+
+/**
+ * Verifies XRP Ledger payment channel claims signed with either an ed25519
+ * (ED-prefixed) or a secp256k1 channel public key.
+ */
+export class XrpClaimVerifier implements IClaimVerifier {
+  public verifySignature(channel: PaymentChannel, claim: PaymentChannelClaim): boolean {
+    if (!/^[0-9a-fA-F]{64}$/.test(claim.channelId)) {
+      return false
+    }
+
+    const message = getXrpClaimMessage(claim.channelId, claim.amount)
+    const publicKey = channel.senderKey.toLowerCase()
+
+    try {
+      if (publicKey.startsWith(ED25519_KEY_PREFIX)) {
+        const key = createPublicKey({
+          key: {
+            kty: 'OKP',
+            crv: 'Ed25519',
+            x: Buffer.from(publicKey.slice(ED25519_KEY_PREFIX.length), 'hex').toString('base64url'),
+          },
+          format: 'jwk',
+        })
+
+        return verify(null, message, key, Buffer.from(claim.signature, 'hex'))
+      }
+
+      // secp256k1 claims are signed over SHA-512Half of the message
+      const hash = createHash('sha512').update(message).digest().subarray(0, 32)
+
+      return secp256k1.verify(claim.signature, hash, publicKey)
+    } catch (error) {
+      debug('unable to verify claim on channel %s: %o', claim.channelId, error)
+
+      return false
+    }
+  }
+}
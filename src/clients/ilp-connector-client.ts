@@ -0,0 +1,159 @@
+import { AxiosInstance } from 'axios'
+
+import {
+  CreateIlpOutgoingPaymentRequest,
+  CreateIlpReceiverRequest,
+  IIlpConnectorClient,
+  IlpIncomingPayment,
+  IlpOutgoingPayment,
+  IlpReceiver,
+  IlpSettlementStatus,
+} from '../@types/clients'
+import { createLogger } from '../factories/logger-factory'
+
+const debug = createLogger('ilp-connector-client')
+
+interface RpcReceiver {
+  id: string
+  destinationAccount: string
+  sharedSecret: string
+  assetCode: string
+  assetScale: number
+  amount: string
+  amountReceived: string
+  expiresAt: string
+  createdAt: string
+}
+
+interface RpcIncomingPayment {
+  id: string
+  receiverId: string
+  amount: string
+  receivedAt: string
+}
+
+interface RpcOutgoingPayment {
+  id: string
+  paymentPointer: string
+  assetCode: string
+  assetScale: number
+  amount: string
+  amountSent: string
+  createdAt: string
+}
+
+const fromRpcReceiver = (receiver: RpcReceiver): IlpReceiver => ({
+  id: receiver.id,
+  destinationAccount: receiver.destinationAccount,
+  sharedSecret: receiver.sharedSecret,
+  assetCode: receiver.assetCode,
+  assetScale: receiver.assetScale,
+  amount: BigInt(receiver.amount),
+  amountReceived: BigInt(receiver.amountReceived),
+  expiresAt: new Date(receiver.expiresAt),
+  createdAt: new Date(receiver.createdAt),
+})
+
+const fromRpcIncomingPayment = (payment: RpcIncomingPayment): IlpIncomingPayment => ({
+  id: payment.id,
+  receiverId: payment.receiverId,
+  amount: BigInt(payment.amount),
+  receivedAt: new Date(payment.receivedAt),
+})
+
+const fromRpcOutgoingPayment = (payment: RpcOutgoingPayment): IlpOutgoingPayment => ({
+  id: payment.id,
+  paymentPointer: payment.paymentPointer,
+  assetCode: payment.assetCode,
+  assetScale: payment.assetScale,
+  amount: BigInt(payment.amount),
+  amountSent: BigInt(payment.amountSent),
+  createdAt: new Date(payment.createdAt),
+})
+
+/**
+ * Talks to the admin RPC interface of a local ILP connector such as Dassie.
+ * Procedures follow tRPC conventions over HTTP: queries are GET requests with
+ * a JSON `input` query parameter, mutations are POST requests with a JSON body,
+ * and results come back wrapped in `{ result: { data } }`.
+ */
+export class IlpConnectorClient implements IIlpConnectorClient {
+  public constructor(private readonly httpClient: AxiosInstance) {}
+
+  public async createReceiver(request: CreateIlpReceiverRequest): Promise<IlpReceiver> {
+    debug('create receiver: %o', request)
+    const receiver = await this.mutate<RpcReceiver>('payment.createReceiver', {
+      assetCode: request.assetCode,
+      assetScale: request.assetScale,
+      amount: request.amount.toString(),
+      expiresAt: request.expiresAt.toISOString(),
+      description: request.description,
+    })
+
+    return fromRpcReceiver(receiver)
+  }
+
+  public async getReceiver(receiverId: string): Promise<IlpReceiver | undefined> {
+    debug('get receiver: %s', receiverId)
+    const receiver = await this.query<RpcReceiver | null>('payment.getReceiver', { id: receiverId })
+    if (!receiver) {
+      return
+    }
+
+    return fromRpcReceiver(receiver)
+  }
+
+  public async getIncomingPayments(receiverId: string): Promise<IlpIncomingPayment[]> {
+    debug('get incoming payments: %s', receiverId)
+    const payments = await this.query<RpcIncomingPayment[]>('payment.getIncomingPayments', { receiverId })
+
+    return payments.map(fromRpcIncomingPayment)
+  }
+
+  public async getSettlementStatus(receiverId: string): Promise<IlpSettlementStatus> {
+    debug('get settlement status: %s', receiverId)
+    const { status } = await this.query<{ status: IlpSettlementStatus }>(
+      'payment.getSettlementStatus',
+      { receiverId },
+    )
+
+    return status
+  }
+
+  /**
+   * Pays to a payment pointer and resolves once the payment completes or fails
+   */
+  public async sendPayment(request: CreateIlpOutgoingPaymentRequest): Promise<IlpOutgoingPayment> {
+    debug('send payment: %o', request)
+    const payment = await this.mutate<RpcOutgoingPayment>('payment.sendPayment', {
+      paymentPointer: request.paymentPointer,
+      assetCode: request.assetCode,
+      assetScale: request.assetScale,
+      amount: request.amount.toString(),
+    })
+
+    return fromRpcOutgoingPayment(payment)
+  }
+
+  private async query<T>(procedure: string, input: unknown): Promise<T> {
+    try {
+      const response = await this.httpClient.get(`/${procedure}`, {
+        params: { input: JSON.stringify(input) },
+      })
+
+      return response.data.result.data
+    } catch (error) {
+      throw new Error(`ILP connector ${procedure} failed: ${error.response?.data?.error?.message ?? error.message}`)
+    }
+  }
+
+  private async mutate<T>(procedure: string, input: unknown): Promise<T> {
+    try {
+      const response = await this.httpClient.post(`/${procedure}`, input)
+
+      return response.data.result.data
+    } catch (error) {
+      throw new Error(`ILP connector ${procedure} failed: ${error.response?.data?.error?.message ?? error.message}`)
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { AxiosInstance } from 'axios'
+
+import { ISpspClient, SpspResponse } from '../@types/clients'
+import { createLogger } from '../factories/logger-factory'
+import { toPaymentPointerUrl } from '../utils/payment-pointer'
+
+const debug = createLogger('spsp-client')
+
+/**
+ * Resolves payment pointers to STREAM credentials over SPSP
+ */
+export class SpspClient implements ISpspClient {
+  public constructor(private readonly httpClient: AxiosInstance) {}
+
+  public async query(paymentPointer: string): Promise<SpspResponse> {
+    const url = toPaymentPointerUrl(paymentPointer)
+    debug('query %s', url)
+
+    let data: { destination_account?: unknown, shared_secret?: unknown }
+    try {
+      const response = await this.httpClient.get(url, { headers: { accept: 'application/spsp4+json' } })
+      data = response.data
+    } catch (error) {
+      throw new Error(`SPSP query to ${url} failed: ${error.message}`)
+    }
+
+    if (typeof data?.destination_account !== 'string' || typeof data?.shared_secret !== 'string') {
+      throw new Error(`SPSP query to ${url} failed: invalid response`)
+    }
+
+    return {
+      destinationAccount: data.destination_account,
+      sharedSecret: Buffer.from(data.shared_secret, 'base64'),
+    }
+  }
+}
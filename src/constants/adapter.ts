@@ -4,6 +4,7 @@ export enum WebSocketAdapterEvent {
   Broadcast = 'broadcast',
   Subscribe = 'subscribe',
   Unsubscribe = 'unsubscribe',
+  Authenticate = 'authenticate',
   Heartbeat = 'heartbeat'
 }
 
@@ -26,6 +26,9 @@ export enum EventKinds {
   REPLACEABLE_LAST = 19999,
   // Ephemeral events
   EPHEMERAL_FIRST = 20000,
+  CLIENT_AUTHENTICATION = 22242,
+  WITHDRAWAL_REQUEST = 21402,
+  INVITE_REDEMPTION = 21403,
   EPHEMERAL_LAST = 29999,
   // Parameterized replaceable events
   PARAMETERIZED_REPLACEABLE_FIRST = 30000,
@@ -36,14 +39,29 @@ export enum EventKinds {
 export enum EventTags {
   Event = 'e',
   Pubkey = 'p',
+  Address = 'a',
   //  Multicast = 'm',
   Deduplication = 'd',
   Expiration = 'expiration',
-  Invoice = 'bolt11',
+  Invoice = 'invoice',
+  Relay = 'relay',
+  PaymentPointer = 'payment_pointer',
+  Amount = 'amount',
+  Asset = 'asset',
+  Uses = 'uses',
+  DestinationAccount = 'destination_account',
+  PaymentChannel = 'payment_channel',
+  Challenge = 'challenge',
 }
 
 // Payment processor enum removed - ILP integration will be added in Story 1.2+
 
+/**
+ * Most events served for a filter without a limit
+ */
+export const DEFAULT_FILTER_LIMIT = 500
+
 export const EventDeduplicationMetadataKey = Symbol('Deduplication')
 export const ContextMetadataKey = Symbol('Context')
 export const EventExpirationTimeMetadataKey = Symbol('Expiration')
+export const EventPublicationFeeMetadataKey = Symbol('PublicationFee')
@@ -1,4 +1,9 @@
 export enum FeeSchedules {
   ADMISSION = 'admission',
-  PUBLICATION = 'publication'
+  PUBLICATION = 'publication',
+  QUERY = 'query',
+}
+
+export enum PaymentsProcessorEvent {
+  PaymentReceived = 'paymentReceived',
 }
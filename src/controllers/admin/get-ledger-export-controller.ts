@@ -0,0 +1,111 @@
+import { Request, Response } from 'express'
+
+import { createLogger } from '../../factories/logger-factory'
+import { hasBearerToken } from '../../utils/http'
+import { IController } from '../../@types/controllers'
+import { ILedgerRepository } from '../../@types/repositories'
+import { LedgerEntry } from '../../@types/ledger'
+
+const debug = createLogger('get-ledger-export-controller')
+
+const CSV_COLUMNS = [
+  'id',
+  'transaction_id',
+  'created_at',
+  'type',
+  'reference',
+  'asset_code',
+  'asset_scale',
+  'amount',
+  'balance',
+]
+
+const toCsvField = (value: string | number | null): string => {
+  const field = value === null ? '' : value.toString()
+
+  return /[",\r\n]/.test(field) ? `"${field.replaceAll('"', '""')}"` : field
+}
+
+/**
+ * Exports a pubkey's ledger entries with the running balance of each asset.
+ * Disabled unless an admin API key is set.
+ */
+export class GetLedgerExportController implements IController {
+  public constructor(
+    private readonly ledgerRepository: ILedgerRepository,
+    private readonly adminApiKey: string | undefined,
+  ) {}
+
+  public async handleRequest(request: Request, response: Response): Promise<void> {
+    if (!this.adminApiKey) {
+      response.status(404).send()
+      return
+    }
+
+    if (!hasBearerToken(request, this.adminApiKey)) {
+      response
+        .status(401)
+        .setHeader('www-authenticate', 'Bearer')
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Unauthorized')
+      return
+    }
+
+    const pubkey = request.params.pubkey
+    if (!/^[0-9a-f]{64}$/.test(pubkey)) {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Invalid pubkey')
+      return
+    }
+
+    const format = request.query.format ?? 'json'
+    if (format !== 'json' && format !== 'csv') {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Invalid format')
+      return
+    }
+
+    debug('exporting ledger of %s as %s', pubkey, format)
+    const entries = await this.ledgerRepository.findByPubkey(pubkey)
+
+    const balances = new Map<string, bigint>()
+    const rows = entries.map((entry: LedgerEntry) => {
+      const balance = (balances.get(entry.assetCode) ?? 0n) + entry.amount
+      balances.set(entry.assetCode, balance)
+
+      return {
+        id: entry.id,
+        transaction_id: entry.transactionId,
+        created_at: entry.createdAt.toISOString(),
+        type: entry.type,
+        reference: entry.reference,
+        asset_code: entry.assetCode,
+        asset_scale: entry.assetScale,
+        amount: entry.amount.toString(),
+        balance: balance.toString(),
+      }
+    })
+
+    if (format === 'csv') {
+      const body = [CSV_COLUMNS, ...rows.map((row) => CSV_COLUMNS.map((column) => row[column]))]
+        .map((fields) => fields.map(toCsvField).join(','))
+        .join('\r\n')
+
+      response
+        .status(200)
+        .setHeader('content-type', 'text/csv; charset=utf8')
+        .setHeader('content-disposition', `attachment; filename="ledger-${pubkey}.csv"`)
+        .send(body)
+      return
+    }
+
+    response
+      .status(200)
+      .setHeader('content-type', 'application/json; charset=utf8')
+      .send({ pubkey, entries: rows })
+  }
+}
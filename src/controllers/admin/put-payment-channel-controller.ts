@@ -0,0 +1,121 @@
+import { Request, Response } from 'express'
+
+import { createLogger } from '../../factories/logger-factory'
+import { getBaseAsset } from '../../utils/asset'
+import { hasBearerToken } from '../../utils/http'
+import { IController } from '../../@types/controllers'
+import { InvalidPaymentChannelClaimError } from '../../errors/invalid-payment-channel-claim-error'
+import { IPaymentChannelService } from '../../@types/services'
+import { registerPaymentChannelSchema } from '../../schemas/http-request-schemas'
+import { Settings } from '../../@types/settings'
+import { validateSchema } from '../../utils/validation'
+
+const debug = createLogger('put-payment-channel-controller')
+
+interface RegisterPaymentChannelRequest {
+  chain: string
+  pubkey: string
+  senderKey: string
+  assetCode: string
+  assetScale: number
+  capacity: string
+  expiresAt?: string | null
+}
+
+/**
+ * Registers a payment channel opened to the relay so its owner can submit
+ * claims against it. Claims are only checked against the sender key, so the
+ * operator must have verified the channel on-chain before registering it.
+ */
+export class PutPaymentChannelController implements IController {
+  public constructor(
+    private readonly paymentChannelService: IPaymentChannelService,
+    private readonly settings: () => Settings,
+    private readonly adminApiKey: string | undefined,
+  ) {}
+
+  public async handleRequest(request: Request, response: Response): Promise<void> {
+    const currentSettings = this.settings()
+
+    if (
+      !this.adminApiKey
+      || !currentSettings.payments?.enabled
+      || !currentSettings.payments.paymentChannels?.enabled
+    ) {
+      response.status(404).send()
+      return
+    }
+
+    if (!hasBearerToken(request, this.adminApiKey)) {
+      response
+        .status(401)
+        .setHeader('www-authenticate', 'Bearer')
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Unauthorized')
+      return
+    }
+
+    const { error, value: body } = validateSchema(registerPaymentChannelSchema)(request.body) as {
+      error?: Error,
+      value: RegisterPaymentChannelRequest,
+    }
+    if (error) {
+      debug('invalid request: %o', error)
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send(`Invalid request: ${error.message}`)
+      return
+    }
+
+    const isAcceptedAsset = [getBaseAsset(currentSettings), ...(currentSettings.payments.acceptedAssets ?? [])]
+      .some((asset) => asset.assetCode === body.assetCode && asset.assetScale === body.assetScale)
+    if (!isAcceptedAsset) {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Unsupported asset')
+      return
+    }
+
+    const channel = {
+      id: request.params.channelId,
+      chain: body.chain,
+      pubkey: body.pubkey,
+      senderKey: body.senderKey,
+      assetCode: body.assetCode,
+      assetScale: body.assetScale,
+      capacity: BigInt(body.capacity),
+      expiresAt: body.expiresAt ? new Date(body.expiresAt) : null,
+    }
+
+    try {
+      await this.paymentChannelService.registerChannel(channel)
+    } catch (error) {
+      if (error instanceof InvalidPaymentChannelClaimError) {
+        response
+          .status(400)
+          .setHeader('content-type', 'text/plain; charset=utf8')
+          .send(error.message)
+        return
+      }
+
+      response
+        .status(500)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Unable to register payment channel')
+      return
+    }
+
+    debug('registered payment channel %s on %s for %s', channel.id, channel.chain, channel.pubkey)
+
+    response
+      .status(200)
+      .setHeader('content-type', 'application/json; charset=utf8')
+      .send({
+        ...channel,
+        capacity: channel.capacity.toString(),
+        expiresAt: channel.expiresAt?.toISOString() ?? null,
+      })
+  }
+}
@@ -1,14 +1,12 @@
 import { Request, Response } from 'express'
-import { createLogger } from '../../factories/logger-factory'
-import { getRemoteAddress } from '../../utils/http'
+import { getBaseAsset } from '../../utils/asset'
 import { IController } from '../../@types/controllers'
 import { IRateLimiter } from '../../@types/utils'
+import { isAdmissionActive } from '../../utils/admission'
+import { isRequestRateLimited } from '../../utils/http'
 import { IUserRepository } from '../../@types/repositories'
-import { path } from 'ramda'
 import { Settings } from '../../@types/settings'
 
-const debug = createLogger('get-admission-check-controller')
-
 export class GetSubmissionCheckController implements IController {
   public constructor(
     private readonly userRepository: IUserRepository,
@@ -19,7 +17,7 @@ export class GetSubmissionCheckController implements IController {
   public async handleRequest(request: Request, response: Response): Promise<void> {
     const currentSettings = this.settings()
 
-    const limited = await this.isRateLimited(request, currentSettings)
+    const limited = await isRequestRateLimited(request, currentSettings, this.rateLimiter(), 'admission-check', currentSettings.limits?.admissionCheck)
     if (limited) {
       response
         .status(429)
@@ -34,37 +32,21 @@ export class GetSubmissionCheckController implements IController {
     let userAdmitted = false
 
     const minBalance = currentSettings.limits?.event?.pubkey?.minBalance
-    if (user && user.isAdmitted && (!minBalance || user.balance >= minBalance)) {
+    if (
+      isAdmissionActive(user)
+      && (
+        !minBalance
+        || await this.userRepository.getBalanceByPubkey(pubkey, getBaseAsset(currentSettings)) >= minBalance
+      )
+    ) {
       userAdmitted = true
     }
 
     response
       .status(200)
       .setHeader('content-type', 'application/json; charset=utf8')
-      .send({ userAdmitted })
+      .send({ userAdmitted, admittedUntil: user?.admittedUntil?.toISOString() ?? null })
 
     return
   }
-
-  public async isRateLimited(request: Request, settings: Settings) {
-    const rateLimits = path(['limits', 'admissionCheck', 'rateLimits'], settings)
-    if (!Array.isArray(rateLimits) || !rateLimits.length) {
-      return false
-    }
-
-    const ipWhitelist = path(['limits', 'admissionCheck', 'ipWhitelist'], settings)
-    const remoteAddress = getRemoteAddress(request, settings)
-
-    let limited = false
-    if (Array.isArray(ipWhitelist) && !ipWhitelist.includes(remoteAddress)) {
-      const rateLimiter = this.rateLimiter()
-      for (const { rate, period } of rateLimits) {
-        if (await rateLimiter.hit(`${remoteAddress}:admission-check:${period}`, 1, { period, rate })) {
-          debug('rate limited %s: %d in %d milliseconds', remoteAddress, rate, period)
-          limited = true
-        }
-      }
-    }
-    return limited
-  }
 }
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { Request, Response } from 'express'
+
+import { EventKinds, EventTags } from '../../constants/base'
+import { createLogger } from '../../factories/logger-factory'
+import { Event } from '../../@types/event'
+import { eventSchema } from '../../schemas/event-schema'
+import { IController } from '../../@types/controllers'
+import { IInviteService } from '../../@types/services'
+import { IRateLimiter } from '../../@types/utils'
+import { isRequestRateLimited } from '../../utils/http'
+import { Settings } from '../../@types/settings'
+import { validateSchema } from '../../utils/validation'
+import { validateSignedRequest } from '../../utils/event'
+
+const debug = createLogger('post-invite-redemption-controller')
+
+/**
+ * Redeems the invite whose code is in the path for the pubkey of the
+ * redemption request in the body, signed by the invitee and tagging the invite.
+ */
+export class PostInviteRedemptionController implements IController {
+  public constructor(
+    private readonly inviteService: IInviteService,
+    private readonly settings: () => Settings,
+    private readonly rateLimiter: () => IRateLimiter,
+  ) {}
+
+  public async handleRequest(request: Request, response: Response): Promise<void> {
+    debug('params: %o', request.params)
+    debug('body: %o', request.body)
+
+    const currentSettings = this.settings()
+
+    if (!currentSettings.payments?.invites?.enabled) {
+      response
+        .status(404)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Not found')
+      return
+    }
+
+    const limited = await isRequestRateLimited(request, currentSettings, this.rateLimiter(), 'invite')
+    if (limited) {
+      response
+        .status(429)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Too many requests')
+      return
+    }
+
+    const code = request.params.inviteId
+    if (typeof code !== 'string' || !/^[0-9a-f]{64}$/.test(code)) {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Invalid invite code')
+      return
+    }
+
+    const { error, value: event } = validateSchema(eventSchema)(request.body) as { error?: Error, value: Event }
+    if (error) {
+      debug('invalid request: %o', error)
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send(`Invalid request: ${error.message}`)
+      return
+    }
+
+    const invalidReason = await this.validateRedemptionRequest(event, code, currentSettings)
+    if (invalidReason) {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send(`Invalid redemption request: ${invalidReason}`)
+      return
+    }
+
+    const pubkey = event.pubkey
+
+    let reason: string | undefined
+    try {
+      reason = await this.inviteService.redeemInvite(code, pubkey)
+    } catch (error) {
+      response
+        .status(500)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Unable to redeem invite')
+      return
+    }
+
+    if (reason) {
+      debug('invite %s not redeemed by %s: %s', code, pubkey, reason)
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send(`Unable to redeem invite: ${reason}`)
+      return
+    }
+
+    response
+      .status(200)
+      .setHeader('content-type', 'text/plain; charset=utf8')
+      .send('Invite redeemed')
+  }
+  private async validateRedemptionRequest(event: Event, code: string, settings: Settings): Promise<string | undefined> {
+    const reason = await validateSignedRequest(event, EventKinds.INVITE_REDEMPTION, settings.info.relay_url)
+    if (reason) {
+      return reason
+    }
+
+    if (!event.tags.some(([name, value]) => name === EventTags.Event && value === code)) {
+      return 'invite does not match'
+    }
+  }
+}
@@ -2,12 +2,31 @@ import { path, pathEq } from 'ramda'
 import { Request, Response } from 'express'
 import { readFileSync } from 'fs'
 
+import { AdmissionPlan, FeeSchedule } from '../../@types/settings'
+import { formatAmount, getBaseAsset } from '../../utils/asset'
 import { createSettings } from '../../factories/settings-factory'
-import { FeeSchedule } from '../../@types/settings'
 import { IController } from '../../@types/controllers'
 
 let pageCache: string
 
+const renderAdmissionPlans = (plans: AdmissionPlan[], formatPlanAmount: (amount: bigint) => string): string => {
+  if (!plans.length) {
+    return ''
+  }
+
+  const options = plans.map((plan, index) => `
+                <div class="form-check">
+                  <input class="form-check-input" type="radio" name="plan" id="plan-${plan.id}" value="${plan.id}"${index === 0 ? ' checked' : ''} required>
+                  <label class="form-check-label" for="plan-${plan.id}">
+                    ${plan.description ?? plan.id} &ndash; ${formatPlanAmount(BigInt(plan.amount))}
+                  </label>
+                </div>`)
+
+  return `<div class="d-flex flex-column mb-4">
+                <span class="h5">Admission plan</span>${options.join('')}
+              </div>`
+}
+
 export class GetInvoiceController implements IController {
   public async handleRequest(
     _req: Request,
@@ -20,10 +39,16 @@ export class GetInvoiceController implements IController {
       if (!pageCache) {
         const name = path<string>(['info', 'name'])(settings)
         const feeSchedule = path<FeeSchedule>(['payments', 'feeSchedules', 'admission', '0'], settings)
+        const admissionPlans = path<AdmissionPlan[]>(['payments', 'admissionPlans'], settings) ?? []
+        const baseAsset = getBaseAsset(settings)
         pageCache = readFileSync('./resources/index.html', 'utf8')
           .replaceAll('{{name}}', name)
           .replaceAll('{{processor}}', 'none')
-          .replaceAll('{{amount}}', (BigInt(feeSchedule.amount) / 1000n).toString())
+          .replaceAll('{{plans}}', renderAdmissionPlans(admissionPlans, (amount) => formatAmount(amount, baseAsset)))
+          .replaceAll(
+            '{{pay_label}}',
+            admissionPlans.length ? 'Pay' : `Pay ${(BigInt(feeSchedule.amount) / 1000n).toString()} sats`,
+          )
       }
 
       res.status(200).setHeader('content-type', 'text/html; charset=utf8').send(pageCache)
@@ -1,14 +1,15 @@
-import { FeeSchedule, Settings } from '../../@types/settings'
+import { AdmissionPlan, FeeSchedule, Settings } from '../../@types/settings'
+import { formatAmount, getBaseAsset } from '../../utils/asset'
 import { fromBech32, toBech32 } from '../../utils/transform'
 import { getPublicKey, getRelayPrivateKey } from '../../utils/event'
 import { Request, Response } from 'express'
 
+import { Invoice, PaymentRequest, PaymentRequestType } from '../../@types/invoice'
 import { createLogger } from '../../factories/logger-factory'
-import { getRemoteAddress } from '../../utils/http'
 import { IController } from '../../@types/controllers'
-import { Invoice } from '../../@types/invoice'
 import { IPaymentsService } from '../../@types/services'
 import { IRateLimiter } from '../../@types/utils'
+import { isRequestRateLimited } from '../../utils/http'
 import { IUserRepository } from '../../@types/repositories'
 import { path } from 'ramda'
 import { readFileSync } from 'fs'
@@ -17,6 +18,18 @@ let pageCache: string
 
 const debug = createLogger('post-invoice-controller')
 
+/**
+ * Fills in the instructions of the invoice page for the type of payment request
+ */
+const toPaymentRequestReplacements = (paymentRequest: PaymentRequest | null) => ({
+  payment_request_type: paymentRequest?.type ?? '',
+  destination_account: paymentRequest?.type === PaymentRequestType.STREAM ? paymentRequest.destinationAccount : '',
+  shared_secret: paymentRequest?.type === PaymentRequestType.STREAM ? paymentRequest.sharedSecret : '',
+  payment_pointer: paymentRequest?.type === PaymentRequestType.PAYMENT_POINTER ? paymentRequest.paymentPointer : '',
+  channel_chain: paymentRequest?.type === PaymentRequestType.PAYMENT_CHANNEL ? paymentRequest.chain : '',
+  channel_destination: paymentRequest?.type === PaymentRequestType.PAYMENT_CHANNEL ? paymentRequest.destination : '',
+})
+
 export class PostInvoiceController implements IController {
   public constructor(
     private readonly userRepository: IUserRepository,
@@ -39,7 +52,7 @@ export class PostInvoiceController implements IController {
       info: { name: relayName, relay_url: relayUrl },
     } = currentSettings
 
-    const limited = await this.isRateLimited(request, currentSettings)
+    const limited = await isRequestRateLimited(request, currentSettings, this.rateLimiter(), 'invoice')
     if (limited) {
       response
         .status(429)
@@ -124,9 +137,32 @@ export class PostInvoiceController implements IController {
       return
     }
 
+    const admissionPlans = currentSettings.payments?.admissionPlans ?? []
+    let admissionPlan: AdmissionPlan | undefined
+    if (admissionPlans.length) {
+      const planId = path(['body', 'plan'], request)
+      admissionPlan = admissionPlans.find((plan) => plan.id === planId)
+      if (!admissionPlan) {
+        response
+          .status(400)
+          .setHeader('content-type', 'text/plain; charset=utf8')
+          .send('Invalid admission plan')
+
+        return
+      }
+    }
+
     const minBalance = currentSettings.limits?.event?.pubkey?.minBalance
     const user = await this.userRepository.findByPubkey(pubkey)
-    if (user && user.isAdmitted && (!minBalance || user.balance >= minBalance)) {
+    if (
+      user?.isAdmitted
+      // Time-boxed admissions can be renewed before they expire
+      && (!admissionPlan || !user.admittedUntil)
+      && (
+        !minBalance
+        || await this.userRepository.getBalanceByPubkey(pubkey, getBaseAsset(currentSettings)) >= minBalance
+      )
+    ) {
       response
         .status(400)
         .setHeader('content-type', 'text/plain; charset=utf8')
@@ -135,20 +171,39 @@ export class PostInvoiceController implements IController {
       return
     }
 
+    const baseAsset = getBaseAsset(currentSettings)
+    const assetCode = path(['body', 'assetCode'], request) ?? baseAsset.assetCode
+    const asset = [baseAsset, ...(currentSettings.payments?.acceptedAssets ?? [])]
+      .find((acceptedAsset) => acceptedAsset.assetCode === assetCode)
+    if (!asset) {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Unsupported asset')
+
+      return
+    }
+
     let invoice: Invoice
-    const amount = admissionFee.reduce((sum, fee) => {
-      return fee.enabled && !fee.whitelists?.pubkeys?.includes(pubkey)
-        ? BigInt(fee.amount) + sum
-        : sum
-    }, 0n)
+    const amount = admissionPlan
+      ? BigInt(admissionPlan.amount)
+      : admissionFee.reduce((sum, fee) => {
+        return fee.enabled && !fee.whitelists?.pubkeys?.includes(pubkey)
+          ? BigInt(fee.amount) + sum
+          : sum
+      }, 0n)
 
     try {
-      const description = `${relayName} Admission Fee for ${toBech32('npub')(pubkey)}`
+      const description = admissionPlan
+        ? `${relayName} Admission Fee (${admissionPlan.description ?? admissionPlan.id}) for ${toBech32('npub')(pubkey)}`
+        : `${relayName} Admission Fee for ${toBech32('npub')(pubkey)}`
 
       invoice = await this.paymentsService.createInvoice(
         pubkey,
         amount,
         description,
+        asset,
+        admissionPlan?.id,
       )
     } catch (error) {
       console.error('Unable to create invoice. Reason:', error)
@@ -169,9 +224,9 @@ export class PostInvoiceController implements IController {
       pubkey,
       relay_pubkey: relayPubkey,
       expires_at: invoice.expiresAt?.toISOString() ?? '',
-      invoice: invoice.bolt11,
-      amount: amount / 1000n,
-      processor: 'none',
+      ...toPaymentRequestReplacements(invoice.paymentRequest),
+      amount: formatAmount(invoice.amountRequested, invoice),
+      asset_code: invoice.assetCode,
     }
 
     const body = Object
@@ -185,26 +240,4 @@ export class PostInvoiceController implements IController {
 
     return
   }
-
-  public async isRateLimited(request: Request, settings: Settings) {
-    const rateLimits = path(['limits', 'invoice', 'rateLimits'], settings)
-    if (!Array.isArray(rateLimits) || !rateLimits.length) {
-      return false
-    }
-
-    const ipWhitelist = path(['limits', 'invoice', 'ipWhitelist'], settings)
-    const remoteAddress = getRemoteAddress(request, settings)
-
-    let limited = false
-    if (Array.isArray(ipWhitelist) && !ipWhitelist.includes(remoteAddress)) {
-      const rateLimiter = this.rateLimiter()
-      for (const { rate, period } of rateLimits) {
-        if (await rateLimiter.hit(`${remoteAddress}:invoice:${period}`, 1, { period, rate })) {
-          debug('rate limited %s: %d in %d milliseconds', remoteAddress, rate, period)
-          limited = true
-        }
-      }
-    }
-    return limited
-  }
 }
\ No newline at end of file
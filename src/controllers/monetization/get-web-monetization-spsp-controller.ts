@@ -0,0 +1,112 @@
+import { Request, Response } from 'express'
+
+import { fromBech32, toBech32 } from '../../utils/transform'
+import { createLogger } from '../../factories/logger-factory'
+import { ICacheAdapter } from '../../@types/adapters'
+import { IController } from '../../@types/controllers'
+import { IPaymentsService } from '../../@types/services'
+import { IRateLimiter } from '../../@types/utils'
+import { isRequestRateLimited } from '../../utils/http'
+import { PaymentRequestType } from '../../@types/invoice'
+import { Settings } from '../../@types/settings'
+
+const debug = createLogger('get-web-monetization-spsp-controller')
+
+/**
+ * SPSP endpoint of the monetization link on the relay's web pages. Payments
+ * are credited to the pubkey the session is bound to, or to the relay
+ * operator outside of a session.
+ */
+export class GetWebMonetizationSpspController implements IController {
+  public constructor(
+    private readonly paymentsService: IPaymentsService,
+    private readonly cacheAdapter: ICacheAdapter,
+    private readonly settings: () => Settings,
+    private readonly rateLimiter: () => IRateLimiter,
+  ) {}
+
+  public async handleRequest(request: Request, response: Response): Promise<void> {
+    const currentSettings = this.settings()
+    const webMonetization = currentSettings.payments?.webMonetization
+
+    if (!currentSettings.payments?.enabled || !webMonetization?.enabled) {
+      response
+        .status(404)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Not found')
+      return
+    }
+
+    const limited = await isRequestRateLimited(request, currentSettings, this.rateLimiter(), 'web-monetization')
+    if (limited) {
+      response
+        .status(429)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Too many requests')
+      return
+    }
+
+    const pubkey = await this.getPubkey(request, currentSettings)
+    if (!pubkey) {
+      response
+        .status(404)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Not found')
+      return
+    }
+
+    const description = `${currentSettings.info.name} Web Monetization for ${toBech32('npub')(pubkey)}`
+
+    let paymentRequest
+    try {
+      ({ paymentRequest } = await this.paymentsService.createInvoice(pubkey, 0n, description))
+    } catch (error) {
+      console.error('Unable to create web monetization invoice. Reason:', error)
+    }
+
+    if (paymentRequest?.type !== PaymentRequestType.STREAM) {
+      response
+        .status(500)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Unable to create payment request')
+      return
+    }
+
+    debug('web monetization payments from %s credited to %s', request.params.sessionId ?? 'the relay', pubkey)
+
+    response
+      .status(200)
+      .setHeader('content-type', 'application/spsp4+json')
+      .setHeader('cache-control', 'no-store')
+      .setHeader('access-control-allow-origin', '*')
+      .send({
+        destination_account: paymentRequest.destinationAccount,
+        shared_secret: paymentRequest.sharedSecret,
+      })
+  }
+
+  /**
+   * Pubkey of the session in the path, or the relay operator's pubkey
+   */
+  private async getPubkey(request: Request, settings: Settings): Promise<string | undefined> {
+    const { sessionId } = request.params
+    if (typeof sessionId === 'string') {
+      if (!/^[0-9a-f-]{36}$/.test(sessionId)) {
+        return
+      }
+
+      return await this.cacheAdapter.getKey(`web-monetization:session:${sessionId}`) ?? undefined
+    }
+
+    const operatorPubkey = settings.info.pubkey
+    if (typeof operatorPubkey !== 'string') {
+      return
+    }
+
+    try {
+      return operatorPubkey.startsWith('npub1') ? fromBech32(operatorPubkey) : operatorPubkey
+    } catch {
+      return
+    }
+  }
+}
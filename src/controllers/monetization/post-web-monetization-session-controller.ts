@@ -0,0 +1,97 @@
+import { Request, Response } from 'express'
+import { path } from 'ramda'
+import { randomUUID } from 'crypto'
+
+import { getRelayWebUrl, getWebMonetizationUrl } from '../../utils/web-monetization'
+import { createLogger } from '../../factories/logger-factory'
+import { fromBech32 } from '../../utils/transform'
+import { ICacheAdapter } from '../../@types/adapters'
+import { IController } from '../../@types/controllers'
+import { IRateLimiter } from '../../@types/utils'
+import { isRequestRateLimited } from '../../utils/http'
+import { Settings } from '../../@types/settings'
+
+const debug = createLogger('post-web-monetization-session-controller')
+
+const DEFAULT_SESSION_TTL = 86400
+
+/**
+ * Binds a Web Monetization session to a pubkey. Pages switch their
+ * monetization link to the payment pointer of the session so that payments
+ * made while browsing are credited to the pubkey's balance.
+ */
+export class PostWebMonetizationSessionController implements IController {
+  public constructor(
+    private readonly cacheAdapter: ICacheAdapter,
+    private readonly settings: () => Settings,
+    private readonly rateLimiter: () => IRateLimiter,
+  ) {}
+
+  public async handleRequest(request: Request, response: Response): Promise<void> {
+    const currentSettings = this.settings()
+
+    if (!getWebMonetizationUrl(currentSettings)) {
+      response
+        .status(404)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Not found')
+      return
+    }
+
+    const limited = await isRequestRateLimited(request, currentSettings, this.rateLimiter(), 'web-monetization-session')
+    if (limited) {
+      response
+        .status(429)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Too many requests')
+      return
+    }
+
+    const pubkeyRaw = path(['body', 'pubkey'], request)
+
+    let pubkey: string
+    if (typeof pubkeyRaw !== 'string') {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Invalid pubkey: missing')
+      return
+    } else if (/^[0-9a-f]{64}$/.test(pubkeyRaw)) {
+      pubkey = pubkeyRaw
+    } else if (/^npub1/.test(pubkeyRaw)) {
+      try {
+        pubkey = fromBech32(pubkeyRaw)
+      } catch (error) {
+        response
+          .status(400)
+          .setHeader('content-type', 'text/plain; charset=utf8')
+          .send('Invalid pubkey: invalid npub')
+        return
+      }
+    } else {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Invalid pubkey: unknown format')
+      return
+    }
+
+    const id = randomUUID()
+    const key = `web-monetization:session:${id}`
+    const sessionTtl = currentSettings.payments?.webMonetization?.sessionTtl ?? DEFAULT_SESSION_TTL
+
+    await this.cacheAdapter.setKey(key, pubkey)
+    await this.cacheAdapter.setKeyExpiry(key, sessionTtl)
+
+    debug('web monetization session %s bound to %s', id, pubkey)
+
+    response
+      .status(201)
+      .setHeader('content-type', 'application/json; charset=utf8')
+      .send({
+        id,
+        monetizationUrl: getRelayWebUrl(currentSettings, `/monetization/sessions/${id}`),
+        expiresAt: new Date(Date.now() + sessionTtl * 1000).toISOString(),
+      })
+  }
+}
@@ -0,0 +1,98 @@
+import { Request, Response } from 'express'
+
+import { fromBech32, toBech32 } from '../../utils/transform'
+import { createLogger } from '../../factories/logger-factory'
+import { IController } from '../../@types/controllers'
+import { IPaymentsService } from '../../@types/services'
+import { IRateLimiter } from '../../@types/utils'
+import { isRequestRateLimited } from '../../utils/http'
+import { PaymentRequestType } from '../../@types/invoice'
+import { Settings } from '../../@types/settings'
+
+const debug = createLogger('get-spsp-controller')
+
+/**
+ * Processors whose invoices carry STREAM credentials
+ */
+const STREAM_PROCESSORS = ['ilpStream', 'ilpConnector']
+
+/**
+ * SPSP (Simple Payment Setup Protocol) endpoint returning STREAM credentials
+ * that credit any amount received to the balance of the given pubkey.
+ */
+export class GetSpspController implements IController {
+  public constructor(
+    private readonly paymentsService: IPaymentsService,
+    private readonly settings: () => Settings,
+    private readonly rateLimiter: () => IRateLimiter,
+  ) {}
+
+  public async handleRequest(request: Request, response: Response): Promise<void> {
+    const currentSettings = this.settings()
+
+    if (!currentSettings.payments?.enabled || !STREAM_PROCESSORS.includes(currentSettings.payments?.processor)) {
+      response
+        .status(404)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Not found')
+      return
+    }
+
+    const limited = await isRequestRateLimited(request, currentSettings, this.rateLimiter(), 'spsp')
+    if (limited) {
+      response
+        .status(429)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Too many requests')
+      return
+    }
+
+    const pubkeyRaw = request.params.pubkey
+
+    let pubkey: string
+    if (/^[0-9a-f]{64}$/.test(pubkeyRaw)) {
+      pubkey = pubkeyRaw
+    } else if (/^npub1/.test(pubkeyRaw)) {
+      try {
+        pubkey = fromBech32(pubkeyRaw)
+      } catch (error) {
+        response
+          .status(400)
+          .setHeader('content-type', 'text/plain; charset=utf8')
+          .send('Invalid pubkey: invalid npub')
+
+        return
+      }
+    } else {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Invalid pubkey: unknown format')
+
+      return
+    }
+
+    const description = `${currentSettings.info.name} Top-up for ${toBech32('npub')(pubkey)}`
+    const invoice = await this.paymentsService.getTopUpInvoice(pubkey, description)
+    debug('top-up invoice %s for %s', invoice.id, pubkey)
+
+    const { paymentRequest } = invoice
+    if (paymentRequest?.type !== PaymentRequestType.STREAM) {
+      response
+        .status(500)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Unable to create payment request')
+      return
+    }
+
+    response
+      .status(200)
+      .setHeader('content-type', 'application/spsp4+json')
+      .setHeader('cache-control', 'no-store')
+      .setHeader('access-control-allow-origin', '*')
+      .send({
+        destination_account: paymentRequest.destinationAccount,
+        shared_secret: paymentRequest.sharedSecret,
+      })
+  }
+}
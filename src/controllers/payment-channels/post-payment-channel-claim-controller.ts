@@ -0,0 +1,79 @@
+import { Request, Response } from 'express'
+
+import { createLogger } from '../../factories/logger-factory'
+import { IController } from '../../@types/controllers'
+import { InvalidPaymentChannelClaimError } from '../../errors/invalid-payment-channel-claim-error'
+import { IPaymentChannelService } from '../../@types/services'
+import { paymentChannelClaimSchema } from '../../schemas/http-request-schemas'
+import { Settings } from '../../@types/settings'
+import { validateSchema } from '../../utils/validation'
+
+const debug = createLogger('post-payment-channel-claim-controller')
+
+/**
+ * Accepts a signed claim for the cumulative amount owed on a registered
+ * payment channel and credits its owner with the increase.
+ */
+export class PostPaymentChannelClaimController implements IController {
+  public constructor(
+    private readonly paymentChannelService: IPaymentChannelService,
+    private readonly settings: () => Settings,
+  ) {}
+
+  public async handleRequest(request: Request, response: Response): Promise<void> {
+    const currentSettings = this.settings()
+
+    if (!currentSettings.payments?.enabled || !currentSettings.payments.paymentChannels?.enabled) {
+      response
+        .status(404)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Not found')
+      return
+    }
+
+    const { error, value: body } = validateSchema(paymentChannelClaimSchema)(request.body) as {
+      error?: Error,
+      value: { amount: string, signature: string },
+    }
+    if (error) {
+      debug('invalid request: %o', error)
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send(`Invalid request: ${error.message}`)
+      return
+    }
+
+    const channelId = request.params.channelId
+
+    let credited: bigint
+    try {
+      credited = await this.paymentChannelService.submitClaim({
+        channelId,
+        amount: BigInt(body.amount),
+        signature: body.signature,
+      })
+    } catch (error) {
+      if (error instanceof InvalidPaymentChannelClaimError) {
+        response
+          .status(400)
+          .setHeader('content-type', 'text/plain; charset=utf8')
+          .send(`Invalid claim: ${error.message}`)
+        return
+      }
+
+      response
+        .status(500)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Unable to submit claim')
+      return
+    }
+
+    debug('credited %s from claim on channel %s', credited, channelId)
+
+    response
+      .status(200)
+      .setHeader('content-type', 'application/json; charset=utf8')
+      .send({ channelId, amount: body.amount, credited: credited.toString() })
+  }
+}
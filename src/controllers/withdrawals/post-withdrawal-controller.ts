@@ -0,0 +1,161 @@
+import { Request, Response } from 'express'
+
+import { EventKinds, EventTags } from '../../constants/base'
+import { isPaymentPointer, isPaymentPointerHostPublic } from '../../utils/payment-pointer'
+import { Withdrawal, WithdrawalStatus } from '../../@types/withdrawal'
+import { createLogger } from '../../factories/logger-factory'
+import { Event } from '../../@types/event'
+import { eventSchema } from '../../schemas/event-schema'
+import { getBaseAsset } from '../../utils/asset'
+import { IController } from '../../@types/controllers'
+import { IPaymentsService } from '../../@types/services'
+import { IRateLimiter } from '../../@types/utils'
+import { isRequestRateLimited } from '../../utils/http'
+import { Settings } from '../../@types/settings'
+import { validateSchema } from '../../utils/validation'
+import { validateSignedRequest } from '../../utils/event'
+
+const debug = createLogger('post-withdrawal-controller')
+
+const getTagValue = (event: Event, tagName: string): string | undefined =>
+  event.tags.find(([name]) => name === tagName)?.[1]
+
+const toJSON = (withdrawal: Withdrawal) => ({
+  id: withdrawal.id,
+  status: withdrawal.status,
+  paymentPointer: withdrawal.paymentPointer,
+  assetCode: withdrawal.assetCode,
+  assetScale: withdrawal.assetScale,
+  amount: withdrawal.amount.toString(),
+  amountSent: withdrawal.amountSent?.toString() ?? null,
+  completedAt: withdrawal.completedAt?.toISOString() ?? null,
+})
+
+/**
+ * Pays out unused balance to the payment pointer in a withdrawal request
+ * signed by the balance's pubkey.
+ *
+ * Requests are identified by their event id so resubmitting one returns the
+ * outcome of the first submission.
+ */
+export class PostWithdrawalController implements IController {
+  public constructor(
+    private readonly paymentsService: IPaymentsService,
+    private readonly settings: () => Settings,
+    private readonly rateLimiter: () => IRateLimiter,
+  ) {}
+
+  public async handleRequest(request: Request, response: Response): Promise<void> {
+    const currentSettings = this.settings()
+
+    if (!currentSettings.payments?.enabled) {
+      response
+        .status(404)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Not found')
+      return
+    }
+
+    const limited = await isRequestRateLimited(request, currentSettings, this.rateLimiter(), 'withdrawal')
+    if (limited) {
+      response
+        .status(429)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Too many requests')
+      return
+    }
+
+    const { error, value: event } = validateSchema(eventSchema)(request.body) as { error?: Error, value: Event }
+    if (error) {
+      debug('invalid request: %o', error)
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send(`Invalid request: ${error.message}`)
+      return
+    }
+
+    const reason = await this.validateWithdrawalRequest(event, currentSettings)
+    if (reason) {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send(`Invalid withdrawal request: ${reason}`)
+      return
+    }
+
+    const baseAsset = getBaseAsset(currentSettings)
+    const assetCode = getTagValue(event, EventTags.Asset) ?? baseAsset.assetCode
+    const asset = [baseAsset, ...(currentSettings.payments?.acceptedAssets ?? [])]
+      .find((acceptedAsset) => acceptedAsset.assetCode === assetCode)
+    if (!asset) {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Unsupported asset')
+      return
+    }
+
+    const amountRaw = getTagValue(event, EventTags.Amount)
+    if (typeof amountRaw === 'string' && !/^[1-9][0-9]{0,18}$/.test(amountRaw)) {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Invalid withdrawal request: invalid amount')
+      return
+    }
+
+    let withdrawal: Withdrawal | undefined
+    try {
+      withdrawal = await this.paymentsService.getWithdrawal(event.id)
+        ?? await this.paymentsService.withdraw({
+          id: event.id,
+          pubkey: event.pubkey,
+          paymentPointer: getTagValue(event, EventTags.PaymentPointer),
+          assetCode: asset.assetCode,
+          assetScale: asset.assetScale,
+          amount: typeof amountRaw === 'string' ? BigInt(amountRaw) : undefined,
+        })
+        // A concurrent submission of the same request may have taken the balance
+        ?? await this.paymentsService.getWithdrawal(event.id)
+    } catch (error) {
+      console.error('Unable to withdraw. Reason:', error)
+      response
+        .status(500)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Unable to withdraw')
+      return
+    }
+
+    if (!withdrawal) {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Insufficient balance')
+      return
+    }
+
+    debug('withdrawal %s: %s', withdrawal.id, withdrawal.status)
+
+    response
+      .status(withdrawal.status === WithdrawalStatus.FAILED ? 502 : 200)
+      .setHeader('content-type', 'application/json; charset=utf8')
+      .send(toJSON(withdrawal))
+  }
+
+  private async validateWithdrawalRequest(event: Event, settings: Settings): Promise<string | undefined> {
+    const reason = await validateSignedRequest(event, EventKinds.WITHDRAWAL_REQUEST, settings.info.relay_url)
+    if (reason) {
+      return reason
+    }
+
+    const paymentPointer = getTagValue(event, EventTags.PaymentPointer)
+    if (!isPaymentPointer(paymentPointer)) {
+      return 'invalid payment pointer'
+    }
+
+    if (!await isPaymentPointerHostPublic(paymentPointer)) {
+      return 'payment pointer host is not public'
+    }
+  }
+}
@@ -3,6 +3,33 @@ import { Knex } from 'knex'
 import { DatabaseClient, DatabaseTransaction } from '../@types/base'
 import { ITransaction } from '../@types/database'
 
+const SERIALIZATION_FAILURE = '40001'
+
+const MAX_SERIALIZABLE_TRANSACTION_ATTEMPTS = 3
+
+export const isSerializationFailure = (error: unknown): boolean =>
+  (error as { code?: string } | undefined)?.code === SERIALIZATION_FAILURE
+
+/**
+ * Runs the callback in a serializable transaction, running it again when
+ * Postgres aborts the transaction for conflicting with a concurrent one
+ */
+export const runSerializableTransaction = async <T>(
+  dbClient: DatabaseClient,
+  callback: (trx: DatabaseTransaction) => Promise<T>,
+  maxAttempts = MAX_SERIALIZABLE_TRANSACTION_ATTEMPTS,
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await dbClient.transaction(callback, { isolationLevel: 'serializable' })
+    } catch (error) {
+      if (attempt >= maxAttempts || !isSerializationFailure(error)) {
+        throw error
+      }
+    }
+  }
+}
+
 export class Transaction implements ITransaction {
   private trx: Knex.Transaction<any, any[]>
 
@@ -0,0 +1,12 @@
+import { AssetAmount } from '../@types/asset'
+
+/**
+ * Thrown when a charge made inside a transaction finds the balance short,
+ * e.g. because a concurrent charge spent it after the balance was checked
+ */
+export class InsufficientBalanceError extends Error {
+  public constructor(public readonly amount: AssetAmount, message?: string) {
+    super(message ?? `Insufficient balance for ${amount.amount.toString()} ${amount.assetCode}`)
+    this.name = 'InsufficientBalanceError'
+  }
+}
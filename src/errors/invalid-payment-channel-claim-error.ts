@@ -0,0 +1,10 @@
+/**
+ * Thrown when a payment channel or claim is rejected because of what the
+ * submitter sent rather than a failure on the relay's side
+ */
+export class InvalidPaymentChannelClaimError extends Error {
+  public constructor(message: string) {
+    super(message)
+    this.name = 'InvalidPaymentChannelClaimError'
+  }
+}
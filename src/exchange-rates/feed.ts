@@ -0,0 +1,25 @@
+import { ExchangeRateTable } from '../@types/exchange-rate'
+
+/**
+ * Rate feeds are JSON documents of the form
+ * `{ "base": "BTC", "rates": { "XRP": "0.0000085" } }`.
+ * `base` is optional but, when present, must match the relay's base asset.
+ */
+export const parseExchangeRateFeed = (feed: unknown, baseAssetCode: string): ExchangeRateTable => {
+  if (typeof feed !== 'object' || feed === null || typeof (feed as any).rates !== 'object') {
+    throw new Error('Invalid exchange rate feed: missing rates')
+  }
+
+  const { base, rates } = feed as { base?: string, rates: Record<string, unknown> }
+  if (typeof base === 'string' && base !== baseAssetCode) {
+    throw new Error(`Invalid exchange rate feed: base ${base} does not match base asset ${baseAssetCode}`)
+  }
+
+  return Object.entries(rates).reduce((table, [assetCode, rate]) => {
+    if (typeof rate === 'string' || typeof rate === 'number') {
+      table[assetCode] = String(rate)
+    }
+
+    return table
+  }, {} as ExchangeRateTable)
+}
@@ -0,0 +1,26 @@
+import { readFile } from 'fs/promises'
+
+import { ExchangeRateTable, IExchangeRateSource } from '../@types/exchange-rate'
+import { getBaseAsset } from '../utils/asset'
+import { parseExchangeRateFeed } from './feed'
+import { Settings } from '../@types/settings'
+
+/**
+ * Reads rates from the JSON file at `payments.exchangeRates.path`, e.g. one
+ * kept up to date by a cron job
+ */
+export class FileExchangeRateSource implements IExchangeRateSource {
+  public constructor(private readonly settings: () => Settings) {}
+
+  public async getRates(): Promise<ExchangeRateTable> {
+    const currentSettings = this.settings()
+    const path = currentSettings.payments?.exchangeRates?.path
+    if (typeof path !== 'string' || !path) {
+      throw new Error('payments.exchangeRates.path must be set.')
+    }
+
+    const feed = JSON.parse(await readFile(path, 'utf8'))
+
+    return parseExchangeRateFeed(feed, getBaseAsset(currentSettings).assetCode)
+  }
+}
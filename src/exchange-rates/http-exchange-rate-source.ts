@@ -0,0 +1,28 @@
+import { AxiosInstance } from 'axios'
+
+import { ExchangeRateTable, IExchangeRateSource } from '../@types/exchange-rate'
+import { getBaseAsset } from '../utils/asset'
+import { parseExchangeRateFeed } from './feed'
+import { Settings } from '../@types/settings'
+
+/**
+ * Fetches rates from the JSON feed at `payments.exchangeRates.url`
+ */
+export class HttpExchangeRateSource implements IExchangeRateSource {
+  public constructor(
+    private readonly httpClient: AxiosInstance,
+    private readonly settings: () => Settings,
+  ) {}
+
+  public async getRates(): Promise<ExchangeRateTable> {
+    const currentSettings = this.settings()
+    const url = currentSettings.payments?.exchangeRates?.url
+    if (typeof url !== 'string' || !url) {
+      throw new Error('payments.exchangeRates.url must be set.')
+    }
+
+    const response = await this.httpClient.get(url)
+
+    return parseExchangeRateFeed(response.data, getBaseAsset(currentSettings).assetCode)
+  }
+}
@@ -0,0 +1,17 @@
+import { ExchangeRateTable, IExchangeRateSource } from '../@types/exchange-rate'
+import { Settings } from '../@types/settings'
+
+/**
+ * Reads rates from `payments.exchangeRates.rates` in settings
+ */
+export class StaticExchangeRateSource implements IExchangeRateSource {
+  public constructor(private readonly settings: () => Settings) {}
+
+  public async getRates(): Promise<ExchangeRateTable> {
+    const rates = this.settings().payments?.exchangeRates?.rates ?? {}
+
+    return Object.fromEntries(
+      Object.entries(rates).map(([assetCode, rate]) => [assetCode, String(rate)]),
+    )
+  }
+}
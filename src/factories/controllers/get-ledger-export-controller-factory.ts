@@ -0,0 +1,11 @@
+import { GetLedgerExportController } from '../../controllers/admin/get-ledger-export-controller'
+import { getMasterDbClient } from '../../database/client'
+import { IController } from '../../@types/controllers'
+import { LedgerRepository } from '../../repositories/ledger-repository'
+
+export const createGetLedgerExportController = (): IController => {
+  return new GetLedgerExportController(
+    new LedgerRepository(getMasterDbClient()),
+    process.env.ADMIN_API_KEY,
+  )
+}
@@ -0,0 +1,15 @@
+import { createPaymentsService } from '../payments-service-factory'
+import { createSettings } from '../settings-factory'
+import { GetSpspController } from '../../controllers/pay/get-spsp-controller'
+import { IController } from '../../@types/controllers'
+import { slidingWindowRateLimiterFactory } from '../rate-limiter-factory'
+
+export const createGetSpspController = (): IController => {
+  const paymentsService = createPaymentsService()
+
+  return new GetSpspController(
+    paymentsService,
+    createSettings,
+    slidingWindowRateLimiterFactory,
+  )
+}
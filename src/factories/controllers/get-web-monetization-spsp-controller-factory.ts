@@ -0,0 +1,15 @@
+import { cacheAdapterFactory } from '../cache-adapter-factory'
+import { createPaymentsService } from '../payments-service-factory'
+import { createSettings } from '../settings-factory'
+import { GetWebMonetizationSpspController } from '../../controllers/monetization/get-web-monetization-spsp-controller'
+import { IController } from '../../@types/controllers'
+import { slidingWindowRateLimiterFactory } from '../rate-limiter-factory'
+
+export const createGetWebMonetizationSpspController = (): IController => {
+  return new GetWebMonetizationSpspController(
+    createPaymentsService(),
+    cacheAdapterFactory(),
+    createSettings,
+    slidingWindowRateLimiterFactory,
+  )
+}
@@ -0,0 +1,13 @@
+import { createInviteService } from '../invite-service-factory'
+import { createSettings } from '../settings-factory'
+import { IController } from '../../@types/controllers'
+import { PostInviteRedemptionController } from '../../controllers/invites/post-invite-redemption-controller'
+import { slidingWindowRateLimiterFactory } from '../rate-limiter-factory'
+
+export const createPostInviteRedemptionController = (): IController => {
+  return new PostInviteRedemptionController(
+    createInviteService(),
+    createSettings,
+    slidingWindowRateLimiterFactory,
+  )
+}
@@ -0,0 +1,11 @@
+import { createPaymentChannelService } from '../payment-channel-service-factory'
+import { createSettings } from '../settings-factory'
+import { IController } from '../../@types/controllers'
+import { PostPaymentChannelClaimController } from '../../controllers/payment-channels/post-payment-channel-claim-controller'
+
+export const createPostPaymentChannelClaimController = (): IController => {
+  return new PostPaymentChannelClaimController(
+    createPaymentChannelService(),
+    createSettings,
+  )
+}
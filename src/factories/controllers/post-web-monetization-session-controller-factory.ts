@@ -0,0 +1,15 @@
+import { cacheAdapterFactory } from '../cache-adapter-factory'
+import { createSettings } from '../settings-factory'
+import { IController } from '../../@types/controllers'
+import {
+  PostWebMonetizationSessionController,
+} from '../../controllers/monetization/post-web-monetization-session-controller'
+import { slidingWindowRateLimiterFactory } from '../rate-limiter-factory'
+
+export const createPostWebMonetizationSessionController = (): IController => {
+  return new PostWebMonetizationSessionController(
+    cacheAdapterFactory(),
+    createSettings,
+    slidingWindowRateLimiterFactory,
+  )
+}
@@ -0,0 +1,15 @@
+import { createPaymentsService } from '../payments-service-factory'
+import { createSettings } from '../settings-factory'
+import { IController } from '../../@types/controllers'
+import { PostWithdrawalController } from '../../controllers/withdrawals/post-withdrawal-controller'
+import { slidingWindowRateLimiterFactory } from '../rate-limiter-factory'
+
+export const createPostWithdrawalController = (): IController => {
+  const paymentsService = createPaymentsService()
+
+  return new PostWithdrawalController(
+    paymentsService,
+    createSettings,
+    slidingWindowRateLimiterFactory,
+  )
+}
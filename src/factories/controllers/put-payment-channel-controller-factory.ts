@@ -0,0 +1,12 @@
+import { createPaymentChannelService } from '../payment-channel-service-factory'
+import { createSettings } from '../settings-factory'
+import { IController } from '../../@types/controllers'
+import { PutPaymentChannelController } from '../../controllers/admin/put-payment-channel-controller'
+
+export const createPutPaymentChannelController = (): IController => {
+  return new PutPaymentChannelController(
+    createPaymentChannelService(),
+    createSettings,
+    process.env.ADMIN_API_KEY,
+  )
+}
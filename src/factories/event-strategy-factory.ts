@@ -1,17 +1,27 @@
-import { isDeleteEvent, isEphemeralEvent, isParameterizedReplaceableEvent, isReplaceableEvent } from '../utils/event'
+import { IEventRepository, IInviteRepository, IUserRepository } from '../@types/repositories'
+import {
+  isDeleteEvent,
+  isEphemeralEvent,
+  isInviteEvent,
+  isParameterizedReplaceableEvent,
+  isReplaceableEvent,
+} from '../utils/event'
+import { createSettings } from './settings-factory'
 import { DefaultEventStrategy } from '../handlers/event-strategies/default-event-strategy'
 import { DeleteEventStrategy } from '../handlers/event-strategies/delete-event-strategy'
 import { EphemeralEventStrategy } from '../handlers/event-strategies/ephemeral-event-strategy'
 import { Event } from '../@types/event'
 import { Factory } from '../@types/base'
-import { IEventRepository } from '../@types/repositories'
 import { IEventStrategy } from '../@types/message-handlers'
+import { InviteEventStrategy } from '../handlers/event-strategies/invite-event-strategy'
 import { IWebSocketAdapter } from '../@types/adapters'
 import { ParameterizedReplaceableEventStrategy } from '../handlers/event-strategies/parameterized-replaceable-event-strategy'
 import { ReplaceableEventStrategy } from '../handlers/event-strategies/replaceable-event-strategy'
 
 export const eventStrategyFactory = (
   eventRepository: IEventRepository,
+  userRepository: IUserRepository,
+  inviteRepository: IInviteRepository,
 ): Factory<IEventStrategy<Event, Promise<void>>, [Event, IWebSocketAdapter]> =>
   ([event, adapter]: [Event, IWebSocketAdapter]) => {
     if (isReplaceableEvent(event)) {
@@ -20,6 +30,8 @@ export const eventStrategyFactory = (
       return new EphemeralEventStrategy(adapter)
     } else if (isDeleteEvent(event)) {
       return new DeleteEventStrategy(adapter, eventRepository)
+    } else if (isInviteEvent(event)) {
+      return new InviteEventStrategy(adapter, inviteRepository, userRepository, createSettings)
     } else if (isParameterizedReplaceableEvent(event)) {
       return new ParameterizedReplaceableEventStrategy(adapter, eventRepository)
     } 
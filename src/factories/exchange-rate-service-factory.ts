@@ -0,0 +1,25 @@
+import axios from 'axios'
+
+import { createSettings } from './settings-factory'
+import { ExchangeRateService } from '../services/exchange-rate-service'
+import { FileExchangeRateSource } from '../exchange-rates/file-exchange-rate-source'
+import { HttpExchangeRateSource } from '../exchange-rates/http-exchange-rate-source'
+import { IExchangeRateSource } from '../@types/exchange-rate'
+import { StaticExchangeRateSource } from '../exchange-rates/static-exchange-rate-source'
+
+const createExchangeRateSource = (): IExchangeRateSource => {
+  const source = createSettings().payments?.exchangeRates?.source ?? 'static'
+
+  switch (source) {
+    case 'static':
+      return new StaticExchangeRateSource(createSettings)
+    case 'file':
+      return new FileExchangeRateSource(createSettings)
+    case 'http':
+      return new HttpExchangeRateSource(axios.create({ maxRedirects: 1, timeout: 5000 }), createSettings)
+    default:
+      throw new Error(`Unknown exchange rate source: ${source}`)
+  }
+}
+
+export const createExchangeRateService = () => new ExchangeRateService(createExchangeRateSource(), createSettings)
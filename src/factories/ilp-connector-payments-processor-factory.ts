@@ -0,0 +1,26 @@
+import axios from 'axios'
+
+import { createSettings } from './settings-factory'
+import { IlpConnectorClient } from '../clients/ilp-connector-client'
+import { IlpConnectorPaymentsProcessor } from '../payments-processors/ilp-connector-payments-processor'
+import { IPaymentsProcessor } from '../@types/clients'
+
+const getConnectorUrl = (): string => {
+  if (typeof process.env.ILP_CONNECTOR_URL !== 'string' || !process.env.ILP_CONNECTOR_URL) {
+    throw new Error('ILP_CONNECTOR_URL must be set.')
+  }
+
+  return process.env.ILP_CONNECTOR_URL
+}
+
+export const createIlpConnectorPaymentsProcessor = (): IPaymentsProcessor => {
+  const httpClient = axios.create({
+    baseURL: getConnectorUrl(),
+    headers: process.env.ILP_CONNECTOR_AUTH_TOKEN
+      ? { authorization: `Bearer ${process.env.ILP_CONNECTOR_AUTH_TOKEN}` }
+      : {},
+    maxRedirects: 1,
+  })
+
+  return new IlpConnectorPaymentsProcessor(new IlpConnectorClient(httpClient), createSettings)
+}
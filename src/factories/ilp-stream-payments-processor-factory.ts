@@ -0,0 +1,48 @@
+import axios from 'axios'
+import BtpPlugin from 'ilp-plugin-btp'
+
+import { cacheAdapterFactory } from './cache-adapter-factory'
+import { createSettings } from './settings-factory'
+import { deriveFromSecret } from '../utils/secret'
+import { IlpStreamPaymentsProcessor } from '../payments-processors/ilp-stream-payments-processor'
+import { IPaymentsProcessor } from '../@types/clients'
+import { SpspClient } from '../clients/spsp-client'
+
+let instance: IPaymentsProcessor | undefined = undefined
+
+const getBtpServerUri = (suffix?: string): string => {
+  if (typeof process.env.ILP_BTP_URI !== 'string' || !process.env.ILP_BTP_URI) {
+    throw new Error('ILP_BTP_URI must be set.')
+  }
+
+  const uri = new URL(process.env.ILP_BTP_URI)
+
+  // Each process gets its own account on the connector so that payments
+  // reach the process that issued the invoice.
+  const account = [process.env.WORKER_TYPE, process.env.WORKER_INDEX, suffix]
+    .filter((part) => typeof part === 'string' && part.length)
+    .join('-')
+  if (account) {
+    uri.username = uri.username ? `${uri.username}-${account}` : account
+  }
+
+  return uri.toString()
+}
+
+export const createIlpStreamPaymentsProcessor = (): IPaymentsProcessor => {
+  if (!instance) {
+    const plugin = new BtpPlugin({ server: getBtpServerUri() })
+
+    instance = new IlpStreamPaymentsProcessor(
+      plugin,
+      deriveFromSecret('ilp-stream-server-secret'),
+      cacheAdapterFactory(),
+      createSettings,
+      // each outgoing payment connects through its own BTP session
+      () => new BtpPlugin({ server: getBtpServerUri('sender') }),
+      new SpspClient(axios.create({ maxRedirects: 1, timeout: 5000 })),
+    )
+  }
+
+  return instance
+}
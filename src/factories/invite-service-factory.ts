@@ -0,0 +1,16 @@
+import { createSettings } from './settings-factory'
+import { getMasterDbClient } from '../database/client'
+import { InviteRepository } from '../repositories/invite-repository'
+import { InviteService } from '../services/invite-service'
+import { UserRepository } from '../repositories/user-repository'
+
+export const createInviteService = () => {
+  const dbClient = getMasterDbClient()
+
+  return new InviteService(
+    dbClient,
+    new InviteRepository(dbClient),
+    new UserRepository(dbClient),
+    createSettings,
+  )
+}
@@ -1,7 +1,18 @@
+import { getMasterDbClient, getReadReplicaDbClient } from '../database/client'
 import { createPaymentsService } from './payments-service-factory'
 import { createSettings } from './settings-factory'
+import { EventRepository } from '../repositories/event-repository'
+import { LedgerRepository } from '../repositories/ledger-repository'
 import { MaintenanceWorker } from '../app/maintenance-worker'
 
 export const maintenanceWorkerFactory = () => {
-  return new MaintenanceWorker(process, createPaymentsService(), createSettings)
+  const dbClient = getMasterDbClient()
+
+  return new MaintenanceWorker(
+    process,
+    createPaymentsService(),
+    new LedgerRepository(dbClient),
+    new EventRepository(dbClient, getReadReplicaDbClient()),
+    createSettings,
+  )
 }
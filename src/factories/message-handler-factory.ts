@@ -1,5 +1,7 @@
-import { IEventRepository, IUserRepository } from '../@types/repositories'
+import { IEventRepository, IInviteRepository, IUserRepository } from '../@types/repositories'
 import { IncomingMessage, MessageType } from '../@types/messages'
+import { AuthMessageHandler } from '../handlers/auth-message-handler'
+import { CountMessageHandler } from '../handlers/count-message-handler'
 import { createSettings } from './settings-factory'
 import { EventMessageHandler } from '../handlers/event-message-handler'
 import { eventStrategyFactory } from './event-strategy-factory'
@@ -11,22 +13,27 @@ import { UnsubscribeMessageHandler } from '../handlers/unsubscribe-message-handl
 export const messageHandlerFactory = (
   eventRepository: IEventRepository,
   userRepository: IUserRepository,
+  inviteRepository: IInviteRepository,
 ) => ([message, adapter]: [IncomingMessage, IWebSocketAdapter]) => {
   switch (message[0]) {
     case MessageType.EVENT:
       {
         return new EventMessageHandler(
           adapter,
-          eventStrategyFactory(eventRepository),
+          eventStrategyFactory(eventRepository, userRepository, inviteRepository),
           userRepository,
           createSettings,
           slidingWindowRateLimiterFactory,
         )
       }
     case MessageType.REQ:
-      return new SubscribeMessageHandler(adapter, eventRepository, createSettings)
+      return new SubscribeMessageHandler(adapter, eventRepository, userRepository, createSettings)
     case MessageType.CLOSE:
       return new UnsubscribeMessageHandler(adapter)
+    case MessageType.AUTH:
+      return new AuthMessageHandler(adapter, createSettings)
+    case MessageType.COUNT:
+      return new CountMessageHandler(adapter, eventRepository, userRepository, createSettings)
     default:
       throw new Error(`Unknown message type: ${String(message[0]).substring(0, 64)}`)
   }
@@ -0,0 +1,37 @@
+import { CosmosClaimVerifier } from '../claim-verifiers/cosmos-claim-verifier'
+import { createSettings } from './settings-factory'
+import { EvmClaimVerifier } from '../claim-verifiers/evm-claim-verifier'
+import { getMasterDbClient } from '../database/client'
+import { IClaimVerifier } from '../@types/payment-channel'
+import { PaymentChannelRepository } from '../repositories/payment-channel-repository'
+import { PaymentChannelService } from '../services/payment-channel-service'
+import { Settings } from '../@types/settings'
+import { UserRepository } from '../repositories/user-repository'
+import { XrpClaimVerifier } from '../claim-verifiers/xrp-claim-verifier'
+
+const DEFAULT_COSMOS_CHAIN_IDS: Record<string, string> = {
+  cosmos: 'cosmoshub-4',
+  akash: 'akashnet-2',
+}
+
+export const createClaimVerifiers = (settings: Settings): Record<string, IClaimVerifier> => {
+  const chainIds = { ...DEFAULT_COSMOS_CHAIN_IDS, ...settings.payments?.paymentChannels?.chainIds }
+
+  return {
+    xrp: new XrpClaimVerifier(),
+    base: new EvmClaimVerifier(),
+    cosmos: new CosmosClaimVerifier(chainIds.cosmos),
+    akash: new CosmosClaimVerifier(chainIds.akash),
+  }
+}
+
+export const createPaymentChannelService = () => {
+  const dbClient = getMasterDbClient()
+
+  return new PaymentChannelService(
+    dbClient,
+    new UserRepository(dbClient),
+    new PaymentChannelRepository(dbClient),
+    createClaimVerifiers(createSettings()),
+  )
+}
@@ -1,21 +1,72 @@
+import { ilpConnectorSettingsSchema, ilpStreamSettingsSchema } from '../schemas/payments-processor-settings-schema'
+import { IPaymentsProcessor, PaymentsProcessorRegistration } from '../@types/clients'
+import { createIlpConnectorPaymentsProcessor } from './ilp-connector-payments-processor-factory'
+import { createIlpStreamPaymentsProcessor } from './ilp-stream-payments-processor-factory'
 import { createLogger } from './logger-factory'
 import { createSettings } from './settings-factory'
-import { IPaymentsProcessor } from '../@types/clients'
 import { NullPaymentsProcessor } from '../payments-processors/null-payments-processor'
+import { Settings } from '../@types/settings'
+import { validateSchema } from '../utils/validation'
 
 const debug = createLogger('create-payments-processor')
 
+const registrations = new Map<string, PaymentsProcessorRegistration>()
+
+/**
+ * Makes a payments processor selectable through `payments.processor`.
+ * Call before the relay starts, e.g. from a custom entrypoint.
+ */
+export const registerPaymentsProcessor = (registration: PaymentsProcessorRegistration): void => {
+  if (registrations.has(registration.name)) {
+    throw new Error(`Payments processor already registered: ${registration.name}`)
+  }
+
+  debug('register payments processor %s', registration.name)
+  registrations.set(registration.name, registration)
+}
+
+/**
+ * Returns the registration for the configured payments processor.
+ *
+ * @throws if the processor is unknown or its settings are invalid
+ */
+export const getPaymentsProcessorRegistration = (settings: Settings): PaymentsProcessorRegistration => {
+  const name = settings.payments?.processor
+  const registration = typeof name === 'string' ? registrations.get(name) : undefined
+  if (!registration) {
+    throw new Error(
+      `Unknown payments processor: ${name}. Set payments.processor to one of: ${[...registrations.keys()].join(', ')}`
+    )
+  }
+
+  const { error } = validateSchema(registration.settingsSchema)(settings.paymentsProcessors?.[registration.name])
+  if (error) {
+    throw new Error(`Invalid settings for payments processor ${name}: ${error.message}`)
+  }
+
+  return registration
+}
+
 export const createPaymentsProcessor = (): IPaymentsProcessor => {
   debug('create payments processor')
 
   const settings = createSettings()
 
-  // All centralized payment processors removed
-  // ILP integration will be added in future stories
   if (!settings.payments?.enabled) {
     return new NullPaymentsProcessor()
   }
 
-  // Default to NullPaymentsProcessor until ILP integration (Story 1.2+)
-  return new NullPaymentsProcessor()
+  return getPaymentsProcessorRegistration(settings).create()
 }
+
+registerPaymentsProcessor({
+  name: 'ilpStream',
+  settingsSchema: ilpStreamSettingsSchema,
+  create: createIlpStreamPaymentsProcessor,
+})
+
+registerPaymentsProcessor({
+  name: 'ilpConnector',
+  settingsSchema: ilpConnectorSettingsSchema,
+  create: createIlpConnectorPaymentsProcessor,
+})
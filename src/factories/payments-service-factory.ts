@@ -1,10 +1,12 @@
 import { getMasterDbClient, getReadReplicaDbClient } from '../database/client'
+import { createExchangeRateService } from './exchange-rate-service-factory'
 import { createPaymentsProcessor } from './payments-processor-factory'
 import { createSettings } from './settings-factory'
 import { EventRepository } from '../repositories/event-repository'
 import { InvoiceRepository } from '../repositories/invoice-repository'
 import { PaymentsService } from '../services/payments-service'
 import { UserRepository } from '../repositories/user-repository'
+import { WithdrawalRepository } from '../repositories/withdrawal-repository'
 
 export const createPaymentsService = () => {
   const dbClient = getMasterDbClient()
@@ -13,6 +15,7 @@ export const createPaymentsService = () => {
   const userRepository = new UserRepository(dbClient)
   const paymentsProcessor = createPaymentsProcessor()
   const eventRepository = new EventRepository(dbClient, rrDbClient)
+  const withdrawalRepository = new WithdrawalRepository(dbClient)
 
   return new PaymentsService(
     dbClient,
@@ -20,6 +23,8 @@ export const createPaymentsService = () => {
     userRepository,
     invoiceRepository,
     eventRepository,
+    withdrawalRepository,
+    createExchangeRateService(),
     createSettings
   )
 }
@@ -2,7 +2,9 @@ import express from 'express'
 import helmet from 'helmet'
 
 import { createSettings } from './settings-factory'
+import { getWebMonetizationUrl } from '../utils/web-monetization'
 import router from '../routes'
+import { webMonetizationMiddleware } from '../handlers/request-handlers/web-monetization-middleware'
 
 export const createWebApp = () => {
   const app = express()
@@ -28,10 +30,16 @@ export const createWebApp = () => {
         'font-src': ["'self'", 'https://cdn.jsdelivr.net/npm/'],
       }
 
+      const monetizationUrl = getWebMonetizationUrl(settings)
+      if (monetizationUrl) {
+        directives['monetization-src'] = ["'self'", new URL(monetizationUrl).origin]
+      }
+
       return helmet.contentSecurityPolicy({ directives })(req, res, next)
     })
     .use('/favicon.ico', express.static('./resources/favicon.ico'))
     .use('/css', express.static('./resources/css'))
+    .use(webMonetizationMiddleware)
     .use(router)
 
   return app
@@ -1,7 +1,7 @@
 import { IncomingMessage } from 'http'
 import { WebSocket } from 'ws'
 
-import { IEventRepository, IUserRepository } from '../@types/repositories'
+import { IEventRepository, IInviteRepository, IUserRepository } from '../@types/repositories'
 import { createSettings } from './settings-factory'
 import { IWebSocketServerAdapter } from '../@types/adapters'
 import { messageHandlerFactory } from './message-handler-factory'
@@ -12,12 +12,14 @@ import { WebSocketAdapter } from '../adapters/web-socket-adapter'
 export const webSocketAdapterFactory = (
   eventRepository: IEventRepository,
   userRepository: IUserRepository,
+  inviteRepository: IInviteRepository,
 ) => ([client, request, webSocketServerAdapter]: [WebSocket, IncomingMessage, IWebSocketServerAdapter]) =>
     new WebSocketAdapter(
       client,
       request,
       webSocketServerAdapter,
-      messageHandlerFactory(eventRepository, userRepository),
+      messageHandlerFactory(eventRepository, userRepository, inviteRepository),
+      userRepository,
       slidingWindowRateLimiterFactory,
       createSettings,
     )
@@ -0,0 +1,85 @@
+import { EventKinds, EventTags } from '../constants/base'
+import { isEventIdValid, isEventSignatureValid } from '../utils/event'
+import { AuthMessage } from '../@types/messages'
+import { createCommandResult } from '../utils/messages'
+import { createLogger } from '../factories/logger-factory'
+import { Event } from '../@types/event'
+import { IMessageHandler } from '../@types/message-handlers'
+import { IWebSocketAdapter } from '../@types/adapters'
+import { Settings } from '../@types/settings'
+import { WebSocketAdapterEvent } from '../constants/adapter'
+
+const debug = createLogger('auth-message-handler')
+
+const DEFAULT_MAX_CREATED_AT_DELTA = 600
+
+const getTagValue = (event: Event, tagName: string): string | undefined =>
+  event.tags.find((tag) => tag.length >= 2 && tag[0] === tagName)?.[1]
+
+const normalizeRelayUrl = (url: string): string | undefined => {
+  try {
+    const { protocol, host, pathname } = new URL(url)
+
+    return `${protocol}//${host}${pathname.replace(/\/+$/, '')}`
+  } catch {
+    return
+  }
+}
+
+/**
+ * Authenticates the client as the pubkey of a kind 22242 event signed in
+ * response to the challenge the relay sent it (NIP-42).
+ */
+export class AuthMessageHandler implements IMessageHandler {
+  public constructor(
+    private readonly webSocket: IWebSocketAdapter,
+    private readonly settings: () => Settings,
+  ) { }
+
+  public async handleMessage(message: AuthMessage): Promise<void> {
+    const event = message[1]
+
+    const reason = await this.canAuthenticate(event)
+    if (reason) {
+      debug('authentication %s rejected: %s', event.id, reason)
+      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, reason))
+      return
+    }
+
+    this.webSocket.emit(WebSocketAdapterEvent.Authenticate, event.pubkey)
+    this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, true, ''))
+  }
+
+  private async canAuthenticate(event: Event): Promise<string | undefined> {
+    const currentSettings = this.settings()
+    if (!currentSettings.authentication?.enabled) {
+      return 'blocked: authentication is disabled'
+    }
+
+    if (event.kind !== EventKinds.CLIENT_AUTHENTICATION) {
+      return `invalid: kind must be ${EventKinds.CLIENT_AUTHENTICATION}`
+    }
+
+    if (!await isEventIdValid(event)) {
+      return 'invalid: event id does not match'
+    }
+
+    if (!await isEventSignatureValid(event)) {
+      return 'invalid: event signature verification failed'
+    }
+
+    const maxDelta = currentSettings.authentication.maxCreatedAtDelta ?? DEFAULT_MAX_CREATED_AT_DELTA
+    if (Math.abs(event.created_at - Math.floor(Date.now() / 1000)) > maxDelta) {
+      return 'invalid: created_at is out of range'
+    }
+
+    if (getTagValue(event, EventTags.Challenge) !== this.webSocket.getAuthChallenge()) {
+      return 'invalid: challenge does not match'
+    }
+
+    const relayUrl = getTagValue(event, EventTags.Relay)
+    if (!relayUrl || normalizeRelayUrl(relayUrl) !== normalizeRelayUrl(currentSettings.info.relay_url)) {
+      return 'invalid: relay does not match'
+    }
+  }
+}
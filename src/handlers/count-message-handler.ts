@@ -0,0 +1,127 @@
+import { equals, uniqWith } from 'ramda'
+
+import { createClosedMessage, createCountResultMessage } from '../utils/messages'
+import { formatAmount, getBaseAsset } from '../utils/asset'
+import { IEventRepository, IUserRepository } from '../@types/repositories'
+import { SubscriptionFilter, SubscriptionId } from '../@types/subscription'
+import { CountMessage } from '../@types/messages'
+import { createLogger } from '../factories/logger-factory'
+import { getSubscriptionFeeSchedules } from '../utils/fees'
+import { IMessageHandler } from '../@types/message-handlers'
+import { IWebSocketAdapter } from '../@types/adapters'
+import { LedgerEntryType } from '../@types/ledger'
+import { Settings } from '../@types/settings'
+import { WebSocketAdapterEvent } from '../constants/adapter'
+
+const debug = createLogger('count-message-handler')
+
+/**
+ * Replies to COUNT messages with the number of stored events matching their
+ * filters (NIP-45), under the same limits and query fees as subscriptions.
+ */
+export class CountMessageHandler implements IMessageHandler {
+  public constructor(
+    private readonly webSocket: IWebSocketAdapter,
+    private readonly eventRepository: IEventRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly settings: () => Settings,
+  ) { }
+
+  public async handleMessage(message: CountMessage): Promise<void> {
+    const subscriptionId = message[1]
+    const filters = uniqWith(equals, message.slice(2)) as SubscriptionFilter[]
+
+    const reason = this.canCount(subscriptionId, filters)
+    if (reason) {
+      debug('count %s with %o rejected: %s', subscriptionId, filters, reason)
+      this.webSocket.emit(WebSocketAdapterEvent.Message, createClosedMessage(subscriptionId, reason))
+      return
+    }
+
+    const closedReason = await this.chargeQueryFee(subscriptionId, filters)
+    if (closedReason) {
+      debug('count %s with %o closed: %s', subscriptionId, filters, closedReason)
+      this.webSocket.emit(WebSocketAdapterEvent.Message, createClosedMessage(subscriptionId, closedReason))
+      return
+    }
+
+    let count: number
+    try {
+      count = await this.eventRepository.countByFilters(filters)
+    } catch (error) {
+      console.error(`count-message-handler: unable to count events for ${subscriptionId}:`, error)
+      this.webSocket.emit(WebSocketAdapterEvent.Message, createClosedMessage(subscriptionId, 'error: unable to count events'))
+      return
+    }
+
+    debug('count %s with %o: %d', subscriptionId, filters, count)
+    this.webSocket.emit(WebSocketAdapterEvent.Message, createCountResultMessage(subscriptionId, count))
+  }
+
+  /**
+   * Counts pay the flat query fee. No events are served, so the per-event
+   * amount does not apply.
+   */
+  private async chargeQueryFee(
+    subscriptionId: SubscriptionId,
+    filters: SubscriptionFilter[],
+  ): Promise<string | undefined> {
+    const currentSettings = this.settings()
+    if (!currentSettings.payments?.enabled) {
+      return
+    }
+
+    const feeSchedules = currentSettings.payments.feeSchedules?.query
+    if (!getSubscriptionFeeSchedules(feeSchedules, filters).length) {
+      return
+    }
+
+    const [pubkey] = this.webSocket.getAuthenticatedPubkeys()
+    if (!pubkey) {
+      return 'auth-required: counts on this relay are paid'
+    }
+
+    const fee = getSubscriptionFeeSchedules(feeSchedules, filters, pubkey)
+      .reduce((sum, feeSchedule) => sum + BigInt(feeSchedule.amount), 0n)
+    if (fee === 0n) {
+      return
+    }
+
+    const baseAsset = getBaseAsset(currentSettings)
+    const charge = { type: LedgerEntryType.QUERY_FEE, reference: subscriptionId }
+    if (!await this.userRepository.chargeBalance(pubkey, { ...baseAsset, amount: fee }, charge)) {
+      return `payment-required: insufficient balance for query fee of ${formatAmount(fee, baseAsset)}`
+    }
+  }
+
+  private canCount(subscriptionId: SubscriptionId, filters: SubscriptionFilter[]): string | undefined {
+    const currentSettings = this.settings()
+
+    const authentication = currentSettings.authentication
+    if (
+      authentication?.enabled
+      && authentication.requiredForSubscriptions
+      && !this.webSocket.getAuthenticatedPubkeys().length
+    ) {
+      return 'auth-required: authentication is required to count events'
+    }
+
+    if (!currentSettings.search?.enabled && filters.some((filter) => typeof filter.search === 'string')) {
+      return 'invalid: search is not supported'
+    }
+
+    const subscriptionLimits = currentSettings.limits?.client?.subscription
+
+    const maxFilters = subscriptionLimits?.maxFilters ?? 0
+    if (maxFilters > 0 && filters.length > maxFilters) {
+      return `invalid: number of filters must be less than or equal to ${maxFilters}`
+    }
+
+    if (
+      typeof subscriptionLimits?.maxSubscriptionIdLength === 'number'
+      && subscriptionId.length > subscriptionLimits.maxSubscriptionIdLength
+    ) {
+      return `invalid: subscription ID must be less than or equal to ${subscriptionLimits.maxSubscriptionIdLength}`
+    }
+  }
+}
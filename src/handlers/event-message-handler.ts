@@ -1,20 +1,34 @@
-import { Event, ExpiringEvent  } from '../@types/event'
+import { Event, ExpiringEvent, PaidEvent } from '../@types/event'
+import { EventExpirationTimeMetadataKey, EventPublicationFeeMetadataKey } from '../constants/base'
 import { EventRateLimit, FeeSchedule, Settings } from '../@types/settings'
-import { getEventExpiration, getEventProofOfWork, getPubkeyProofOfWork, getPublicKey, getRelayPrivateKey, isEventIdValid, isEventKindOrRangeMatch, isEventSignatureValid, isExpiredEvent } from '../utils/event'
+import { formatAmount, getBaseAsset } from '../utils/asset'
+import { getEventExpiration, getEventProofOfWork, getEventSize, getPubkeyProofOfWork, getPublicKey, getRelayPrivateKey, isEphemeralEvent, isEventIdValid, isEventKindOrRangeMatch, isEventSignatureValid, isExpiredEvent } from '../utils/event'
 import { IEventStrategy, IMessageHandler } from '../@types/message-handlers'
+import { Asset } from '../@types/asset'
 import { ContextMetadataKey } from '../constants/base'
 import { createCommandResult } from '../utils/messages'
 import { createLogger } from '../factories/logger-factory'
-import { EventExpirationTimeMetadataKey } from '../constants/base'
 import { Factory } from '../@types/base'
 import { IncomingEventMessage } from '../@types/messages'
+import { InsufficientBalanceError } from '../errors/insufficient-balance-error'
 import { IRateLimiter } from '../@types/utils'
+import { isAdmissionActive } from '../utils/admission'
 import { IUserRepository } from '../@types/repositories'
 import { IWebSocketAdapter } from '../@types/adapters'
 import { WebSocketAdapterEvent } from '../constants/adapter'
 
 const debug = createLogger('event-message-handler')
 
+const DEFAULT_PROOF_OF_WORK_MIN_LEADING_ZERO_BITS = 20
+
+const getInsufficientBalanceReason = (fee: bigint, asset: Asset): string =>
+  `payment-required: insufficient balance for publication fee of ${formatAmount(fee, asset)}`
+
+const isApplicableFee = (event: Event) => (feeSchedule: FeeSchedule) =>
+  feeSchedule.enabled
+  && !feeSchedule.whitelists?.pubkeys?.some((prefix) => event.pubkey.startsWith(prefix))
+  && !feeSchedule.whitelists?.event_kinds?.some(isEventKindOrRangeMatch(event))
+
 export class EventMessageHandler implements IMessageHandler {
   public constructor(
     protected readonly webSocket: IWebSocketAdapter,
@@ -36,6 +50,13 @@ export class EventMessageHandler implements IMessageHandler {
       return
     }
 
+    reason = this.checkAuthentication()
+    if (reason) {
+      debug('event %s rejected: %s', event.id, reason)
+      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, reason))
+      return
+    }
+
     if (isExpiredEvent(event)) {
       debug('event %s rejected: expired')
       this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, 'event is expired'))
@@ -57,6 +78,8 @@ export class EventMessageHandler implements IMessageHandler {
       return
     }
 
+    await this.addProofOfWork(event)
+
     reason = await this.isUserAdmitted(event)
     if (reason) {
       debug('event %s rejected: %s', event.id, reason)
@@ -64,6 +87,15 @@ export class EventMessageHandler implements IMessageHandler {
       return
     }
 
+    reason = await this.canPayPublicationFee(event)
+    if (reason) {
+      debug('event %s rejected: %s', event.id, reason)
+      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, reason))
+      return
+    }
+
+    event = this.addPublicationFeeMetadata(event)
+
     const strategy = this.strategyFactory([event, this.webSocket])
 
     if (typeof strategy?.execute !== 'function') {
@@ -74,6 +106,16 @@ export class EventMessageHandler implements IMessageHandler {
     try {
       await strategy.execute(event)
     } catch (error) {
+      // The balance may have been spent between the check and the charge
+      if (error instanceof InsufficientBalanceError) {
+        debug('event %s rejected: %s', event.id, error.message)
+        this.webSocket.emit(
+          WebSocketAdapterEvent.Message,
+          createCommandResult(event.id, false, getInsufficientBalanceReason(error.amount.amount, error.amount)),
+        )
+        return
+      }
+
       console.error('error handling message', message, error)
       this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, 'error: unable to process event'))
     }
@@ -183,6 +225,17 @@ export class EventMessageHandler implements IMessageHandler {
     }
   }
 
+  protected checkAuthentication(): string | undefined {
+    const authentication = this.settings().authentication
+    if (
+      authentication?.enabled
+      && authentication.requiredForEvents
+      && !this.webSocket.getAuthenticatedPubkeys().length
+    ) {
+      return 'auth-required: authentication is required to publish events'
+    }
+  }
+
   protected async isEventValid(event: Event): Promise<string | undefined> {
     if (!await isEventIdValid(event)) {
       return 'invalid: event id does not match'
@@ -265,12 +318,7 @@ export class EventMessageHandler implements IMessageHandler {
       return
     }
 
-    const isApplicableFee = (feeSchedule: FeeSchedule) =>
-      feeSchedule.enabled
-      && !feeSchedule.whitelists?.pubkeys?.some((prefix) => event.pubkey.startsWith(prefix))
-      && !feeSchedule.whitelists?.event_kinds?.some(isEventKindOrRangeMatch(event))
-
-    const feeSchedules = currentSettings.payments?.feeSchedules?.admission?.filter(isApplicableFee)
+    const feeSchedules = currentSettings.payments?.feeSchedules?.admission?.filter(isApplicableFee(event))
     if (!Array.isArray(feeSchedules) || !feeSchedules.length) {
       return
     }
@@ -279,15 +327,120 @@ export class EventMessageHandler implements IMessageHandler {
     // TODO: use cache
     const user = await this.userRepository.findByPubkey(event.pubkey)
     if (!user || !user.isAdmitted) {
+      const proofOfWork = currentSettings.payments?.proofOfWork
+      if (proofOfWork?.enabled && typeof proofOfWork.admissionLeadingZeroBits === 'number') {
+        const minLeadingZeroBits = proofOfWork.minLeadingZeroBits ?? DEFAULT_PROOF_OF_WORK_MIN_LEADING_ZERO_BITS
+        return `blocked: pubkey not admitted, pow: publish events of difficulty ${minLeadingZeroBits} or more to earn admission`
+      }
+
       return 'blocked: pubkey not admitted'
     }
 
+    if (!isAdmissionActive(user)) {
+      return 'blocked: admission expired'
+    }
+
     const minBalance = currentSettings.limits?.event?.pubkey?.minBalance ?? 0n
-    if (minBalance > 0n && user.balance < minBalance) {
+    if (
+      minBalance > 0n
+      && await this.userRepository.getBalanceByPubkey(event.pubkey, getBaseAsset(currentSettings)) < minBalance
+    ) {
       return 'blocked: insufficient balance'
     }
   }
 
+  /**
+   * Accumulates the proof of work of events meeting the minimum difficulty so
+   * that pubkeys without a wallet can earn admission and balance instead.
+   */
+  protected async addProofOfWork(event: Event): Promise<void> {
+    const currentSettings = this.settings()
+    const proofOfWork = currentSettings.payments?.proofOfWork
+    if (!currentSettings.payments?.enabled || !proofOfWork?.enabled) {
+      return
+    }
+
+    if (this.getRelayPublicKey() === event.pubkey) {
+      return
+    }
+
+    const difficulty = getEventProofOfWork(event.id)
+    if (difficulty < (proofOfWork.minLeadingZeroBits ?? DEFAULT_PROOF_OF_WORK_MIN_LEADING_ZERO_BITS)) {
+      return
+    }
+
+    const added = await this.userRepository.addProofOfWork(
+      event.pubkey,
+      event.id,
+      difficulty,
+      proofOfWork.admissionLeadingZeroBits,
+      {
+        ...getBaseAsset(currentSettings),
+        amount: BigInt(proofOfWork.creditPerBit ?? 0) * BigInt(difficulty),
+      },
+    )
+
+    debug('proof of work of difficulty %d from event %s added: %s', difficulty, event.id, added)
+  }
+
+  protected getPublicationFee(event: Event): bigint {
+    const currentSettings = this.settings()
+    if (!currentSettings.payments?.enabled) {
+      return 0n
+    }
+
+    // Ephemeral events are not stored so there is nothing to charge with
+    if (isEphemeralEvent(event) || this.getRelayPublicKey() === event.pubkey) {
+      return 0n
+    }
+
+    const isPricedKind = (feeSchedule: FeeSchedule) =>
+      !Array.isArray(feeSchedule.kinds) || feeSchedule.kinds.some(isEventKindOrRangeMatch(event))
+
+    const feeSchedules = currentSettings.payments?.feeSchedules?.publication
+      ?.filter((feeSchedule) => isApplicableFee(event)(feeSchedule) && isPricedKind(feeSchedule)) ?? []
+    if (!feeSchedules.length) {
+      return 0n
+    }
+
+    const size = BigInt(getEventSize(event))
+
+    return feeSchedules.reduce(
+      (sum, feeSchedule) => sum + BigInt(feeSchedule.amount) + BigInt(feeSchedule.perByteAmount ?? 0) * size,
+      0n,
+    )
+  }
+
+  protected async canPayPublicationFee(event: Event): Promise<string | undefined> {
+    const fee = this.getPublicationFee(event)
+    if (fee === 0n) {
+      return
+    }
+
+    const baseAsset = getBaseAsset(this.settings())
+    const balance = await this.userRepository.getBalanceByPubkey(event.pubkey, baseAsset)
+    if (balance < fee) {
+      return getInsufficientBalanceReason(fee, baseAsset)
+    }
+  }
+
+  protected addPublicationFeeMetadata(event: Event): Event | PaidEvent {
+    const fee = this.getPublicationFee(event)
+    if (fee === 0n) {
+      return event
+    }
+
+    const paidEvent: PaidEvent = {
+      ...event,
+      [EventPublicationFeeMetadataKey]: {
+        ...getBaseAsset(this.settings()),
+        amount: fee,
+      },
+    }
+
+    return paidEvent
+  }
+
   protected addExpirationMetadata(event: Event): Event | ExpiringEvent {
     const eventExpiration: number = getEventExpiration(event)
     if (!eventExpiration) {
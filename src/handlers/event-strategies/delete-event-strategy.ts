@@ -1,10 +1,11 @@
+import { Event, EventAddress } from '../../@types/event'
 import { createCommandResult } from '../../utils/messages'
 import { createLogger } from '../../factories/logger-factory'
-import { Event } from '../../@types/event'
 import { EventTags } from '../../constants/base'
 import { IEventRepository } from '../../@types/repositories'
 import { IEventStrategy } from '../../@types/message-handlers'
 import { IWebSocketAdapter } from '../../@types/adapters'
+import { parseEventAddress } from '../../utils/event'
 import { Tag } from '../../@types/base'
 import { WebSocketAdapterEvent } from '../../constants/adapter'
 
@@ -38,6 +39,28 @@ export class DeleteEventStrategy implements IEventStrategy<Event, Promise<void>>
       )
     }
 
+    // Authors may only delete their own parameterized replaceable events
+    const addressesToDelete = event.tags.reduce(
+      (addresses, tag) => {
+        const address = tag.length >= 2 && tag[0] === EventTags.Address
+          ? parseEventAddress(tag[1])
+          : undefined
+
+        return address?.pubkey === event.pubkey
+          ? [...addresses, address]
+          : addresses
+      },
+      [] as EventAddress[]
+    )
+
+    if (addressesToDelete.length) {
+      await this.eventRepository.deleteByPubkeyAndAddresses(
+        event.pubkey,
+        addressesToDelete,
+        event.created_at,
+      )
+    }
+
     const count = await this.eventRepository.create(event)
     this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, true, (count) ? '' : 'duplicate:'))
 
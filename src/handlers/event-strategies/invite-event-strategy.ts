@@ -0,0 +1,124 @@
+import { Event, PaidEvent } from '../../@types/event'
+import { EventPublicationFeeMetadataKey, EventTags } from '../../constants/base'
+import { formatAmount, getBaseAsset } from '../../utils/asset'
+import { IInviteRepository, IUserRepository } from '../../@types/repositories'
+import { isAdmissionActive, isRelayOperator } from '../../utils/admission'
+import { createCommandResult } from '../../utils/messages'
+import { createLogger } from '../../factories/logger-factory'
+import { getEventExpiration } from '../../utils/event'
+import { IEventStrategy } from '../../@types/message-handlers'
+import { IWebSocketAdapter } from '../../@types/adapters'
+import { LedgerEntryType } from '../../@types/ledger'
+import { Settings } from '../../@types/settings'
+import { WebSocketAdapterEvent } from '../../constants/adapter'
+
+const debug = createLogger('invite-event-strategy')
+
+const getTagValue = (event: Event, tagName: string): string | undefined =>
+  event.tags.find((tag) => tag.length >= 2 && tag[0] === tagName)?.[1]
+
+const isPaidEvent = (event: Event): event is PaidEvent => EventPublicationFeeMetadataKey in event
+
+/**
+ * Records kind 50 events as invites. The event id is the invite code, so
+ * invites are neither stored as events nor broadcast. Invites are charged the
+ * publication fee like any stored event.
+ */
+export class InviteEventStrategy implements IEventStrategy<Event, Promise<void>> {
+  public constructor(
+    private readonly webSocket: IWebSocketAdapter,
+    private readonly inviteRepository: IInviteRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly settings: () => Settings,
+  ) { }
+
+  public async execute(event: Event): Promise<void> {
+    debug('received invite event: %o', event)
+
+    const reason = await this.canIssueInvite(event)
+    if (reason) {
+      debug('invite %s rejected: %s', event.id, reason)
+      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, reason))
+      return
+    }
+
+    if (isPaidEvent(event)) {
+      if (await this.inviteRepository.findById(event.id)) {
+        this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, true, 'duplicate:'))
+        return
+      }
+
+      const fee = event[EventPublicationFeeMetadataKey]
+      const charge = { type: LedgerEntryType.PUBLICATION_FEE, reference: event.id }
+      if (!await this.userRepository.chargeBalance(event.pubkey, fee, charge)) {
+        const reason = `payment-required: insufficient balance for publication fee of ${formatAmount(fee.amount, fee)}`
+        debug('invite %s rejected: %s', event.id, reason)
+        this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, reason))
+        return
+      }
+    }
+
+    const invitee = getTagValue(event, EventTags.Pubkey)
+    const amount = getTagValue(event, EventTags.Amount)
+    const expiration = getEventExpiration(event)
+
+    const count = await this.inviteRepository.create({
+      id: event.id,
+      issuer: event.pubkey,
+      invitee: invitee ?? null,
+      maxUses: Number(getTagValue(event, EventTags.Uses) ?? 1),
+      amount: typeof amount === 'string' ? BigInt(amount) : null,
+      ...getBaseAsset(this.settings()),
+      expiresAt: expiration ? new Date(expiration * 1000) : null,
+      createdAt: new Date(),
+    })
+
+    this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, true, (count) ? '' : 'duplicate:'))
+  }
+
+  private async canIssueInvite(event: Event): Promise<string | undefined> {
+    const currentSettings = this.settings()
+    const invites = currentSettings.payments?.invites
+    if (!invites?.enabled) {
+      return 'blocked: invites are disabled'
+    }
+
+    const isOperator = isRelayOperator(currentSettings, event.pubkey)
+    if (!isOperator && !isAdmissionActive(await this.userRepository.findByPubkey(event.pubkey))) {
+      return 'blocked: only admitted pubkeys may issue invites'
+    }
+
+    const maxInvites = invites.maxInvites ?? 5
+    if (!isOperator && await this.inviteRepository.countByIssuer(event.pubkey) >= maxInvites) {
+      return `blocked: pubkeys may issue at most ${maxInvites} invites`
+    }
+
+    const uses = getTagValue(event, EventTags.Uses)
+    if (typeof uses === 'string') {
+      if (!/^[1-9][0-9]{0,8}$/.test(uses)) {
+        return 'invalid: uses must be a positive integer'
+      }
+
+      const maxUses = invites.maxUses ?? 1
+      if (!isOperator && Number(uses) > maxUses) {
+        return `blocked: invites may allow at most ${maxUses} uses`
+      }
+    }
+
+    const amount = getTagValue(event, EventTags.Amount)
+    if (typeof amount === 'string') {
+      if (!isOperator) {
+        return 'blocked: only the relay operator may issue vouchers'
+      }
+
+      if (!/^[1-9][0-9]{0,18}$/.test(amount)) {
+        return 'invalid: amount must be a positive integer'
+      }
+    }
+
+    const invitee = getTagValue(event, EventTags.Pubkey)
+    if (typeof invitee === 'string' && !/^[0-9a-f]{64}$/.test(invitee)) {
+      return 'invalid: invitee must be a hex pubkey'
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { Event, ParameterizedReplaceableEvent } from '../../@types/event'
 import { EventDeduplicationMetadataKey, EventTags } from '../../constants/base'
 import { createCommandResult } from '../../utils/messages'
 import { createLogger } from '../../factories/logger-factory'
+import { getEventAddress } from '../../utils/event'
 import { IEventRepository } from '../../@types/repositories'
 import { IEventStrategy } from '../../@types/message-handlers'
 import { IWebSocketAdapter } from '../../@types/adapters'
@@ -19,6 +20,15 @@ export class ParameterizedReplaceableEventStrategy
   public async execute(event: Event): Promise<void> {
     debug('received parameterized replaceable event: %o', event)
 
+    if (await this.eventRepository.isAddressDeleted(getEventAddress(event), event.created_at)) {
+      debug('event %s rejected: deleted by its author', event.id)
+      this.webSocket.emit(
+        WebSocketAdapterEvent.Message,
+        createCommandResult(event.id, false, 'blocked: event has been deleted'),
+      )
+      return
+    }
+
     const [, ...deduplication] = event.tags.find((tag) => tag.length >= 2 && tag[0] === EventTags.Deduplication) ?? [null, '']
 
     const parameterizedReplaceableEvent: ParameterizedReplaceableEvent = {
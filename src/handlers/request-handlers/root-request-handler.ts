@@ -1,84 +1,92 @@
 import { NextFunction, Request, Response } from 'express'
 import { path } from 'ramda'
 
+import { getRelayInformationFees, getSupportedNips } from '../../utils/relay-information'
+import { createExchangeRateService } from '../../factories/exchange-rate-service-factory'
 import { createSettings } from '../../factories/settings-factory'
-import { FeeSchedule } from '../../@types/settings'
 import { fromBech32 } from '../../utils/transform'
+import { getRelayWebUrl } from '../../utils/web-monetization'
+import { IExchangeRateService } from '../../@types/exchange-rate'
 import packageJson from '../../../package.json'
 
-export const rootRequestHandler = (request: Request, response: Response, next: NextFunction) => {
-  const settings = createSettings()
+let exchangeRateService: IExchangeRateService | undefined
 
-  if (request.header('accept') === 'application/nostr+json') {
-    const {
-      info: { name, description, pubkey: rawPubkey, contact, relay_url },
-    } = settings
+const getExchangeRateService = (): IExchangeRateService => {
+  if (!exchangeRateService) {
+    exchangeRateService = createExchangeRateService()
+  }
 
-    const paymentsUrl = new URL(relay_url)
-    paymentsUrl.protocol = paymentsUrl.protocol === 'wss:' ? 'https:' : 'http:'
-    paymentsUrl.pathname = '/invoices'
+  return exchangeRateService
+}
 
-    const content = settings.limits?.event?.content
+export const rootRequestHandler = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const settings = createSettings()
 
-    const pubkey = rawPubkey.startsWith('npub1')
-      ? fromBech32(rawPubkey)
-      : rawPubkey
+    if (request.header('accept') === 'application/nostr+json') {
+      const {
+        info: { name, description, pubkey: rawPubkey, contact },
+      } = settings
 
-    const relayInformationDocument = {
-      name,
-      description,
-      pubkey,
-      contact,
-      supported_nips: packageJson.supportedNips,
-      supported_nip_extensions: packageJson.supportedNipExtensions,
-      software: packageJson.repository.url,
-      version: packageJson.version,
-      limitation: {
-            max_message_length: settings.network.maxPayloadSize,
-            max_subscriptions: settings.limits?.client?.subscription?.maxSubscriptions,
-            max_filters: settings.limits?.client?.subscription?.maxFilterValues,
-            max_limit: settings.limits?.client?.subscription?.maxLimit,
-            max_subid_length: settings.limits?.client?.subscription?.maxSubscriptionIdLength,
-            min_prefix: settings.limits?.client?.subscription?.minPrefixLength,
-            max_event_tags: 2500,
-            max_content_length: Array.isArray(content)
-              ? content[0].maxLength // best guess since we have per-kind limits
-              : content?.maxLength,
-            min_pow_difficulty: settings.limits?.event?.eventId?.minLeadingZeroBits,
-            auth_required: false,
-            payment_required: settings.payments?.enabled,
-      },
-      payments_url: paymentsUrl.toString(),
-      fees: Object
-        .getOwnPropertyNames(settings.payments.feeSchedules)
-        .reduce((prev, feeName) => {
-          const feeSchedules = settings.payments.feeSchedules[feeName] as FeeSchedule[]
+      const content = settings.limits?.event?.content
 
-          return {
-            ...prev,
-            [feeName]: feeSchedules.reduce((fees, fee) => (fee.enabled)
-              ? [...fees, { amount: fee.amount, unit: 'msats' }]
-              : fees, []),
-          }
+      const pubkey = rawPubkey.startsWith('npub1')
+        ? fromBech32(rawPubkey)
+        : rawPubkey
 
-        }, {} as Record<string, { amount: number, unit: string }>),
-    }
+      const relayInformationDocument = {
+        name,
+        description,
+        pubkey,
+        contact,
+        supported_nips: getSupportedNips(settings),
+        supported_nip_extensions: packageJson.supportedNipExtensions,
+        software: packageJson.repository.url,
+        version: packageJson.version,
+        limitation: {
+              max_message_length: settings.network.maxPayloadSize,
+              max_subscriptions: settings.limits?.client?.subscription?.maxSubscriptions,
+              max_filters: settings.limits?.client?.subscription?.maxFilterValues,
+              max_limit: settings.limits?.client?.subscription?.maxLimit,
+              max_subid_length: settings.limits?.client?.subscription?.maxSubscriptionIdLength,
+              min_prefix: settings.limits?.client?.subscription?.minPrefixLength,
+              max_event_tags: 2500,
+              max_content_length: Array.isArray(content)
+                ? content[0].maxLength // best guess since we have per-kind limits
+                : content?.maxLength,
+              min_pow_difficulty: settings.limits?.event?.eventId?.minLeadingZeroBits,
+              auth_required: Boolean(
+                settings.authentication?.enabled
+                && (settings.authentication.requiredForEvents || settings.authentication.requiredForSubscriptions)
+              ),
+              payment_required: settings.payments?.enabled,
+        },
+        ...(settings.payments?.enabled
+          ? {
+            payments_url: getRelayWebUrl(settings, '/invoices'),
+            fees: await getRelayInformationFees(settings, getExchangeRateService()),
+          }
+          : {}),
+      }
 
-    response
-      .setHeader('content-type', 'application/nostr+json')
-      .setHeader('access-control-allow-origin', '*')
-      .status(200)
-      .send(relayInformationDocument)
+      response
+        .setHeader('content-type', 'application/nostr+json')
+        .setHeader('access-control-allow-origin', '*')
+        .status(200)
+        .send(relayInformationDocument)
 
-    return
-  }
+      return
+    }
 
-  const admissionFeeEnabled = path(['payments','feeSchedules','admission', '0', 'enabled'])(settings)
+    const admissionFeeEnabled = path(['payments','feeSchedules','admission', '0', 'enabled'])(settings)
 
-  if (admissionFeeEnabled) {
-    response.redirect(301, '/invoices')
-  } else {
-    response.status(200).setHeader('content-type', 'text/plain; charset=utf8').send('Please use a Nostr client to connect.')
+    if (admissionFeeEnabled) {
+      response.redirect(301, '/invoices')
+    } else {
+      response.status(200).setHeader('content-type', 'text/plain; charset=utf8').send('Please use a Nostr client to connect.')
+    }
+    next()
+  } catch (error) {
+    next(error)
   }
-  next()
 }
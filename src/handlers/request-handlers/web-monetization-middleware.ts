@@ -0,0 +1,31 @@
+import { NextFunction, Request, Response } from 'express'
+
+import { createSettings } from '../../factories/settings-factory'
+import { getWebMonetizationUrl } from '../../utils/web-monetization'
+
+/**
+ * Advertises the relay's payment pointer with a monetization link in the
+ * Link header and in the head of HTML pages.
+ */
+export const webMonetizationMiddleware = (_request: Request, response: Response, next: NextFunction) => {
+  const monetizationUrl = getWebMonetizationUrl(createSettings())
+  if (!monetizationUrl) {
+    return next()
+  }
+
+  response.setHeader('link', `<${monetizationUrl}>; rel="monetization"`)
+
+  const send = response.send.bind(response)
+  response.send = (body?: any) => {
+    if (
+      typeof body === 'string'
+      && String(response.getHeader('content-type')).startsWith('text/html')
+    ) {
+      return send(body.replace('</head>', `  <link rel="monetization" href="${monetizationUrl}">\n  </head>`))
+    }
+
+    return send(body)
+  }
+
+  next()
+}
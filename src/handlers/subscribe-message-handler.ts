@@ -2,16 +2,26 @@ import { anyPass, equals, isNil, map, propSatisfies, uniqWith } from 'ramda'
 // import { addAbortSignal } from 'stream'
 import { pipeline } from 'stream/promises'
 
-import { createEndOfStoredEventsNoticeMessage, createNoticeMessage, createOutgoingEventMessage } from '../utils/messages'
+import {
+  createClosedMessage,
+  createEndOfStoredEventsNoticeMessage,
+  createNoticeMessage,
+  createOutgoingEventMessage,
+} from '../utils/messages'
+import { FeeSchedule, Settings } from '../@types/settings'
+import { formatAmount, getBaseAsset } from '../utils/asset'
 import { IAbortable, IMessageHandler } from '../@types/message-handlers'
-import { isEventMatchingFilter, toNostrEvent } from '../utils/event'
+import { IEventRepository, IUserRepository } from '../@types/repositories'
+import { isEventKindOrRangeMatch, isEventMatchingFilter, toNostrEvent } from '../utils/event'
+import { LedgerCharge, LedgerEntryType } from '../@types/ledger'
 import { streamEach, streamEnd, streamFilter, streamMap } from '../utils/stream'
 import { SubscriptionFilter, SubscriptionId } from '../@types/subscription'
 import { createLogger } from '../factories/logger-factory'
+import { DEFAULT_FILTER_LIMIT } from '../constants/base'
 import { Event } from '../@types/event'
-import { IEventRepository } from '../@types/repositories'
+import { getSubscriptionFeeSchedules } from '../utils/fees'
 import { IWebSocketAdapter } from '../@types/adapters'
-import { Settings } from '../@types/settings'
+import { Pubkey } from '../@types/base'
 import { SubscribeMessage } from '../@types/messages'
 import { WebSocketAdapterEvent } from '../constants/adapter'
 
@@ -23,6 +33,7 @@ export class SubscribeMessageHandler implements IMessageHandler, IAbortable {
   public constructor(
     private readonly webSocket: IWebSocketAdapter,
     private readonly eventRepository: IEventRepository,
+    private readonly userRepository: IUserRepository,
     private readonly settings: () => Settings,
   ) {
     //this.abortController = new AbortController()
@@ -43,6 +54,23 @@ export class SubscribeMessageHandler implements IMessageHandler, IAbortable {
       return
     }
 
+    const authReason = this.checkAuthentication()
+    if (authReason) {
+      debug('subscription %s with %o closed: %s', subscriptionId, filters, authReason)
+      this.webSocket.emit(WebSocketAdapterEvent.Message, createClosedMessage(subscriptionId, authReason))
+      return
+    }
+
+    const closedReason = this.checkPayer(filters)
+      ?? await this.checkEventFeeBalance(filters)
+      ?? await this.chargeQueryFee(subscriptionId, filters)
+      ?? await this.chargeSubscriptionFee(subscriptionId, filters)
+    if (closedReason) {
+      debug('subscription %s with %o closed: %s', subscriptionId, filters, closedReason)
+      this.webSocket.emit(WebSocketAdapterEvent.Message, createClosedMessage(subscriptionId, closedReason))
+      return
+    }
+
     this.webSocket.emit(WebSocketAdapterEvent.Subscribe, subscriptionId, filters)
 
     await this.fetchAndSend(subscriptionId, filters)
@@ -50,10 +78,28 @@ export class SubscribeMessageHandler implements IMessageHandler, IAbortable {
 
   private async fetchAndSend(subscriptionId: string, filters: SubscriptionFilter[]): Promise<void> {
     debug('fetching events for subscription %s with filters %o', subscriptionId, filters)
-    const sendEvent = (event: Event) =>
+    const pubkey = this.getPayer()
+    const getEventFee = this.getEventFee(filters, pubkey)
+
+    // Per-event fees add up as events are sent and are charged once at the end
+    let eventFee = 0n
+    const sendEvent = (event: Event) => {
+      eventFee += getEventFee(event)
       this.webSocket.emit(WebSocketAdapterEvent.Message, createOutgoingEventMessage(subscriptionId, event))
-    const sendEOSE = () =>
+    }
+
+    let closedReason: string | undefined
+    const sendEOSE = async () => {
+      if (pubkey) {
+        const charge = { type: LedgerEntryType.QUERY_FEE, reference: subscriptionId }
+        closedReason = await this.charge(pubkey, eventFee, 'per-event query fees', charge)
+      }
+      if (closedReason) {
+        throw new Error(closedReason)
+      }
+
       this.webSocket.emit(WebSocketAdapterEvent.Message, createEndOfStoredEventsNoticeMessage(subscriptionId))
+    }
     const isSubscribedToEvent = SubscribeMessageHandler.isClientSubscribedToEvent(filters)
 
     const findEvents = this.eventRepository.findByFilters(filters).stream()
@@ -70,6 +116,14 @@ export class SubscribeMessageHandler implements IMessageHandler, IAbortable {
         streamEnd(sendEOSE),
       )
     } catch (error) {
+      if (closedReason) {
+        debug('subscription %s closed: %s', subscriptionId, closedReason)
+        findEvents.destroy()
+        this.webSocket.emit(WebSocketAdapterEvent.Unsubscribe, subscriptionId)
+        this.webSocket.emit(WebSocketAdapterEvent.Message, createClosedMessage(subscriptionId, closedReason))
+        return
+      }
+
       if (error instanceof Error && error.name === 'AbortError') {
         debug('subscription %s aborted: %o', subscriptionId, error)
        findEvents.destroy()
@@ -80,6 +134,150 @@ export class SubscribeMessageHandler implements IMessageHandler, IAbortable {
     }
   }
 
+  private getQueryFeeSchedules(filters: SubscriptionFilter[], pubkey?: Pubkey): FeeSchedule[] {
+    const currentSettings = this.settings()
+    if (!currentSettings.payments?.enabled) {
+      return []
+    }
+
+    return getSubscriptionFeeSchedules(currentSettings.payments.feeSchedules?.query, filters, pubkey)
+  }
+
+  private checkAuthentication(): string | undefined {
+    const authentication = this.settings().authentication
+    if (
+      authentication?.enabled
+      && authentication.requiredForSubscriptions
+      && !this.webSocket.getAuthenticatedPubkeys().length
+    ) {
+      return 'auth-required: authentication is required to subscribe'
+    }
+  }
+
+  /**
+   * Subscriptions subject to query or subscription fees need a pubkey to bill
+   */
+  private isAuthenticationRequired(filters: SubscriptionFilter[]): boolean {
+    const currentSettings = this.settings()
+    if (!currentSettings.payments?.enabled) {
+      return false
+    }
+
+    const feeSchedules = currentSettings.payments.feeSchedules
+
+    return getSubscriptionFeeSchedules(feeSchedules?.query, filters).length > 0
+      || getSubscriptionFeeSchedules(feeSchedules?.subscription, filters).length > 0
+  }
+
+  /**
+   * The first pubkey the client authenticated as pays for its queries
+   */
+  private getPayer(): Pubkey | undefined {
+    const [pubkey] = this.webSocket.getAuthenticatedPubkeys()
+
+    return pubkey
+  }
+
+  private checkPayer(filters: SubscriptionFilter[]): string | undefined {
+    if (this.isAuthenticationRequired(filters) && !this.getPayer()) {
+      return 'auth-required: subscriptions on this relay are paid'
+    }
+  }
+
+  /**
+   * Per-event fees are charged once all stored events are sent, so the
+   * balance must cover the most the filters may return beforehand
+   */
+  private async checkEventFeeBalance(filters: SubscriptionFilter[]): Promise<string | undefined> {
+    const pubkey = this.getPayer()
+    if (!pubkey) {
+      return
+    }
+
+    const maxFee = filters.reduce(
+      (sum, filter) => sum + this.getQueryFeeSchedules([filter], pubkey)
+        .reduce((filterSum, feeSchedule) => filterSum + BigInt(feeSchedule.perEventAmount ?? 0), 0n)
+        * BigInt(filter.limit ?? DEFAULT_FILTER_LIMIT),
+      0n,
+    )
+    if (maxFee === 0n) {
+      return
+    }
+
+    const baseAsset = getBaseAsset(this.settings())
+    if (await this.userRepository.getBalanceByPubkey(pubkey, baseAsset) < maxFee) {
+      return `payment-required: insufficient balance for per-event query fees of up to ${formatAmount(maxFee, baseAsset)}`
+    }
+  }
+
+  private async chargeQueryFee(
+    subscriptionId: SubscriptionId,
+    filters: SubscriptionFilter[],
+  ): Promise<string | undefined> {
+    const pubkey = this.getPayer()
+    if (!pubkey) {
+      return
+    }
+
+    const fee = this.getQueryFeeSchedules(filters, pubkey)
+      .reduce((sum, feeSchedule) => sum + BigInt(feeSchedule.amount), 0n)
+
+    return this.charge(pubkey, fee, 'query fee', { type: LedgerEntryType.QUERY_FEE, reference: subscriptionId })
+  }
+
+  /**
+   * Charges the first minute of subscription fees up front. The web socket
+   * adapter bills each following minute.
+   */
+  private async chargeSubscriptionFee(
+    subscriptionId: SubscriptionId,
+    filters: SubscriptionFilter[],
+  ): Promise<string | undefined> {
+    const currentSettings = this.settings()
+    const pubkey = this.getPayer()
+    if (!currentSettings.payments?.enabled || !pubkey) {
+      return
+    }
+
+    const fee = getSubscriptionFeeSchedules(currentSettings.payments.feeSchedules?.subscription, filters, pubkey)
+      .reduce((sum, feeSchedule) => sum + BigInt(feeSchedule.amount), 0n)
+
+    return this.charge(
+      pubkey,
+      fee,
+      'subscription fee',
+      { type: LedgerEntryType.SUBSCRIPTION_FEE, reference: subscriptionId },
+    )
+  }
+
+  private getEventFee(filters: SubscriptionFilter[], pubkey: Pubkey | undefined): (event: Event) => bigint {
+    const feeSchedules = pubkey
+      ? this.getQueryFeeSchedules(filters, pubkey).filter((feeSchedule) => feeSchedule.perEventAmount)
+      : []
+
+    return (event: Event) => feeSchedules
+      .filter((feeSchedule) =>
+        !Array.isArray(feeSchedule.kinds) || feeSchedule.kinds.some(isEventKindOrRangeMatch(event))
+      )
+      .reduce((sum, feeSchedule) => sum + BigInt(feeSchedule.perEventAmount), 0n)
+  }
+
+  private async charge(
+    pubkey: Pubkey,
+    fee: bigint,
+    description: string,
+    charge: LedgerCharge,
+  ): Promise<string | undefined> {
+    if (fee === 0n) {
+      return
+    }
+
+    const baseAsset = getBaseAsset(this.settings())
+    if (!await this.userRepository.chargeBalance(pubkey, { ...baseAsset, amount: fee }, charge)) {
+      return `payment-required: insufficient balance for ${description} of ${formatAmount(fee, baseAsset)}`
+    }
+  }
+
   private static isClientSubscribedToEvent(filters: SubscriptionFilter[]): (event: Event) => boolean {
     return anyPass(map(isEventMatchingFilter)(filters))
   }
@@ -100,6 +298,10 @@ export class SubscribeMessageHandler implements IMessageHandler, IAbortable {
       return `Too many subscriptions: Number of subscriptions must be less than or equal to ${maxSubscriptions}`
     }
 
+    if (!this.settings().search?.enabled && filters.some((filter) => typeof filter.search === 'string')) {
+      return 'Search not supported: Full-text search is disabled on this relay'
+    }
+
     const maxFilters = subscriptionLimits?.maxFilters ?? 0
     if (maxFilters > 0) {
       if (filters.length > maxFilters) {
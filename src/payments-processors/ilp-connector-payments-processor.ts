@@ -0,0 +1,144 @@
+import {
+  CreateInvoiceRequest,
+  CreateInvoiceResponse,
+  GetInvoiceResponse,
+  IIlpConnectorClient,
+  IlpReceiver,
+  IlpSettlementStatus,
+  IPaymentsProcessor,
+  SendPaymentRequest,
+  SendPaymentResponse,
+} from '../@types/clients'
+import { Invoice, InvoiceStatus, PaymentRequestType } from '../@types/invoice'
+import { createLogger } from '../factories/logger-factory'
+import { EventEmitter } from 'stream'
+import { Settings } from '../@types/settings'
+
+const debug = createLogger('ilp-connector-payments-processor')
+
+const DEFAULT_INVOICE_EXPIRY = 15 * 60
+
+/**
+ * Issues invoices as receivers on a local ILP connector, which runs the
+ * STREAM server and settles with its peers on behalf of the relay.
+ *
+ * The connector does not push payments, so its invoices are confirmed by
+ * the maintenance worker's reconciliation sweep.
+ */
+export class IlpConnectorPaymentsProcessor extends EventEmitter implements IPaymentsProcessor {
+  public constructor(
+    private readonly client: IIlpConnectorClient,
+    private readonly settings: () => Settings,
+  ) {
+    super()
+  }
+
+  public async createInvoice(request: CreateInvoiceRequest): Promise<CreateInvoiceResponse> {
+    debug('create invoice: %o', request)
+    const invoiceExpiry = this.settings().paymentsProcessors?.ilpConnector?.invoiceExpiry ?? DEFAULT_INVOICE_EXPIRY
+
+    const receiver = await this.client.createReceiver({
+      assetCode: request.assetCode,
+      assetScale: request.assetScale,
+      amount: request.amount,
+      expiresAt: new Date(Date.now() + invoiceExpiry * 1000),
+      description: request.description,
+    })
+
+    if (receiver.assetCode !== request.assetCode || receiver.assetScale !== request.assetScale) {
+      throw new Error(`Unsupported ILP asset: ${receiver.assetCode} (scale ${receiver.assetScale})`)
+    }
+
+    return {
+      ...this.toInvoice(receiver, InvoiceStatus.PENDING),
+      pubkey: request.requestId,
+      description: request.description ?? '',
+    }
+  }
+
+  public async getInvoice(invoiceOrId: string | Invoice): Promise<GetInvoiceResponse> {
+    const id = typeof invoiceOrId === 'string' ? invoiceOrId : invoiceOrId.id
+    debug('get invoice: %s', id)
+
+    const receiver = await this.client.getReceiver(id)
+    if (!receiver) {
+      throw new Error(`Invoice not found: ${id}`)
+    }
+
+    const payments = await this.client.getIncomingPayments(id)
+    const amountReceived = payments.reduce((sum, payment) => sum + payment.amount, 0n)
+    const isExpired = receiver.expiresAt.getTime() <= Date.now()
+
+    // Open amount receivers accept payments until they expire
+    const isPaid = receiver.amount > 0n
+      ? amountReceived >= receiver.amount
+      : isExpired && amountReceived > 0n
+
+    if (isPaid) {
+      const settlementStatus = await this.client.getSettlementStatus(id)
+      if (settlementStatus === IlpSettlementStatus.SETTLED) {
+        const confirmedAt = new Date(Math.max(...payments.map((payment) => payment.receivedAt.getTime())))
+
+        return {
+          ...this.toInvoice({ ...receiver, amountReceived }, InvoiceStatus.COMPLETED),
+          confirmedAt,
+        }
+      }
+
+      debug('invoice %s paid but not settled yet', id)
+    }
+
+    return this.toInvoice(
+      { ...receiver, amountReceived },
+      isExpired && !isPaid ? InvoiceStatus.EXPIRED : InvoiceStatus.PENDING,
+    )
+  }
+
+  public async sendPayment(request: SendPaymentRequest): Promise<SendPaymentResponse> {
+    debug('send payment: %o', request)
+    const payment = await this.client.sendPayment({
+      paymentPointer: request.paymentPointer,
+      assetCode: request.assetCode,
+      assetScale: request.assetScale,
+      amount: request.amount,
+    })
+
+    if (payment.assetCode !== request.assetCode || payment.assetScale !== request.assetScale) {
+      throw new Error(`Unsupported ILP asset: ${payment.assetCode} (scale ${payment.assetScale})`)
+    }
+
+    return {
+      id: payment.id,
+      assetCode: payment.assetCode,
+      assetScale: payment.assetScale,
+      amountSent: payment.amountSent,
+    }
+  }
+
+  /**
+   * Receivers don't know the pubkey and description, so they are left out
+   * rather than overwriting the ones stored with the invoice
+   */
+  private toInvoice(
+    receiver: IlpReceiver,
+    status: InvoiceStatus,
+  ): Omit<CreateInvoiceResponse, 'pubkey' | 'description'> & Pick<Invoice, 'amountPaid' | 'updatedAt'> {
+    return {
+      id: receiver.id,
+      paymentRequest: {
+        type: PaymentRequestType.STREAM,
+        destinationAccount: receiver.destinationAccount,
+        sharedSecret: receiver.sharedSecret,
+      },
+      amountRequested: receiver.amount,
+      amountPaid: receiver.amountReceived > 0n ? receiver.amountReceived : undefined,
+      assetCode: receiver.assetCode,
+      assetScale: receiver.assetScale,
+      status,
+      confirmedAt: null,
+      expiresAt: receiver.expiresAt,
+      createdAt: receiver.createdAt,
+      updatedAt: new Date(),
+    }
+  }
+}
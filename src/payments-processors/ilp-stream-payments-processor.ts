@@ -0,0 +1,379 @@
+import { Connection, createConnection, createServer, DataAndMoneyStream, Server, ServerOpts } from 'ilp-protocol-stream'
+import { randomUUID } from 'crypto'
+
+import {
+  CreateInvoiceRequest,
+  CreateInvoiceResponse,
+  GetInvoiceResponse,
+  IPaymentsProcessor,
+  ISpspClient,
+  SendPaymentRequest,
+  SendPaymentResponse,
+} from '../@types/clients'
+import { Invoice, InvoiceStatus, PaymentRequestType } from '../@types/invoice'
+import { Asset } from '../@types/asset'
+import { createLogger } from '../factories/logger-factory'
+import { EventEmitter } from 'stream'
+import { ICacheAdapter } from '../@types/adapters'
+import { PaymentsProcessorEvent } from '../constants/payments'
+import { rescaleAmount } from '../utils/asset'
+import { Settings } from '../@types/settings'
+
+const debug = createLogger('ilp-stream-payments-processor')
+
+export type IlpPlugin = ServerOpts['plugin']
+
+const DEFAULT_INVOICE_EXPIRY = 15 * 60
+
+const DEFAULT_PAYMENT_TIMEOUT = 30
+
+/**
+ * Cached invoices outlive their expiry so late polls still see the final status
+ */
+const INVOICE_CACHE_RETENTION = 24 * 60 * 60
+
+interface IlpStreamInvoice {
+  id: string
+  pubkey: string
+  description: string
+  destinationAccount: string
+  sharedSecret: string
+  assetCode: string
+  assetScale: number
+  accountAssetScale: number
+  /**
+   * Amount requested in units of the invoice asset scale
+   */
+  amountRequested: string
+  /**
+   * Amount received in units of the ILP account asset scale
+   */
+  amountReceived: string
+  status: InvoiceStatus
+  expiresAt: string
+  confirmedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Open amount invoices (e.g. top-ups) accept any amount until the payer closes the connection
+ */
+const isOpenAmount = (invoice: IlpStreamInvoice): boolean => invoice.amountRequested === '0'
+
+// round up so that the relay is never underpaid
+const toAccountUnits = (invoice: IlpStreamInvoice): bigint =>
+  rescaleAmount(BigInt(invoice.amountRequested), invoice.assetScale, invoice.accountAssetScale, true)
+
+export class IlpStreamPaymentsProcessor extends EventEmitter implements IPaymentsProcessor {
+  private server: Promise<Server> | undefined
+  private pendingUpdates: Promise<void> = Promise.resolve()
+
+  public constructor(
+    private readonly plugin: IlpPlugin,
+    private readonly serverSecret: Buffer,
+    private readonly cache: ICacheAdapter,
+    private readonly settings: () => Settings,
+    /**
+     * Outgoing connections take over the plugin's data handler and
+     * disconnect it when they close, so each payment gets its own plugin
+     */
+    private readonly createSenderPlugin: () => IlpPlugin,
+    private readonly spspClient: ISpspClient,
+  ) {
+    super()
+  }
+
+  /**
+   * Asset of the ILP account behind the plugin
+   */
+  public async getAsset(): Promise<Asset> {
+    const server = await this.getServer()
+
+    return { assetCode: server.assetCode, assetScale: server.assetScale }
+  }
+
+  public async createInvoice(request: CreateInvoiceRequest): Promise<CreateInvoiceResponse> {
+    debug('create invoice: %o', request)
+    const server = await this.getServer()
+
+    if (server.assetCode !== request.assetCode) {
+      throw new Error(`Unsupported ILP asset: ${server.assetCode}`)
+    }
+
+    const id = randomUUID()
+    const { destinationAccount, sharedSecret } = server.generateAddressAndSecret(id)
+
+    const invoiceExpiry = this.settings().paymentsProcessors?.ilpStream?.invoiceExpiry ?? DEFAULT_INVOICE_EXPIRY
+    const now = new Date()
+
+    const invoice: IlpStreamInvoice = {
+      id,
+      pubkey: request.requestId,
+      description: request.description ?? '',
+      destinationAccount,
+      sharedSecret: sharedSecret.toString('base64'),
+      assetCode: request.assetCode,
+      assetScale: request.assetScale,
+      accountAssetScale: server.assetScale,
+      amountRequested: request.amount.toString(),
+      amountReceived: '0',
+      status: InvoiceStatus.PENDING,
+      expiresAt: new Date(now.getTime() + invoiceExpiry * 1000).toISOString(),
+      confirmedAt: null,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    }
+
+    await this.saveInvoice(invoice)
+
+    return this.toInvoice(invoice)
+  }
+
+  public async getInvoice(invoiceOrId: string | Invoice): Promise<GetInvoiceResponse> {
+    const id = typeof invoiceOrId === 'string' ? invoiceOrId : invoiceOrId.id
+    debug('get invoice: %s', id)
+
+    const invoice = await this.findInvoice(id)
+    if (!invoice) {
+      throw new Error(`Invoice not found: ${id}`)
+    }
+
+    if (invoice.status === InvoiceStatus.PENDING && new Date(invoice.expiresAt).getTime() <= Date.now()) {
+      if (isOpenAmount(invoice) && BigInt(invoice.amountReceived) > 0n) {
+        return this.toInvoice({ ...invoice, status: InvoiceStatus.COMPLETED, confirmedAt: invoice.updatedAt })
+      }
+
+      return this.toInvoice({ ...invoice, status: InvoiceStatus.EXPIRED })
+    }
+
+    return this.toInvoice(invoice)
+  }
+
+  /**
+   * Streams the amount to the payment pointer and resolves with what got
+   * through, which falls short of the amount if the payment stalls
+   */
+  public async sendPayment(request: SendPaymentRequest): Promise<SendPaymentResponse> {
+    debug('send payment: %o', request)
+    const { destinationAccount, sharedSecret } = await this.spspClient.query(request.paymentPointer)
+
+    const connection = await createConnection({
+      plugin: this.createSenderPlugin(),
+      destinationAccount,
+      sharedSecret,
+    })
+
+    try {
+      if (connection.sourceAssetCode !== request.assetCode) {
+        throw new Error(`Unsupported ILP asset: ${connection.sourceAssetCode}`)
+      }
+
+      // round down so that the relay never sends more than requested
+      const amount = rescaleAmount(request.amount, request.assetScale, connection.sourceAssetScale)
+      const paymentTimeout = this.settings().paymentsProcessors?.ilpStream?.paymentTimeout ?? DEFAULT_PAYMENT_TIMEOUT
+
+      const stream = connection.createStream()
+      await stream.sendTotal(amount.toString(), { timeout: paymentTimeout * 1000 }).catch((error) => {
+        debug('payment to %s stalled: %o', request.paymentPointer, error)
+      })
+
+      // round up so that a partial payment is never refunded twice
+      const amountSent = rescaleAmount(
+        BigInt(stream.totalSent),
+        connection.sourceAssetScale,
+        request.assetScale,
+        true,
+      )
+
+      return {
+        id: randomUUID(),
+        assetCode: request.assetCode,
+        assetScale: request.assetScale,
+        amountSent: amountSent < request.amount ? amountSent : request.amount,
+      }
+    } finally {
+      await connection.end().catch((error) => {
+        debug('unable to close connection to %s: %o', destinationAccount, error)
+      })
+    }
+  }
+
+  public async close(): Promise<void> {
+    if (!this.server) {
+      return
+    }
+
+    const server = await this.server
+    this.server = undefined
+    await server.close()
+  }
+
+  private getServer(): Promise<Server> {
+    if (!this.server) {
+      this.server = createServer({
+        plugin: this.plugin,
+        serverSecret: this.serverSecret,
+      }).then((server) => {
+        debug('listening on %s (%s, scale %d)', server.generateAddressAndSecret().destinationAccount, server.assetCode, server.assetScale)
+        server.on('connection', this.onConnection.bind(this))
+
+        return server
+      })
+
+      this.server.catch((error) => {
+        console.error('ilp-stream-payments-processor: unable to start STREAM server:', error)
+        this.server = undefined
+      })
+    }
+
+    return this.server
+  }
+
+  private onConnection(connection: Connection): void {
+    const invoiceId = connection.connectionTag
+    debug('connection for invoice %s', invoiceId)
+
+    if (typeof invoiceId !== 'string') {
+      connection.destroy()
+      return
+    }
+
+    connection.on('stream', (stream: DataAndMoneyStream) => {
+      this.acceptStream(invoiceId, stream).catch((error) => {
+        console.error(`ilp-stream-payments-processor: unable to accept payment for invoice ${invoiceId}:`, error)
+        stream.destroy()
+      })
+    })
+
+    connection.once('close', () => {
+      this.pendingUpdates = this.pendingUpdates
+        .then(() => this.onClose(invoiceId))
+        .catch((error) => console.error(`ilp-stream-payments-processor: unable to complete invoice ${invoiceId}:`, error))
+    })
+  }
+
+  private async acceptStream(invoiceId: string, stream: DataAndMoneyStream): Promise<void> {
+    const invoice = await this.findInvoice(invoiceId)
+
+    if (
+      !invoice
+      || invoice.status !== InvoiceStatus.PENDING
+      || new Date(invoice.expiresAt).getTime() <= Date.now()
+    ) {
+      debug('rejecting payment for invoice %s: not payable', invoiceId)
+      stream.destroy()
+      return
+    }
+
+    stream.on('money', (amount: string) => {
+      this.pendingUpdates = this.pendingUpdates
+        .then(() => this.onMoney(invoiceId, BigInt(amount)))
+        .catch((error) => console.error(`ilp-stream-payments-processor: unable to record payment for invoice ${invoiceId}:`, error))
+    })
+
+    if (isOpenAmount(invoice)) {
+      stream.setReceiveMax(Infinity)
+      return
+    }
+
+    const remaining = toAccountUnits(invoice) - BigInt(invoice.amountReceived)
+
+    stream.setReceiveMax(remaining.toString())
+  }
+
+  private async onMoney(invoiceId: string, amount: bigint): Promise<void> {
+    debug('received %s for invoice %s', amount.toString(), invoiceId)
+    const invoice = await this.findInvoice(invoiceId)
+    if (!invoice) {
+      return
+    }
+
+    const now = new Date()
+    const amountReceived = BigInt(invoice.amountReceived) + amount
+    const isPaid = !isOpenAmount(invoice) && amountReceived >= toAccountUnits(invoice)
+
+    const updatedInvoice: IlpStreamInvoice = {
+      ...invoice,
+      amountReceived: amountReceived.toString(),
+      status: isPaid ? InvoiceStatus.COMPLETED : invoice.status,
+      confirmedAt: isPaid ? now.toISOString() : invoice.confirmedAt,
+      updatedAt: now.toISOString(),
+    }
+
+    await this.saveInvoice(updatedInvoice)
+
+    if (isPaid && invoice.status !== InvoiceStatus.COMPLETED) {
+      this.emit(PaymentsProcessorEvent.PaymentReceived, this.toInvoice(updatedInvoice))
+    }
+  }
+
+  private async onClose(invoiceId: string): Promise<void> {
+    const invoice = await this.findInvoice(invoiceId)
+    if (
+      !invoice
+      || !isOpenAmount(invoice)
+      || invoice.status !== InvoiceStatus.PENDING
+      || BigInt(invoice.amountReceived) === 0n
+    ) {
+      return
+    }
+
+    debug('completing open amount invoice %s: %s received', invoiceId, invoice.amountReceived)
+    const now = new Date().toISOString()
+
+    const updatedInvoice: IlpStreamInvoice = {
+      ...invoice,
+      status: InvoiceStatus.COMPLETED,
+      confirmedAt: now,
+      updatedAt: now,
+    }
+
+    await this.saveInvoice(updatedInvoice)
+
+    this.emit(PaymentsProcessorEvent.PaymentReceived, this.toInvoice(updatedInvoice))
+  }
+
+  private async findInvoice(id: string): Promise<IlpStreamInvoice | undefined> {
+    const raw = await this.cache.getKey(`ilp-stream:invoice:${id}`)
+    if (!raw) {
+      return
+    }
+
+    return JSON.parse(raw)
+  }
+
+  private async saveInvoice(invoice: IlpStreamInvoice): Promise<void> {
+    const key = `ilp-stream:invoice:${invoice.id}`
+    const expiry = Math.max(Math.ceil((new Date(invoice.expiresAt).getTime() - Date.now()) / 1000), 0)
+
+    await this.cache.setKey(key, JSON.stringify(invoice))
+    await this.cache.setKeyExpiry(key, expiry + INVOICE_CACHE_RETENTION)
+  }
+
+  private toInvoice(invoice: IlpStreamInvoice): Invoice {
+    const amountReceived = BigInt(invoice.amountReceived)
+
+    return {
+      id: invoice.id,
+      pubkey: invoice.pubkey,
+      paymentRequest: {
+        type: PaymentRequestType.STREAM,
+        destinationAccount: invoice.destinationAccount,
+        sharedSecret: invoice.sharedSecret,
+      },
+      amountRequested: BigInt(invoice.amountRequested),
+      amountPaid: amountReceived > 0n
+        ? rescaleAmount(amountReceived, invoice.accountAssetScale, invoice.assetScale)
+        : undefined,
+      assetCode: invoice.assetCode,
+      assetScale: invoice.assetScale,
+      status: invoice.status,
+      description: invoice.description,
+      confirmedAt: invoice.confirmedAt ? new Date(invoice.confirmedAt) : null,
+      expiresAt: new Date(invoice.expiresAt),
+      updatedAt: new Date(invoice.updatedAt),
+      createdAt: new Date(invoice.createdAt),
+    }
+  }
+}
@@ -1,16 +1,22 @@
-import { CreateInvoiceRequest, CreateInvoiceResponse, GetInvoiceResponse, IPaymentsProcessor } from '../@types/clients'
-import { InvoiceStatus, InvoiceUnit } from '../@types/invoice'
+import {
+  CreateInvoiceRequest,
+  CreateInvoiceResponse,
+  GetInvoiceResponse,
+  IPaymentsProcessor,
+  SendPaymentResponse,
+} from '../@types/clients'
+import { EventEmitter } from 'stream'
+import { InvoiceStatus } from '../@types/invoice'
 
-export class NullPaymentsProcessor implements IPaymentsProcessor {
+export class NullPaymentsProcessor extends EventEmitter implements IPaymentsProcessor {
   public async getInvoice(invoiceId: string): Promise<GetInvoiceResponse> {
     const date = new Date()
     return {
       id: invoiceId,
       pubkey: '',
-      bolt11: '',
+      paymentRequest: null,
       description: '',
       status: InvoiceStatus.PENDING,
-      unit: InvoiceUnit.MSATS,
       amountRequested: 0n,
       expiresAt: date,
       confirmedAt: null,
@@ -20,15 +26,16 @@ export class NullPaymentsProcessor implements IPaymentsProcessor {
     }
   }
 
-  public async createInvoice(_request: CreateInvoiceRequest): Promise<CreateInvoiceResponse> {
+  public async createInvoice(request: CreateInvoiceRequest): Promise<CreateInvoiceResponse> {
     return {
       description: '',
       status: InvoiceStatus.PENDING,
-      unit: InvoiceUnit.MSATS,
+      assetCode: request.assetCode,
+      assetScale: request.assetScale,
       amountRequested: 0n,
       id: '',
       expiresAt: new Date(),
-      bolt11: '',
+      paymentRequest: null,
       pubkey: '',
       rawResponse: '',
       confirmedAt: null,
@@ -36,4 +43,8 @@ export class NullPaymentsProcessor implements IPaymentsProcessor {
       verifyURL: '',
     }
   }
+
+  public async sendPayment(): Promise<SendPaymentResponse> {
+    throw new Error('Payments are disabled')
+  }
 }
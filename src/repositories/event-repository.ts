@@ -28,13 +28,25 @@ import {
   toPairs,
 } from 'ramda'
 
-import { ContextMetadataKey, EventDeduplicationMetadataKey, EventExpirationTimeMetadataKey } from '../constants/base'
+import {
+  ContextMetadataKey,
+  DEFAULT_FILTER_LIMIT,
+  EventDeduplicationMetadataKey,
+  EventExpirationTimeMetadataKey,
+  EventKinds,
+  EventPublicationFeeMetadataKey,
+  EventTags,
+} from '../constants/base'
 import { DatabaseClient, EventId } from '../@types/base'
-import { DBEvent, Event } from '../@types/event'
+import { DBEvent, Event, EventAddress, PaidEvent } from '../@types/event'
 import { IEventRepository, IQueryResult } from '../@types/repositories'
 import { toBuffer, toJSON } from '../utils/transform'
 import { createLogger } from '../factories/logger-factory'
+import { getSearchTerms } from '../utils/search'
+import { InsufficientBalanceError } from '../errors/insufficient-balance-error'
 import { isGenericTagQuery } from '../utils/filter'
+import { LedgerEntryType } from '../@types/ledger'
+import { runSerializableTransaction } from '../database/transaction'
 import { SubscriptionFilter } from '../@types/subscription'
 
 const even = pipe(modulo(__, 2), equals(0))
@@ -52,6 +64,21 @@ const groupByLengthSpec = groupBy<string, 'exact' | 'even' | 'odd'>(
 
 const debug = createLogger('event-repository')
 
+/**
+ * Words of the filter's NIP-50 search query as a plain text search query
+ */
+const getSearchQuery = (filter: SubscriptionFilter): string | undefined => {
+  if (typeof filter.search !== 'string') {
+    return
+  }
+
+  const terms = getSearchTerms(filter.search)
+
+  return terms.length ? terms.join(' ') : undefined
+}
+
+const isPaidEvent = (event: Event): event is PaidEvent => EventPublicationFeeMetadataKey in event
+
 export class EventRepository implements IEventRepository {
   public constructor(
     private readonly masterDbClient: DatabaseClient,
@@ -64,95 +91,17 @@ export class EventRepository implements IEventRepository {
       throw new Error('Filters cannot be empty')
     }
     const queries = filters.map((currentFilter) => {
-      const builder = this.readReplicaDbClient<DBEvent>('events')
+      const builder = this.buildFilterQuery(currentFilter)
 
-      forEachObjIndexed((tableFields: string[], filterName: string | number) => {
-        builder.andWhere((bd) => {
-          cond([
-            [isEmpty, () => void bd.whereRaw('1 = 0')],
-            [
-              complement(isNil),
-              pipe(
-                groupByLengthSpec,
-                evolve({
-                  exact: (pubkeys: string[]) =>
-                    tableFields.forEach((tableField) =>
-                      bd.orWhereIn(tableField, pubkeys.map(toBuffer))
-                    ),
-                  even: forEach((prefix: string) =>
-                    tableFields.forEach((tableField) =>
-                      bd.orWhereRaw(
-                        `substring("${tableField}" from 1 for ?) = ?`,
-                        [prefix.length >> 1, toBuffer(prefix)]
-                      )
-                    )
-                  ),
-                  odd: forEach((prefix: string) =>
-                    tableFields.forEach((tableField) =>
-                      bd.orWhereRaw(
-                        `substring("${tableField}" from 1 for ?) BETWEEN ? AND ?`,
-                        [
-                          (prefix.length >> 1) + 1,
-                          `\\x${prefix}0`,
-                          `\\x${prefix}f`,
-                        ],
-                      )
-                    )
-                  ),
-                } as any),
-              ),
-            ],
-          ])(currentFilter[filterName] as string[])
-        })
-      })({
-        authors: ['event_pubkey'],
-        ids: ['event_id'],
-      })
-
-      if (Array.isArray(currentFilter.kinds)) {
-        builder.whereIn('event_kind', currentFilter.kinds)
-      }
-
-      if (typeof currentFilter.since === 'number') {
-        builder.where('event_created_at', '>=', currentFilter.since)
-      }
-
-      if (typeof currentFilter.until === 'number') {
-        builder.where('event_created_at', '<=', currentFilter.until)
-      }
-
-      if (typeof currentFilter.limit === 'number') {
+      const searchQuery = getSearchQuery(currentFilter)
+      if (searchQuery) {
+        builder
+          .limit(currentFilter.limit ?? DEFAULT_FILTER_LIMIT)
+          .orderByRaw('ts_rank("events"."event_search", plainto_tsquery(\'simple\', ?)) DESC', [searchQuery])
+      } else if (typeof currentFilter.limit === 'number') {
         builder.limit(currentFilter.limit).orderBy('event_created_at', 'DESC')
       } else {
-        builder.limit(500).orderBy('event_created_at', 'asc')
-      }
-
-      const andWhereRaw = invoker(1, 'andWhereRaw')
-      const orWhereRaw = invoker(2, 'orWhereRaw')
-
-      let isTagQuery = false
-      pipe(
-        toPairs,
-        filter(pipe(nth(0) as () => string, isGenericTagQuery)) as any,
-        forEach(([filterName, criteria]: [string, string[]]) => {
-          isTagQuery = true
-          builder.andWhere((bd) => {
-            ifElse(
-              isEmpty,
-              () => andWhereRaw('1 = 0', bd),
-              forEach((criterion: string) => void orWhereRaw(
-                'event_tags.tag_name = ? AND event_tags.tag_value = ?',
-                [filterName[1], criterion],
-                bd,
-              )),
-            )(criteria)
-          })
-        }),
-      )(currentFilter as any)
-
-      if (isTagQuery) {
-        builder.leftJoin('event_tags', 'events.event_id', 'event_tags.event_id')
-          .select('events.*')
+        builder.limit(DEFAULT_FILTER_LIMIT).orderBy('event_created_at', 'asc')
       }
 
       return builder
@@ -166,11 +115,151 @@ export class EventRepository implements IEventRepository {
     return query
   }
 
+  /**
+   * Counts the events matching any of the filters once each, ignoring limits
+   * and deleted events (NIP-45)
+   */
+  public async countByFilters(filters: SubscriptionFilter[]): Promise<number> {
+    debug('counting %o', filters)
+    if (!Array.isArray(filters) || !filters.length) {
+      throw new Error('Filters cannot be empty')
+    }
+
+    const queries = filters.map((currentFilter) =>
+      this.buildFilterQuery(currentFilter)
+        .clearSelect()
+        .select('events.event_id')
+        .whereNull('events.deleted_at')
+    )
+
+    const [query, ...subqueries] = queries
+    if (subqueries.length) {
+      query.union(subqueries, true)
+    }
+
+    const [{ count }] = await this.readReplicaDbClient
+      .from(query.as('matching_events'))
+      .countDistinct('event_id as count')
+
+    return Number(count)
+  }
+
+  private buildFilterQuery(currentFilter: SubscriptionFilter) {
+    const builder = this.readReplicaDbClient<DBEvent>('events')
+
+    forEachObjIndexed((tableFields: string[], filterName: string | number) => {
+      builder.andWhere((bd) => {
+        cond([
+          [isEmpty, () => void bd.whereRaw('1 = 0')],
+          [
+            complement(isNil),
+            pipe(
+              groupByLengthSpec,
+              evolve({
+                exact: (pubkeys: string[]) =>
+                  tableFields.forEach((tableField) =>
+                    bd.orWhereIn(tableField, pubkeys.map(toBuffer))
+                  ),
+                even: forEach((prefix: string) =>
+                  tableFields.forEach((tableField) =>
+                    bd.orWhereRaw(
+                      `substring("${tableField}" from 1 for ?) = ?`,
+                      [prefix.length >> 1, toBuffer(prefix)]
+                    )
+                  )
+                ),
+                odd: forEach((prefix: string) =>
+                  tableFields.forEach((tableField) =>
+                    bd.orWhereRaw(
+                      `substring("${tableField}" from 1 for ?) BETWEEN ? AND ?`,
+                      [
+                        (prefix.length >> 1) + 1,
+                        `\\x${prefix}0`,
+                        `\\x${prefix}f`,
+                      ],
+                    )
+                  )
+                ),
+              } as any),
+            ),
+          ],
+        ])(currentFilter[filterName] as string[])
+      })
+    })({
+      authors: ['event_pubkey'],
+      ids: ['event_id'],
+    })
+
+    if (Array.isArray(currentFilter.kinds)) {
+      builder.whereIn('event_kind', currentFilter.kinds)
+    }
+
+    if (typeof currentFilter.since === 'number') {
+      builder.where('event_created_at', '>=', currentFilter.since)
+    }
+
+    if (typeof currentFilter.until === 'number') {
+      builder.where('event_created_at', '<=', currentFilter.until)
+    }
+
+    const searchQuery = getSearchQuery(currentFilter)
+    if (searchQuery) {
+      builder.whereRaw('"events"."event_search" @@ plainto_tsquery(\'simple\', ?)', [searchQuery])
+    }
+
+    const andWhereRaw = invoker(1, 'andWhereRaw')
+    const orWhereRaw = invoker(2, 'orWhereRaw')
+
+    let isTagQuery = false
+    pipe(
+      toPairs,
+      filter(pipe(nth(0) as () => string, isGenericTagQuery)) as any,
+      forEach(([filterName, criteria]: [string, string[]]) => {
+        isTagQuery = true
+        builder.andWhere((bd) => {
+          ifElse(
+            isEmpty,
+            () => andWhereRaw('1 = 0', bd),
+            forEach((criterion: string) => void orWhereRaw(
+              'event_tags.tag_name = ? AND event_tags.tag_value = ?',
+              [filterName[1], criterion],
+              bd,
+            )),
+          )(criteria)
+        })
+      }),
+    )(currentFilter as any)
+
+    // Expired events (NIP-40) are hidden until the maintenance worker purges them
+    builder.where((bd) => bd
+      .whereNull('events.expires_at')
+      .orWhereRaw('"events"."expires_at" > extract(epoch from now())::integer')
+    )
+
+    if (isTagQuery) {
+      builder.leftJoin('event_tags', 'events.event_id', 'event_tags.event_id')
+        .select('events.*')
+    }
+
+    return builder
+  }
+
   public async create(event: Event): Promise<number> {
-    return this.insert(event).then(prop('rowCount') as () => number, () => 0)
+    if (!isPaidEvent(event)) {
+      return this.insert(event).then(prop('rowCount') as () => number, () => 0)
+    }
+
+    return runSerializableTransaction(this.masterDbClient, async (trx) => {
+      const count = await this.insert(event, trx).then(prop('rowCount') as () => number)
+      if (count) {
+        await this.chargePublicationFee(event, trx)
+      }
+
+      return count
+    })
   }
 
-  private insert(event: Event) {
+  private insert(event: Event, client: DatabaseClient = this.masterDbClient) {
     debug('inserting event: %o', event)
     const row = applySpec({
       event_id: pipe(prop('id'), toBuffer),
@@ -188,7 +277,7 @@ export class EventRepository implements IEventRepository {
       ),
     })(event)
 
-    return this.masterDbClient('events')
+    return client('events')
       .insert(row)
       .onConflict()
       .ignore()
@@ -221,25 +310,69 @@ export class EventRepository implements IEventRepository {
       deleted_at: always(null),
     })(event)
 
-    const query = this.masterDbClient('events')
+    const upsertQuery = (client: DatabaseClient) => client('events')
       .insert(row)
       // NIP-16: Replaceable Events
       // NIP-33: Parameterized Replaceable Events
       .onConflict(
-        this.masterDbClient.raw(
+        client.raw(
           '(event_pubkey, event_kind, event_deduplication) WHERE (event_kind = 0 OR event_kind = 3 OR event_kind = 41 OR (event_kind >= 10000 AND event_kind < 20000)) OR (event_kind >= 30000 AND event_kind < 40000)'
         )
       )
       .merge(omit(['event_pubkey', 'event_kind', 'event_deduplication'])(row))
       .where('events.event_created_at', '<', row.event_created_at)
 
+    const query = upsertQuery(this.masterDbClient)
+
+    const execute = (): Promise<number> => {
+      if (!isPaidEvent(event)) {
+        return query.then(prop('rowCount') as () => number)
+      }
+
+      return runSerializableTransaction(this.masterDbClient, async (trx) => {
+        const count = await upsertQuery(trx).then(prop('rowCount') as () => number)
+        if (count) {
+          await this.chargePublicationFee(event, trx)
+        }
+
+        return count
+      })
+    }
+
     return {
-      then: <T1, T2>(onfulfilled: (value: number) => T1 | PromiseLike<T1>, onrejected: (reason: any) => T2 | PromiseLike<T2>) => query.then(prop('rowCount') as () => number).then(onfulfilled, onrejected),
-      catch: <T>(onrejected: (reason: any) => T | PromiseLike<T>) => query.catch(onrejected),
+      then: <T1, T2>(
+        onfulfilled: (value: number) => T1 | PromiseLike<T1>,
+        onrejected: (reason: any) => T2 | PromiseLike<T2>,
+      ) => execute().then(onfulfilled, onrejected),
+      catch: <T>(onrejected: (reason: any) => T | PromiseLike<T>) => execute().catch(onrejected),
       toString: (): string => query.toString(),
     } as Promise<number>
   }
 
+  private async chargePublicationFee(event: PaidEvent, client: DatabaseClient): Promise<void> {
+    const fee = event[EventPublicationFeeMetadataKey]
+    debug('charging %s for event %s: %s', event.pubkey, event.id, fee.amount.toString())
+
+    const { rows: [{ charged }] } = await client.raw(
+      'select charge_user(?, ?, ?, ?, ?, ?) as charged',
+      [
+        toBuffer(event.pubkey),
+        fee.assetCode,
+        fee.assetScale,
+        fee.amount.toString(),
+        LedgerEntryType.PUBLICATION_FEE,
+        event.id,
+      ],
+    )
+
+    if (charged !== 1) {
+      throw new InsufficientBalanceError(
+        fee,
+        `Unable to charge publication fee for event ${event.id}: insufficient balance`,
+      )
+    }
+  }
+
   public deleteByPubkeyAndIds(pubkey: string, eventIdsToDelete: EventId[]): Promise<number> {
     debug('deleting events from %s: %o', pubkey, eventIdsToDelete)
 
@@ -251,4 +384,71 @@ export class EventRepository implements IEventRepository {
         deleted_at: this.masterDbClient.raw('now()'),
       })
   }
+
+  /**
+   * Deletes every version of the parameterized replaceable events at the
+   * addresses created up to `until` (NIP-09)
+   */
+  public deleteByPubkeyAndAddresses(pubkey: string, addresses: EventAddress[], until: number): Promise<number> {
+    debug('deleting events from %s until %d: %o', pubkey, until, addresses)
+
+    return this.masterDbClient('events')
+      .where('event_pubkey', toBuffer(pubkey))
+      .andWhere((bd) => {
+        if (!addresses.length) {
+          bd.whereRaw('1 = 0')
+        }
+        addresses.forEach(({ kind, identifier }) => bd.orWhere((address) => address
+          .where('event_kind', kind)
+          .whereRaw('coalesce("event_deduplication"->>0, \'\') = ?', [identifier])
+        ))
+      })
+      .where('event_created_at', '<=', until)
+      .whereNull('deleted_at')
+      .update({
+        deleted_at: this.masterDbClient.raw('now()'),
+      })
+  }
+
+  /**
+   * Whether the author deleted the address with a deletion event created at
+   * or after `since`, so that older versions can't be published again
+   */
+  public async isAddressDeleted({ kind, pubkey, identifier }: EventAddress, since: number): Promise<boolean> {
+    const deletion = await this.masterDbClient('events')
+      .select('events.event_id')
+      .innerJoin('event_tags', 'events.event_id', 'event_tags.event_id')
+      .where('events.event_pubkey', toBuffer(pubkey))
+      .where('events.event_kind', EventKinds.DELETE)
+      .where('events.event_created_at', '>=', since)
+      .where('event_tags.tag_name', EventTags.Address)
+      .where('event_tags.tag_value', `${kind}:${pubkey}:${identifier}`)
+      .first()
+
+    return Boolean(deletion)
+  }
+
+  /**
+   * Hard-deletes up to `limit` events past their expiration (NIP-40) along
+   * with their tags
+   */
+  public async deleteExpiredEvents(limit: number): Promise<number> {
+    debug('deleting up to %d expired events', limit)
+
+    return this.masterDbClient.transaction(async (trx): Promise<number> => {
+      const expiredEventIds = (
+        await trx<DBEvent>('events')
+          .select('event_id')
+          .whereRaw('"expires_at" <= extract(epoch from now())::integer')
+          .limit(limit)
+      ).map(prop('event_id'))
+      if (!expiredEventIds.length) {
+        return 0
+      }
+
+      await trx('event_tags').whereIn('event_id', expiredEventIds).delete()
+
+      return trx('events').whereIn('event_id', expiredEventIds).delete()
+    })
+  }
 }
@@ -0,0 +1,92 @@
+import { always, applySpec, ifElse, isNil, pipe, prop, propSatisfies, toString } from 'ramda'
+
+import { DatabaseClient, Pubkey } from '../@types/base'
+import { DBInvite, Invite } from '../@types/invite'
+import { fromDBInvite, toBuffer } from '../utils/transform'
+import { createLogger } from '../factories/logger-factory'
+import { IInviteRepository } from '../@types/repositories'
+
+const debug = createLogger('invite-repository')
+
+export class InviteRepository implements IInviteRepository {
+  public constructor(private readonly dbClient: DatabaseClient) { }
+
+  public async findById(
+    id: string,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<Invite | undefined> {
+    debug('find by id: %s', id)
+    const [dbInvite] = await client<DBInvite>('invites')
+      .where('id', id)
+      .select()
+
+    if (!dbInvite) {
+      return
+    }
+
+    return fromDBInvite(dbInvite)
+  }
+
+  /**
+   * @returns 0 if the invite already exists
+   */
+  public create(
+    invite: Omit<Invite, 'uses' | 'updatedAt'>,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<number> {
+    debug('create: %o', invite)
+
+    const row = applySpec<DBInvite>({
+      id: prop('id'),
+      issuer: pipe(prop('issuer'), toBuffer),
+      invitee: ifElse(propSatisfies(isNil, 'invitee'), always(null), pipe(prop('invitee'), toBuffer)),
+      max_uses: prop('maxUses'),
+      amount: ifElse(propSatisfies(isNil, 'amount'), always(null), pipe(prop('amount'), toString)),
+      asset_code: prop('assetCode'),
+      asset_scale: prop('assetScale'),
+      expires_at: prop('expiresAt'),
+      updated_at: prop('createdAt'),
+      created_at: prop('createdAt'),
+    })(invite)
+
+    return client<DBInvite>('invites')
+      .insert(row)
+      .onConflict('id')
+      .ignore()
+      .then(prop('rowCount') as () => number)
+  }
+
+  public async countByIssuer(issuer: Pubkey, client: DatabaseClient = this.dbClient): Promise<number> {
+    debug('count by issuer: %s', issuer)
+
+    const [{ count }] = await client('invites')
+      .where('issuer', toBuffer(issuer))
+      .count('id as count')
+
+    return Number(count)
+  }
+
+  /**
+   * Uses up the invite for the pubkey and credits its amount unless the
+   * invite is used up, expired, meant for someone else or already redeemed
+   * by the pubkey
+   *
+   * @returns whether the invite was redeemed
+   */
+  public async redeem(
+    id: string,
+    pubkey: Pubkey,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<boolean> {
+    debug('redeem %s for %s', id, pubkey)
+
+    return client.transaction(async (trx) => {
+      const { rows: [{ redeemed }] } = await trx.raw(
+        'select redeem_invite(?, ?) as redeemed',
+        [id, toBuffer(pubkey)],
+      )
+
+      return redeemed === 1
+    }, { isolationLevel: 'serializable' })
+  }
+}
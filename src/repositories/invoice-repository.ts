@@ -4,18 +4,23 @@ import {
   head,
   ifElse,
   is,
+  isNil,
   map,
   omit,
+  path,
+  pathOr,
   pipe,
   prop,
+  propOr,
   propSatisfies,
   toString,
 } from 'ramda'
 
+import { DatabaseClient, Pubkey } from '../@types/base'
 import { DBInvoice, Invoice, InvoiceStatus } from '../@types/invoice'
 import { fromDBInvoice, toBuffer } from '../utils/transform'
+import { Asset } from '../@types/asset'
 import { createLogger } from '../factories/logger-factory'
-import { DatabaseClient } from '../@types/base'
 import { IInvoiceRepository } from '../@types/repositories'
 import { randomUUID } from 'crypto'
 
@@ -24,23 +29,29 @@ const debug = createLogger('invoice-repository')
 export class InvoiceRepository implements IInvoiceRepository {
   public constructor(private readonly dbClient: DatabaseClient) { }
 
+  /**
+   * @returns whether this call confirmed the invoice. Invoices are only
+   * confirmed and credited once.
+   */
   public async confirmInvoice(
     invoiceId: string,
     amountPaid: bigint,
     confirmedAt: Date,
     client: DatabaseClient = this.dbClient,
-  ): Promise<void> {
+  ): Promise<boolean> {
     debug('confirming invoice %s at %s: %s', invoiceId, confirmedAt, amountPaid)
 
     try {
-      await client.raw(
-        'select confirm_invoice(?, ?, ?)',
+      const { rows: [{ confirmed }] } = await client.raw(
+        'select confirm_invoice(?, ?, ?) as confirmed',
         [
           invoiceId,
           amountPaid.toString(),
           confirmedAt.toISOString(),
         ]
       )
+
+      return confirmed === 1
     } catch (error) {
       console.error('Unable to confirm invoice. Reason:', error.message)
 
@@ -70,6 +81,7 @@ export class InvoiceRepository implements IInvoiceRepository {
   ): Promise<Invoice[]> {
     const dbInvoices = await client<DBInvoice>('invoices')
       .where('status', InvoiceStatus.PENDING)
+      .orderBy([{ column: 'created_at' }, { column: 'id' }])
       .offset(offset)
       .limit(limit)
       .select()
@@ -77,6 +89,34 @@ export class InvoiceRepository implements IInvoiceRepository {
     return dbInvoices.map(fromDBInvoice)
   }
 
+  /**
+   * Latest pending invoice of the pubkey accepting any amount of the asset
+   * that is still payable after the given date
+   */
+  public async findPendingOpenAmountInvoice(
+    pubkey: Pubkey,
+    asset: Asset,
+    expiresAfter: Date,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<Invoice | undefined> {
+    const [dbInvoice] = await client<DBInvoice>('invoices')
+      .where('pubkey', toBuffer(pubkey))
+      .where('status', InvoiceStatus.PENDING)
+      .where('amount_requested', '0')
+      .where('asset_code', asset.assetCode)
+      .where('asset_scale', asset.assetScale)
+      .where('expires_at', '>', expiresAfter)
+      .orderBy('expires_at', 'desc')
+      .limit(1)
+      .select()
+
+    if (!dbInvoice) {
+      return
+    }
+
+    return fromDBInvoice(dbInvoice)
+  }
+
   public updateStatus(
     invoice: Invoice,
     client: DatabaseClient = this.dbClient,
@@ -89,6 +129,8 @@ export class InvoiceRepository implements IInvoiceRepository {
         updated_at: new Date(),
       })
       .where('id', invoice.id)
+      // Completed invoices are final, so only one update can ever complete one
+      .whereNot('status', InvoiceStatus.COMPLETED)
       .limit(1)
       .returning(['*'])
 
@@ -111,10 +153,11 @@ export class InvoiceRepository implements IInvoiceRepository {
     const row = applySpec<DBInvoice>({
       id: ifElse(propSatisfies(is(String), 'id'), prop('id'), always(randomUUID())),
       pubkey: pipe(prop('pubkey'), toBuffer),
-      bolt11: prop('bolt11'),
+      payment_request: propOr(null, 'paymentRequest'),
       amount_requested: pipe(prop('amountRequested'), toString),
       // amount_paid: ifElse(propSatisfies(is(BigInt), 'amountPaid'), pipe(prop('amountPaid'), toString), always(null)),
-      unit: prop('unit'),
+      asset_code: prop('assetCode'),
+      asset_scale: prop('assetScale'),
       status: prop('status'),
       description: prop('description'),
       // confirmed_at: prop('confirmedAt'),
@@ -122,6 +165,16 @@ export class InvoiceRepository implements IInvoiceRepository {
       updated_at: always(new Date()),
       created_at: prop('createdAt'),
       verify_url: prop('verifyURL'),
+      quote_amount: ifElse(
+        propSatisfies(isNil, 'quote'),
+        always(null),
+        pipe(path(['quote', 'baseAmount', 'amount']), toString),
+      ),
+      quote_asset_code: pathOr(null, ['quote', 'baseAmount', 'assetCode']),
+      quote_asset_scale: pathOr(null, ['quote', 'baseAmount', 'assetScale']),
+      quote_rate: pathOr(null, ['quote', 'rate']),
+      quote_slippage: pathOr(null, ['quote', 'slippage']),
+      admission_plan: propOr(null, 'admissionPlan'),
     })(invoice)
 
     debug('row: %o', row)
@@ -133,13 +186,20 @@ export class InvoiceRepository implements IInvoiceRepository {
         omit([
           'id',
           'pubkey',
-          'bolt11',
+          'payment_request',
           'amount_requested',
-          'unit',
+          'asset_code',
+          'asset_scale',
           'description',
           'expires_at',
           'created_at',
           'verify_url',
+          'quote_amount',
+          'quote_asset_code',
+          'quote_asset_scale',
+          'quote_rate',
+          'quote_slippage',
+          'admission_plan',
         ])(row)
       )
 
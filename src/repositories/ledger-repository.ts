@@ -0,0 +1,62 @@
+import { BalanceMismatch, DBLedgerEntry, LedgerAccount, LedgerEntry } from '../@types/ledger'
+import { DatabaseClient, Pubkey } from '../@types/base'
+import { fromBuffer, fromDBLedgerEntry, toBuffer } from '../utils/transform'
+import { createLogger } from '../factories/logger-factory'
+import { ILedgerRepository } from '../@types/repositories'
+
+const debug = createLogger('ledger-repository')
+
+export class LedgerRepository implements ILedgerRepository {
+  public constructor(private readonly dbClient: DatabaseClient) { }
+
+  /**
+   * Lists the entries on the pubkey's user account, oldest first
+   */
+  public async findByPubkey(
+    pubkey: Pubkey,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<LedgerEntry[]> {
+    debug('find by pubkey: %s', pubkey)
+    const dbEntries = await client<DBLedgerEntry>('ledger_entries')
+      .where('pubkey', toBuffer(pubkey))
+      .where('account', LedgerAccount.USER)
+      .orderBy('id', 'asc')
+      .select()
+
+    return dbEntries.map(fromDBLedgerEntry)
+  }
+
+  /**
+   * Lists balances that differ from the sum of their ledger entries
+   */
+  public async findBalanceMismatches(
+    client: DatabaseClient = this.dbClient,
+  ): Promise<BalanceMismatch[]> {
+    debug('find balance mismatches')
+    const { rows } = await client.raw(
+      `select
+        coalesce(b.pubkey, l.pubkey) as pubkey,
+        coalesce(b.asset_code, l.asset_code) as asset_code,
+        coalesce(b.asset_scale, l.asset_scale) as asset_scale,
+        coalesce(b.amount, 0) as balance,
+        coalesce(l.amount, 0) as ledger_balance
+      from balances b
+      full outer join (
+        select pubkey, asset_code, max(asset_scale) as asset_scale, sum(amount) as amount
+        from ledger_entries
+        where account = ?
+        group by pubkey, asset_code
+      ) l on l.pubkey = b.pubkey and l.asset_code = b.asset_code
+      where coalesce(b.amount, 0) <> coalesce(l.amount, 0)`,
+      [LedgerAccount.USER],
+    )
+
+    return rows.map((row) => ({
+      pubkey: fromBuffer(row.pubkey),
+      assetCode: row.asset_code,
+      assetScale: row.asset_scale,
+      balance: BigInt(row.balance),
+      ledgerBalance: BigInt(row.ledger_balance),
+    }))
+  }
+}
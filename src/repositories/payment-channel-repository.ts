@@ -0,0 +1,96 @@
+import { always, applySpec, omit, pipe, prop, toString } from 'ramda'
+
+import { DBPaymentChannel, PaymentChannel } from '../@types/payment-channel'
+import { fromDBPaymentChannel, toBuffer } from '../utils/transform'
+import { createLogger } from '../factories/logger-factory'
+import { DatabaseClient } from '../@types/base'
+import { IPaymentChannelRepository } from '../@types/repositories'
+
+const debug = createLogger('payment-channel-repository')
+
+export class PaymentChannelRepository implements IPaymentChannelRepository {
+  public constructor(private readonly dbClient: DatabaseClient) { }
+
+  public async findById(
+    id: string,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<PaymentChannel | undefined> {
+    debug('find by id: %s', id)
+    const [dbChannel] = await client<DBPaymentChannel>('payment_channels')
+      .where('id', id)
+      .select()
+
+    if (!dbChannel) {
+      return
+    }
+
+    return fromDBPaymentChannel(dbChannel)
+  }
+
+  public upsert(
+    channel: PaymentChannel,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<number> {
+    debug('upsert: %o', channel)
+
+    const date = new Date()
+
+    const row = applySpec<DBPaymentChannel>({
+      id: prop('id'),
+      chain: prop('chain'),
+      pubkey: pipe(prop('pubkey'), toBuffer),
+      sender_key: prop('senderKey'),
+      asset_code: prop('assetCode'),
+      asset_scale: prop('assetScale'),
+      capacity: pipe(prop('capacity'), toString),
+      expires_at: prop('expiresAt'),
+      updated_at: always(date),
+      created_at: always(date),
+    })(channel)
+
+    // Claimed amounts only ever move forward through claim_payment_channel()
+    const query = client<DBPaymentChannel>('payment_channels')
+      .insert(row)
+      .onConflict('id')
+      .merge(
+        omit([
+          'id',
+          'chain',
+          'pubkey',
+          'sender_key',
+          'asset_code',
+          'asset_scale',
+          'created_at',
+        ])(row)
+      )
+
+    return {
+      then: <T1, T2>(
+        onfulfilled: (value: number) => T1 | PromiseLike<T1>,
+        onrejected: (reason: any) => T2 | PromiseLike<T2>,
+      ) => query.then(prop('rowCount') as () => number).then(onfulfilled, onrejected),
+      catch: <T>(onrejected: (reason: any) => T | PromiseLike<T>) => query.catch(onrejected),
+      toString: (): string => query.toString(),
+    } as Promise<number>
+  }
+
+  public async claim(
+    channelId: string,
+    amount: bigint,
+    signature: string,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<bigint> {
+    debug('claiming %s on channel %s', amount, channelId)
+
+    const { rows: [{ increase }] } = await client.raw(
+      'select claim_payment_channel(?, ?, ?) as increase',
+      [
+        channelId,
+        amount.toString(),
+        signature,
+      ],
+    )
+
+    return BigInt(increase)
+  }
+}
@@ -1,10 +1,13 @@
 import { always, applySpec, omit, pipe, prop } from 'ramda'
 
-import { DatabaseClient, Pubkey } from '../@types/base'
-import { DBUser, User } from '../@types/user'
+import { Asset, AssetAmount } from '../@types/asset'
+import { DatabaseClient, EventId, Pubkey } from '../@types/base'
+import { DBBalance, DBUser, User } from '../@types/user'
 import { fromDBUser, toBuffer } from '../utils/transform'
 import { createLogger } from '../factories/logger-factory'
 import { IUserRepository } from '../@types/repositories'
+import { LedgerCharge } from '../@types/ledger'
+import { rescaleAmount } from '../utils/asset'
 
 const debug = createLogger('user-repository')
 
@@ -38,6 +41,7 @@ export class UserRepository implements IUserRepository {
     const row = applySpec<DBUser>({
       pubkey: pipe(prop('pubkey'), toBuffer),
       is_admitted: prop('isAdmitted'),
+      admitted_until: prop('admittedUntil'),
       tos_accepted_at: prop('tosAcceptedAt'),
       updated_at: always(date),
       created_at: always(date),
@@ -49,7 +53,6 @@ export class UserRepository implements IUserRepository {
       .merge(
         omit([
           'pubkey',
-          'balance',
           'created_at',
         ])(row)
       )
@@ -63,19 +66,86 @@ export class UserRepository implements IUserRepository {
 
   public async getBalanceByPubkey(
     pubkey: Pubkey,
+    asset: Asset,
     client: DatabaseClient = this.dbClient
   ): Promise<bigint> {
-    debug('get balance for pubkey: %s', pubkey)
+    debug('get %s balance for pubkey: %s', asset.assetCode, pubkey)
 
-    const [user] = await client<DBUser>('users')
-      .select('balance')
+    const [balance] = await client<DBBalance>('balances')
+      .select('amount', 'asset_scale')
       .where('pubkey', toBuffer(pubkey))
+      .where('asset_code', asset.assetCode)
       .limit(1)
 
-    if (!user) {
+    if (!balance) {
       return 0n
     }
 
-    return BigInt(user.balance)
+    return rescaleAmount(BigInt(balance.amount), balance.asset_scale, asset.assetScale)
+  }
+
+  /**
+   * Debits the pubkey's balance unless it is lower than the amount
+   *
+   * @returns whether the balance was charged
+   */
+  public async chargeBalance(
+    pubkey: Pubkey,
+    amount: AssetAmount,
+    charge: LedgerCharge,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<boolean> {
+    debug('charge %s %s to pubkey %s for %s', amount.amount.toString(), amount.assetCode, pubkey, charge.type)
+
+    return client.transaction(async (trx) => {
+      const { rows: [{ charged }] } = await trx.raw(
+        'select charge_user(?, ?, ?, ?, ?, ?) as charged',
+        [
+          toBuffer(pubkey),
+          amount.assetCode,
+          amount.assetScale,
+          amount.amount.toString(),
+          charge.type,
+          charge.reference ?? null,
+        ],
+      )
+
+      return charged === 1
+    }, { isolationLevel: 'serializable' })
+  }
+
+  /**
+   * Adds the work behind the event to the pubkey's accumulated proof of work,
+   * admitting the pubkey once it reaches the admission difficulty and
+   * crediting its balance.
+   *
+   * @returns whether the work was added. Work is only added once per event.
+   */
+  public async addProofOfWork(
+    pubkey: Pubkey,
+    eventId: EventId,
+    difficulty: number,
+    admissionDifficulty: number | undefined,
+    credit: AssetAmount,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<boolean> {
+    debug('add proof of work of difficulty %d from event %s to pubkey %s', difficulty, eventId, pubkey)
+
+    return client.transaction(async (trx) => {
+      const { rows: [{ added }] } = await trx.raw(
+        'select add_proof_of_work(?, ?, ?, ?, ?, ?, ?) as added',
+        [
+          toBuffer(pubkey),
+          eventId,
+          difficulty,
+          admissionDifficulty ?? null,
+          credit.assetCode,
+          credit.assetScale,
+          credit.amount.toString(),
+        ],
+      )
+
+      return added === 1
+    }, { isolationLevel: 'serializable' })
   }
 }
@@ -0,0 +1,101 @@
+import { DatabaseClient, Pubkey } from '../@types/base'
+import { DBWithdrawal, Withdrawal } from '../@types/withdrawal'
+import { fromDBWithdrawal, toBuffer } from '../utils/transform'
+import { Asset } from '../@types/asset'
+import { createLogger } from '../factories/logger-factory'
+import { IWithdrawalRepository } from '../@types/repositories'
+import { rescaleAmount } from '../utils/asset'
+
+const debug = createLogger('withdrawal-repository')
+
+export class WithdrawalRepository implements IWithdrawalRepository {
+  public constructor(private readonly dbClient: DatabaseClient) { }
+
+  public async findById(
+    id: string,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<Withdrawal | undefined> {
+    debug('find by id: %s', id)
+    const [dbWithdrawal] = await client<DBWithdrawal>('withdrawals')
+      .where('id', id)
+      .select()
+
+    if (!dbWithdrawal) {
+      return
+    }
+
+    return fromDBWithdrawal(dbWithdrawal)
+  }
+
+  /**
+   * Part of the pubkey's balance that was paid in. Credit from vouchers and
+   * proof of work can be spent on the relay but not withdrawn.
+   */
+  public async getWithdrawableBalance(
+    pubkey: Pubkey,
+    asset: Asset,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<bigint> {
+    debug('get withdrawable %s balance for pubkey: %s', asset.assetCode, pubkey)
+
+    const { rows: [balance] } = await client.raw(
+      'select get_withdrawable_balance("pubkey", "asset_code") as withdrawable, "asset_scale" from "balances" '
+        + 'where "pubkey" = ? and "asset_code" = ?',
+      [toBuffer(pubkey), asset.assetCode],
+    )
+
+    if (!balance) {
+      return 0n
+    }
+
+    return rescaleAmount(BigInt(balance.withdrawable), balance.asset_scale, asset.assetScale)
+  }
+
+  /**
+   * Debits the amount from the pubkey's balance and records a pending
+   * withdrawal unless the withdrawable balance is lower or the withdrawal exists
+   *
+   * @returns whether the withdrawal was recorded
+   */
+  public async request(
+    withdrawal: Pick<Withdrawal, 'id' | 'pubkey' | 'paymentPointer' | 'assetCode' | 'assetScale' | 'amount'>,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<boolean> {
+    debug('request withdrawal %s: %o', withdrawal.id, withdrawal)
+
+    return client.transaction(async (trx) => {
+      const { rows: [{ requested }] } = await trx.raw(
+        'select request_withdrawal(?, ?, ?, ?, ?, ?) as requested',
+        [
+          withdrawal.id,
+          toBuffer(withdrawal.pubkey),
+          withdrawal.paymentPointer,
+          withdrawal.assetCode,
+          withdrawal.assetScale,
+          withdrawal.amount.toString(),
+        ],
+      )
+
+      return requested === 1
+    }, { isolationLevel: 'serializable' })
+  }
+
+  /**
+   * Records what the outgoing payment sent and refunds the rest
+   */
+  public async complete(
+    id: string,
+    amountSent: bigint,
+    paymentId: string | null,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<void> {
+    debug('complete withdrawal %s: %s sent', id, amountSent.toString())
+
+    await client.transaction(async (trx) => {
+      await trx.raw(
+        'select complete_withdrawal(?, ?, ?)',
+        [id, amountSent.toString(), paymentId],
+      )
+    }, { isolationLevel: 'serializable' })
+  }
+}
@@ -0,0 +1,13 @@
+import { json, Router } from 'express'
+
+import { createGetLedgerExportController } from '../../factories/controllers/get-ledger-export-controller-factory'
+import { createPutPaymentChannelController } from '../../factories/controllers/put-payment-channel-controller-factory'
+import { withController } from '../../handlers/request-handlers/with-controller-request-handler'
+
+const adminRouter = Router()
+
+adminRouter
+  .get('/ledger/:pubkey', withController(createGetLedgerExportController))
+  .put('/payment-channels/:channelId', json(), withController(createPutPaymentChannelController))
+
+export default adminRouter
@@ -1,12 +1,18 @@
 import express from 'express'
 
 import { nodeinfo21Handler, nodeinfoHandler } from '../handlers/request-handlers/nodeinfo-handler'
+import adminRouter from './admin'
 import admissionRouter from './admissions'
 import { getHealthRequestHandler } from '../handlers/request-handlers/get-health-request-handler'
 import { getTermsRequestHandler } from '../handlers/request-handlers/get-terms-request-handler'
+import inviteRouter from './invites'
 import invoiceRouter from './invoices'
+import monetizationRouter from './monetization'
+import paymentChannelRouter from './payment-channels'
+import payRouter from './pay'
 import { rateLimiterMiddleware } from '../handlers/request-handlers/rate-limiter-middleware'
 import { rootRequestHandler } from '../handlers/request-handlers/root-request-handler'
+import withdrawalRouter from './withdrawals'
 
 const router = express.Router()
 
@@ -20,6 +26,12 @@ router.get('/nodeinfo/2.0', nodeinfo21Handler)
 
 router.use('/invoices', rateLimiterMiddleware, invoiceRouter)
 router.use('/admissions', rateLimiterMiddleware, admissionRouter)
+router.use('/invites', rateLimiterMiddleware, inviteRouter)
+router.use('/pay', rateLimiterMiddleware, payRouter)
+router.use('/withdrawals', rateLimiterMiddleware, withdrawalRouter)
+router.use('/monetization', rateLimiterMiddleware, monetizationRouter)
+router.use('/payment-channels', rateLimiterMiddleware, paymentChannelRouter)
+router.use('/admin', rateLimiterMiddleware, adminRouter)
 // Callbacks route removed - payment processor webhooks no longer needed
 
 export default router
@@ -0,0 +1,17 @@
+import { json, Router } from 'express'
+
+import {
+  createPostInviteRedemptionController,
+} from '../../factories/controllers/post-invite-redemption-controller-factory'
+import { withController } from '../../handlers/request-handlers/with-controller-request-handler'
+
+const inviteRouter = Router()
+
+inviteRouter
+  .post(
+    '/:inviteId/redemptions',
+    json(),
+    withController(createPostInviteRedemptionController),
+  )
+
+export default inviteRouter
@@ -0,0 +1,23 @@
+import { json, Router, urlencoded } from 'express'
+
+import {
+  createGetWebMonetizationSpspController,
+} from '../../factories/controllers/get-web-monetization-spsp-controller-factory'
+import {
+  createPostWebMonetizationSessionController,
+} from '../../factories/controllers/post-web-monetization-session-controller-factory'
+import { withController } from '../../handlers/request-handlers/with-controller-request-handler'
+
+const monetizationRouter = Router()
+
+monetizationRouter
+  .get('/', withController(createGetWebMonetizationSpspController))
+  .post(
+    '/sessions',
+    urlencoded({ extended: true }),
+    json(),
+    withController(createPostWebMonetizationSessionController),
+  )
+  .get('/sessions/:sessionId', withController(createGetWebMonetizationSpspController))
+
+export default monetizationRouter
@@ -0,0 +1,10 @@
+import { createGetSpspController } from '../../factories/controllers/get-spsp-controller-factory'
+import { Router } from 'express'
+import { withController } from '../../handlers/request-handlers/with-controller-request-handler'
+
+const payRouter = Router()
+
+payRouter
+  .get('/:pubkey', withController(createGetSpspController))
+
+export default payRouter
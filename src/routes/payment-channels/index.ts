@@ -0,0 +1,13 @@
+import { json, Router } from 'express'
+
+import {
+  createPostPaymentChannelClaimController,
+} from '../../factories/controllers/post-payment-channel-claim-controller-factory'
+import { withController } from '../../handlers/request-handlers/with-controller-request-handler'
+
+const paymentChannelRouter = Router()
+
+paymentChannelRouter
+  .post('/:channelId/claims', json(), withController(createPostPaymentChannelClaimController))
+
+export default paymentChannelRouter
@@ -0,0 +1,11 @@
+import { json, Router } from 'express'
+
+import { createPostWithdrawalController } from '../../factories/controllers/post-withdrawal-controller-factory'
+import { withController } from '../../handlers/request-handlers/with-controller-request-handler'
+
+const withdrawalRouter = Router()
+
+withdrawalRouter
+  .post('/', json(), withController(createPostWithdrawalController))
+
+export default withdrawalRouter
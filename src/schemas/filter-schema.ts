@@ -9,4 +9,5 @@ export const filterSchema = Schema.object({
   since: createdAtSchema,
   until: createdAtSchema,
   limit: Schema.number().min(0).multiple(1),
+  search: Schema.string().max(256),
 }).pattern(/^#[a-z]$/, Schema.array().items(Schema.string().max(1024)))
@@ -7,3 +7,20 @@ export const generateInvoiceSchema = Schema.object({
   pubkey: pubkeySchema.required(),
   tosAccepted: Schema.valid('yes').required(),
 }).unknown(false)
+
+const amountSchema = Schema.string().pattern(/^[1-9][0-9]{0,18}$/)
+
+export const registerPaymentChannelSchema = Schema.object({
+  chain: Schema.string().min(1).required(),
+  pubkey: pubkeySchema.required(),
+  senderKey: Schema.string().min(1).max(256).required(),
+  assetCode: Schema.string().min(1).max(16).required(),
+  assetScale: Schema.number().integer().min(0).max(255).required(),
+  capacity: amountSchema.label('capacity').required(),
+  expiresAt: Schema.string().isoDate().allow(null),
+}).unknown(false)
+
+export const paymentChannelClaimSchema = Schema.object({
+  amount: amountSchema.label('amount').required(),
+  signature: Schema.string().min(1).max(1024).required(),
+}).unknown(false)
@@ -16,11 +16,22 @@ export const reqMessageSchema = Schema.array()
   .items(filterSchema.required().label('filter')).max(12)
   .label('REQ message')
 
+export const countMessageSchema = Schema.array()
+  .ordered(Schema.string().valid('COUNT').required(), Schema.string().max(256).required().label('subscriptionId'))
+  .items(filterSchema.required().label('filter')).max(12)
+  .label('COUNT message')
+
 export const closeMessageSchema = Schema.array().ordered(
   Schema.string().valid('CLOSE').required(),
   subscriptionSchema.required().label('subscriptionId'),
 ).label('CLOSE message')
 
+export const authMessageSchema = Schema.array().ordered(
+  Schema.string().valid('AUTH').required(),
+  eventSchema.required(),
+)
+  .label('AUTH message')
+
 export const messageSchema = Schema.alternatives()
   .conditional(Schema.ref('.'), {
     switch: [
@@ -36,5 +47,13 @@ export const messageSchema = Schema.alternatives()
         is: Schema.array().ordered(Schema.string().equal(MessageType.CLOSE)).items(Schema.any()),
         then: closeMessageSchema,
       },
+      {
+        is: Schema.array().ordered(Schema.string().equal(MessageType.AUTH)).items(Schema.any()),
+        then: authMessageSchema,
+      },
+      {
+        is: Schema.array().ordered(Schema.string().equal(MessageType.COUNT)).items(Schema.any()),
+        then: countMessageSchema,
+      },
     ],
   })
@@ -0,0 +1,10 @@
+import Schema from 'joi'
+
+export const ilpStreamSettingsSchema = Schema.object({
+  invoiceExpiry: Schema.number().integer().min(1),
+  paymentTimeout: Schema.number().positive(),
+}).label('ilpStream')
+
+export const ilpConnectorSettingsSchema = Schema.object({
+  invoiceExpiry: Schema.number().integer().min(1),
+}).label('ilpConnector')
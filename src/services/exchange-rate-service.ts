@@ -0,0 +1,76 @@
+import { convertAmount, getBaseAsset, parseDecimal, rescaleAmount } from '../utils/asset'
+import { ExchangeRateTable, IExchangeRateService, IExchangeRateSource, Quote } from '../@types/exchange-rate'
+import { Asset } from '../@types/asset'
+import { createLogger } from '../factories/logger-factory'
+import { Settings } from '../@types/settings'
+
+const debug = createLogger('exchange-rate-service')
+
+const DEFAULT_CACHE_TTL = 60
+
+export class ExchangeRateService implements IExchangeRateService {
+  private cache: { rates: ExchangeRateTable, fetchedAt: number } | undefined
+
+  public constructor(
+    private readonly source: IExchangeRateSource,
+    private readonly settings: () => Settings,
+  ) {}
+
+  /**
+   * Quotes an amount in the relay's base asset in the given asset, rounding
+   * up and adding the configured slippage margin so the relay is never underpaid.
+   */
+  public async quote(amount: bigint, asset: Asset): Promise<Quote> {
+    const currentSettings = this.settings()
+    const baseAsset = getBaseAsset(currentSettings)
+    const baseAmount = { ...baseAsset, amount }
+
+    if (asset.assetCode === baseAsset.assetCode) {
+      return {
+        amount: { ...asset, amount: rescaleAmount(amount, baseAsset.assetScale, asset.assetScale, true) },
+        baseAmount,
+        rate: '1',
+        slippage: 0,
+      }
+    }
+
+    const rates = await this.getRates(currentSettings)
+    const rate = rates[asset.assetCode]
+    if (typeof rate !== 'string') {
+      throw new Error(`No exchange rate for ${asset.assetCode}`)
+    }
+
+    const slippage = currentSettings.payments?.exchangeRates?.slippage ?? 0
+    const [slippageNumerator, slippageDenominator] = parseDecimal(slippage)
+    const convertedAmount = convertAmount(
+      amount * (slippageDenominator + slippageNumerator),
+      baseAsset,
+      asset,
+      rate,
+      true,
+    )
+    // ceil(ceil(x) / n) = ceil(x / n) so rounding twice never overcharges
+    const quotedAmount = (convertedAmount + slippageDenominator - 1n) / slippageDenominator
+
+    debug('quoted %s %s as %s %s at %s', amount, baseAsset.assetCode, quotedAmount, asset.assetCode, rate)
+
+    return {
+      amount: { ...asset, amount: quotedAmount },
+      baseAmount,
+      rate,
+      slippage,
+    }
+  }
+
+  private async getRates(settings: Settings): Promise<ExchangeRateTable> {
+    const cacheTtl = settings.payments?.exchangeRates?.cacheTtl ?? DEFAULT_CACHE_TTL
+    if (this.cache && Date.now() - this.cache.fetchedAt < cacheTtl * 1000) {
+      return this.cache.rates
+    }
+
+    const rates = await this.source.getRates()
+    this.cache = { rates, fetchedAt: Date.now() }
+
+    return rates
+  }
+}
@@ -0,0 +1,87 @@
+import { DatabaseClient, Pubkey } from '../@types/base'
+import { extendAdmittedUntil, isAdmissionActive, isRelayOperator } from '../utils/admission'
+import { IInviteRepository, IUserRepository } from '../@types/repositories'
+import { createLogger } from '../factories/logger-factory'
+import { IInviteService } from '../@types/services'
+import { Settings } from '../@types/settings'
+import { Transaction } from '../database/transaction'
+
+const debug = createLogger('invite-service')
+
+export class InviteService implements IInviteService {
+  public constructor(
+    private readonly dbClient: DatabaseClient,
+    private readonly inviteRepository: IInviteRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly settings: () => Settings,
+  ) {}
+
+  /**
+   * Admits the pubkey, or credits it with the amount of a voucher, without
+   * a payment. Invited pubkeys are admitted for as long as the issuer is,
+   * unless the issuer is the relay operator.
+   *
+   * @returns the reason the invite can't be redeemed
+   */
+  public async redeemInvite(code: string, pubkey: Pubkey): Promise<string | undefined> {
+    debug('redeem invite %s for %s', code, pubkey)
+    const invite = await this.inviteRepository.findById(code)
+    if (!invite) {
+      return 'invite not found'
+    }
+
+    if (invite.expiresAt && invite.expiresAt.getTime() <= Date.now()) {
+      return 'invite expired'
+    }
+
+    if (invite.invitee && invite.invitee !== pubkey) {
+      return 'invite is for another pubkey'
+    }
+
+    if (invite.uses >= invite.maxUses) {
+      return 'invite used up'
+    }
+
+    const transaction = new Transaction(this.dbClient)
+
+    try {
+      await transaction.begin()
+
+      let admittedUntil: Date | null = null
+      if (invite.amount === null && !isRelayOperator(this.settings(), invite.issuer)) {
+        const issuer = await this.userRepository.findByPubkey(invite.issuer, transaction.transaction)
+        if (!isAdmissionActive(issuer)) {
+          await transaction.rollback()
+
+          return 'invite issuer is no longer admitted'
+        }
+        admittedUntil = issuer.admittedUntil
+      }
+
+      await this.userRepository.upsert({ pubkey }, transaction.transaction)
+
+      // Uses are checked again under lock in case of concurrent redemptions
+      const redeemed = await this.inviteRepository.redeem(code, pubkey, transaction.transaction)
+      if (!redeemed) {
+        await transaction.rollback()
+
+        return 'invite already redeemed'
+      }
+
+      if (invite.amount === null) {
+        const user = await this.userRepository.findByPubkey(pubkey, transaction.transaction)
+        await this.userRepository.upsert(
+          { pubkey, isAdmitted: true, admittedUntil: extendAdmittedUntil(user, admittedUntil) },
+          transaction.transaction,
+        )
+      }
+
+      await transaction.commit()
+    } catch (error) {
+      await transaction.rollback()
+      console.error('Unable to redeem invite. Reason:', error)
+
+      throw error
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { IClaimVerifier, PaymentChannel, PaymentChannelClaim } from '../@types/payment-channel'
+import { IPaymentChannelRepository, IUserRepository } from '../@types/repositories'
+import { createLogger } from '../factories/logger-factory'
+import { DatabaseClient } from '../@types/base'
+import { InvalidPaymentChannelClaimError } from '../errors/invalid-payment-channel-claim-error'
+import { IPaymentChannelService } from '../@types/services'
+import { Transaction } from '../database/transaction'
+
+const debug = createLogger('payment-channel-service')
+
+/**
+ * Accepts signed payment channel claims without talking to any chain. Each
+ * chain plugs in through an IClaimVerifier keyed by the channel's chain name.
+ */
+export class PaymentChannelService implements IPaymentChannelService {
+  public constructor(
+    private readonly dbClient: DatabaseClient,
+    private readonly userRepository: IUserRepository,
+    private readonly paymentChannelRepository: IPaymentChannelRepository,
+    private readonly claimVerifiers: Record<string, IClaimVerifier>,
+  ) {}
+
+  public async registerChannel(
+    channel: Omit<PaymentChannel, 'claimedAmount' | 'lastSignature' | 'createdAt' | 'updatedAt'>,
+  ): Promise<void> {
+    debug('register channel %s on %s for %s', channel.id, channel.chain, channel.pubkey)
+    if (!this.claimVerifiers[channel.chain]) {
+      throw new InvalidPaymentChannelClaimError(`Unsupported payment channel chain: ${channel.chain}`)
+    }
+
+    const transaction = new Transaction(this.dbClient)
+
+    try {
+      await transaction.begin()
+
+      await this.userRepository.upsert({ pubkey: channel.pubkey }, transaction.transaction)
+      await this.paymentChannelRepository.upsert(channel, transaction.transaction)
+
+      await transaction.commit()
+    } catch (error) {
+      await transaction.rollback()
+      console.error('Unable to register payment channel:', error)
+
+      throw error
+    }
+  }
+
+  /**
+   * Verifies a claim and credits the channel owner with the increase over the
+   * last accepted claim.
+   *
+   * @returns Amount credited in units of the channel asset scale
+   */
+  public async submitClaim(claim: PaymentChannelClaim): Promise<bigint> {
+    debug('submit claim for %s on channel %s', claim.amount, claim.channelId)
+    const channel = await this.paymentChannelRepository.findById(claim.channelId)
+    if (!channel) {
+      throw new InvalidPaymentChannelClaimError(`Unknown payment channel: ${claim.channelId}`)
+    }
+
+    const claimVerifier = this.claimVerifiers[channel.chain]
+    if (!claimVerifier) {
+      throw new InvalidPaymentChannelClaimError(`Unsupported payment channel chain: ${channel.chain}`)
+    }
+
+    if (channel.expiresAt && channel.expiresAt.getTime() <= Date.now()) {
+      throw new InvalidPaymentChannelClaimError(`Payment channel expired: ${channel.id}`)
+    }
+
+    if (claim.amount <= channel.claimedAmount) {
+      throw new InvalidPaymentChannelClaimError(`Claim amount must exceed last claim of ${channel.claimedAmount}`)
+    }
+
+    if (claim.amount > channel.capacity) {
+      throw new InvalidPaymentChannelClaimError(`Claim amount exceeds channel capacity of ${channel.capacity}`)
+    }
+
+    if (!claimVerifier.verifySignature(channel, claim)) {
+      throw new InvalidPaymentChannelClaimError('Invalid claim signature')
+    }
+
+    const transaction = new Transaction(this.dbClient)
+
+    try {
+      await transaction.begin()
+
+      const increase = await this.paymentChannelRepository.claim(
+        channel.id,
+        claim.amount,
+        claim.signature,
+        transaction.transaction,
+      )
+      // A concurrent claim may have moved the channel past this amount
+      if (increase <= 0n) {
+        throw new InvalidPaymentChannelClaimError(`Claim amount must exceed last claim on channel ${channel.id}`)
+      }
+
+      await transaction.commit()
+
+      return increase
+    } catch (error) {
+      await transaction.rollback()
+      console.error('Unable to submit payment channel claim:', error)
+
+      throw error
+    }
+  }
+}
@@ -1,19 +1,95 @@
-import { andThen, otherwise, pipe } from 'ramda'
+import { andThen, mergeDeepLeft, otherwise, pipe } from 'ramda'
+import { Asset, AssetAmount } from '../@types/asset'
 import { broadcastEvent, getPublicKey, getRelayPrivateKey, identifyEvent, signEvent } from '../utils/event'
-import { DatabaseClient, Pubkey } from '../@types/base'
+import { DatabaseClient, Pubkey, Tag } from '../@types/base'
 import { FeeSchedule, Settings } from '../@types/settings'
-import { IEventRepository, IInvoiceRepository, IUserRepository } from '../@types/repositories'
-import { Invoice, InvoiceStatus, InvoiceUnit } from '../@types/invoice'
+import { formatAmount, getBaseAsset, rescaleAmount } from '../utils/asset'
+import {
+  IEventRepository,
+  IInvoiceRepository,
+  IUserRepository,
+  IWithdrawalRepository,
+} from '../@types/repositories'
+import { Invoice, InvoiceStatus, PaymentRequest, PaymentRequestType } from '../@types/invoice'
 
 import { Event, ExpiringEvent, UnidentifiedEvent } from '../@types/event'
 import { EventExpirationTimeMetadataKey, EventKinds, EventTags } from '../constants/base'
+import { getAdmittedUntil, isAdmissionActive } from '../utils/admission'
+import { GetInvoiceResponse, IPaymentsProcessor, SendPaymentResponse } from '../@types/clients'
+import { Withdrawal, WithdrawalRequest } from '../@types/withdrawal'
 import { createLogger } from '../factories/logger-factory'
-import { IPaymentsProcessor } from '../@types/clients'
+import { IExchangeRateService } from '../@types/exchange-rate'
 import { IPaymentsService } from '../@types/services'
+import { LedgerEntryType } from '../@types/ledger'
+import { PaymentsProcessorEvent } from '../constants/payments'
 import { Transaction } from '../database/transaction'
 
 const debug = createLogger('payments-service')
 
+/**
+ * Least number of seconds a reused top-up invoice must still accept payments for
+ */
+const TOP_UP_INVOICE_MIN_LIFETIME = 5 * 60
+
+/**
+ * Quoted invoices pay for the quoted base amount, pro rata if underpaid
+ */
+const getBaseAmountPaid = (invoice: Invoice, baseAsset: Asset): bigint => {
+  if (invoice.quote) {
+    const { baseAmount } = invoice.quote
+    if (baseAmount.assetCode !== baseAsset.assetCode || invoice.amountRequested <= 0n) {
+      return 0n
+    }
+
+    const amountPaid = invoice.amountPaid < invoice.amountRequested ? invoice.amountPaid : invoice.amountRequested
+
+    return rescaleAmount(
+      baseAmount.amount * amountPaid / invoice.amountRequested,
+      baseAmount.assetScale,
+      baseAsset.assetScale,
+    )
+  }
+
+  return invoice.assetCode === baseAsset.assetCode
+    ? rescaleAmount(invoice.amountPaid, invoice.assetScale, baseAsset.assetScale)
+    : 0n
+}
+
+/**
+ * Admission fees are debited from the balance the invoice credited, which
+ * is in the quoted asset for quoted invoices
+ */
+const getAdmissionCharge = (invoice: Invoice, baseAsset: Asset, fee: bigint): AssetAmount => {
+  if (invoice.quote && invoice.quote.baseAmount.amount > 0n) {
+    const { baseAmount } = invoice.quote
+    const scaledFee = rescaleAmount(fee, baseAsset.assetScale, baseAmount.assetScale, true)
+
+    return {
+      assetCode: invoice.assetCode,
+      assetScale: invoice.assetScale,
+      amount: (scaledFee * invoice.amountRequested + baseAmount.amount - 1n) / baseAmount.amount,
+    }
+  }
+
+  return { ...baseAsset, amount: fee }
+}
+
+/**
+ * Describes how the invoice was paid without revealing STREAM shared secrets
+ */
+const toPaymentRequestTags = (paymentRequest: PaymentRequest | null): Tag[] => {
+  switch (paymentRequest?.type) {
+    case PaymentRequestType.STREAM:
+      return [[EventTags.DestinationAccount, paymentRequest.destinationAccount]]
+    case PaymentRequestType.PAYMENT_POINTER:
+      return [[EventTags.PaymentPointer, paymentRequest.paymentPointer]]
+    case PaymentRequestType.PAYMENT_CHANNEL:
+      return [[EventTags.PaymentChannel, paymentRequest.chain, paymentRequest.destination]]
+    default:
+      return []
+  }
+}
+
 export class PaymentsService implements IPaymentsService {
   public constructor(
     private readonly dbClient: DatabaseClient,
@@ -21,13 +97,15 @@ export class PaymentsService implements IPaymentsService {
     private readonly userRepository: IUserRepository,
     private readonly invoiceRepository: IInvoiceRepository,
     private readonly eventRepository: IEventRepository,
+    private readonly withdrawalRepository: IWithdrawalRepository,
+    private readonly exchangeRateService: IExchangeRateService,
     private readonly settings: () => Settings
   ) {}
 
-  public async getPendingInvoices(): Promise<Invoice[]> {
-    debug('get pending invoices')
+  public async getPendingInvoices(offset = 0, limit = 10): Promise<Invoice[]> {
+    debug('get pending invoices (offset: %d, limit: %d)', offset, limit)
     try {
-      return await this.invoiceRepository.findPendingInvoices(0, 10)
+      return await this.invoiceRepository.findPendingInvoices(offset, limit)
     } catch (error) {
       console.log('Unable to get pending invoices.', error)
 
@@ -47,22 +125,94 @@ export class PaymentsService implements IPaymentsService {
     }
   }
 
+  /**
+   * Confirms invoices as soon as the payments processor reports their payment.
+   *
+   * @returns a function that stops watching
+   */
+  public watchPayments(): () => void {
+    const onPaymentReceived = async (updatedInvoice: GetInvoiceResponse) => {
+      debug('payment received for invoice %s: %o', updatedInvoice.id, updatedInvoice)
+      try {
+        const invoice = await this.invoiceRepository.findById(updatedInvoice.id)
+        if (!invoice) {
+          throw new Error(`Invoice not found: ${updatedInvoice.id}`)
+        }
+
+        await this.processInvoiceUpdate(invoice, updatedInvoice)
+      } catch (error) {
+        console.error('Unable to confirm received payment. Reason:', error)
+      }
+    }
+
+    this.paymentsProcessor.on(PaymentsProcessorEvent.PaymentReceived, onPaymentReceived)
+
+    return () => {
+      this.paymentsProcessor.off(PaymentsProcessorEvent.PaymentReceived, onPaymentReceived)
+    }
+  }
+
+  /**
+   * Stores the status reported by the payments processor. Invoices that
+   * just completed are confirmed and their payer notified.
+   */
+  public async processInvoiceUpdate(invoice: Invoice, updatedInvoice: GetInvoiceResponse): Promise<void> {
+    debug('process invoice update %s: %o', invoice.id, updatedInvoice)
+    if (typeof updatedInvoice.status !== 'string') {
+      return
+    }
+
+    // The invoice passed in may be stale, e.g. when the sweep and the payments
+    // processor report the same payment, so only the update that actually
+    // moves the invoice to completed confirms it
+    const storedInvoice = await this.updateInvoiceStatus({ id: invoice.id, status: updatedInvoice.status })
+
+    if (
+      storedInvoice
+      && updatedInvoice.status === InvoiceStatus.COMPLETED
+      && updatedInvoice.confirmedAt
+    ) {
+      debug('confirming invoice %s & notifying %s', invoice.id, invoice.pubkey)
+
+      const update: Invoice = pipe(
+        mergeDeepLeft(updatedInvoice),
+        mergeDeepLeft({ amountPaid: updatedInvoice.amountPaid ?? invoice.amountRequested }),
+      )(invoice) as Invoice
+
+      if (await this.confirmInvoice(update)) {
+        await this.sendInvoiceUpdateNotification(update)
+      }
+    }
+  }
+
+  /**
+   * @param amount Amount in the relay's base asset
+   * @param asset Asset the payer pays in. Defaults to the base asset.
+   * @param admissionPlan Admission plan the invoice pays for
+   */
   public async createInvoice(
     pubkey: Pubkey,
     amount: bigint,
     description: string,
+    asset?: Asset,
+    admissionPlan?: string,
   ): Promise<Invoice> {
     debug('create invoice for %s for %s: %s', pubkey, amount.toString(), description)
     const transaction = new Transaction(this.dbClient)
 
     try {
+      const baseAsset = getBaseAsset(this.settings())
+      const quote = asset && asset.assetCode !== baseAsset.assetCode && amount > 0n
+        ? await this.exchangeRateService.quote(amount, asset)
+        : undefined
+
       await transaction.begin()
 
       await this.userRepository.upsert({ pubkey }, transaction.transaction)
 
       const invoiceResponse = await this.paymentsProcessor.createInvoice(
         {
-          amount,
+          ...(quote ? quote.amount : { ...(asset ?? baseAsset), amount }),
           description,
           requestId: pubkey,
         },
@@ -74,15 +224,18 @@ export class PaymentsService implements IPaymentsService {
         {
           id: invoiceResponse.id,
           pubkey,
-          bolt11: invoiceResponse.bolt11,
+          paymentRequest: invoiceResponse.paymentRequest,
           amountRequested: invoiceResponse.amountRequested,
           description: invoiceResponse.description,
-          unit: invoiceResponse.unit,
+          assetCode: invoiceResponse.assetCode,
+          assetScale: invoiceResponse.assetScale,
           status: invoiceResponse.status,
           expiresAt: invoiceResponse.expiresAt,
           updatedAt: date,
           createdAt: date,
           verifyURL: invoiceResponse.verifyURL,
+          quote,
+          admissionPlan,
         },
         transaction.transaction,
       )
@@ -92,15 +245,18 @@ export class PaymentsService implements IPaymentsService {
       return {
         id: invoiceResponse.id,
         pubkey,
-        bolt11: invoiceResponse.bolt11,
+        paymentRequest: invoiceResponse.paymentRequest,
         amountRequested: invoiceResponse.amountRequested,
-        unit: invoiceResponse.unit,
+        assetCode: invoiceResponse.assetCode,
+        assetScale: invoiceResponse.assetScale,
         status: invoiceResponse.status,
         description,
         expiresAt: invoiceResponse.expiresAt,
         updatedAt: date,
         createdAt: invoiceResponse.createdAt,
         verifyURL: invoiceResponse.verifyURL,
+        quote,
+        admissionPlan,
       }
     } catch (error) {
       await transaction.rollback()
@@ -110,6 +266,41 @@ export class PaymentsService implements IPaymentsService {
     }
   }
 
+  /**
+   * Open amount invoice crediting any amount it receives to the pubkey, in
+   * the asset the payments processor receives. The pubkey's pending top-up
+   * invoice is reused until it receives a payment, so asking for payment
+   * details does not add invoices without paying.
+   */
+  public async getTopUpInvoice(pubkey: Pubkey, description: string): Promise<Invoice> {
+    debug('get top-up invoice for %s', pubkey)
+    const currentSettings = this.settings()
+    const processorAsset = await this.paymentsProcessor.getAsset?.()
+    const asset = processorAsset
+      ? [getBaseAsset(currentSettings), ...(currentSettings.payments?.acceptedAssets ?? [])]
+        .find(({ assetCode }) => assetCode === processorAsset.assetCode) ?? processorAsset
+      : getBaseAsset(currentSettings)
+
+    const pendingInvoice = await this.invoiceRepository.findPendingOpenAmountInvoice(
+      pubkey,
+      asset,
+      new Date(Date.now() + TOP_UP_INVOICE_MIN_LIFETIME * 1000),
+    )
+    if (pendingInvoice) {
+      try {
+        const invoice = await this.paymentsProcessor.getInvoice(pendingInvoice)
+        if (invoice.status === InvoiceStatus.PENDING && !invoice.amountPaid) {
+          debug('reusing top-up invoice %s for %s', pendingInvoice.id, pubkey)
+          return pendingInvoice
+        }
+      } catch (error) {
+        debug('unable to get top-up invoice %s: %o', pendingInvoice.id, error)
+      }
+    }
+
+    return this.createInvoice(pubkey, 0n, description, asset)
+  }
+
   public async updateInvoice(invoice: Partial<Invoice>): Promise<void> {
     debug('update invoice %s: %o', invoice.id, invoice)
     try {
@@ -123,7 +314,7 @@ export class PaymentsService implements IPaymentsService {
     }
   }
 
-  public async updateInvoiceStatus(invoice: Pick<Invoice, 'id' | 'status'>): Promise<Invoice> {
+  public async updateInvoiceStatus(invoice: Pick<Invoice, 'id' | 'status'>): Promise<Invoice | undefined> {
     debug('update invoice %s: %o', invoice.id, invoice)
     try {
       return await this.invoiceRepository.updateStatus(invoice)
@@ -133,9 +324,15 @@ export class PaymentsService implements IPaymentsService {
     }
   }
 
+  /**
+   * Credits the amount paid and admits the payer if it covers the admission
+   * fee or the plan the invoice was issued for.
+   *
+   * @returns whether the invoice was confirmed by this call
+   */
   public async confirmInvoice(
     invoice: Invoice,
-  ): Promise<void> {
+  ): Promise<boolean> {
     debug('confirm invoice %s: %O', invoice.id, invoice)
 
     const transaction = new Transaction(this.dbClient)
@@ -154,22 +351,24 @@ export class PaymentsService implements IPaymentsService {
 
       await transaction.begin()
 
-      await this.invoiceRepository.confirmInvoice(
+      const confirmed = await this.invoiceRepository.confirmInvoice(
         invoice.id,
         invoice.amountPaid,
         invoice.confirmedAt,
         transaction.transaction
       )
+      if (!confirmed) {
+        debug('invoice %s already confirmed', invoice.id)
+        await transaction.commit()
 
-      const currentSettings = this.settings()
+        return false
+      }
 
-      let amountPaidMsat = invoice.amountPaid
+      const currentSettings = this.settings()
+      const baseAsset = getBaseAsset(currentSettings)
 
-      if (invoice.unit === InvoiceUnit.SATS) {
-        amountPaidMsat *= 1000n
-      } else if (invoice.unit === InvoiceUnit.BTC) {
-        amountPaidMsat *= 1000n * 100000000n
-      }
+      // Fees are denominated in the base asset
+      const amountPaid = getBaseAmountPaid(invoice, baseAsset)
 
       const isApplicableFee = (feeSchedule: FeeSchedule) => feeSchedule.enabled
         && !feeSchedule.whitelists?.pubkeys?.some((prefix) => invoice.pubkey.startsWith(prefix))
@@ -179,24 +378,61 @@ export class PaymentsService implements IPaymentsService {
           return sum + (isApplicableFee(feeSchedule) ? BigInt(feeSchedule.amount) : 0n)
         }, 0n)
 
-        if (
-          admissionFeeAmount > 0n
-          && amountPaidMsat >= admissionFeeAmount
-        ) {
-          const date = new Date()
+      const admissionPlan = invoice.admissionPlan
+        ? currentSettings.payments?.admissionPlans?.find((plan) => plan.id === invoice.admissionPlan)
+        : undefined
+      if (invoice.admissionPlan && !admissionPlan) {
+        console.error(`Unable to admit ${invoice.pubkey}. Reason: unknown admission plan ${invoice.admissionPlan}`)
+      }
+
+      const date = new Date()
+      const user = await this.userRepository.findByPubkey(invoice.pubkey, transaction.transaction)
+      let admission: { fee: bigint, admittedUntil: Date | null } | undefined
+      if (admissionPlan) {
+        if (amountPaid >= BigInt(admissionPlan.amount)) {
+          admission = {
+            fee: BigInt(admissionPlan.amount),
+            admittedUntil: getAdmittedUntil(user, admissionPlan, date),
+          }
+        }
+      } else if (
+        // Top-ups of admitted pubkeys are credited in full
+        !invoice.admissionPlan
+        && !isAdmissionActive(user, date)
+        && !currentSettings.payments?.admissionPlans?.length
+        && admissionFeeAmount > 0n
+        && amountPaid >= admissionFeeAmount
+      ) {
+        admission = { fee: admissionFeeAmount, admittedUntil: null }
+      }
+
+      if (admission) {
+        const charged = await this.userRepository.chargeBalance(
+          invoice.pubkey,
+          getAdmissionCharge(invoice, baseAsset, admission.fee),
+          { type: LedgerEntryType.ADMISSION, reference: invoice.id },
+          transaction.transaction,
+        )
+        if (charged) {
           // TODO: Convert to stored func
           await this.userRepository.upsert(
             {
               pubkey: invoice.pubkey,
               isAdmitted: true,
+              admittedUntil: admission.admittedUntil,
               tosAcceptedAt: date,
               updatedAt: date,
             },
             transaction.transaction,
           )
+        } else {
+          console.error(`Unable to admit ${invoice.pubkey}. Reason: unable to charge admission fee of invoice ${invoice.id}`)
         }
+      }
 
       await transaction.commit()
+
+      return true
     } catch (error) {
       console.error('Unable to confirm invoice. Reason:', error)
       await transaction.rollback()
@@ -205,6 +441,81 @@ export class PaymentsService implements IPaymentsService {
     }
   }
 
+  public async getWithdrawal(id: string): Promise<Withdrawal | undefined> {
+    try {
+      return await this.withdrawalRepository.findById(id)
+    } catch (error) {
+      console.error('Unable to get withdrawal. Reason:', error)
+
+      throw error
+    }
+  }
+
+  /**
+   * Debits the amount from the balance, pays it out to the payment pointer
+   * and refunds whatever could not be sent.
+   *
+   * Withdrawals interrupted between the two steps stay pending with their
+   * amount debited, since the payment may already have gone out.
+   *
+   * @returns the completed or failed withdrawal, or undefined if the balance
+   * does not cover it
+   */
+  public async withdraw(request: WithdrawalRequest): Promise<Withdrawal | undefined> {
+    debug('withdraw %s: %o', request.id, request)
+    const transaction = new Transaction(this.dbClient)
+
+    let amount: bigint
+    try {
+      await transaction.begin()
+
+      amount = request.amount ?? await this.withdrawalRepository.getWithdrawableBalance(
+        request.pubkey,
+        request,
+        transaction.transaction,
+      )
+
+      const requested = amount > 0n && await this.withdrawalRepository.request(
+        {
+          id: request.id,
+          pubkey: request.pubkey,
+          paymentPointer: request.paymentPointer,
+          assetCode: request.assetCode,
+          assetScale: request.assetScale,
+          amount,
+        },
+        transaction.transaction,
+      )
+
+      await transaction.commit()
+
+      if (!requested) {
+        return
+      }
+    } catch (error) {
+      console.error('Unable to request withdrawal. Reason:', error)
+      await transaction.rollback()
+
+      throw error
+    }
+
+    let payment: SendPaymentResponse | undefined
+    try {
+      payment = await this.paymentsProcessor.sendPayment({
+        paymentPointer: request.paymentPointer,
+        assetCode: request.assetCode,
+        assetScale: request.assetScale,
+        amount,
+      })
+    } catch (error) {
+      console.error(`Unable to send withdrawal ${request.id} to ${request.paymentPointer}. Reason:`, error)
+    }
+
+    await this.withdrawalRepository.complete(request.id, payment?.amountSent ?? 0n, payment?.id ?? null)
+
+    return this.withdrawalRepository.findById(request.id)
+  }
+
   public async sendInvoiceUpdateNotification(invoice: Invoice): Promise<void> {
     debug('invoice updated notification %s: %o', invoice.id, invoice)
     const currentSettings = this.settings()
@@ -218,19 +529,13 @@ export class PaymentsService implements IPaymentsService {
     const relayPrivkey = getRelayPrivateKey(relayUrl)
     const relayPubkey = getPublicKey(relayPrivkey)
 
-    let unit: string = invoice.unit
-    let amount: bigint | undefined = invoice.amountPaid
+    const amount: bigint | undefined = invoice.amountPaid
     if (typeof amount === 'undefined') {
       const message = `Unable to notify user ${invoice.pubkey} for invoice ${invoice.id}`
 
       throw new Error(message)
     }
 
-    if (invoice.unit === InvoiceUnit.MSATS) {
-      amount /= 1000n
-      unit = InvoiceUnit.SATS
-    }
-
     const now = new Date()
     const expiration = new Date(now.getFullYear(), now.getMonth() + 1, now.getDate())
 
@@ -238,10 +543,13 @@ export class PaymentsService implements IPaymentsService {
       pubkey: relayPubkey,
       kind: EventKinds.INVOICE_UPDATE,
       created_at: Math.floor(now.getTime() / 1000),
-      content: `Invoice paid: ${amount.toString()} ${unit}`,
+      content: `Invoice paid: ${formatAmount(amount, invoice)}`,
       tags: [
         [EventTags.Pubkey, invoice.pubkey],
-        [EventTags.Invoice, invoice.bolt11],
+        [EventTags.Invoice, invoice.id],
+        [EventTags.Amount, amount.toString()],
+        [EventTags.Asset, invoice.assetCode, invoice.assetScale.toString()],
+        ...toPaymentRequestTags(invoice.paymentRequest),
         [EventTags.Expiration, Math.floor(expiration.getTime() / 1000).toString()],
       ],
       [EventExpirationTimeMetadataKey]: expiration.getTime() / 1000,
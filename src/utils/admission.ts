@@ -0,0 +1,63 @@
+import { AdmissionPlan, Settings } from '../@types/settings'
+import { fromBech32 } from './transform'
+import { Pubkey } from '../@types/base'
+import { User } from '../@types/user'
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Pubkeys admitted without an expiry stay admitted for good
+ */
+export const isAdmissionActive = (user: User | undefined, now = new Date()): boolean =>
+  user?.isAdmitted === true
+  && (!user.admittedUntil || user.admittedUntil.getTime() > now.getTime())
+
+/**
+ * Renewing before expiry extends the running admission. Lifetime admission
+ * is never cut short by a time-boxed plan.
+ */
+export const getAdmittedUntil = (user: User | undefined, plan: AdmissionPlan, now = new Date()): Date | null => {
+  if (typeof plan.days !== 'number' || (user?.isAdmitted && !user.admittedUntil)) {
+    return null
+  }
+
+  const start = isAdmissionActive(user, now) ? user.admittedUntil.getTime() : now.getTime()
+
+  return new Date(start + plan.days * DAY)
+}
+
+/**
+ * Admission granted until the given date never cuts a longer running
+ * admission short.
+ */
+export const extendAdmittedUntil = (
+  user: User | undefined,
+  admittedUntil: Date | null,
+  now = new Date(),
+): Date | null => {
+  if (!isAdmissionActive(user, now) || admittedUntil === null) {
+    return admittedUntil
+  }
+
+  if (user.admittedUntil === null) {
+    return null
+  }
+
+  return new Date(Math.max(user.admittedUntil.getTime(), admittedUntil.getTime()))
+}
+
+/**
+ * The relay operator's pubkey may be set as hex or as an npub
+ */
+export const isRelayOperator = (settings: Settings, pubkey: Pubkey): boolean => {
+  const operatorPubkey = settings.info?.pubkey
+  if (typeof operatorPubkey !== 'string' || !operatorPubkey) {
+    return false
+  }
+
+  try {
+    return (operatorPubkey.startsWith('npub1') ? fromBech32(operatorPubkey) : operatorPubkey) === pubkey
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,98 @@
+import { Asset } from '../@types/asset'
+import { Settings } from '../@types/settings'
+
+/**
+ * Millisatoshis, the unit fees were historically denominated in
+ */
+export const DEFAULT_BASE_ASSET: Asset = {
+  assetCode: 'BTC',
+  assetScale: 11,
+}
+
+export const getBaseAsset = (settings: Settings): Asset => settings.payments?.baseAsset ?? DEFAULT_BASE_ASSET
+
+/**
+ * Converts an amount between two scales of the same asset, rounding down
+ * unless told otherwise so that the relay never credits more than received.
+ */
+export const rescaleAmount = (
+  amount: bigint,
+  fromScale: number,
+  toScale: number,
+  roundUp = false,
+): bigint => {
+  if (toScale >= fromScale) {
+    return amount * 10n ** BigInt(toScale - fromScale)
+  }
+
+  const divisor = 10n ** BigInt(fromScale - toScale)
+  const quotient = amount / divisor
+
+  return roundUp && quotient * divisor !== amount ? quotient + 1n : quotient
+}
+
+/**
+ * Unit amounts of an asset are reported in, e.g. in the relay information document
+ */
+export const getAssetUnit = (asset: Asset): string => {
+  if (asset.assetCode === 'BTC' && asset.assetScale === 11) {
+    return 'msats'
+  }
+
+  if (asset.assetCode === 'BTC' && asset.assetScale === 8) {
+    return 'sats'
+  }
+
+  return asset.assetCode
+}
+
+export const formatAmount = (amount: bigint, asset: Asset): string => {
+  const digits = (amount < 0n ? -amount : amount).toString().padStart(asset.assetScale + 1, '0')
+  const integer = digits.slice(0, digits.length - asset.assetScale)
+  const fraction = digits.slice(digits.length - asset.assetScale).replace(/0+$/, '')
+
+  return `${amount < 0n ? '-' : ''}${integer}${fraction ? `.${fraction}` : ''} ${asset.assetCode}`
+}
+
+/**
+ * Parses a non-negative decimal (e.g. an exchange rate) into an exact
+ * numerator/denominator pair so conversions don't lose precision to floats.
+ */
+export const parseDecimal = (value: string | number): [bigint, bigint] => {
+  const match = /^(\d+)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(String(value).trim())
+  if (!match) {
+    throw new Error(`Invalid decimal: ${value}`)
+  }
+
+  const [, integer, fraction = '', exponent = '0'] = match
+  const numerator = BigInt(`${integer}${fraction}`)
+  const scale = fraction.length - Number(exponent)
+
+  return scale >= 0
+    ? [numerator, 10n ** BigInt(scale)]
+    : [numerator * 10n ** BigInt(-scale), 1n]
+}
+
+/**
+ * Converts an amount of one asset into another given the price of one whole
+ * unit of the target asset in whole units of the source asset. Rounds down
+ * unless told otherwise.
+ */
+export const convertAmount = (
+  amount: bigint,
+  from: Asset,
+  to: Asset,
+  rate: string,
+  roundUp = false,
+): bigint => {
+  const [rateNumerator, rateDenominator] = parseDecimal(rate)
+  if (rateNumerator === 0n) {
+    throw new Error(`Invalid exchange rate for ${to.assetCode}: ${rate}`)
+  }
+
+  const numerator = amount * 10n ** BigInt(to.assetScale) * rateDenominator
+  const denominator = 10n ** BigInt(from.assetScale) * rateNumerator
+  const quotient = numerator / denominator
+
+  return roundUp && quotient * denominator !== numerator ? quotient + 1n : quotient
+}
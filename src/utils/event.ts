@@ -1,7 +1,7 @@
 import * as secp256k1 from '@noble/secp256k1'
 
 import { applySpec, pipe, prop } from 'ramda'
-import { CanonicalEvent, DBEvent, Event, UnidentifiedEvent, UnsignedEvent } from '../@types/event'
+import { CanonicalEvent, DBEvent, Event, EventAddress, UnidentifiedEvent, UnsignedEvent } from '../@types/event'
 import { createCipheriv, getRandomValues } from 'crypto'
 import { EventId, Pubkey, Tag } from '../@types/base'
 import { EventKinds, EventTags } from '../constants/base'
@@ -11,6 +11,7 @@ import { deriveFromSecret } from './secret'
 import { EventKindsRange } from '../@types/settings'
 import { fromBuffer } from './transform'
 import { getLeadingZeroBits } from './proof-of-work'
+import { isEventMatchingSearch } from './search'
 import { isGenericTagQuery } from './filter'
 import { SubscriptionFilter } from '../@types/subscription'
 import { WebSocketServerAdapterEvent } from '../constants/adapter'
@@ -101,6 +102,12 @@ export const isEventMatchingFilter = (filter: SubscriptionFilter) => (event: Eve
     return false
   }
 
+  // NIP-50: Search capability
+
+  if (typeof filter.search === 'string' && !isEventMatchingSearch(filter.search)(event)) {
+    return false
+  }
+
   return true
 }
 
@@ -118,6 +125,43 @@ export const isEventSignatureValid = async (event: Event): Promise<boolean> => {
   return secp256k1.schnorr.verify(event.sig, event.id, event.pubkey)
 }
 
+/**
+ * Number of seconds a request signed as an event may be signed before or after it is received
+ */
+const MAX_SIGNED_REQUEST_AGE = 10 * 60
+
+/**
+ * Checks a request signed as an event of the given kind, such as a withdrawal
+ * request, is authentic, recent and meant for this relay.
+ *
+ * @returns the reason the request is invalid, if any
+ */
+export const validateSignedRequest = async (
+  event: Event,
+  kind: EventKinds,
+  relayUrl: string,
+): Promise<string | undefined> => {
+  if (event.kind !== kind) {
+    return `kind must be ${kind}`
+  }
+
+  if (!await isEventIdValid(event)) {
+    return 'event id does not match'
+  }
+
+  if (!await isEventSignatureValid(event)) {
+    return 'signature does not match'
+  }
+
+  if (Math.abs(event.created_at - Math.floor(Date.now() / 1000)) > MAX_SIGNED_REQUEST_AGE) {
+    return 'created_at is out of range'
+  }
+
+  if (event.tags.find(([name]) => name === EventTags.Relay)?.[1] !== relayUrl) {
+    return 'relay does not match'
+  }
+}
+
 export const identifyEvent = async (event: UnidentifiedEvent): Promise<UnsignedEvent> => {
   const id = await getEventHash(event)
 
@@ -227,6 +271,10 @@ export const isDeleteEvent = (event: Event): boolean => {
   return event.kind === EventKinds.DELETE
 }
 
+export const isInviteEvent = (event: Event): boolean => {
+  return event.kind === EventKinds.RELAY_INVITE
+}
+
 export const isExpiredEvent = (event: Event): boolean => {
   if (!event.tags.length) {
     return false
@@ -254,6 +302,39 @@ export const getEventExpiration = (event: Event): number | undefined => {
   }
 }
 
+/**
+ * Address of a parameterized replaceable event (NIP-33), identified by the
+ * first value of its `d` tag
+ */
+export const getEventAddress = (event: Event): EventAddress => ({
+  kind: event.kind,
+  pubkey: event.pubkey,
+  identifier: event.tags.find((tag) => tag.length >= 1 && tag[0] === EventTags.Deduplication)?.[1] ?? '',
+})
+
+/**
+ * Parses the `kind:pubkey:d-tag` value of an `a` tag, provided it points at a
+ * parameterized replaceable event
+ */
+export const parseEventAddress = (value: string): EventAddress | undefined => {
+  const match = /^([0-9]{1,5}):([0-9a-f]{64}):(.*)$/s.exec(value)
+  if (!match) {
+    return
+  }
+
+  const kind = Number(match[1])
+  if (kind < EventKinds.PARAMETERIZED_REPLACEABLE_FIRST || kind > EventKinds.PARAMETERIZED_REPLACEABLE_LAST) {
+    return
+  }
+
+  return { kind, pubkey: match[2], identifier: match[3] }
+}
+
+/**
+ * Size in bytes of the event serialized as JSON, excluding relay metadata
+ */
+export const getEventSize = (event: Event): number => Buffer.byteLength(JSON.stringify(event))
+
 export const getEventProofOfWork = (eventId: EventId): number => {
   return getLeadingZeroBits(Buffer.from(eventId, 'hex'))
 }
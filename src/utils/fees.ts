@@ -0,0 +1,28 @@
+import { Event } from '../@types/event'
+import { FeeSchedule } from '../@types/settings'
+import { isEventKindOrRangeMatch } from './event'
+import { Pubkey } from '../@types/base'
+import { SubscriptionFilter } from '../@types/subscription'
+
+/**
+ * Fee schedules that apply to a subscription's filters. Filters without
+ * kinds may match any event so they are subject to every schedule.
+ *
+ * @param pubkey Authenticated pubkey of the client, whose whitelisted prefixes waive the fee
+ */
+export const getSubscriptionFeeSchedules = (
+  feeSchedules: FeeSchedule[] | undefined,
+  filters: SubscriptionFilter[],
+  pubkey?: Pubkey,
+): FeeSchedule[] => {
+  const isPricedFilter = (feeSchedule: FeeSchedule) => (filter: SubscriptionFilter) =>
+    !Array.isArray(feeSchedule.kinds)
+    || !Array.isArray(filter.kinds)
+    || filter.kinds.some((kind) => feeSchedule.kinds.some(isEventKindOrRangeMatch({ kind } as Event)))
+
+  return feeSchedules?.filter((feeSchedule) =>
+    feeSchedule.enabled
+    && filters.some(isPricedFilter(feeSchedule))
+    && !(pubkey && feeSchedule.whitelists?.pubkeys?.some((prefix) => pubkey.startsWith(prefix)))
+  ) ?? []
+}
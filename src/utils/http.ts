@@ -1,6 +1,11 @@
+import { createHash, timingSafeEqual } from 'crypto'
 import { IncomingMessage } from 'http'
 
-import { Settings } from '../@types/settings'
+import { AdmissionCheckLimits, InvoiceLimits, Settings } from '../@types/settings'
+import { createLogger } from '../factories/logger-factory'
+import { IRateLimiter } from '../@types/utils'
+
+const debug = createLogger('http')
 
 export const getRemoteAddress = (request: IncomingMessage, settings: Settings): string => {
   let header: string | undefined
@@ -17,3 +22,52 @@ export const getRemoteAddress = (request: IncomingMessage, settings: Settings):
 
   return result.split(',')[0]
 }
+
+/**
+ * Checks the request carries the given bearer token, comparing digests so the
+ * time taken does not leak how much of the token matched
+ */
+export const hasBearerToken = (request: IncomingMessage, token: string): boolean => {
+  const authorization = request.headers.authorization
+  if (typeof authorization !== 'string' || !authorization.startsWith('Bearer ')) {
+    return false
+  }
+
+  const hash = (value: string) => createHash('sha256').update(value).digest()
+
+  return timingSafeEqual(hash(authorization.slice(7)), hash(token))
+}
+
+/**
+ * Hits the given rate limits for the remote address of the request under the
+ * given key. Only applies when an IP whitelist is configured.
+ *
+ * @returns whether any of the rate limits was exceeded
+ */
+export const isRequestRateLimited = async (
+  request: IncomingMessage,
+  settings: Settings,
+  rateLimiter: IRateLimiter,
+  key: string,
+  limits: InvoiceLimits | AdmissionCheckLimits | undefined = settings.limits?.invoice,
+): Promise<boolean> => {
+  const rateLimits = limits?.rateLimits
+  if (!Array.isArray(rateLimits) || !rateLimits.length) {
+    return false
+  }
+
+  const ipWhitelist = limits.ipWhitelist
+  const remoteAddress = getRemoteAddress(request, settings)
+
+  let limited = false
+  if (Array.isArray(ipWhitelist) && !ipWhitelist.includes(remoteAddress)) {
+    for (const { rate, period } of rateLimits) {
+      if (await rateLimiter.hit(`${remoteAddress}:${key}:${period}`, 1, { period, rate })) {
+        debug('rate limited %s: %d in %d milliseconds', remoteAddress, rate, period)
+        limited = true
+      }
+    }
+  }
+
+  return limited
+}
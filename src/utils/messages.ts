@@ -1,4 +1,7 @@
 import {
+  AuthChallengeMessage,
+  ClosedMessage,
+  CountResult,
   EndOfStoredEventsNotice,
   IncomingEventMessage,
   IncomingRelayedEventMessage,
@@ -34,6 +37,23 @@ export const createCommandResult = (eventId: EventId, successful: boolean, messa
   return [MessageType.OK, eventId, successful, message]
 }
 
+export const createClosedMessage = (
+  subscriptionId: SubscriptionId,
+  reason: string,
+): ClosedMessage => {
+  return [MessageType.CLOSED, subscriptionId, reason]
+}
+
+// NIP-42
+export const createAuthChallengeMessage = (challenge: string): AuthChallengeMessage => {
+  return [MessageType.AUTH, challenge]
+}
+
+// NIP-45
+export const createCountResultMessage = (subscriptionId: SubscriptionId, count: number): CountResult => {
+  return [MessageType.COUNT, subscriptionId, { count }]
+}
+
 export const createSubscriptionMessage = (
   subscriptionId: SubscriptionId,
   filters: SubscriptionFilter[]
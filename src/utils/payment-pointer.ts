@@ -0,0 +1,77 @@
+import { BlockList, isIP } from 'net'
+import dns from 'dns'
+
+const nonPublicAddresses = new BlockList()
+nonPublicAddresses.addSubnet('0.0.0.0', 8, 'ipv4')
+nonPublicAddresses.addSubnet('10.0.0.0', 8, 'ipv4')
+nonPublicAddresses.addSubnet('100.64.0.0', 10, 'ipv4')
+nonPublicAddresses.addSubnet('127.0.0.0', 8, 'ipv4')
+nonPublicAddresses.addSubnet('169.254.0.0', 16, 'ipv4')
+nonPublicAddresses.addSubnet('172.16.0.0', 12, 'ipv4')
+nonPublicAddresses.addSubnet('192.168.0.0', 16, 'ipv4')
+nonPublicAddresses.addSubnet('224.0.0.0', 3, 'ipv4')
+nonPublicAddresses.addAddress('::', 'ipv6')
+nonPublicAddresses.addAddress('::1', 'ipv6')
+nonPublicAddresses.addSubnet('fc00::', 7, 'ipv6')
+nonPublicAddresses.addSubnet('fe80::', 10, 'ipv6')
+nonPublicAddresses.addSubnet('ff00::', 8, 'ipv6')
+
+/**
+ * Resolves a payment pointer (e.g. `$wallet.example/alice`) to its SPSP endpoint
+ *
+ * @throws if the payment pointer is malformed
+ */
+export const toPaymentPointerUrl = (paymentPointer: string): string => {
+  if (typeof paymentPointer !== 'string' || !paymentPointer.startsWith('$')) {
+    throw new Error(`Invalid payment pointer: ${paymentPointer}`)
+  }
+
+  const url = new URL(`https://${paymentPointer.slice(1)}`)
+  if (url.username || url.password || url.search || url.hash) {
+    throw new Error(`Invalid payment pointer: ${paymentPointer}`)
+  }
+
+  if (url.pathname === '/') {
+    url.pathname = '/.well-known/pay'
+  }
+
+  return url.toString()
+}
+
+export const isPaymentPointer = (input: unknown): input is string => {
+  try {
+    toPaymentPointerUrl(input as string)
+
+    return true
+  } catch {
+    return false
+  }
+}
+
+const isPublicAddress = (address: string): boolean => {
+  const ipv4 = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1]
+  if (ipv4) {
+    return !nonPublicAddresses.check(ipv4, 'ipv4')
+  }
+
+  return !nonPublicAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * Checks that the host of a payment pointer only resolves to public addresses
+ * so the relay cannot be made to query its own private, loopback or
+ * link-local network for an SPSP endpoint.
+ */
+export const isPaymentPointerHostPublic = async (paymentPointer: string): Promise<boolean> => {
+  const hostname = new URL(toPaymentPointerUrl(paymentPointer)).hostname.replace(/^\[(.*)\]$/, '$1')
+
+  try {
+    const addresses = isIP(hostname)
+      ? [hostname]
+      : (await dns.promises.lookup(hostname, { all: true })).map(({ address }) => address)
+
+    return addresses.length > 0 && addresses.every(isPublicAddress)
+  } catch {
+    return false
+  }
+}
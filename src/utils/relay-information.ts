@@ -0,0 +1,186 @@
+import { AdmissionPlan, EventKindsRange, FeeSchedule, Settings } from '../@types/settings'
+import { getAssetUnit, getBaseAsset } from './asset'
+import { Asset } from '../@types/asset'
+import { createLogger } from '../factories/logger-factory'
+import { EventKinds } from '../constants/base'
+import { IExchangeRateService } from '../@types/exchange-rate'
+import packageJson from '../../package.json'
+
+const debug = createLogger('relay-information')
+
+type EventKindOrRange = EventKinds | EventKindsRange
+
+export interface RelayInformationFeeAmount {
+  amount: number
+  unit: string
+  /**
+   * Scale of the amounts when the unit is an asset code
+   */
+  scale?: number
+  per_byte_amount?: number
+  per_event_amount?: number
+}
+
+export interface RelayInformationFee extends RelayInformationFeeAmount {
+  kinds?: EventKindOrRange[]
+  /**
+   * Kinds exempt from a fee that applies to all others
+   */
+  exempt_kinds?: EventKindOrRange[]
+  /**
+   * Number of seconds the fee pays for
+   */
+  period?: number
+  /**
+   * Amounts in each accepted asset, slippage margin included
+   */
+  quotes?: RelayInformationFeeAmount[]
+}
+
+export type RelayInformationFees = Record<string, RelayInformationFee[]>
+
+const AUTHENTICATION_NIP = 42
+
+const SEARCH_NIP = 50
+
+/**
+ * NIPs implemented by the relay, leaving out those disabled in its settings
+ */
+export const getSupportedNips = (settings: Settings): number[] =>
+  packageJson.supportedNips.filter((nip) =>
+    (nip !== AUTHENTICATION_NIP || settings.authentication?.enabled)
+    && (nip !== SEARCH_NIP || settings.search?.enabled)
+  )
+
+/**
+ * Seconds a subscription fee pays for
+ */
+const SUBSCRIPTION_FEE_PERIOD = 60
+
+const isKindCoveredBy = (item: EventKindOrRange) => (other: EventKindOrRange): boolean => {
+  const [from, to] = typeof item === 'number' ? [item, item] : item
+
+  return typeof other === 'number'
+    ? from === other && to === other
+    : from >= other[0] && to <= other[1]
+}
+
+const toAmount = (amount: bigint, asset: Asset): Pick<RelayInformationFeeAmount, 'amount' | 'unit' | 'scale'> => {
+  const unit = getAssetUnit(asset)
+
+  return {
+    amount: Number(amount),
+    unit,
+    ...(unit === asset.assetCode ? { scale: asset.assetScale } : {}),
+  }
+}
+
+const toFeeAmount = (
+  amount: bigint,
+  perByteAmount: bigint | undefined,
+  perEventAmount: bigint | undefined,
+  asset: Asset,
+): RelayInformationFeeAmount => ({
+  ...toAmount(amount, asset),
+  ...(perByteAmount ? { per_byte_amount: Number(perByteAmount) } : {}),
+  ...(perEventAmount ? { per_event_amount: Number(perEventAmount) } : {}),
+})
+
+/**
+ * Lists the fees of the relay information document (NIP-11) in the relay's
+ * base asset along with their quotes in every accepted asset.
+ *
+ * Quotes that can't be made (e.g. for lack of an exchange rate) are left out.
+ */
+export const getRelayInformationFees = async (
+  settings: Settings,
+  exchangeRateService: IExchangeRateService,
+): Promise<RelayInformationFees> => {
+  const baseAsset = getBaseAsset(settings)
+  const acceptedAssets = (settings.payments?.acceptedAssets ?? [])
+    .filter((asset) => asset.assetCode !== baseAsset.assetCode)
+
+  const quote = async (amount: bigint, asset: Asset): Promise<bigint | undefined> => {
+    if (!amount) {
+      return
+    }
+
+    try {
+      return (await exchangeRateService.quote(amount, asset)).amount.amount
+    } catch (error) {
+      debug('unable to quote %s %s in %s: %o', amount, baseAsset.assetCode, asset.assetCode, error)
+    }
+  }
+
+  const toFee = async (
+    { amount, perByteAmount, perEventAmount }: Pick<FeeSchedule, 'amount' | 'perByteAmount' | 'perEventAmount'>,
+  ): Promise<RelayInformationFee> => {
+    const quotes: RelayInformationFeeAmount[] = []
+    for (const asset of acceptedAssets) {
+      const quotedAmount = await quote(BigInt(amount), asset)
+      if (typeof quotedAmount === 'undefined') {
+        continue
+      }
+
+      quotes.push(toFeeAmount(
+        quotedAmount,
+        perByteAmount ? await quote(BigInt(perByteAmount), asset) : undefined,
+        perEventAmount ? await quote(BigInt(perEventAmount), asset) : undefined,
+        asset,
+      ))
+    }
+
+    return {
+      ...toFeeAmount(
+        BigInt(amount),
+        perByteAmount ? BigInt(perByteAmount) : undefined,
+        perEventAmount ? BigInt(perEventAmount) : undefined,
+        baseAsset,
+      ),
+      ...(quotes.length ? { quotes } : {}),
+    }
+  }
+
+  const toKinds = (feeSchedule: FeeSchedule): Pick<RelayInformationFee, 'kinds' | 'exempt_kinds'> => {
+    const whitelistedKinds = feeSchedule.whitelists?.event_kinds ?? []
+    if (Array.isArray(feeSchedule.kinds)) {
+      return {
+        kinds: feeSchedule.kinds
+          .filter((kind) => !whitelistedKinds.some(isKindCoveredBy(kind))),
+      }
+    }
+
+    return whitelistedKinds.length ? { exempt_kinds: whitelistedKinds } : {}
+  }
+
+  const feeSchedules = settings.payments?.feeSchedules ?? {}
+  const admissionPlans: AdmissionPlan[] = settings.payments?.admissionPlans ?? []
+
+  const fees: RelayInformationFees = {}
+  for (const feeName of Object.getOwnPropertyNames(feeSchedules)) {
+    const enabledFeeSchedules = (feeSchedules[feeName] as FeeSchedule[] ?? [])
+      .filter((feeSchedule) => feeSchedule.enabled)
+
+    if (feeName === 'admission' && enabledFeeSchedules.length && admissionPlans.length) {
+      fees[feeName] = []
+      for (const plan of admissionPlans) {
+        fees[feeName].push({
+          ...await toFee(plan),
+          ...(plan.days ? { period: plan.days * 86400 } : {}),
+        })
+      }
+      continue
+    }
+
+    fees[feeName] = []
+    for (const feeSchedule of enabledFeeSchedules) {
+      fees[feeName].push({
+        ...await toFee(feeSchedule),
+        ...toKinds(feeSchedule),
+        ...(feeName === 'subscription' ? { period: SUBSCRIPTION_FEE_PERIOD } : {}),
+      })
+    }
+  }
+
+  return fees
+}
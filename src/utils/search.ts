@@ -0,0 +1,32 @@
+import { Event } from '../@types/event'
+
+/**
+ * Splits text into lowercase words of letters and digits. The full-text
+ * index over event content (see the event_search column) splits content the
+ * same way so that live events match the same searches as stored ones.
+ */
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+
+/**
+ * Words of a NIP-50 search query, leaving out `key:value` extensions
+ */
+export const getSearchTerms = (search: string): string[] =>
+  search
+    .split(/\s+/)
+    .filter((token) => !/^[a-z_]+:[^/]\S*$/i.test(token))
+    .flatMap(tokenize)
+
+/**
+ * Matches events whose content contains every word of the search query
+ */
+export const isEventMatchingSearch = (search: string) => (event: Event): boolean => {
+  const terms = getSearchTerms(search)
+  if (!terms.length) {
+    return true
+  }
+
+  const words = new Set(tokenize(event.content))
+
+  return terms.every((term) => words.has(term))
+}
@@ -26,10 +26,9 @@ export const streamFilter = (predicate: (chunk: any) => boolean) => new Transfor
   },
 })
 
-export const streamEnd = (finalFn: () => void) => new PassThrough({
+export const streamEnd = (finalFn: () => void | Promise<void>) => new PassThrough({
   objectMode: true,
   final(callback) {
-    finalFn()
-    callback()
+    Promise.resolve(finalFn()).then(() => callback(), callback)
   },
 })
@@ -0,0 +1,29 @@
+import { Settings } from '../@types/settings'
+import { toPaymentPointerUrl } from './payment-pointer'
+
+/**
+ * Resolves a path on the relay's web server from its relay URL
+ */
+export const getRelayWebUrl = (settings: Settings, pathname: string): string => {
+  const url = new URL(settings.info.relay_url)
+  url.protocol = url.protocol === 'wss:' ? 'https:' : 'http:'
+  url.pathname = pathname
+
+  return url.toString()
+}
+
+/**
+ * URL of the payment pointer the relay's web pages are monetized with
+ *
+ * @returns undefined unless Web Monetization is enabled
+ */
+export const getWebMonetizationUrl = (settings: Settings): string | undefined => {
+  const webMonetization = settings.payments?.webMonetization
+  if (!settings.payments?.enabled || !webMonetization?.enabled) {
+    return
+  }
+
+  return webMonetization.paymentPointer
+    ? toPaymentPointerUrl(webMonetization.paymentPointer)
+    : getRelayWebUrl(settings, '/monetization')
+}
@@ -0,0 +1,95 @@
+import { randomBytes, randomUUID } from 'crypto'
+
+import {
+  CreateIlpOutgoingPaymentRequest,
+  CreateIlpReceiverRequest,
+  IIlpConnectorClient,
+  IlpIncomingPayment,
+  IlpOutgoingPayment,
+  IlpReceiver,
+  IlpSettlementStatus,
+} from '../../src/@types/clients'
+
+/**
+ * In-process stand-in for a local ILP connector. Tests drive incoming
+ * payments and settlement with `pay` and `settle`, and cap what reaches
+ * a payment pointer with `limitPaymentsTo`.
+ */
+export class MockIlpConnectorClient implements IIlpConnectorClient {
+  private readonly receivers = new Map<string, IlpReceiver>()
+  private readonly payments = new Map<string, IlpIncomingPayment[]>()
+  private readonly settled = new Set<string>()
+  private readonly paymentLimits = new Map<string, bigint>()
+  public readonly outgoingPayments: IlpOutgoingPayment[] = []
+
+  public constructor(private readonly ilpAddress = 'test.mock-connector') {}
+
+  public async createReceiver(request: CreateIlpReceiverRequest): Promise<IlpReceiver> {
+    const id = randomUUID()
+    const receiver: IlpReceiver = {
+      id,
+      destinationAccount: `${this.ilpAddress}.${id}`,
+      sharedSecret: randomBytes(32).toString('base64'),
+      assetCode: request.assetCode,
+      assetScale: request.assetScale,
+      amount: request.amount,
+      amountReceived: 0n,
+      expiresAt: request.expiresAt,
+      createdAt: new Date(),
+    }
+
+    this.receivers.set(id, receiver)
+    this.payments.set(id, [])
+
+    return { ...receiver }
+  }
+
+  public async getReceiver(receiverId: string): Promise<IlpReceiver | undefined> {
+    const receiver = this.receivers.get(receiverId)
+
+    return receiver ? { ...receiver } : undefined
+  }
+
+  public async getIncomingPayments(receiverId: string): Promise<IlpIncomingPayment[]> {
+    return [...(this.payments.get(receiverId) ?? [])]
+  }
+
+  public async getSettlementStatus(receiverId: string): Promise<IlpSettlementStatus> {
+    return this.settled.has(receiverId) ? IlpSettlementStatus.SETTLED : IlpSettlementStatus.PENDING
+  }
+
+  public async sendPayment(request: CreateIlpOutgoingPaymentRequest): Promise<IlpOutgoingPayment> {
+    const limit = this.paymentLimits.get(request.paymentPointer)
+    const payment: IlpOutgoingPayment = {
+      id: randomUUID(),
+      paymentPointer: request.paymentPointer,
+      assetCode: request.assetCode,
+      assetScale: request.assetScale,
+      amount: request.amount,
+      amountSent: typeof limit === 'bigint' && limit < request.amount ? limit : request.amount,
+      createdAt: new Date(),
+    }
+
+    this.outgoingPayments.push(payment)
+
+    return { ...payment }
+  }
+
+  public limitPaymentsTo(paymentPointer: string, amount: bigint): void {
+    this.paymentLimits.set(paymentPointer, amount)
+  }
+
+  public pay(receiverId: string, amount: bigint, receivedAt = new Date()): void {
+    const receiver = this.receivers.get(receiverId)
+    if (!receiver) {
+      throw new Error(`Receiver not found: ${receiverId}`)
+    }
+
+    receiver.amountReceived += amount
+    this.payments.get(receiverId).push({ id: randomUUID(), receiverId, amount, receivedAt })
+  }
+
+  public settle(receiverId: string): void {
+    this.settled.add(receiverId)
+  }
+}
@@ -90,6 +90,44 @@ export async function createSubscription(
   })
 }
 
+export async function createCount(
+  ws: WebSocket,
+  subscriptionName: string,
+  subscriptionFilters: SubscriptionFilter[],
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const data = JSON.stringify([
+      'COUNT',
+      subscriptionName,
+      ...subscriptionFilters,
+    ])
+
+    ws.send(data, (error?: Error) => {
+      if (error) {
+        reject(error)
+      } else {
+        resolve()
+      }
+    })
+  })
+}
+
+export async function waitForCount(ws: WebSocket, subscription: string): Promise<number> {
+  return new Promise<number>((resolve, reject) => {
+    const observable = streams.get(ws) as Observable<OutgoingMessage>
+
+    const sub = observable.subscribe((message: OutgoingMessage) => {
+      if (message[0] === MessageType.COUNT && message[1] === subscription) {
+        resolve(message[2].count)
+        sub.unsubscribe()
+      } else if (message[0] === MessageType.CLOSED && message[1] === subscription) {
+        reject(new Error(message[2]))
+        sub.unsubscribe()
+      }
+    })
+  })
+}
+
 export async function waitForEOSE(ws: WebSocket, subscription: string): Promise<void> {
   return new Promise<void>((resolve, reject) => {
     const observable = streams.get(ws) as Observable<OutgoingMessage>
@@ -28,3 +28,16 @@ Feature: NIP-09
     And Alice drafts a set_metadata event
     When Alice sends a delete event for their last event
     Then Alice sends their last draft event successfully
+
+  Scenario: Alice deletes her parameterized replaceable event by address
+    Given someone called Alice
+    And Alice sends a parameterized_replaceable_event_1 event with content "exercise" and tag d containing "2025-resolutions"
+    When Alice sends a delete event for the address of their last event
+    And Alice subscribes to author Alice
+    Then Alice receives 1 delete event from Alice and EOSE
+
+  Scenario: Alice sends an older version of a parameterized replaceable event deleted by address
+    Given someone called Alice
+    And Alice drafts a parameterized_replaceable_event_2 event with content "don't worry about it" and tag d containing "topsycrets"
+    When Alice sends a delete event for the address of their last event
+    Then Alice sends their last draft event unsuccessfully
@@ -25,6 +25,25 @@ When(/^(\w+) sends a delete event for their last event$/, async function(
   this.parameters.events[name].push(event)
 })
 
+When(/^(\w+) sends a delete event for the address of their last event$/, async function(
+  name: string,
+) {
+  const ws = this.parameters.clients[name] as WebSocket
+  const { pubkey, privkey } = this.parameters.identities[name]
+
+  const lastEvent: Event = this.parameters.events[name][this.parameters.events[name].length - 1]
+  const [, identifier] = lastEvent.tags.find((tag) => tag[0] === EventTags.Deduplication) ?? []
+  const tags: Tag[] = [
+    [EventTags.Address, `${lastEvent.kind}:${lastEvent.pubkey}:${identifier ?? ''}`],
+  ]
+
+  const event: Event = await createEvent({ pubkey, kind: 5, content: '', tags }, privkey)
+
+  await sendEvent(ws, event)
+
+  this.parameters.events[name].push(event)
+})
+
 Then(
   /(\w+) receives (\d+) delete events? from (\w+) and EOSE$/,
   async function(name: string, count: string, author: string) {
@@ -0,0 +1,23 @@
+Feature: NIP-45
+  Scenario: Bob counts text_note events from Alice
+    Given someone called Alice
+    And someone called Bob
+    When Alice sends a text_note event with content "hello"
+    And Alice sends a text_note event with content "world"
+    And Bob counts text_note events from Alice
+    Then Bob receives a count of 2
+
+  Scenario: Bob counts text_note events from Alice after she deletes one
+    Given someone called Alice
+    And someone called Bob
+    When Alice sends a text_note event with content "hello"
+    And Alice sends a text_note event with content "world"
+    And Alice sends a delete event for their last event
+    And Bob counts text_note events from Alice
+    Then Bob receives a count of 1
+
+  Scenario: Bob counts events from nobody
+    Given someone called Alice
+    And someone called Bob
+    When Bob counts text_note events from Alice
+    Then Bob receives a count of 0
@@ -0,0 +1,29 @@
+import { Then, When, World } from '@cucumber/cucumber'
+import { expect } from 'chai'
+import WebSocket from 'ws'
+
+import { createCount, waitForCount } from '../helpers'
+
+When(/^(\w+) counts text_note events from (\w+)$/, async function(
+  this: World<Record<string, any>>,
+  name: string,
+  author: string,
+) {
+  const ws = this.parameters.clients[name] as WebSocket
+  const pubkey = this.parameters.identities[author].pubkey
+  const subscription = { name: `test-${Math.random()}`, filters: [{ kinds: [1], authors: [pubkey] }] }
+  this.parameters.subscriptions[name].push(subscription)
+
+  await createCount(ws, subscription.name, subscription.filters)
+})
+
+Then(/^(\w+) receives a count of (\d+)$/, async function(
+  this: World<Record<string, any>>,
+  name: string,
+  count: string,
+) {
+  const ws = this.parameters.clients[name] as WebSocket
+  const subscription = this.parameters.subscriptions[name][this.parameters.subscriptions[name].length - 1]
+
+  expect(await waitForCount(ws, subscription.name)).to.equal(Number(count))
+})
@@ -0,0 +1,254 @@
+import chai from 'chai'
+import EventEmitter from 'events'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+import { WebSocket } from 'ws'
+
+import { IUserRepository } from '../../../src/@types/repositories'
+import { LedgerEntryType } from '../../../src/@types/ledger'
+import { Settings } from '../../../src/@types/settings'
+import { WebSocketAdapter } from '../../../src/adapters/web-socket-adapter'
+import { WebSocketAdapterEvent } from '../../../src/constants/adapter'
+
+chai.use(sinonChai)
+const { expect } = chai
+
+describe('WebSocketAdapter', () => {
+  const pubkey = 'a'.repeat(64)
+  const MINUTE = 60000
+  let sandbox: Sinon.SinonSandbox
+  let clock: Sinon.SinonFakeTimers
+  let client: any
+  let settings: Settings
+  let userRepository: IUserRepository
+  let chargeBalanceStub: Sinon.SinonStub
+  let getBalanceByPubkeyStub: Sinon.SinonStub
+  let adapter: WebSocketAdapter
+
+  const getSentMessages = () => client.send.getCalls().map((call) => JSON.parse(call.args[0]))
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    clock = sandbox.useFakeTimers()
+    client = new EventEmitter()
+    client.readyState = WebSocket.OPEN
+    client.send = sandbox.stub()
+    client.close = sandbox.stub()
+    client.ping = sandbox.stub()
+    settings = {
+      network: {},
+      payments: {
+        enabled: true,
+        feeSchedules: {
+          admission: [],
+          publication: [],
+          subscription: [{ enabled: true, amount: 100n, kinds: [1] }],
+        },
+      },
+    } as any
+    chargeBalanceStub = sandbox.stub().resolves(true)
+    getBalanceByPubkeyStub = sandbox.stub().resolves(1000n)
+    userRepository = {
+      chargeBalance: chargeBalanceStub,
+      getBalanceByPubkey: getBalanceByPubkeyStub,
+    } as any
+
+    adapter = new WebSocketAdapter(
+      client,
+      {
+        headers: { 'sec-websocket-key': Buffer.from('key').toString('base64') },
+        socket: { remoteAddress: '127.0.0.1' },
+      } as any,
+      new EventEmitter() as any,
+      sandbox.stub(),
+      userRepository,
+      sandbox.stub(),
+      () => settings,
+    )
+    const authenticatedPubkeys: Set<string> = (adapter as any).authenticatedPubkeys
+    authenticatedPubkeys.add(pubkey)
+  })
+
+  afterEach(() => {
+    client.emit('close')
+    sandbox.restore()
+  })
+
+  describe('subscription billing', () => {
+    it('charges every minute for each billed subscription', async () => {
+      adapter.emit(WebSocketAdapterEvent.Subscribe, 'sub1', [{ kinds: [1] }])
+      adapter.emit(WebSocketAdapterEvent.Subscribe, 'sub2', [{}])
+
+      await clock.tickAsync(MINUTE)
+
+      expect(chargeBalanceStub).to.have.been.calledOnceWithExactly(
+        pubkey,
+        { assetCode: 'BTC', assetScale: 11, amount: 200n },
+        { type: LedgerEntryType.SUBSCRIPTION_FEE, reference: 'sub1,sub2' },
+      )
+
+      await clock.tickAsync(MINUTE)
+
+      expect(chargeBalanceStub).to.have.been.calledTwice
+      expect(getSentMessages()).to.be.empty
+    })
+
+    it('does not bill subscriptions again within their prepaid first minute', async () => {
+      adapter.emit(WebSocketAdapterEvent.Subscribe, 'sub1', [{}])
+      await clock.tickAsync(MINUTE / 2)
+      adapter.emit(WebSocketAdapterEvent.Subscribe, 'sub2', [{}])
+
+      await clock.tickAsync(MINUTE / 2)
+
+      expect(chargeBalanceStub).to.have.been.calledOnceWith(
+        pubkey,
+        { assetCode: 'BTC', assetScale: 11, amount: 100n },
+        { type: LedgerEntryType.SUBSCRIPTION_FEE, reference: 'sub1' },
+      )
+
+      await clock.tickAsync(MINUTE / 2)
+
+      expect(chargeBalanceStub.secondCall).to.have.been.calledWith(
+        pubkey,
+        { assetCode: 'BTC', assetScale: 11, amount: 100n },
+        { type: LedgerEntryType.SUBSCRIPTION_FEE, reference: 'sub2' },
+      )
+    })
+
+    it('bills each subscription one minute after it was last paid', async () => {
+      await clock.tickAsync(MINUTE / 2)
+      adapter.emit(WebSocketAdapterEvent.Subscribe, 'sub1', [{}])
+
+      await clock.tickAsync(MINUTE - 1000)
+
+      expect(chargeBalanceStub).not.to.have.been.called
+
+      await clock.tickAsync(1000)
+
+      expect(chargeBalanceStub).to.have.been.calledOnce
+
+      await clock.tickAsync(MINUTE - 1000)
+
+      expect(chargeBalanceStub).to.have.been.calledOnce
+
+      await clock.tickAsync(1000)
+
+      expect(chargeBalanceStub).to.have.been.calledTwice
+    })
+
+    it('does not bill subscriptions to other kinds', async () => {
+      adapter.emit(WebSocketAdapterEvent.Subscribe, 'sub1', [{ kinds: [0] }])
+
+      await clock.tickAsync(MINUTE)
+
+      expect(chargeBalanceStub).not.to.have.been.called
+    })
+
+    it('does not bill whitelisted pubkeys', async () => {
+      settings.payments.feeSchedules.subscription[0].whitelists = { pubkeys: ['aaaa'] }
+      adapter.emit(WebSocketAdapterEvent.Subscribe, 'sub1', [{}])
+
+      await clock.tickAsync(MINUTE)
+
+      expect(chargeBalanceStub).not.to.have.been.called
+    })
+
+    it('stops billing once subscriptions are closed', async () => {
+      adapter.emit(WebSocketAdapterEvent.Subscribe, 'sub1', [{}])
+      await clock.tickAsync(MINUTE)
+
+      adapter.emit(WebSocketAdapterEvent.Unsubscribe, 'sub1')
+      await clock.tickAsync(5 * MINUTE)
+
+      expect(chargeBalanceStub).to.have.been.calledOnce
+      expect(clock.countTimers()).to.equal(0)
+    })
+
+    it('does not bill if subscription fees are disabled', async () => {
+      settings.payments.feeSchedules.subscription[0].enabled = false
+      adapter.emit(WebSocketAdapterEvent.Subscribe, 'sub1', [{}])
+
+      await clock.tickAsync(MINUTE)
+
+      expect(chargeBalanceStub).not.to.have.been.called
+      expect(clock.countTimers()).to.equal(0)
+    })
+
+    it('sends notice when balance will not cover the next minute', async () => {
+      getBalanceByPubkeyStub.resolves(50n)
+      adapter.emit(WebSocketAdapterEvent.Subscribe, 'sub1', [{}])
+
+      await clock.tickAsync(MINUTE)
+
+      expect(getBalanceByPubkeyStub).to.have.been.calledOnceWithExactly(pubkey, { assetCode: 'BTC', assetScale: 11 })
+      expect(getSentMessages()).to.deep.equal([
+        ['NOTICE', 'Balance of 0.0000000005 BTC is running out: paid subscriptions will close within a minute'],
+      ])
+    })
+
+    it('closes billed subscriptions once balance runs out', async () => {
+      chargeBalanceStub.resolves(false)
+      adapter.emit(WebSocketAdapterEvent.Subscribe, 'sub1', [{}])
+      adapter.emit(WebSocketAdapterEvent.Subscribe, 'sub2', [{ kinds: [0] }])
+
+      await clock.tickAsync(MINUTE)
+
+      expect(getSentMessages()).to.deep.equal([
+        ['CLOSED', 'sub1', 'payment-required: insufficient balance for subscription fee of 0.000000001 BTC per minute'],
+      ])
+      expect([...adapter.getSubscriptions().keys()]).to.deep.equal(['sub2'])
+    })
+
+    it('closes billed subscriptions of unauthenticated clients', async () => {
+      const authenticatedPubkeys: Set<string> = (adapter as any).authenticatedPubkeys
+      authenticatedPubkeys.clear()
+      adapter.emit(WebSocketAdapterEvent.Subscribe, 'sub1', [{}])
+
+      await clock.tickAsync(MINUTE - 1000)
+
+      expect(getSentMessages()).to.be.empty
+
+      await clock.tickAsync(1000)
+
+      expect(chargeBalanceStub).not.to.have.been.called
+      expect(getSentMessages()).to.deep.equal([
+        ['CLOSED', 'sub1', 'auth-required: subscriptions on this relay are paid'],
+      ])
+    })
+  })
+
+  describe('authentication', () => {
+    const createAdapter = () => new WebSocketAdapter(
+      client,
+      {
+        headers: { 'sec-websocket-key': Buffer.from('key').toString('base64') },
+        socket: { remoteAddress: '127.0.0.1' },
+      } as any,
+      new EventEmitter() as any,
+      sandbox.stub(),
+      userRepository,
+      sandbox.stub(),
+      () => settings,
+    )
+
+    it('sends AUTH challenge on connect if authentication is enabled', () => {
+      settings.authentication = { enabled: true }
+
+      const authAdapter = createAdapter()
+
+      expect(getSentMessages()).to.deep.equal([['AUTH', authAdapter.getAuthChallenge()]])
+      expect(authAdapter.getAuthChallenge()).not.to.equal(adapter.getAuthChallenge())
+    })
+
+    it('does not send AUTH challenge if authentication is disabled', () => {
+      expect(getSentMessages()).to.be.empty
+    })
+
+    it('records authenticated pubkeys', () => {
+      adapter.emit(WebSocketAdapterEvent.Authenticate, 'b'.repeat(64))
+      adapter.emit(WebSocketAdapterEvent.Authenticate, pubkey)
+
+      expect(adapter.getAuthenticatedPubkeys()).to.deep.equal([pubkey, 'b'.repeat(64)])
+    })
+  })
+})
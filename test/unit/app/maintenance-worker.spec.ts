@@ -0,0 +1,513 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import {
+  IEventRepository,
+  IInvoiceRepository,
+  ILedgerRepository,
+  IUserRepository,
+} from '../../../src/@types/repositories'
+import { Invoice, InvoiceStatus } from '../../../src/@types/invoice'
+import { EventKinds } from '../../../src/constants/base'
+import { IlpConnectorPaymentsProcessor } from '../../../src/payments-processors/ilp-connector-payments-processor'
+import { LedgerEntryType } from '../../../src/@types/ledger'
+import { MaintenanceWorker } from '../../../src/app/maintenance-worker'
+import { MockIlpConnectorClient } from '../../helpers/mock-ilp-connector-client'
+import { PaymentsProcessorEvent } from '../../../src/constants/payments'
+import { PaymentsService } from '../../../src/services/payments-service'
+import { Settings } from '../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('MaintenanceWorker', () => {
+  const pubkey = 'a'.repeat(64)
+  let sandbox: Sinon.SinonSandbox
+  let settings: Settings
+  let connector: MockIlpConnectorClient
+  let invoices: Map<string, Invoice>
+  let confirmedInvoiceIds: Set<string>
+  let userRepository: IUserRepository
+  let invoiceRepository: IInvoiceRepository
+  let eventRepository: IEventRepository
+  let ledgerRepository: ILedgerRepository
+  let quoteStub: Sinon.SinonStub
+  let processor: IlpConnectorPaymentsProcessor
+  let paymentsService: PaymentsService
+  let worker: MaintenanceWorker
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    process.env.RELAY_PRIVATE_KEY = 'b'.repeat(64)
+    settings = {
+      info: { relay_url: 'wss://relay.example.com' },
+      payments: {
+        enabled: true,
+        processor: 'ilpConnector',
+        feeSchedules: {
+          admission: [{ enabled: true, amount: 1000000n }],
+          publication: [],
+        },
+      },
+      paymentsProcessors: { ilpConnector: { invoiceExpiry: 60 } },
+    } as any
+    connector = new MockIlpConnectorClient()
+    invoices = new Map()
+    confirmedInvoiceIds = new Set()
+
+    const trx = { commit: sandbox.stub().resolves(), rollback: sandbox.stub().resolves() }
+    const dbClient = { transaction: sandbox.stub().resolves(trx) } as any
+    userRepository = {
+      findByPubkey: sandbox.stub(),
+      upsert: sandbox.stub().resolves(1),
+      getBalanceByPubkey: sandbox.stub(),
+      chargeBalance: sandbox.stub().resolves(true),
+    }
+    invoiceRepository = {
+      findById: sandbox.stub().callsFake(async (id: string) => invoices.get(id)),
+      upsert: sandbox.stub().callsFake(async (invoice: Invoice) => {
+        invoices.set(invoice.id, invoice)
+        return 1
+      }),
+      updateStatus: sandbox.stub().callsFake(async ({ id, status }) => {
+        if (invoices.get(id).status === 'completed') {
+          return undefined
+        }
+        invoices.set(id, { ...invoices.get(id), status })
+        return invoices.get(id)
+      }),
+      confirmInvoice: sandbox.stub().callsFake(async (id: string) => {
+        if (confirmedInvoiceIds.has(id)) {
+          return false
+        }
+        confirmedInvoiceIds.add(id)
+        return true
+      }),
+      findPendingInvoices: sandbox.stub().callsFake(async (offset: number, limit: number) =>
+        [...invoices.values()].filter((invoice) => invoice.status === 'pending').slice(offset, offset + limit)
+      ),
+    }
+    eventRepository = {
+      create: sandbox.stub().resolves(1),
+      deleteExpiredEvents: sandbox.stub().resolves(0),
+    } as any
+    ledgerRepository = {
+      findByPubkey: sandbox.stub().resolves([]),
+      findBalanceMismatches: sandbox.stub().resolves([]),
+    }
+    quoteStub = sandbox.stub().rejects(new Error('No exchange rate'))
+
+    processor = new IlpConnectorPaymentsProcessor(connector, () => settings)
+    paymentsService = new PaymentsService(
+      dbClient,
+      processor,
+      userRepository,
+      invoiceRepository,
+      eventRepository,
+      {} as any,
+      { quote: quoteStub },
+      () => settings,
+    )
+    const fakeProcess = { on: sandbox.stub().returnsThis() } as unknown as NodeJS.Process
+    worker = new MaintenanceWorker(
+      fakeProcess,
+      paymentsService,
+      ledgerRepository,
+      eventRepository,
+      () => settings,
+    )
+  })
+
+  afterEach(() => {
+    worker.close()
+    sandbox.restore()
+    delete process.env.RELAY_PRIVATE_KEY
+  })
+
+  const runSchedule = () => (worker as any).onSchedule()
+
+  it('leaves invoices pending until the connector receives payment', async () => {
+    const invoice = await paymentsService.createInvoice(pubkey, 1000000n, 'Admission fee')
+
+    await runSchedule()
+
+    expect(invoices.get(invoice.id).status).to.equal('pending')
+    expect(invoiceRepository.confirmInvoice).not.to.have.been.called
+  })
+
+  it('confirms, admits and notifies once payment settles', async () => {
+    const invoice = await paymentsService.createInvoice(pubkey, 1000000n, 'Admission fee')
+    connector.pay(invoice.id, 1000000n)
+    connector.settle(invoice.id)
+
+    await runSchedule()
+
+    expect(invoices.get(invoice.id).status).to.equal('completed')
+    expect(invoiceRepository.confirmInvoice).to.have.been.calledOnceWith(invoice.id, 1000000n)
+    expect(userRepository.chargeBalance).to.have.been.calledOnceWith(
+      pubkey,
+      { assetCode: 'BTC', assetScale: 11, amount: 1000000n },
+      { type: LedgerEntryType.ADMISSION, reference: invoice.id },
+    )
+    expect(userRepository.upsert).to.have.been.calledWithMatch({ pubkey, isAdmitted: true })
+    expect(eventRepository.create).to.have.been.calledOnce.and.calledWithMatch({
+      kind: EventKinds.INVOICE_UPDATE,
+      content: 'Invoice paid: 0.00001 BTC',
+    })
+  })
+
+  it('credits amount actually paid for open amount invoices', async () => {
+    settings.paymentsProcessors.ilpConnector.invoiceExpiry = -1
+    const invoice = await paymentsService.createInvoice(pubkey, 0n, 'Top-up')
+    connector.pay(invoice.id, 2500000n)
+    connector.settle(invoice.id)
+
+    await runSchedule()
+
+    expect(invoiceRepository.confirmInvoice).to.have.been.calledOnceWith(invoice.id, 2500000n)
+  })
+
+  it('admits payers of invoices quoted in another asset', async () => {
+    const DROPS = { assetCode: 'XRP', assetScale: 6 }
+    quoteStub.resolves({
+      amount: { ...DROPS, amount: 1188236n },
+      baseAmount: { assetCode: 'BTC', assetScale: 11, amount: 1000000n },
+      rate: '0.0000085',
+      slippage: 0.01,
+    })
+    const invoice = await paymentsService.createInvoice(pubkey, 1000000n, 'Admission fee', DROPS)
+    connector.pay(invoice.id, 1188236n)
+    connector.settle(invoice.id)
+
+    await runSchedule()
+
+    expect(quoteStub).to.have.been.calledOnceWithExactly(1000000n, DROPS)
+    expect(invoices.get(invoice.id)).to.include({ assetCode: 'XRP', amountRequested: 1188236n })
+    expect(invoices.get(invoice.id).quote.baseAmount.amount).to.equal(1000000n)
+    expect(invoiceRepository.confirmInvoice).to.have.been.calledOnceWith(invoice.id, 1188236n)
+    expect(userRepository.chargeBalance).to.have.been.calledOnceWith(
+      pubkey,
+      { ...DROPS, amount: 1188236n },
+      { type: LedgerEntryType.ADMISSION, reference: invoice.id },
+    )
+    expect(userRepository.upsert).to.have.been.calledWithMatch({ pubkey, isAdmitted: true })
+  })
+
+  it('credits top-ups of admitted payers in full', async () => {
+    const findByPubkeyStub = userRepository.findByPubkey as Sinon.SinonStub
+    findByPubkeyStub.resolves({ pubkey, isAdmitted: true, admittedUntil: null })
+    const invoice = await paymentsService.createInvoice(pubkey, 2000000n, 'Top-up')
+    connector.pay(invoice.id, 2000000n)
+    connector.settle(invoice.id)
+
+    await runSchedule()
+
+    expect(invoiceRepository.confirmInvoice).to.have.been.calledOnceWith(invoice.id, 2000000n)
+    expect(userRepository.chargeBalance).not.to.have.been.called
+    expect(eventRepository.create).to.have.been.calledOnce
+  })
+
+  it('charges the admission fee once if an invoice is confirmed twice', async () => {
+    const invoice = await paymentsService.createInvoice(pubkey, 1000000n, 'Admission fee')
+    const paidInvoice = {
+      ...invoices.get(invoice.id),
+      status: InvoiceStatus.COMPLETED,
+      amountPaid: 1000000n,
+      confirmedAt: new Date(),
+    }
+
+    expect(await paymentsService.confirmInvoice(paidInvoice)).to.be.true
+    expect(await paymentsService.confirmInvoice(paidInvoice)).to.be.false
+
+    expect(invoiceRepository.confirmInvoice).to.have.been.calledTwice
+    expect(userRepository.chargeBalance).to.have.been.calledOnce
+    const admissions = (userRepository.upsert as Sinon.SinonStub)
+      .getCalls()
+      .filter((call) => call.args[0].isAdmitted)
+    expect(admissions).to.have.length(1)
+  })
+
+  it('does not admit payers if the admission fee cannot be charged', async () => {
+    const consoleErrorStub = sandbox.stub(console, 'error')
+    const chargeBalanceStub = userRepository.chargeBalance as Sinon.SinonStub
+    chargeBalanceStub.resolves(false)
+    const invoice = await paymentsService.createInvoice(pubkey, 1000000n, 'Admission fee')
+    connector.pay(invoice.id, 1000000n)
+    connector.settle(invoice.id)
+
+    await runSchedule()
+
+    expect(invoiceRepository.confirmInvoice).to.have.been.calledOnce
+    expect(userRepository.upsert).not.to.have.been.calledWithMatch({ isAdmitted: true })
+    expect(consoleErrorStub).to.have.been.calledWithMatch('unable to charge admission fee')
+  })
+
+  it('does not admit payers who underpay a quoted invoice', async () => {
+    const DROPS = { assetCode: 'XRP', assetScale: 6 }
+    quoteStub.resolves({
+      amount: { ...DROPS, amount: 1188236n },
+      baseAmount: { assetCode: 'BTC', assetScale: 11, amount: 1000000n },
+      rate: '0.0000085',
+      slippage: 0.01,
+    })
+    settings.paymentsProcessors.ilpConnector.invoiceExpiry = -1
+    const invoice = await paymentsService.createInvoice(pubkey, 1000000n, 'Admission fee', DROPS)
+    connector.pay(invoice.id, 1000n)
+    connector.settle(invoice.id)
+
+    await runSchedule()
+
+    expect(userRepository.upsert).not.to.have.been.calledWithMatch({ isAdmitted: true })
+  })
+
+  describe('admission plans', () => {
+    const DAY = 24 * 60 * 60 * 1000
+
+    beforeEach(() => {
+      settings.payments.admissionPlans = [
+        { id: 'monthly', amount: 1000000n, days: 30 },
+        { id: 'lifetime', amount: 5000000n },
+      ]
+    })
+
+    const payPlan = async (plan: string, amount: bigint) => {
+      const invoice = await paymentsService.createInvoice(pubkey, amount, 'Admission fee', undefined, plan)
+      connector.pay(invoice.id, amount)
+      connector.settle(invoice.id)
+
+      await runSchedule()
+
+      return invoice
+    }
+
+    const getAdmittedUntil = (): Date | null => (userRepository.upsert as Sinon.SinonStub)
+      .getCalls()
+      .map((call) => call.args[0])
+      .find((user) => user.isAdmitted)
+      ?.admittedUntil
+
+    it('admits payers until the plan ends', async () => {
+      const invoice = await payPlan('monthly', 1000000n)
+
+      expect(invoices.get(invoice.id).admissionPlan).to.equal('monthly')
+      const admittedUntil = getAdmittedUntil()
+      expect(admittedUntil.getTime() - Date.now()).to.be.within(30 * DAY - 60000, 30 * DAY)
+    })
+
+    it('extends admission renewed before it expires', async () => {
+      const expiresAt = new Date(Date.now() + 5 * DAY)
+      const findByPubkeyStub = userRepository.findByPubkey as Sinon.SinonStub
+      findByPubkeyStub.resolves({ pubkey, isAdmitted: true, admittedUntil: expiresAt })
+
+      await payPlan('monthly', 1000000n)
+
+      expect(getAdmittedUntil()).to.deep.equal(new Date(expiresAt.getTime() + 30 * DAY))
+    })
+
+    it('admits payers of lifetime plans for good', async () => {
+      await payPlan('lifetime', 5000000n)
+
+      expect(userRepository.upsert).to.have.been.calledWithMatch({ pubkey, isAdmitted: true, admittedUntil: null })
+    })
+
+    it('does not admit payers who underpay a plan', async () => {
+      await payPlan('lifetime', 1000000n)
+
+      expect(userRepository.upsert).not.to.have.been.calledWithMatch({ isAdmitted: true })
+    })
+
+    it('does not admit payers of unknown plans', async () => {
+      const consoleErrorStub = sandbox.stub(console, 'error')
+
+      await payPlan('weekly', 1000000n)
+
+      expect(userRepository.upsert).not.to.have.been.calledWithMatch({ isAdmitted: true })
+      expect(consoleErrorStub).to.have.been.calledWithMatch('unknown admission plan weekly')
+    })
+  })
+
+  it('marks unpaid invoices expired', async () => {
+    settings.paymentsProcessors.ilpConnector.invoiceExpiry = -1
+    const invoice = await paymentsService.createInvoice(pubkey, 1000000n, 'Admission fee')
+
+    await runSchedule()
+
+    expect(invoices.get(invoice.id).status).to.equal('expired')
+    expect(invoiceRepository.confirmInvoice).not.to.have.been.called
+  })
+
+  it('marks expired invoices the payments processor no longer knows expired', async () => {
+    settings.paymentsProcessors.ilpConnector.invoiceExpiry = -1
+    const invoice = await paymentsService.createInvoice(pubkey, 1000000n, 'Admission fee')
+    sandbox.stub(connector, 'getReceiver').resolves(undefined)
+
+    await runSchedule()
+
+    expect(invoices.get(invoice.id).status).to.equal('expired')
+  })
+
+  it('pages through all pending invoices', async () => {
+    settings.paymentsProcessors.ilpConnector.invoiceExpiry = -1
+    for (let i = 0; i < 150; i++) {
+      await paymentsService.createInvoice(pubkey, 1000000n, 'Admission fee')
+    }
+    settings.paymentsProcessors.ilpConnector.invoiceExpiry = 60
+    const pendingInvoice = await paymentsService.createInvoice(pubkey, 1000000n, 'Admission fee')
+    const paidInvoice = await paymentsService.createInvoice(pubkey, 1000000n, 'Admission fee')
+    connector.pay(paidInvoice.id, 1000000n)
+    connector.settle(paidInvoice.id)
+
+    await runSchedule()
+
+    const statuses = [...invoices.values()].map((invoice) => invoice.status)
+    expect(statuses.filter((status) => status === 'expired')).to.have.length(150)
+    expect(invoices.get(pendingInvoice.id).status).to.equal('pending')
+    expect(invoices.get(paidInvoice.id).status).to.equal('completed')
+    expect(invoiceRepository.findPendingInvoices).to.have.been.calledWith(0, 100)
+  })
+
+  describe('when payments processor reports a payment', () => {
+    beforeEach(() => {
+      worker.run()
+    })
+
+    const waitForConfirmation = async () => {
+      for (let attempt = 0; attempt < 10 && !(eventRepository.create as Sinon.SinonStub).called; attempt++) {
+        await new Promise((resolve) => setImmediate(resolve))
+      }
+    }
+
+    it('confirms and notifies right away', async () => {
+      const invoice = await paymentsService.createInvoice(pubkey, 1000000n, 'Admission fee')
+
+      processor.emit(PaymentsProcessorEvent.PaymentReceived, {
+        id: invoice.id,
+        status: 'completed',
+        amountPaid: 1000000n,
+        confirmedAt: new Date(),
+      })
+      await waitForConfirmation()
+
+      expect(invoices.get(invoice.id).status).to.equal('completed')
+      expect(invoiceRepository.confirmInvoice).to.have.been.calledOnceWith(invoice.id, 1000000n)
+      expect(userRepository.upsert).to.have.been.calledWithMatch({ pubkey, isAdmitted: true })
+      expect(eventRepository.create).to.have.been.calledOnce.and.calledWithMatch({
+        kind: EventKinds.INVOICE_UPDATE,
+        content: 'Invoice paid: 0.00001 BTC',
+      })
+    })
+
+    it('confirms once if the sweep reports the same payment', async () => {
+      const invoice = await paymentsService.createInvoice(pubkey, 1000000n, 'Admission fee')
+      connector.pay(invoice.id, 1000000n)
+      connector.settle(invoice.id)
+      const staleInvoice = invoices.get(invoice.id)
+
+      processor.emit(PaymentsProcessorEvent.PaymentReceived, {
+        id: invoice.id,
+        status: 'completed',
+        amountPaid: 1000000n,
+        confirmedAt: new Date(),
+      })
+      await waitForConfirmation()
+      await (worker as any).reconcileInvoice(staleInvoice)
+
+      expect(invoiceRepository.confirmInvoice).to.have.been.calledOnce
+      expect(userRepository.chargeBalance).to.have.been.calledOnce
+      expect(eventRepository.create).to.have.been.calledOnce
+    })
+
+    it('stops listening once closed', async () => {
+      const invoice = await paymentsService.createInvoice(pubkey, 1000000n, 'Admission fee')
+      worker.close()
+
+      processor.emit(PaymentsProcessorEvent.PaymentReceived, {
+        id: invoice.id,
+        status: 'completed',
+        amountPaid: 1000000n,
+        confirmedAt: new Date(),
+      })
+      await waitForConfirmation()
+
+      expect(invoiceRepository.confirmInvoice).not.to.have.been.called
+    })
+  })
+
+  describe('ledger audit', () => {
+    const auditLedger = () => (worker as any).auditLedger()
+
+    it('reports balances not matching the ledger', async () => {
+      const consoleErrorStub = sandbox.stub(console, 'error')
+      const findBalanceMismatchesStub = ledgerRepository.findBalanceMismatches as Sinon.SinonStub
+      findBalanceMismatchesStub.resolves([
+        { pubkey, assetCode: 'BTC', assetScale: 11, balance: 2000n, ledgerBalance: 1000n },
+      ])
+
+      await auditLedger()
+
+      expect(consoleErrorStub).to.have.been.calledOnceWithExactly(
+        `Balance of ${pubkey} in BTC does not match the ledger: 2000 != 1000`,
+      )
+    })
+
+    it('skips audit if payments are disabled', async () => {
+      settings.payments.enabled = false
+
+      await auditLedger()
+
+      expect(ledgerRepository.findBalanceMismatches).not.to.have.been.called
+    })
+  })
+
+  describe('expired events purge', () => {
+    const purgeExpiredEvents = () => (worker as any).purgeExpiredEvents()
+    let deleteExpiredEventsStub: Sinon.SinonStub
+
+    beforeEach(() => {
+      settings.maintenance = { purgeExpiredEvents: { enabled: true, batchSize: 2, interval: 60000 } }
+      deleteExpiredEventsStub = eventRepository.deleteExpiredEvents as Sinon.SinonStub
+    })
+
+    it('deletes batches of expired events until none are left', async () => {
+      deleteExpiredEventsStub.onFirstCall().resolves(2)
+      deleteExpiredEventsStub.onSecondCall().resolves(1)
+
+      await purgeExpiredEvents()
+
+      expect(deleteExpiredEventsStub).to.have.been.calledTwice
+      expect(deleteExpiredEventsStub).to.always.have.been.calledWithExactly(2)
+    })
+
+    it('skips purge if disabled', async () => {
+      settings.maintenance.purgeExpiredEvents.enabled = false
+
+      await purgeExpiredEvents()
+
+      expect(deleteExpiredEventsStub).not.to.have.been.called
+    })
+
+    it('skips purge while one is running', async () => {
+      let resolveBatch: (count: number) => void
+      deleteExpiredEventsStub.returns(new Promise((resolve) => { resolveBatch = resolve }))
+
+      const purge = purgeExpiredEvents()
+      await purgeExpiredEvents()
+      resolveBatch(0)
+      await purge
+
+      expect(deleteExpiredEventsStub).to.have.been.calledOnce
+    })
+
+    it('reports errors', async () => {
+      const consoleErrorStub = sandbox.stub(console, 'error')
+      const error = new Error('mistakes were made')
+      deleteExpiredEventsStub.rejects(error)
+
+      await purgeExpiredEvents()
+
+      expect(consoleErrorStub).to.have.been.calledOnceWithExactly('Unable to purge expired events. Reason:', error)
+    })
+  })
+})
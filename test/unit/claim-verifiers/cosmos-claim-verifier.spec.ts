@@ -0,0 +1,58 @@
+import * as secp256k1 from '@noble/secp256k1'
+import { createHash } from 'crypto'
+import { expect } from 'chai'
+
+import { CosmosClaimVerifier, getCosmosClaimSignDoc } from '../../../src/claim-verifiers/cosmos-claim-verifier'
+import { PaymentChannel, PaymentChannelClaim } from '../../../src/@types/payment-channel'
+
+describe('CosmosClaimVerifier', () => {
+  const privateKey = '03'.repeat(32)
+  const chainId = 'akashnet-2'
+  const channelId = 'akash-channel-1'
+  let channel: PaymentChannel
+  let verifier: CosmosClaimVerifier
+
+  const signClaim = async (amount: bigint, key = privateKey, signedChainId = chainId): Promise<PaymentChannelClaim> => {
+    const hash = createHash('sha256').update(getCosmosClaimSignDoc(signedChainId, channelId, amount)).digest()
+    const signature = await secp256k1.sign(hash, key, { der: false })
+
+    return { channelId, amount, signature: Buffer.from(signature).toString('hex') }
+  }
+
+  beforeEach(() => {
+    channel = {
+      id: channelId,
+      chain: 'akash',
+      senderKey: Buffer.from(secp256k1.getPublicKey(privateKey, true)).toString('hex'),
+    } as PaymentChannel
+    verifier = new CosmosClaimVerifier(chainId)
+  })
+
+  it('serializes sign doc with sorted keys', () => {
+    expect(getCosmosClaimSignDoc(chainId, channelId, 5n).toString()).to.equal(
+      '{"amount":"5","chain_id":"akashnet-2","channel_id":"akash-channel-1"}',
+    )
+  })
+
+  it('returns true if claim is signed by channel sender', async () => {
+    expect(verifier.verifySignature(channel, await signClaim(1000n))).to.be.true
+  })
+
+  it('returns false if claim is signed by someone else', async () => {
+    expect(verifier.verifySignature(channel, await signClaim(1000n, '04'.repeat(32)))).to.be.false
+  })
+
+  it('returns false if claim was signed for another chain', async () => {
+    expect(verifier.verifySignature(channel, await signClaim(1000n, privateKey, 'cosmoshub-4'))).to.be.false
+  })
+
+  it('returns false if amount was tampered with', async () => {
+    const claim = await signClaim(1000n)
+
+    expect(verifier.verifySignature(channel, { ...claim, amount: 1001n })).to.be.false
+  })
+
+  it('returns false if signature is malformed', () => {
+    expect(verifier.verifySignature(channel, { channelId, amount: 1n, signature: 'zz' })).to.be.false
+  })
+})
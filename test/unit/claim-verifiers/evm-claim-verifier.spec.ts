@@ -0,0 +1,58 @@
+import * as secp256k1 from '@noble/secp256k1'
+import { expect } from 'chai'
+import { keccak_256 } from '@noble/hashes/sha3'
+
+import { EvmClaimVerifier, getEvmClaimHash, toEvmAddress } from '../../../src/claim-verifiers/evm-claim-verifier'
+import { PaymentChannel, PaymentChannelClaim } from '../../../src/@types/payment-channel'
+
+describe('EvmClaimVerifier', () => {
+  const privateKey = '0000000000000000000000000000000000000000000000000000000000000001'
+  const channelId = `0x${'ab'.repeat(32)}`
+  let channel: PaymentChannel
+  let verifier: EvmClaimVerifier
+
+  const signClaim = async (amount: bigint, key = privateKey): Promise<PaymentChannelClaim> => {
+    const digest = keccak_256(Buffer.concat([
+      Buffer.from('\x19Ethereum Signed Message:\n32', 'ascii'),
+      getEvmClaimHash(channelId, amount),
+    ]))
+    const [signature, recovery] = await secp256k1.sign(digest, key, { der: false, recovered: true })
+
+    return {
+      channelId,
+      amount,
+      signature: `0x${Buffer.from(signature).toString('hex')}${(27 + recovery).toString(16)}`,
+    }
+  }
+
+  beforeEach(() => {
+    channel = {
+      id: channelId,
+      chain: 'base',
+      senderKey: '0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf',
+    } as PaymentChannel
+    verifier = new EvmClaimVerifier()
+  })
+
+  it('derives address from public key', () => {
+    expect(toEvmAddress(secp256k1.getPublicKey(privateKey))).to.equal('0x7e5f4552091a69125d5dfcb7b8c2659029395bdf')
+  })
+
+  it('returns true if claim is signed by channel sender', async () => {
+    expect(verifier.verifySignature(channel, await signClaim(1000n))).to.be.true
+  })
+
+  it('returns false if claim is signed by someone else', async () => {
+    expect(verifier.verifySignature(channel, await signClaim(1000n, '02'.repeat(32)))).to.be.false
+  })
+
+  it('returns false if amount was tampered with', async () => {
+    const claim = await signClaim(1000n)
+
+    expect(verifier.verifySignature(channel, { ...claim, amount: 2000n })).to.be.false
+  })
+
+  it('returns false if signature is malformed', () => {
+    expect(verifier.verifySignature(channel, { channelId, amount: 1n, signature: '0xdeadbeef' })).to.be.false
+  })
+})
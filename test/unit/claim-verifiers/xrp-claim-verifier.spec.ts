@@ -0,0 +1,89 @@
+import * as secp256k1 from '@noble/secp256k1'
+import { createHash, createPrivateKey, createPublicKey, sign } from 'crypto'
+import { expect } from 'chai'
+
+import { getXrpClaimMessage, XrpClaimVerifier } from '../../../src/claim-verifiers/xrp-claim-verifier'
+import { PaymentChannel, PaymentChannelClaim } from '../../../src/@types/payment-channel'
+
+describe('XrpClaimVerifier', () => {
+  const channelId = 'C1AE6DDDEEC05CF2978C0BAD6FE302948E9533691DC749DCDD3B9E5992CA6198'
+  let verifier: XrpClaimVerifier
+
+  beforeEach(() => {
+    verifier = new XrpClaimVerifier()
+  })
+
+  it('serializes claim with prefix, channel id and amount', () => {
+    expect(getXrpClaimMessage(channelId, 1000000n).toString('hex').toUpperCase()).to.equal(
+      `434C4D00${channelId}00000000000F4240`,
+    )
+  })
+
+  describe('ed25519 channels', () => {
+    const privateKey = createPrivateKey({
+      key: Buffer.concat([Buffer.from('302e020100300506032b657004220420', 'hex'), Buffer.alloc(32, 1)]),
+      format: 'der',
+      type: 'pkcs8',
+    })
+    let channel: PaymentChannel
+
+    const signClaim = (amount: bigint): PaymentChannelClaim => ({
+      channelId,
+      amount,
+      signature: sign(null, getXrpClaimMessage(channelId, amount), privateKey).toString('hex').toUpperCase(),
+    })
+
+    beforeEach(() => {
+      const { x } = createPublicKey(privateKey).export({ format: 'jwk' })
+      channel = {
+        id: channelId,
+        chain: 'xrp',
+        senderKey: `ED${Buffer.from(x, 'base64url').toString('hex').toUpperCase()}`,
+      } as PaymentChannel
+    })
+
+    it('returns true if claim is signed by channel key', () => {
+      expect(verifier.verifySignature(channel, signClaim(1000n))).to.be.true
+    })
+
+    it('returns false if amount was tampered with', () => {
+      expect(verifier.verifySignature(channel, { ...signClaim(1000n), amount: 999n })).to.be.false
+    })
+
+    it('returns false if channel id is invalid', () => {
+      expect(verifier.verifySignature(channel, { ...signClaim(1000n), channelId: 'abc' })).to.be.false
+    })
+  })
+
+  describe('secp256k1 channels', () => {
+    const privateKey = '05'.repeat(32)
+    let channel: PaymentChannel
+
+    const signClaim = async (amount: bigint, key = privateKey): Promise<PaymentChannelClaim> => {
+      const hash = createHash('sha512').update(getXrpClaimMessage(channelId, amount)).digest().subarray(0, 32)
+      const signature = await secp256k1.sign(hash, key)
+
+      return { channelId, amount, signature: Buffer.from(signature).toString('hex') }
+    }
+
+    beforeEach(() => {
+      channel = {
+        id: channelId,
+        chain: 'xrp',
+        senderKey: Buffer.from(secp256k1.getPublicKey(privateKey, true)).toString('hex'),
+      } as PaymentChannel
+    })
+
+    it('returns true if claim is signed by channel key', async () => {
+      expect(verifier.verifySignature(channel, await signClaim(1000n))).to.be.true
+    })
+
+    it('returns false if claim is signed by someone else', async () => {
+      expect(verifier.verifySignature(channel, await signClaim(1000n, '06'.repeat(32)))).to.be.false
+    })
+
+    it('returns false if signature is malformed', () => {
+      expect(verifier.verifySignature(channel, { channelId, amount: 1n, signature: 'not-a-signature' })).to.be.false
+    })
+  })
+})
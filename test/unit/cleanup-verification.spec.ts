@@ -5,15 +5,18 @@ import { join } from 'path'
 describe('Payment Processor Cleanup Verification', () => {
   const srcDir = join(__dirname, '../../src')
 
-  it('should not have payment processor directories except null-payments-processor', () => {
+  it('should not have payment processors except null and ILP payments processors', () => {
     const paymentsProcessorsDir = join(srcDir, 'payments-processors')
     expect(existsSync(paymentsProcessorsDir)).toBe(true)
 
     const files = readdirSync(paymentsProcessorsDir)
     const tsFiles = files.filter(f => f.endsWith('.ts'))
 
-    expect(tsFiles).toHaveLength(1)
-    expect(tsFiles[0]).toBe('null-payments-processor.ts')
+    expect(tsFiles.sort()).toEqual([
+      'ilp-connector-payments-processor.ts',
+      'ilp-stream-payments-processor.ts',
+      'null-payments-processor.ts',
+    ])
   })
 
   it('should not have callback controller directories', () => {
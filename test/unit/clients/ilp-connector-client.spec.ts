@@ -0,0 +1,159 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(chaiAsPromised)
+chai.use(sinonChai)
+
+import { AxiosInstance } from 'axios'
+import { IlpConnectorClient } from '../../../src/clients/ilp-connector-client'
+import { IlpSettlementStatus } from '../../../src/@types/clients'
+
+const { expect } = chai
+
+describe('IlpConnectorClient', () => {
+  const rpcReceiver = {
+    id: 'receiver-id',
+    destinationAccount: 'g.dassie.relay.receiver-id',
+    sharedSecret: Buffer.alloc(32, 1).toString('base64'),
+    assetCode: 'XRP',
+    assetScale: 9,
+    amount: '1000',
+    amountReceived: '250',
+    expiresAt: '2030-01-01T00:00:00.000Z',
+    createdAt: '2029-12-31T23:45:00.000Z',
+  }
+  let getStub: Sinon.SinonStub
+  let postStub: Sinon.SinonStub
+  let client: IlpConnectorClient
+
+  beforeEach(() => {
+    getStub = Sinon.stub()
+    postStub = Sinon.stub()
+    client = new IlpConnectorClient({ get: getStub, post: postStub } as unknown as AxiosInstance)
+  })
+
+  describe('createReceiver', () => {
+    it('calls createReceiver mutation and parses receiver', async () => {
+      postStub.resolves({ data: { result: { data: rpcReceiver } } })
+
+      const receiver = await client.createReceiver({
+        assetCode: 'XRP',
+        assetScale: 9,
+        amount: 1000n,
+        expiresAt: new Date('2030-01-01T00:00:00.000Z'),
+        description: 'Admission fee',
+      })
+
+      expect(postStub).to.have.been.calledOnceWithExactly('/payment.createReceiver', {
+        assetCode: 'XRP',
+        assetScale: 9,
+        amount: '1000',
+        expiresAt: '2030-01-01T00:00:00.000Z',
+        description: 'Admission fee',
+      })
+      expect(receiver).to.deep.equal({
+        ...rpcReceiver,
+        amount: 1000n,
+        amountReceived: 250n,
+        expiresAt: new Date(rpcReceiver.expiresAt),
+        createdAt: new Date(rpcReceiver.createdAt),
+      })
+    })
+
+    it('rejects with connector error message', async () => {
+      postStub.rejects(Object.assign(new Error('Request failed with status code 400'), {
+        response: { data: { error: { message: 'Unsupported asset' } } },
+      }))
+
+      await expect(client.createReceiver({
+        assetCode: 'ETH',
+        assetScale: 18,
+        amount: 1n,
+        expiresAt: new Date(),
+      })).to.eventually.be.rejectedWith('ILP connector payment.createReceiver failed: Unsupported asset')
+    })
+  })
+
+  describe('getReceiver', () => {
+    it('calls getReceiver query with JSON input', async () => {
+      getStub.resolves({ data: { result: { data: rpcReceiver } } })
+
+      const receiver = await client.getReceiver('receiver-id')
+
+      expect(getStub).to.have.been.calledOnceWithExactly('/payment.getReceiver', {
+        params: { input: '{"id":"receiver-id"}' },
+      })
+      expect(receiver).to.have.property('amountReceived', 250n)
+    })
+
+    it('returns undefined if receiver does not exist', async () => {
+      getStub.resolves({ data: { result: { data: null } } })
+
+      expect(await client.getReceiver('unknown')).to.be.undefined
+    })
+  })
+
+  describe('getIncomingPayments', () => {
+    it('returns parsed incoming payments', async () => {
+      getStub.resolves({
+        data: {
+          result: {
+            data: [{ id: 'payment-id', receiverId: 'receiver-id', amount: '250', receivedAt: '2030-01-01T00:00:00.000Z' }],
+          },
+        },
+      })
+
+      expect(await client.getIncomingPayments('receiver-id')).to.deep.equal([
+        { id: 'payment-id', receiverId: 'receiver-id', amount: 250n, receivedAt: new Date('2030-01-01T00:00:00.000Z') },
+      ])
+      expect(getStub).to.have.been.calledOnceWithExactly('/payment.getIncomingPayments', {
+        params: { input: '{"receiverId":"receiver-id"}' },
+      })
+    })
+  })
+
+  describe('getSettlementStatus', () => {
+    it('returns settlement status', async () => {
+      getStub.resolves({ data: { result: { data: { status: 'settled' } } } })
+
+      expect(await client.getSettlementStatus('receiver-id')).to.equal(IlpSettlementStatus.SETTLED)
+    })
+  })
+
+  describe('sendPayment', () => {
+    it('calls sendPayment mutation and parses outgoing payment', async () => {
+      const rpcPayment = {
+        id: 'payment-id',
+        paymentPointer: '$wallet.example/alice',
+        assetCode: 'XRP',
+        assetScale: 9,
+        amount: '1000',
+        amountSent: '600',
+        createdAt: '2029-12-31T23:45:00.000Z',
+      }
+      postStub.resolves({ data: { result: { data: rpcPayment } } })
+
+      const payment = await client.sendPayment({
+        paymentPointer: '$wallet.example/alice',
+        assetCode: 'XRP',
+        assetScale: 9,
+        amount: 1000n,
+      })
+
+      expect(postStub).to.have.been.calledOnceWithExactly('/payment.sendPayment', {
+        paymentPointer: '$wallet.example/alice',
+        assetCode: 'XRP',
+        assetScale: 9,
+        amount: '1000',
+      })
+      expect(payment).to.deep.equal({
+        ...rpcPayment,
+        amount: 1000n,
+        amountSent: 600n,
+        createdAt: new Date(rpcPayment.createdAt),
+      })
+    })
+  })
+})
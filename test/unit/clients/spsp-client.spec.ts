@@ -0,0 +1,57 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(chaiAsPromised)
+chai.use(sinonChai)
+
+import { AxiosInstance } from 'axios'
+import { SpspClient } from '../../../src/clients/spsp-client'
+
+const { expect } = chai
+
+describe('SpspClient', () => {
+  let getStub: Sinon.SinonStub
+  let client: SpspClient
+
+  beforeEach(() => {
+    getStub = Sinon.stub()
+    client = new SpspClient({ get: getStub } as unknown as AxiosInstance)
+  })
+
+  it('queries the SPSP endpoint of the payment pointer', async () => {
+    getStub.resolves({
+      data: {
+        destination_account: 'g.wallet.alice',
+        shared_secret: Buffer.alloc(32, 1).toString('base64'),
+      },
+    })
+
+    const response = await client.query('$wallet.example/alice')
+
+    expect(getStub).to.have.been.calledOnceWithExactly('https://wallet.example/alice', {
+      headers: { accept: 'application/spsp4+json' },
+    })
+    expect(response).to.deep.equal({
+      destinationAccount: 'g.wallet.alice',
+      sharedSecret: Buffer.alloc(32, 1),
+    })
+  })
+
+  it('rejects if response is missing STREAM credentials', async () => {
+    getStub.resolves({ data: { destination_account: 'g.wallet.alice' } })
+
+    await expect(client.query('$wallet.example/alice')).to.eventually.be.rejectedWith(
+      'SPSP query to https://wallet.example/alice failed: invalid response',
+    )
+  })
+
+  it('rejects if request fails', async () => {
+    getStub.rejects(new Error('Request failed with status code 404'))
+
+    await expect(client.query('$wallet.example/alice')).to.eventually.be.rejectedWith(
+      'SPSP query to https://wallet.example/alice failed: Request failed with status code 404',
+    )
+  })
+})
@@ -0,0 +1,160 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { LedgerAccount, LedgerEntry, LedgerEntryType } from '../../../../src/@types/ledger'
+import { GetLedgerExportController } from '../../../../src/controllers/admin/get-ledger-export-controller'
+
+const { expect } = chai
+
+describe('GetLedgerExportController', () => {
+  const pubkey = 'f'.repeat(64)
+  const apiKey = 'admin-api-key'
+  let sandbox: Sinon.SinonSandbox
+  let entries: LedgerEntry[]
+  let findByPubkeyStub: Sinon.SinonStub
+  let request: any
+  let response: any
+  let controller: GetLedgerExportController
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    entries = [
+      {
+        id: '1',
+        transactionId: '1',
+        account: LedgerAccount.USER,
+        pubkey,
+        assetCode: 'BTC',
+        assetScale: 11,
+        amount: 1000000n,
+        type: LedgerEntryType.INVOICE,
+        reference: 'invoice-id',
+        createdAt: new Date('2025-01-01T00:00:00.000Z'),
+      },
+      {
+        id: '4',
+        transactionId: '2',
+        account: LedgerAccount.USER,
+        pubkey,
+        assetCode: 'BTC',
+        assetScale: 11,
+        amount: -100n,
+        type: LedgerEntryType.SUBSCRIPTION_FEE,
+        reference: 'sub1,sub2',
+        createdAt: new Date('2025-01-01T00:01:00.000Z'),
+      },
+    ]
+    findByPubkeyStub = sandbox.stub().resolves(entries)
+    request = {
+      params: { pubkey },
+      query: {},
+      headers: { authorization: `Bearer ${apiKey}` },
+    }
+    response = {
+      status: sandbox.stub().returnsThis(),
+      setHeader: sandbox.stub().returnsThis(),
+      send: sandbox.stub().returnsThis(),
+    }
+    controller = new GetLedgerExportController(
+      { findByPubkey: findByPubkeyStub, findBalanceMismatches: sandbox.stub() },
+      apiKey,
+    )
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  it('exports ledger entries with running balance as JSON', async () => {
+    await controller.handleRequest(request, response)
+
+    expect(findByPubkeyStub).to.have.been.calledOnceWithExactly(pubkey)
+    expect(response.status).to.have.been.calledOnceWithExactly(200)
+    expect(response.send).to.have.been.calledOnceWithExactly({
+      pubkey,
+      entries: [
+        {
+          id: '1',
+          transaction_id: '1',
+          created_at: '2025-01-01T00:00:00.000Z',
+          type: 'invoice',
+          reference: 'invoice-id',
+          asset_code: 'BTC',
+          asset_scale: 11,
+          amount: '1000000',
+          balance: '1000000',
+        },
+        {
+          id: '4',
+          transaction_id: '2',
+          created_at: '2025-01-01T00:01:00.000Z',
+          type: 'subscription_fee',
+          reference: 'sub1,sub2',
+          asset_code: 'BTC',
+          asset_scale: 11,
+          amount: '-100',
+          balance: '999900',
+        },
+      ],
+    })
+  })
+
+  it('exports ledger entries as CSV', async () => {
+    request.query.format = 'csv'
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(200)
+    expect(response.setHeader).to.have.been.calledWithExactly('content-type', 'text/csv; charset=utf8')
+    expect(response.send).to.have.been.calledOnceWithExactly([
+      'id,transaction_id,created_at,type,reference,asset_code,asset_scale,amount,balance',
+      '1,1,2025-01-01T00:00:00.000Z,invoice,invoice-id,BTC,11,1000000,1000000',
+      '4,2,2025-01-01T00:01:00.000Z,subscription_fee,"sub1,sub2",BTC,11,-100,999900',
+    ].join('\r\n'))
+  })
+
+  it('responds with 401 given a wrong API key', async () => {
+    request.headers.authorization = 'Bearer wrong'
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(401)
+    expect(findByPubkeyStub).not.to.have.been.called
+  })
+
+  it('responds with 401 without API key', async () => {
+    request.headers = {}
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(401)
+  })
+
+  it('responds with 404 if no API key is configured', async () => {
+    controller = new GetLedgerExportController({ findByPubkey: findByPubkeyStub } as any, undefined)
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(404)
+    expect(findByPubkeyStub).not.to.have.been.called
+  })
+
+  it('responds with 400 given an invalid pubkey', async () => {
+    request.params.pubkey = 'npub1'
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+  })
+
+  it('responds with 400 given an unknown format', async () => {
+    request.query.format = 'xml'
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+  })
+})
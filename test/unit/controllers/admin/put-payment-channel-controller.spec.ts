@@ -0,0 +1,150 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { InvalidPaymentChannelClaimError } from '../../../../src/errors/invalid-payment-channel-claim-error'
+import { IPaymentChannelService } from '../../../../src/@types/services'
+import { PutPaymentChannelController } from '../../../../src/controllers/admin/put-payment-channel-controller'
+import { Settings } from '../../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('PutPaymentChannelController', () => {
+  const pubkey = 'f'.repeat(64)
+  const apiKey = 'admin-api-key'
+  let sandbox: Sinon.SinonSandbox
+  let settings: Settings
+  let registerChannelStub: Sinon.SinonStub
+  let request: any
+  let response: any
+  let controller: PutPaymentChannelController
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    settings = {
+      payments: {
+        enabled: true,
+        acceptedAssets: [{ assetCode: 'XRP', assetScale: 6 }],
+        paymentChannels: { enabled: true },
+      },
+    } as any
+    registerChannelStub = sandbox.stub().resolves()
+    request = {
+      params: { channelId: 'channel-id' },
+      headers: { authorization: `Bearer ${apiKey}` },
+      body: {
+        chain: 'xrp',
+        pubkey,
+        senderKey: 'sender-key',
+        assetCode: 'XRP',
+        assetScale: 6,
+        capacity: '1000000',
+        expiresAt: '2030-01-01T00:00:00.000Z',
+      },
+    }
+    response = {
+      status: sandbox.stub().returnsThis(),
+      setHeader: sandbox.stub().returnsThis(),
+      send: sandbox.stub().returnsThis(),
+    }
+    controller = new PutPaymentChannelController(
+      { registerChannel: registerChannelStub } as unknown as IPaymentChannelService,
+      () => settings,
+      apiKey,
+    )
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  it('registers the payment channel', async () => {
+    await controller.handleRequest(request, response)
+
+    expect(registerChannelStub).to.have.been.calledOnceWithExactly({
+      id: 'channel-id',
+      chain: 'xrp',
+      pubkey,
+      senderKey: 'sender-key',
+      assetCode: 'XRP',
+      assetScale: 6,
+      capacity: 1000000n,
+      expiresAt: new Date('2030-01-01T00:00:00.000Z'),
+    })
+    expect(response.status).to.have.been.calledOnceWithExactly(200)
+    expect(response.send).to.have.been.calledOnceWith(Sinon.match({
+      id: 'channel-id',
+      capacity: '1000000',
+      expiresAt: '2030-01-01T00:00:00.000Z',
+    }))
+  })
+
+  it('returns 404 if admin API key is not set', async () => {
+    controller = new PutPaymentChannelController(
+      { registerChannel: registerChannelStub } as unknown as IPaymentChannelService,
+      () => settings,
+      undefined,
+    )
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(404)
+    expect(registerChannelStub).not.to.have.been.called
+  })
+
+  it('returns 404 if payment channels are disabled', async () => {
+    settings.payments.paymentChannels.enabled = false
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(404)
+    expect(registerChannelStub).not.to.have.been.called
+  })
+
+  it('returns 401 if bearer token does not match', async () => {
+    request.headers.authorization = 'Bearer wrong-key'
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(401)
+    expect(registerChannelStub).not.to.have.been.called
+  })
+
+  it('returns 400 if capacity is invalid', async () => {
+    request.body.capacity = '-1'
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(registerChannelStub).not.to.have.been.called
+  })
+
+  it('returns 400 if asset is not accepted', async () => {
+    request.body.assetScale = 9
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(response.send).to.have.been.calledOnceWithExactly('Unsupported asset')
+    expect(registerChannelStub).not.to.have.been.called
+  })
+
+  it('returns 400 if chain is not supported', async () => {
+    registerChannelStub.rejects(new InvalidPaymentChannelClaimError('Unsupported payment channel chain: xrp'))
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(response.send).to.have.been.calledOnceWithExactly('Unsupported payment channel chain: xrp')
+  })
+
+  it('returns 500 if registration fails', async () => {
+    registerChannelStub.rejects(new Error('connection refused'))
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(500)
+  })
+})
@@ -0,0 +1,138 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { getPublicKey, identifyEvent, signEvent } from '../../../../src/utils/event'
+import { Event } from '../../../../src/@types/event'
+import { EventKinds } from '../../../../src/constants/base'
+import { IInviteService } from '../../../../src/@types/services'
+import { PostInviteRedemptionController } from '../../../../src/controllers/invites/post-invite-redemption-controller'
+import { Settings } from '../../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('PostInviteRedemptionController', () => {
+  const code = 'c'.repeat(64)
+  const privkey = 'a'.repeat(64)
+  const pubkey = getPublicKey(privkey)
+  let sandbox: Sinon.SinonSandbox
+  let settings: Settings
+  let redeemInviteStub: Sinon.SinonStub
+  let response: any
+  let controller: PostInviteRedemptionController
+
+  const createRedemptionRequest = async (tags: string[][] = [['e', code]], overrides: Partial<Event> = {}) =>
+    signEvent(privkey)(await identifyEvent({
+      pubkey,
+      kind: EventKinds.INVITE_REDEMPTION,
+      created_at: Math.floor(Date.now() / 1000),
+      content: '',
+      tags: [['relay', 'wss://relay.example.com'], ...tags],
+      ...overrides,
+    }))
+
+  const handle = (inviteId: string, body: unknown) => controller.handleRequest(
+    { params: { inviteId }, body, headers: {}, socket: { remoteAddress: '::1' } } as any,
+    response,
+  )
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    settings = {
+      info: { relay_url: 'wss://relay.example.com' },
+      network: {},
+      payments: { invites: { enabled: true } },
+    } as any
+    redeemInviteStub = sandbox.stub().resolves(undefined)
+    response = {
+      status: sandbox.stub().returnsThis(),
+      setHeader: sandbox.stub().returnsThis(),
+      send: sandbox.stub().returnsThis(),
+    }
+    controller = new PostInviteRedemptionController(
+      { redeemInvite: redeemInviteStub } as IInviteService,
+      () => settings,
+      () => ({ hit: sandbox.stub().resolves(false) }),
+    )
+    sandbox.stub(console, 'error')
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  it('responds with 404 when invites are disabled', async () => {
+    settings.payments.invites.enabled = false
+
+    await handle(code, await createRedemptionRequest())
+
+    expect(response.status).to.have.been.calledOnceWithExactly(404)
+    expect(redeemInviteStub).not.to.have.been.called
+  })
+
+  it('responds with 400 given an invalid invite code', async () => {
+    await handle('invalid', await createRedemptionRequest())
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(response.send).to.have.been.calledOnceWithExactly('Invalid invite code')
+  })
+
+  it('redeems the invite for the pubkey that signed the request', async () => {
+    await handle(code, await createRedemptionRequest())
+
+    expect(redeemInviteStub).to.have.been.calledOnceWithExactly(code, pubkey)
+    expect(response.status).to.have.been.calledOnceWithExactly(200)
+    expect(response.send).to.have.been.calledOnceWithExactly('Invite redeemed')
+  })
+
+  it('responds with 400 given an unsigned pubkey', async () => {
+    await handle(code, { pubkey })
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(response.send).to.have.been.calledOnceWith(Sinon.match(/^Invalid request: /))
+    expect(redeemInviteStub).not.to.have.been.called
+  })
+
+  it('responds with 400 given a request with an invalid signature', async () => {
+    const event = await createRedemptionRequest()
+
+    await handle(code, { ...event, sig: 'f'.repeat(128) })
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(response.send).to.have.been.calledOnceWithExactly('Invalid redemption request: signature does not match')
+    expect(redeemInviteStub).not.to.have.been.called
+  })
+
+  it('responds with 400 given a request for another invite', async () => {
+    await handle(code, await createRedemptionRequest([['e', 'd'.repeat(64)]]))
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(response.send).to.have.been.calledOnceWithExactly('Invalid redemption request: invite does not match')
+    expect(redeemInviteStub).not.to.have.been.called
+  })
+
+  it('responds with 400 given a stale request', async () => {
+    await handle(code, await createRedemptionRequest(undefined, { created_at: Math.floor(Date.now() / 1000) - 3600 }))
+
+    expect(response.send).to.have.been.calledOnceWithExactly('Invalid redemption request: created_at is out of range')
+  })
+
+  it('responds with 400 and the reason when the invite cannot be redeemed', async () => {
+    redeemInviteStub.resolves('invite used up')
+
+    await handle(code, await createRedemptionRequest())
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(response.send).to.have.been.calledOnceWithExactly('Unable to redeem invite: invite used up')
+  })
+
+  it('responds with 500 when redeeming fails', async () => {
+    redeemInviteStub.rejects(new Error('boom'))
+
+    await handle(code, await createRedemptionRequest())
+
+    expect(response.status).to.have.been.calledOnceWithExactly(500)
+  })
+})
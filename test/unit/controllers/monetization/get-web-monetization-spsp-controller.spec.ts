@@ -0,0 +1,111 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import {
+  GetWebMonetizationSpspController,
+} from '../../../../src/controllers/monetization/get-web-monetization-spsp-controller'
+import { ICacheAdapter } from '../../../../src/@types/adapters'
+import { IPaymentsService } from '../../../../src/@types/services'
+import { PaymentRequestType } from '../../../../src/@types/invoice'
+import { Settings } from '../../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('GetWebMonetizationSpspController', () => {
+  const operator = 'a'.repeat(64)
+  const pubkey = 'f'.repeat(64)
+  const sessionId = '5f0c1a52-0d7e-4cf4-8a4c-3b1f0e8d2c6b'
+  let sandbox: Sinon.SinonSandbox
+  let settings: Settings
+  let createInvoiceStub: Sinon.SinonStub
+  let getKeyStub: Sinon.SinonStub
+  let response: any
+  let controller: GetWebMonetizationSpspController
+
+  const handle = (params: Record<string, string>) => controller.handleRequest(
+    { params, headers: {}, socket: { remoteAddress: '::1' } } as any,
+    response,
+  )
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    settings = {
+      info: { name: 'relay', pubkey: operator },
+      network: {},
+      payments: { enabled: true, processor: 'ilpStream', webMonetization: { enabled: true } },
+    } as any
+    createInvoiceStub = sandbox.stub().resolves({
+      id: 'invoice-id',
+      paymentRequest: {
+        type: PaymentRequestType.STREAM,
+        destinationAccount: 'test.relay.abc',
+        sharedSecret: 'c2VjcmV0',
+      },
+    })
+    getKeyStub = sandbox.stub().resolves(null)
+    response = {
+      status: sandbox.stub().returnsThis(),
+      setHeader: sandbox.stub().returnsThis(),
+      send: sandbox.stub().returnsThis(),
+    }
+    controller = new GetWebMonetizationSpspController(
+      { createInvoice: createInvoiceStub } as unknown as IPaymentsService,
+      { getKey: getKeyStub } as unknown as ICacheAdapter,
+      () => settings,
+      () => ({ hit: sandbox.stub().resolves(false) }),
+    )
+    sandbox.stub(console, 'error')
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  it('responds with 404 when web monetization is disabled', async () => {
+    settings.payments.webMonetization.enabled = false
+
+    await handle({})
+
+    expect(response.status).to.have.been.calledOnceWithExactly(404)
+    expect(createInvoiceStub).not.to.have.been.called
+  })
+
+  it('credits the relay operator outside of a session', async () => {
+    await handle({})
+
+    expect(createInvoiceStub).to.have.been.calledOnceWith(operator, 0n)
+    expect(response.status).to.have.been.calledOnceWithExactly(200)
+    expect(response.send).to.have.been.calledOnceWithExactly({
+      destination_account: 'test.relay.abc',
+      shared_secret: 'c2VjcmV0',
+    })
+  })
+
+  it('credits the pubkey the session is bound to', async () => {
+    getKeyStub.resolves(pubkey)
+
+    await handle({ sessionId })
+
+    expect(getKeyStub).to.have.been.calledOnceWithExactly(`web-monetization:session:${sessionId}`)
+    expect(createInvoiceStub).to.have.been.calledOnceWith(pubkey, 0n)
+    expect(response.status).to.have.been.calledOnceWithExactly(200)
+  })
+
+  it('responds with 404 given an unknown session', async () => {
+    await handle({ sessionId })
+
+    expect(response.status).to.have.been.calledOnceWithExactly(404)
+    expect(createInvoiceStub).not.to.have.been.called
+  })
+
+  it('responds with 500 when the invoice cannot be created', async () => {
+    createInvoiceStub.rejects(new Error('boom'))
+
+    await handle({})
+
+    expect(response.status).to.have.been.calledOnceWithExactly(500)
+  })
+})
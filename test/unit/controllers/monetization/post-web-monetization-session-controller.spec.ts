@@ -0,0 +1,83 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { ICacheAdapter } from '../../../../src/@types/adapters'
+import {
+  PostWebMonetizationSessionController,
+} from '../../../../src/controllers/monetization/post-web-monetization-session-controller'
+import { Settings } from '../../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('PostWebMonetizationSessionController', () => {
+  const pubkey = 'f'.repeat(64)
+  let sandbox: Sinon.SinonSandbox
+  let settings: Settings
+  let cacheAdapter: ICacheAdapter
+  let response: any
+  let controller: PostWebMonetizationSessionController
+
+  const handle = (body: unknown) => controller.handleRequest(
+    { body, headers: {}, socket: { remoteAddress: '::1' } } as any,
+    response,
+  )
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    settings = {
+      info: { relay_url: 'wss://relay.example.com' },
+      network: {},
+      payments: { enabled: true, webMonetization: { enabled: true, sessionTtl: 600 } },
+    } as any
+    cacheAdapter = {
+      setKey: sandbox.stub().resolves(true),
+      setKeyExpiry: sandbox.stub().resolves(),
+    } as any
+    response = {
+      status: sandbox.stub().returnsThis(),
+      setHeader: sandbox.stub().returnsThis(),
+      send: sandbox.stub().returnsThis(),
+    }
+    controller = new PostWebMonetizationSessionController(
+      cacheAdapter,
+      () => settings,
+      () => ({ hit: sandbox.stub().resolves(false) }),
+    )
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  it('responds with 404 when web monetization is disabled', async () => {
+    settings.payments.webMonetization.enabled = false
+
+    await handle({ pubkey })
+
+    expect(response.status).to.have.been.calledOnceWithExactly(404)
+    expect(cacheAdapter.setKey).not.to.have.been.called
+  })
+
+  it('responds with 400 given an invalid pubkey', async () => {
+    await handle({ pubkey: 'invalid' })
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(response.send).to.have.been.calledOnceWithExactly('Invalid pubkey: unknown format')
+  })
+
+  it('binds a new session to the pubkey', async () => {
+    await handle({ pubkey })
+
+    expect(response.status).to.have.been.calledOnceWithExactly(201)
+    const [session] = response.send.firstCall.args
+    expect(session.monetizationUrl).to.equal(`https://relay.example.com/monetization/sessions/${session.id}`)
+    expect(cacheAdapter.setKey).to.have.been.calledOnceWithExactly(`web-monetization:session:${session.id}`, pubkey)
+    expect(cacheAdapter.setKeyExpiry).to.have.been.calledOnceWithExactly(
+      `web-monetization:session:${session.id}`,
+      600,
+    )
+  })
+})
@@ -0,0 +1,128 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { GetSpspController } from '../../../../src/controllers/pay/get-spsp-controller'
+import { IPaymentsService } from '../../../../src/@types/services'
+import { PaymentRequestType } from '../../../../src/@types/invoice'
+import { Settings } from '../../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('GetSpspController', () => {
+  const pubkey = 'f'.repeat(64)
+  let sandbox: Sinon.SinonSandbox
+  let settings: Settings
+  let getTopUpInvoiceStub: Sinon.SinonStub
+  let hitStub: Sinon.SinonStub
+  let request: any
+  let response: any
+  let controller: GetSpspController
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    settings = {
+      info: { name: 'relay' },
+      network: {},
+      payments: {
+        enabled: true,
+        processor: 'ilpStream',
+      },
+      limits: {
+        invoice: {
+          rateLimits: [{ period: 60000, rate: 3 }],
+          ipWhitelist: [],
+        },
+      },
+    } as any
+    getTopUpInvoiceStub = sandbox.stub().resolves({
+      id: 'invoice-id',
+      paymentRequest: {
+        type: PaymentRequestType.STREAM,
+        destinationAccount: 'test.relay.abc',
+        sharedSecret: Buffer.alloc(32, 2).toString('base64'),
+      },
+    })
+    hitStub = sandbox.stub().resolves(false)
+    request = {
+      params: { pubkey },
+      headers: {},
+      socket: { remoteAddress: '::1' },
+    }
+    response = {
+      status: sandbox.stub().returnsThis(),
+      setHeader: sandbox.stub().returnsThis(),
+      send: sandbox.stub().returnsThis(),
+    }
+    controller = new GetSpspController(
+      { getTopUpInvoice: getTopUpInvoiceStub } as unknown as IPaymentsService,
+      () => settings,
+      () => ({ hit: hitStub }),
+    )
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  it('returns STREAM credentials of the top-up invoice', async () => {
+    await controller.handleRequest(request, response)
+
+    expect(getTopUpInvoiceStub).to.have.been.calledOnceWithExactly(
+      pubkey,
+      'relay Top-up for npub1lllllllllllllllllllllllllllllllllllllllllllllllllllsq7lrjw',
+    )
+    expect(response.status).to.have.been.calledOnceWithExactly(200)
+    expect(response.setHeader).to.have.been.calledWithExactly('content-type', 'application/spsp4+json')
+    expect(response.send).to.have.been.calledOnceWithExactly({
+      destination_account: 'test.relay.abc',
+      shared_secret: Buffer.alloc(32, 2).toString('base64'),
+    })
+  })
+
+  it('accepts npub', async () => {
+    request.params.pubkey = 'npub1lllllllllllllllllllllllllllllllllllllllllllllllllllsq7lrjw'
+
+    await controller.handleRequest(request, response)
+
+    expect(getTopUpInvoiceStub.firstCall.args[0]).to.equal(pubkey)
+    expect(response.status).to.have.been.calledOnceWithExactly(200)
+  })
+
+  it('responds with 400 if pubkey is invalid', async () => {
+    request.params.pubkey = 'invalid'
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(getTopUpInvoiceStub).not.to.have.been.called
+  })
+
+  it('responds with 404 if payments are disabled', async () => {
+    settings.payments.enabled = false
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(404)
+    expect(getTopUpInvoiceStub).not.to.have.been.called
+  })
+
+  it('responds with 404 if payments processor is not ILP STREAM', async () => {
+    settings.payments.processor = undefined
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(404)
+  })
+
+  it('responds with 429 if rate limited', async () => {
+    hitStub.resolves(true)
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(429)
+    expect(getTopUpInvoiceStub).not.to.have.been.called
+  })
+})
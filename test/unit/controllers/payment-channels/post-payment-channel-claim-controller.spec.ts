@@ -0,0 +1,113 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { InvalidPaymentChannelClaimError } from '../../../../src/errors/invalid-payment-channel-claim-error'
+import { IPaymentChannelService } from '../../../../src/@types/services'
+import {
+  PostPaymentChannelClaimController,
+} from '../../../../src/controllers/payment-channels/post-payment-channel-claim-controller'
+import { Settings } from '../../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('PostPaymentChannelClaimController', () => {
+  let sandbox: Sinon.SinonSandbox
+  let settings: Settings
+  let submitClaimStub: Sinon.SinonStub
+  let request: any
+  let response: any
+  let controller: PostPaymentChannelClaimController
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    settings = {
+      payments: {
+        enabled: true,
+        paymentChannels: { enabled: true },
+      },
+    } as any
+    submitClaimStub = sandbox.stub().resolves(400n)
+    request = {
+      params: { channelId: 'channel-id' },
+      headers: {},
+      body: { amount: '1000', signature: 'signature' },
+    }
+    response = {
+      status: sandbox.stub().returnsThis(),
+      setHeader: sandbox.stub().returnsThis(),
+      send: sandbox.stub().returnsThis(),
+    }
+    controller = new PostPaymentChannelClaimController(
+      { submitClaim: submitClaimStub } as unknown as IPaymentChannelService,
+      () => settings,
+    )
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  it('submits the claim and returns the amount credited', async () => {
+    await controller.handleRequest(request, response)
+
+    expect(submitClaimStub).to.have.been.calledOnceWithExactly({
+      channelId: 'channel-id',
+      amount: 1000n,
+      signature: 'signature',
+    })
+    expect(response.status).to.have.been.calledOnceWithExactly(200)
+    expect(response.send).to.have.been.calledOnceWithExactly({
+      channelId: 'channel-id',
+      amount: '1000',
+      credited: '400',
+    })
+  })
+
+  it('returns 404 if payment channels are disabled', async () => {
+    settings.payments.paymentChannels.enabled = false
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(404)
+    expect(submitClaimStub).not.to.have.been.called
+  })
+
+  it('returns 404 if payments are disabled', async () => {
+    settings.payments.enabled = false
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(404)
+    expect(submitClaimStub).not.to.have.been.called
+  })
+
+  it('returns 400 if amount is not a positive integer', async () => {
+    request.body.amount = '1.5'
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(submitClaimStub).not.to.have.been.called
+  })
+
+  it('returns 400 if claim is rejected', async () => {
+    submitClaimStub.rejects(new InvalidPaymentChannelClaimError('Invalid claim signature'))
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(response.send).to.have.been.calledOnceWithExactly('Invalid claim: Invalid claim signature')
+  })
+
+  it('returns 500 if claim cannot be processed', async () => {
+    submitClaimStub.rejects(new Error('connection refused'))
+
+    await controller.handleRequest(request, response)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(500)
+    expect(response.send).to.have.been.calledOnceWithExactly('Unable to submit claim')
+  })
+})
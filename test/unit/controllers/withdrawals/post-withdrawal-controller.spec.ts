@@ -0,0 +1,248 @@
+import chai from 'chai'
+import dns from 'dns'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { getPublicKey, identifyEvent, signEvent } from '../../../../src/utils/event'
+import { Withdrawal, WithdrawalStatus } from '../../../../src/@types/withdrawal'
+import { Event } from '../../../../src/@types/event'
+import { EventKinds } from '../../../../src/constants/base'
+import { IPaymentsService } from '../../../../src/@types/services'
+import { PostWithdrawalController } from '../../../../src/controllers/withdrawals/post-withdrawal-controller'
+import { Settings } from '../../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('PostWithdrawalController', () => {
+  const privkey = 'a'.repeat(64)
+  const pubkey = getPublicKey(privkey)
+  const paymentPointer = '$wallet.example/alice'
+  let sandbox: Sinon.SinonSandbox
+  let settings: Settings
+  let getWithdrawalStub: Sinon.SinonStub
+  let lookupStub: Sinon.SinonStub
+  let withdrawStub: Sinon.SinonStub
+  let response: any
+  let controller: PostWithdrawalController
+
+  const createWithdrawalRequest = async (tags: string[][], overrides: Partial<Event> = {}): Promise<Event> => {
+    const event = await identifyEvent({
+      pubkey,
+      kind: EventKinds.WITHDRAWAL_REQUEST,
+      created_at: Math.floor(Date.now() / 1000),
+      content: '',
+      tags: [
+        ['relay', 'wss://relay.example.com'],
+        ['payment_pointer', paymentPointer],
+        ...tags,
+      ],
+      ...overrides,
+    })
+
+    return signEvent(privkey)(event)
+  }
+
+  const toWithdrawal = (event: Event, status: WithdrawalStatus, amountSent: bigint): Withdrawal => ({
+    id: event.id,
+    pubkey,
+    paymentPointer,
+    assetCode: 'BTC',
+    assetScale: 11,
+    amount: 1000n,
+    amountSent,
+    status,
+    paymentId: 'payment-id',
+    completedAt: new Date('2030-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2030-01-01T00:00:00.000Z'),
+    createdAt: new Date('2030-01-01T00:00:00.000Z'),
+  })
+
+  const handle = (body: unknown) => controller.handleRequest(
+    { body, headers: {}, socket: { remoteAddress: '::1' } } as any,
+    response,
+  )
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    settings = {
+      info: { relay_url: 'wss://relay.example.com' },
+      network: {},
+      payments: {
+        enabled: true,
+        processor: 'ilpConnector',
+        acceptedAssets: [{ assetCode: 'XRP', assetScale: 6 }],
+      },
+    } as any
+    getWithdrawalStub = sandbox.stub().resolves(undefined)
+    lookupStub = sandbox.stub(dns.promises, 'lookup').resolves([{ address: '93.184.215.14', family: 4 }] as any)
+    withdrawStub = sandbox.stub()
+    response = {
+      status: sandbox.stub().returnsThis(),
+      setHeader: sandbox.stub().returnsThis(),
+      send: sandbox.stub().returnsThis(),
+    }
+    controller = new PostWithdrawalController(
+      { getWithdrawal: getWithdrawalStub, withdraw: withdrawStub } as unknown as IPaymentsService,
+      () => settings,
+      () => ({ hit: sandbox.stub().resolves(false) }),
+    )
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  it('withdraws the amount to the payment pointer', async () => {
+    const event = await createWithdrawalRequest([['amount', '1000']])
+    withdrawStub.resolves(toWithdrawal(event, WithdrawalStatus.COMPLETED, 1000n))
+
+    await handle(event)
+
+    expect(withdrawStub).to.have.been.calledOnceWithExactly({
+      id: event.id,
+      pubkey,
+      paymentPointer,
+      assetCode: 'BTC',
+      assetScale: 11,
+      amount: 1000n,
+    })
+    expect(response.status).to.have.been.calledOnceWithExactly(200)
+    expect(response.send).to.have.been.calledOnceWithExactly({
+      id: event.id,
+      status: 'completed',
+      paymentPointer,
+      assetCode: 'BTC',
+      assetScale: 11,
+      amount: '1000',
+      amountSent: '1000',
+      completedAt: '2030-01-01T00:00:00.000Z',
+    })
+  })
+
+  it('withdraws the whole balance of the requested asset if no amount is given', async () => {
+    const event = await createWithdrawalRequest([['asset', 'XRP']])
+    withdrawStub.resolves(toWithdrawal(event, WithdrawalStatus.COMPLETED, 1000n))
+
+    await handle(event)
+
+    expect(withdrawStub).to.have.been.calledOnceWith(Sinon.match({
+      assetCode: 'XRP',
+      assetScale: 6,
+      amount: undefined,
+    }))
+  })
+
+  it('returns the earlier outcome if the request was already processed', async () => {
+    const event = await createWithdrawalRequest([])
+    getWithdrawalStub.resolves(toWithdrawal(event, WithdrawalStatus.COMPLETED, 1000n))
+
+    await handle(event)
+
+    expect(getWithdrawalStub).to.have.been.calledOnceWithExactly(event.id)
+    expect(withdrawStub).not.to.have.been.called
+    expect(response.status).to.have.been.calledOnceWithExactly(200)
+  })
+
+  it('responds with 502 if the payment failed', async () => {
+    const event = await createWithdrawalRequest([])
+    withdrawStub.resolves(toWithdrawal(event, WithdrawalStatus.FAILED, 0n))
+
+    await handle(event)
+
+    expect(response.status).to.have.been.calledOnceWithExactly(502)
+  })
+
+  it('responds with 400 if the balance is insufficient', async () => {
+    withdrawStub.resolves(undefined)
+
+    await handle(await createWithdrawalRequest([]))
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(response.send).to.have.been.calledOnceWithExactly('Insufficient balance')
+  })
+
+  it('returns the outcome of a concurrent submission of the same request', async () => {
+    const event = await createWithdrawalRequest([])
+    withdrawStub.resolves(undefined)
+    getWithdrawalStub.onSecondCall().resolves(toWithdrawal(event, WithdrawalStatus.COMPLETED, 1000n))
+
+    await handle(event)
+
+    expect(getWithdrawalStub).to.have.been.calledTwice
+    expect(response.status).to.have.been.calledOnceWithExactly(200)
+    expect(response.send).to.have.been.calledOnceWith(Sinon.match({ id: event.id, status: 'completed' }))
+  })
+
+  it('rejects payment pointers on private hosts', async () => {
+    lookupStub.resolves([{ address: '10.0.0.1', family: 4 }])
+
+    await handle(await createWithdrawalRequest([]))
+
+    expect(lookupStub).to.have.been.calledOnceWith('wallet.example')
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(response.send).to.have.been.calledOnceWithExactly(
+      'Invalid withdrawal request: payment pointer host is not public',
+    )
+    expect(withdrawStub).not.to.have.been.called
+  })
+
+  it('rejects requests with an invalid signature', async () => {
+    const event = await createWithdrawalRequest([])
+
+    await handle({ ...event, sig: 'f'.repeat(128) })
+
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+    expect(response.send).to.have.been.calledOnceWithExactly('Invalid withdrawal request: signature does not match')
+    expect(withdrawStub).not.to.have.been.called
+  })
+
+  it('rejects requests of another kind', async () => {
+    await handle(await createWithdrawalRequest([], { kind: EventKinds.TEXT_NOTE }))
+
+    expect(response.send).to.have.been.calledOnceWithExactly(
+      `Invalid withdrawal request: kind must be ${EventKinds.WITHDRAWAL_REQUEST}`,
+    )
+  })
+
+  it('rejects stale requests', async () => {
+    await handle(await createWithdrawalRequest([], { created_at: Math.floor(Date.now() / 1000) - 3600 }))
+
+    expect(response.send).to.have.been.calledOnceWithExactly('Invalid withdrawal request: created_at is out of range')
+  })
+
+  it('rejects requests for another relay', async () => {
+    const event = await signEvent(privkey)(await identifyEvent({
+      pubkey,
+      kind: EventKinds.WITHDRAWAL_REQUEST,
+      created_at: Math.floor(Date.now() / 1000),
+      content: '',
+      tags: [['relay', 'wss://other.example.com'], ['payment_pointer', paymentPointer]],
+    }))
+
+    await handle(event)
+
+    expect(response.send).to.have.been.calledOnceWithExactly('Invalid withdrawal request: relay does not match')
+  })
+
+  it('rejects requests with an invalid amount', async () => {
+    await handle(await createWithdrawalRequest([['amount', '-5']]))
+
+    expect(response.send).to.have.been.calledOnceWithExactly('Invalid withdrawal request: invalid amount')
+  })
+
+  it('rejects requests for unsupported assets', async () => {
+    await handle(await createWithdrawalRequest([['asset', 'ETH']]))
+
+    expect(response.send).to.have.been.calledOnceWithExactly('Unsupported asset')
+  })
+
+  it('responds with 404 if payments are disabled', async () => {
+    settings.payments.enabled = false
+
+    await handle(await createWithdrawalRequest([]))
+
+    expect(response.status).to.have.been.calledOnceWithExactly(404)
+  })
+})
@@ -0,0 +1,104 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(chaiAsPromised)
+chai.use(sinonChai)
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { AxiosInstance } from 'axios'
+import { FileExchangeRateSource } from '../../../src/exchange-rates/file-exchange-rate-source'
+import { HttpExchangeRateSource } from '../../../src/exchange-rates/http-exchange-rate-source'
+import { join } from 'path'
+import { parseExchangeRateFeed } from '../../../src/exchange-rates/feed'
+import { Settings } from '../../../src/@types/settings'
+import { StaticExchangeRateSource } from '../../../src/exchange-rates/static-exchange-rate-source'
+import { tmpdir } from 'os'
+
+const { expect } = chai
+
+describe('exchange rate sources', () => {
+  let settings: Settings
+
+  beforeEach(() => {
+    settings = {
+      payments: {
+        exchangeRates: {
+          source: 'static',
+          rates: { XRP: 0.0000085, ATOM: '0.00012' },
+        },
+      },
+    } as any
+  })
+
+  describe('parseExchangeRateFeed', () => {
+    it('returns rates as strings', () => {
+      expect(parseExchangeRateFeed({ base: 'BTC', rates: { XRP: 0.5, ETH: '0.05' } }, 'BTC')).to.deep.equal({
+        XRP: '0.5',
+        ETH: '0.05',
+      })
+    })
+
+    it('throws if base does not match base asset', () => {
+      expect(() => parseExchangeRateFeed({ base: 'USD', rates: {} }, 'BTC')).to.throw(
+        'Invalid exchange rate feed: base USD does not match base asset BTC',
+      )
+    })
+
+    it('throws if rates are missing', () => {
+      expect(() => parseExchangeRateFeed({}, 'BTC')).to.throw('Invalid exchange rate feed: missing rates')
+    })
+  })
+
+  describe('StaticExchangeRateSource', () => {
+    it('returns rates from settings', async () => {
+      expect(await new StaticExchangeRateSource(() => settings).getRates()).to.deep.equal({
+        XRP: '0.0000085',
+        ATOM: '0.00012',
+      })
+    })
+  })
+
+  describe('FileExchangeRateSource', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'exchange-rates-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('returns rates from file', async () => {
+      settings.payments.exchangeRates.path = join(dir, 'rates.json')
+      writeFileSync(settings.payments.exchangeRates.path, JSON.stringify({ base: 'BTC', rates: { XRP: '0.000009' } }))
+
+      expect(await new FileExchangeRateSource(() => settings).getRates()).to.deep.equal({ XRP: '0.000009' })
+    })
+
+    it('rejects if path is not set', async () => {
+      await expect(new FileExchangeRateSource(() => settings).getRates()).to.eventually.be.rejectedWith(
+        'payments.exchangeRates.path must be set.',
+      )
+    })
+  })
+
+  describe('HttpExchangeRateSource', () => {
+    it('returns rates from feed', async () => {
+      settings.payments.exchangeRates.url = 'https://rates.example.com/btc.json'
+      const getStub = Sinon.stub().resolves({ data: { rates: { XRP: '0.000009' } } })
+      const source = new HttpExchangeRateSource({ get: getStub } as unknown as AxiosInstance, () => settings)
+
+      expect(await source.getRates()).to.deep.equal({ XRP: '0.000009' })
+      expect(getStub).to.have.been.calledOnceWithExactly('https://rates.example.com/btc.json')
+    })
+
+    it('rejects if url is not set', async () => {
+      const source = new HttpExchangeRateSource({ get: Sinon.stub() } as unknown as AxiosInstance, () => settings)
+
+      await expect(source.getRates()).to.eventually.be.rejectedWith('payments.exchangeRates.url must be set.')
+    })
+  })
+})
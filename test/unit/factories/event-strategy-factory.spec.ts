@@ -9,6 +9,7 @@ import { eventStrategyFactory } from '../../../src/factories/event-strategy-fact
 import { Factory } from '../../../src/@types/base'
 import { IEventRepository } from '../../../src/@types/repositories'
 import { IEventStrategy } from '../../../src/@types/message-handlers'
+import { InviteEventStrategy } from '../../../src/handlers/event-strategies/invite-event-strategy'
 import { IWebSocketAdapter } from '../../../src/@types/adapters'
 import { ParameterizedReplaceableEventStrategy } from '../../../src/handlers/event-strategies/parameterized-replaceable-event-strategy'
 import { ReplaceableEventStrategy } from '../../../src/handlers/event-strategies/replaceable-event-strategy'
@@ -24,7 +25,7 @@ describe('eventStrategyFactory', () => {
     event = {} as any
     adapter = {} as any
 
-    factory = eventStrategyFactory(eventRepository)
+    factory = eventStrategyFactory(eventRepository, {} as any, {} as any)
   })
 
   it('returns ReplaceableEvent given a set_metadata event', () => {
@@ -52,6 +53,11 @@ describe('eventStrategyFactory', () => {
     expect(factory([event, adapter])).to.be.an.instanceOf(DeleteEventStrategy)
   })
 
+  it('returns InviteEventStrategy given a relay_invite event', () => {
+    event.kind = EventKinds.RELAY_INVITE
+    expect(factory([event, adapter])).to.be.an.instanceOf(InviteEventStrategy)
+  })
+
   it('returns ParameterizedReplaceableEventStrategy given a delete event', () => {
     event.kind = EventKinds.PARAMETERIZED_REPLACEABLE_FIRST
     expect(factory([event, adapter])).to.be.an.instanceOf(ParameterizedReplaceableEventStrategy)
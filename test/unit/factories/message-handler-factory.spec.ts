@@ -24,7 +24,7 @@ describe('messageHandlerFactory', () => {
     event = {
       tags: [],
     } as any
-    factory = messageHandlerFactory(eventRepository, userRepository)
+    factory = messageHandlerFactory(eventRepository, userRepository, {} as any)
   })
 
   it('returns EventMessageHandler when given an EVENT message', () => {
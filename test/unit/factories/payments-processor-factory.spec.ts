@@ -0,0 +1,98 @@
+import chai from 'chai'
+import Schema from 'joi'
+import Sinon from 'sinon'
+
+import {
+  createPaymentsProcessor,
+  getPaymentsProcessorRegistration,
+  registerPaymentsProcessor,
+} from '../../../src/factories/payments-processor-factory'
+import { IPaymentsProcessor } from '../../../src/@types/clients'
+import { NullPaymentsProcessor } from '../../../src/payments-processors/null-payments-processor'
+import { Settings } from '../../../src/@types/settings'
+import { SettingsStatic } from '../../../src/utils/settings'
+
+const { expect } = chai
+
+describe('payments processor registry', () => {
+  const internalProcessor = {} as IPaymentsProcessor
+  let settings: Settings
+  let createSettingsStub: Sinon.SinonStub
+
+  beforeAll(() => {
+    registerPaymentsProcessor({
+      name: 'internal',
+      settingsSchema: Schema.object({ apiKey: Schema.string().required() }).required(),
+      create: () => internalProcessor,
+    })
+  })
+
+  beforeEach(() => {
+    settings = {
+      payments: { enabled: true, processor: 'internal' },
+      paymentsProcessors: { internal: { apiKey: 'key' } },
+    } as any
+    createSettingsStub = Sinon.stub(SettingsStatic, 'createSettings').returns(settings)
+  })
+
+  afterEach(() => {
+    createSettingsStub.restore()
+  })
+
+  describe('registerPaymentsProcessor', () => {
+    it('throws if processor is already registered', () => {
+      expect(() => registerPaymentsProcessor({
+        name: 'ilpStream',
+        settingsSchema: Schema.any(),
+        create: () => internalProcessor,
+      })).to.throw('Payments processor already registered: ilpStream')
+    })
+  })
+
+  describe('getPaymentsProcessorRegistration', () => {
+    it('returns registration of configured processor', () => {
+      expect(getPaymentsProcessorRegistration(settings)).to.have.property('name', 'internal')
+    })
+
+    it('accepts built-in ilpStream processor settings', () => {
+      settings.payments.processor = 'ilpStream'
+      settings.paymentsProcessors = { ilpStream: { invoiceExpiry: 900 } }
+
+      expect(getPaymentsProcessorRegistration(settings)).to.have.property('name', 'ilpStream')
+    })
+
+    it('throws if processor is unknown', () => {
+      settings.payments.processor = 'zbd'
+
+      expect(() => getPaymentsProcessorRegistration(settings)).to.throw(
+        /^Unknown payments processor: zbd\. Set payments\.processor to one of: .*ilpStream/,
+      )
+    })
+
+    it('throws if processor is not set', () => {
+      settings.payments.processor = undefined
+
+      expect(() => getPaymentsProcessorRegistration(settings)).to.throw('Unknown payments processor: undefined')
+    })
+
+    it('throws if processor settings are invalid', () => {
+      settings.paymentsProcessors = { internal: { apiKey: 1 } }
+
+      expect(() => getPaymentsProcessorRegistration(settings)).to.throw(
+        'Invalid settings for payments processor internal: "apiKey" must be a string',
+      )
+    })
+  })
+
+  describe('createPaymentsProcessor', () => {
+    it('returns null processor if payments are disabled', () => {
+      settings.payments.enabled = false
+
+      expect(createPaymentsProcessor()).to.be.an.instanceOf(NullPaymentsProcessor)
+    })
+
+    it('creates configured processor', () => {
+      expect(createPaymentsProcessor()).to.equal(internalProcessor)
+    })
+  })
+})
@@ -47,7 +47,7 @@ describe('webSocketAdapterFactory', () => {
     const webSocketServerAdapter: IWebSocketServerAdapter = {} as any
 
     expect(
-      webSocketAdapterFactory(eventRepository, userRepository)([client, request, webSocketServerAdapter])
+      webSocketAdapterFactory(eventRepository, userRepository, {} as any)([client, request, webSocketServerAdapter])
     ).to.be.an.instanceOf(WebSocketAdapter)
   })
 })
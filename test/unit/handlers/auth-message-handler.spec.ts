@@ -0,0 +1,124 @@
+import chai from 'chai'
+import EventEmitter from 'events'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { AuthMessage, MessageType } from '../../../src/@types/messages'
+import { getPublicKey, identifyEvent, signEvent } from '../../../src/utils/event'
+import { AuthMessageHandler } from '../../../src/handlers/auth-message-handler'
+import { Event } from '../../../src/@types/event'
+import { EventKinds } from '../../../src/constants/base'
+import { IWebSocketAdapter } from '../../../src/@types/adapters'
+import { Settings } from '../../../src/@types/settings'
+import { Tag } from '../../../src/@types/base'
+import { WebSocketAdapterEvent } from '../../../src/constants/adapter'
+
+const { expect } = chai
+
+describe('AuthMessageHandler', () => {
+  const privkey = 'a'.repeat(64)
+  const pubkey = getPublicKey(privkey)
+  const challenge = 'challenge'
+  let settings: Settings
+  let webSocket: IWebSocketAdapter
+  let onMessageSpy: Sinon.SinonSpy
+  let onAuthenticateSpy: Sinon.SinonSpy
+  let handler: AuthMessageHandler
+
+  const createAuthMessage = async (
+    tags: Tag[] = [['relay', 'wss://relay.example.com/'], ['challenge', challenge]],
+    overrides: Partial<Event> = {},
+  ): Promise<AuthMessage> => {
+    const event = await signEvent(privkey)(await identifyEvent({
+      pubkey,
+      kind: EventKinds.CLIENT_AUTHENTICATION,
+      created_at: Math.floor(Date.now() / 1000),
+      content: '',
+      tags,
+      ...overrides,
+    }))
+
+    return [MessageType.AUTH, event]
+  }
+
+  const expectRejected = (message: AuthMessage, reason: string) => {
+    expect(onMessageSpy).to.have.been.calledOnceWithExactly([MessageType.OK, message[1].id, false, reason])
+    expect(onAuthenticateSpy).not.to.have.been.called
+  }
+
+  beforeEach(() => {
+    settings = {
+      info: { relay_url: 'wss://relay.example.com' },
+      authentication: { enabled: true },
+    } as Settings
+    onMessageSpy = Sinon.fake()
+    onAuthenticateSpy = Sinon.fake()
+    webSocket = new EventEmitter() as any
+    webSocket.getAuthChallenge = () => challenge
+    webSocket
+      .on(WebSocketAdapterEvent.Message, onMessageSpy)
+      .on(WebSocketAdapterEvent.Authenticate, onAuthenticateSpy)
+    handler = new AuthMessageHandler(webSocket, () => settings)
+  })
+
+  it('authenticates client as pubkey of auth event', async () => {
+    const message = await createAuthMessage()
+
+    await handler.handleMessage(message)
+
+    expect(onAuthenticateSpy).to.have.been.calledOnceWithExactly(pubkey)
+    expect(onMessageSpy).to.have.been.calledOnceWithExactly([MessageType.OK, message[1].id, true, ''])
+  })
+
+  it('rejects auth event if authentication is disabled', async () => {
+    settings.authentication.enabled = false
+    const message = await createAuthMessage()
+
+    await handler.handleMessage(message)
+
+    expectRejected(message, 'blocked: authentication is disabled')
+  })
+
+  it('rejects auth event of another kind', async () => {
+    const message = await createAuthMessage(undefined, { kind: EventKinds.TEXT_NOTE })
+
+    await handler.handleMessage(message)
+
+    expectRejected(message, 'invalid: kind must be 22242')
+  })
+
+  it('rejects auth event with invalid signature', async () => {
+    const message = await createAuthMessage()
+    message[1] = { ...message[1], sig: 'f'.repeat(128) }
+
+    await handler.handleMessage(message)
+
+    expectRejected(message, 'invalid: event signature verification failed')
+  })
+
+  it('rejects stale auth event', async () => {
+    const message = await createAuthMessage(undefined, { created_at: Math.floor(Date.now() / 1000) - 601 })
+
+    await handler.handleMessage(message)
+
+    expectRejected(message, 'invalid: created_at is out of range')
+  })
+
+  it('rejects auth event for another challenge', async () => {
+    const message = await createAuthMessage([['relay', 'wss://relay.example.com'], ['challenge', 'other']])
+
+    await handler.handleMessage(message)
+
+    expectRejected(message, 'invalid: challenge does not match')
+  })
+
+  it('rejects auth event for another relay', async () => {
+    const message = await createAuthMessage([['relay', 'wss://other.example.com'], ['challenge', challenge]])
+
+    await handler.handleMessage(message)
+
+    expectRejected(message, 'invalid: relay does not match')
+  })
+})
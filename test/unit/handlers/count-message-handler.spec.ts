@@ -0,0 +1,186 @@
+import chai from 'chai'
+import EventEmitter from 'events'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { CountMessage, MessageType } from '../../../src/@types/messages'
+import { IEventRepository, IUserRepository } from '../../../src/@types/repositories'
+import { CountMessageHandler } from '../../../src/handlers/count-message-handler'
+import { IWebSocketAdapter } from '../../../src/@types/adapters'
+import { LedgerEntryType } from '../../../src/@types/ledger'
+import { Settings } from '../../../src/@types/settings'
+import { WebSocketAdapterEvent } from '../../../src/constants/adapter'
+
+const { expect } = chai
+
+describe('CountMessageHandler', () => {
+  const subscriptionId = 'subscriptionId'
+  let sandbox: Sinon.SinonSandbox
+  let settings: Settings
+  let webSocket: IWebSocketAdapter
+  let onMessageStub: Sinon.SinonStub
+  let countByFiltersStub: Sinon.SinonStub
+  let chargeBalanceStub: Sinon.SinonStub
+  let handler: CountMessageHandler
+
+  const createCountMessage = (...filters: any[]): CountMessage =>
+    [MessageType.COUNT, subscriptionId, ...filters] as any
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    settings = {} as Settings
+    onMessageStub = sandbox.stub()
+    webSocket = new EventEmitter() as any
+    webSocket.getAuthenticatedPubkeys = sandbox.stub().returns([])
+    webSocket.on(WebSocketAdapterEvent.Message, onMessageStub)
+    countByFiltersStub = sandbox.stub().resolves(42)
+    chargeBalanceStub = sandbox.stub().resolves(true)
+    handler = new CountMessageHandler(
+      webSocket,
+      { countByFilters: countByFiltersStub } as unknown as IEventRepository,
+      { chargeBalance: chargeBalanceStub } as unknown as IUserRepository,
+      () => settings,
+    )
+  })
+
+  afterEach(() => {
+    webSocket.removeAllListeners()
+    sandbox.restore()
+  })
+
+  it('emits count of events matching unique filters', async () => {
+    await handler.handleMessage(createCountMessage({ kinds: [7], '#e': ['aaaa'] }, { kinds: [7], '#e': ['aaaa'] }))
+
+    expect(countByFiltersStub).to.have.been.calledOnceWithExactly([{ kinds: [7], '#e': ['aaaa'] }])
+    expect(onMessageStub).to.have.been.calledOnceWithExactly(['COUNT', subscriptionId, { count: 42 }])
+  })
+
+  it('emits CLOSED message if there are too many filters', async () => {
+    settings = { limits: { client: { subscription: { maxFilters: 1 } } } } as Settings
+
+    await handler.handleMessage(createCountMessage({ kinds: [1] }, { kinds: [7] }))
+
+    expect(countByFiltersStub).not.to.have.been.called
+    expect(onMessageStub).to.have.been.calledOnceWithExactly(
+      ['CLOSED', subscriptionId, 'invalid: number of filters must be less than or equal to 1'],
+    )
+  })
+
+  it('emits CLOSED message if subscription ID is too long', async () => {
+    settings = { limits: { client: { subscription: { maxSubscriptionIdLength: 4 } } } } as Settings
+
+    await handler.handleMessage(createCountMessage({}))
+
+    expect(countByFiltersStub).not.to.have.been.called
+    expect(onMessageStub).to.have.been.calledOnceWithExactly(
+      ['CLOSED', subscriptionId, 'invalid: subscription ID must be less than or equal to 4'],
+    )
+  })
+
+  it('emits CLOSED message if authentication is required and client is not authenticated', async () => {
+    settings = { authentication: { enabled: true, requiredForSubscriptions: true } } as Settings
+
+    await handler.handleMessage(createCountMessage({}))
+
+    expect(countByFiltersStub).not.to.have.been.called
+    expect(onMessageStub).to.have.been.calledOnceWithExactly(
+      ['CLOSED', subscriptionId, 'auth-required: authentication is required to count events'],
+    )
+  })
+
+  it('emits CLOSED message if filter has search query and search is disabled', async () => {
+    await handler.handleMessage(createCountMessage({ search: 'nostr' }))
+
+    expect(countByFiltersStub).not.to.have.been.called
+    expect(onMessageStub).to.have.been.calledOnceWithExactly(
+      ['CLOSED', subscriptionId, 'invalid: search is not supported'],
+    )
+  })
+
+  it('emits CLOSED message if unable to count events', async () => {
+    countByFiltersStub.rejects(new Error('boom'))
+    sandbox.stub(console, 'error')
+
+    await handler.handleMessage(createCountMessage({}))
+
+    expect(onMessageStub).to.have.been.calledOnceWithExactly(
+      ['CLOSED', subscriptionId, 'error: unable to count events'],
+    )
+  })
+
+  describe('when query fees are enabled', () => {
+    const pubkey = 'a'.repeat(64)
+
+    beforeEach(() => {
+      settings = {
+        payments: {
+          enabled: true,
+          feeSchedules: {
+            query: [
+              {
+                enabled: true,
+                amount: 1000n,
+                perEventAmount: 10n,
+                kinds: [1],
+                whitelists: { pubkeys: ['b'.repeat(64)] },
+              },
+            ],
+          },
+        },
+      } as any
+    })
+
+    it('emits CLOSED message if client is not authenticated', async () => {
+      await handler.handleMessage(createCountMessage({ kinds: [1] }))
+
+      expect(chargeBalanceStub).not.to.have.been.called
+      expect(countByFiltersStub).not.to.have.been.called
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(
+        ['CLOSED', subscriptionId, 'auth-required: counts on this relay are paid'],
+      )
+    })
+
+    it('charges query fee to the authenticated pubkey', async () => {
+      (webSocket.getAuthenticatedPubkeys as Sinon.SinonStub).returns([pubkey])
+
+      await handler.handleMessage(createCountMessage({ kinds: [1] }))
+
+      expect(chargeBalanceStub).to.have.been.calledOnceWithExactly(
+        pubkey,
+        { assetCode: 'BTC', assetScale: 11, amount: 1000n },
+        { type: LedgerEntryType.QUERY_FEE, reference: subscriptionId },
+      )
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(['COUNT', subscriptionId, { count: 42 }])
+    })
+
+    it('emits CLOSED message if balance does not cover query fee', async () => {
+      (webSocket.getAuthenticatedPubkeys as Sinon.SinonStub).returns([pubkey])
+      chargeBalanceStub.resolves(false)
+
+      await handler.handleMessage(createCountMessage({ kinds: [1] }))
+
+      expect(countByFiltersStub).not.to.have.been.called
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(
+        ['CLOSED', subscriptionId, 'payment-required: insufficient balance for query fee of 0.00000001 BTC'],
+      )
+    })
+
+    it('does not charge whitelisted pubkeys', async () => {
+      (webSocket.getAuthenticatedPubkeys as Sinon.SinonStub).returns(['b'.repeat(64)])
+
+      await handler.handleMessage(createCountMessage({ kinds: [1] }))
+
+      expect(chargeBalanceStub).not.to.have.been.called
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(['COUNT', subscriptionId, { count: 42 }])
+    })
+
+    it('does not charge counts of kinds without query fee', async () => {
+      await handler.handleMessage(createCountMessage({ kinds: [7] }))
+
+      expect(chargeBalanceStub).not.to.have.been.called
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(['COUNT', subscriptionId, { count: 42 }])
+    })
+  })
+})
@@ -8,11 +8,12 @@ import sinonChai from 'sinon-chai'
 chai.use(sinonChai)
 chai.use(chaiAsPromised)
 
+import { EventKinds, EventPublicationFeeMetadataKey } from '../../../src/constants/base'
 import { EventLimits, Settings } from '../../../src/@types/settings'
 import { IncomingEventMessage, MessageType } from '../../../src/@types/messages'
 import { Event } from '../../../src/@types/event'
-import { EventKinds } from '../../../src/constants/base'
 import { EventMessageHandler } from '../../../src/handlers/event-message-handler'
+import { InsufficientBalanceError } from '../../../src/errors/insufficient-balance-error'
 import { IUserRepository } from '../../../src/@types/repositories'
 import { IWebSocketAdapter } from '../../../src/@types/adapters'
 import { WebSocketAdapterEvent } from '../../../src/constants/adapter'
@@ -129,6 +130,27 @@ describe('EventMessageHandler', () => {
       expect(strategyFactoryStub).not.to.have.been.called
     })
 
+    it('rejects event if authentication is required and client is not authenticated', async () => {
+      webSocket.getAuthenticatedPubkeys = () => []
+      handler = new EventMessageHandler(
+        webSocket as any,
+        strategyFactoryStub,
+        userRepository,
+        () => ({
+          info: { relay_url: 'relay_url' },
+          authentication: { enabled: true, requiredForEvents: true },
+        }) as any,
+        () => ({ hit: async () => false })
+      )
+
+      await handler.handleMessage(message)
+
+      expect(onMessageSpy).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'auth-required: authentication is required to publish events'],
+      )
+      expect(strategyFactoryStub).not.to.have.been.called
+    })
+
     it('rejects event if user is not admitted', async () => {
       isUserAdmitted.resolves('reason')
 
@@ -138,6 +160,19 @@ describe('EventMessageHandler', () => {
       expect(strategyFactoryStub).not.to.have.been.called
     })
 
+    it('rejects event if publication fee can\'t be paid', async () => {
+      const canPayPublicationFeeStub = sandbox.stub(EventMessageHandler.prototype, 'canPayPublicationFee' as any)
+        .resolves('payment-required: reason')
+
+      await handler.handleMessage(message)
+
+      expect(canPayPublicationFeeStub).to.have.been.calledWithExactly(event)
+      expect(onMessageSpy).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'payment-required: reason'],
+      )
+      expect(strategyFactoryStub).not.to.have.been.called
+    })
+
     it('rejects event if it is expired', async () => {
       isEventValidStub.resolves(undefined)
 
@@ -191,6 +226,19 @@ describe('EventMessageHandler', () => {
       expect(strategyExecuteStub).to.have.been.calledOnceWithExactly(event)
     })
 
+    it('rejects event if strategy is unable to charge the publication fee', async () => {
+      isEventValidStub.returns(undefined)
+      canAcceptEventStub.returns(undefined)
+
+      strategyExecuteStub.rejects(new InsufficientBalanceError({ assetCode: 'BTC', assetScale: 8, amount: 1000n }))
+
+      await handler.handleMessage(message)
+
+      expect(onMessageSpy).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'payment-required: insufficient balance for publication fee of 0.00001 BTC'],
+      )
+    })
+
     it('does not reject if strategy rejects', async () => {
       isEventValidStub.returns(undefined)
       canAcceptEventStub.returns(undefined)
@@ -934,6 +982,7 @@ describe('EventMessageHandler', () => {
     let webSocket: IWebSocketAdapter
     let getRelayPublicKeyStub: SinonStub
     let userRepositoryFindByPubkeyStub: SinonStub
+    let userRepositoryGetBalanceByPubkeyStub: SinonStub
 
     beforeEach(() => {
       settings = {
@@ -975,11 +1024,13 @@ describe('EventMessageHandler', () => {
       getRelayPublicKeyStub = sandbox.stub(EventMessageHandler.prototype, 'getRelayPublicKey' as any)
       getClientAddressStub = sandbox.stub()
       userRepositoryFindByPubkeyStub = sandbox.stub()
+      userRepositoryGetBalanceByPubkeyStub = sandbox.stub()
       webSocket = {
         getClientAddress: getClientAddressStub,
       } as any
       userRepository = {
         findByPubkey: userRepositoryFindByPubkeyStub,
+        getBalanceByPubkey: userRepositoryGetBalanceByPubkeyStub,
       } as any
       handler = new EventMessageHandler(
         webSocket,
@@ -1075,18 +1126,308 @@ describe('EventMessageHandler', () => {
       return expect((handler as any).isUserAdmitted(event)).to.eventually.equal('blocked: pubkey not admitted')
     })
 
+    it('fulfills with reason if user admission expired', async () => {
+      userRepositoryFindByPubkeyStub.resolves({ isAdmitted: true, admittedUntil: new Date(Date.now() - 1000) })
+
+      return expect((handler as any).isUserAdmitted(event)).to.eventually.equal('blocked: admission expired')
+    })
+
+    it('fulfills with undefined if user admission has not expired', async () => {
+      userRepositoryFindByPubkeyStub.resolves({ isAdmitted: true, admittedUntil: new Date(Date.now() + 60000) })
+
+      return expect((handler as any).isUserAdmitted(event)).to.eventually.be.undefined
+    })
+
     it('fulfills with reason if user does not meet minimum balance', async () => {
       settings.limits.event.pubkey.minBalance = 1000n
-      userRepositoryFindByPubkeyStub.resolves({ isAdmitted: true, balance: 999n })
+      userRepositoryFindByPubkeyStub.resolves({ isAdmitted: true })
+      userRepositoryGetBalanceByPubkeyStub.resolves(999n)
 
       return expect((handler as any).isUserAdmitted(event)).to.eventually.equal('blocked: insufficient balance')
     })
 
+    it('checks balance in the base asset', async () => {
+      settings.limits.event.pubkey.minBalance = 1000n
+      settings.payments.baseAsset = { assetCode: 'USD', assetScale: 2 }
+      userRepositoryFindByPubkeyStub.resolves({ isAdmitted: true })
+      userRepositoryGetBalanceByPubkeyStub.resolves(1000n)
+
+      await expect((handler as any).isUserAdmitted(event)).to.eventually.be.undefined
+      expect(userRepositoryGetBalanceByPubkeyStub).to.have.been.calledOnceWithExactly(
+        event.pubkey,
+        { assetCode: 'USD', assetScale: 2 },
+      )
+    })
+
     it('fulfills with undefined if user is admitted', async () => {
       settings.limits.event.pubkey.minBalance = 0n
       userRepositoryFindByPubkeyStub.resolves({ isAdmitted: true })
 
       return expect((handler as any).isUserAdmitted(event)).to.eventually.be.undefined
     })
+
+    it('fulfills with reason mentioning proof of work if work admits pubkeys', async () => {
+      settings.payments.proofOfWork = { enabled: true, minLeadingZeroBits: 20, admissionLeadingZeroBits: 28 }
+
+      return expect((handler as any).isUserAdmitted(event)).to.eventually.equal(
+        'blocked: pubkey not admitted, pow: publish events of difficulty 20 or more to earn admission',
+      )
+    })
+
+    it('fulfills with reason mentioning the default difficulty if minimum difficulty is not set', async () => {
+      settings.payments.proofOfWork = { enabled: true, admissionLeadingZeroBits: 28 }
+
+      return expect((handler as any).isUserAdmitted(event)).to.eventually.equal(
+        'blocked: pubkey not admitted, pow: publish events of difficulty 20 or more to earn admission',
+      )
+    })
+  })
+
+  describe('addProofOfWork', () => {
+    let settings: Settings
+    let userRepositoryAddProofOfWorkStub: SinonStub
+
+    beforeEach(() => {
+      settings = {
+        info: {
+          relay_url: 'relay_url',
+        },
+        payments: {
+          enabled: true,
+          proofOfWork: {
+            enabled: true,
+            minLeadingZeroBits: 8,
+            admissionLeadingZeroBits: 16,
+            creditPerBit: 100n,
+          },
+        },
+      } as any
+      event = {
+        content: 'hello',
+        created_at: 1665546189,
+        id: '00f' + 'f'.repeat(61),
+        kind: 1,
+        pubkey: 'f'.repeat(64),
+        sig: 'f'.repeat(128),
+        tags: [],
+      }
+      sandbox.stub(EventMessageHandler.prototype, 'getRelayPublicKey' as any).returns('a'.repeat(64))
+      userRepositoryAddProofOfWorkStub = sandbox.stub().resolves(true)
+      handler = new EventMessageHandler(
+        {} as any,
+        () => null,
+        { addProofOfWork: userRepositoryAddProofOfWorkStub } as any,
+        () => settings,
+        () => ({ hit: async () => false })
+      )
+    })
+
+    it('adds work and credit for events meeting the minimum difficulty', async () => {
+      await (handler as any).addProofOfWork(event)
+
+      expect(userRepositoryAddProofOfWorkStub).to.have.been.calledOnceWithExactly(
+        event.pubkey,
+        event.id,
+        8,
+        16,
+        { assetCode: 'BTC', assetScale: 11, amount: 800n },
+      )
+    })
+
+    it('does not add work for events below the minimum difficulty', async () => {
+      event.id = '0f' + 'f'.repeat(62)
+
+      await (handler as any).addProofOfWork(event)
+
+      expect(userRepositoryAddProofOfWorkStub).not.to.have.been.called
+    })
+
+    it('requires the default minimum difficulty if it is not set', async () => {
+      delete settings.payments.proofOfWork.minLeadingZeroBits
+
+      await (handler as any).addProofOfWork(event)
+
+      expect(userRepositoryAddProofOfWorkStub).not.to.have.been.called
+
+      event.id = '00000' + 'f'.repeat(59)
+
+      await (handler as any).addProofOfWork(event)
+
+      expect(userRepositoryAddProofOfWorkStub).to.have.been.calledOnceWith(event.pubkey, event.id, 20)
+    })
+
+    it('does not add work if proof of work is disabled', async () => {
+      settings.payments.proofOfWork.enabled = false
+
+      await (handler as any).addProofOfWork(event)
+
+      expect(userRepositoryAddProofOfWorkStub).not.to.have.been.called
+    })
+  })
+
+  describe('publication fees', () => {
+    let settings: Settings
+    let userRepositoryGetBalanceByPubkeyStub: SinonStub
+
+    beforeEach(() => {
+      settings = {
+        info: {
+          relay_url: 'relay_url',
+        },
+        payments: {
+          enabled: true,
+          feeSchedules: {
+            publication: [
+              {
+                enabled: true,
+                amount: 1000n,
+                whitelists: {
+                  pubkeys: [],
+                  event_kinds: [],
+                },
+              },
+              {
+                enabled: true,
+                amount: 500n,
+              },
+            ],
+          },
+        },
+      } as any
+      sandbox.stub(EventMessageHandler.prototype, 'getRelayPublicKey' as any).returns('a'.repeat(64))
+      userRepositoryGetBalanceByPubkeyStub = sandbox.stub()
+      userRepository = {
+        getBalanceByPubkey: userRepositoryGetBalanceByPubkeyStub,
+      } as any
+      handler = new EventMessageHandler(
+        {} as any,
+        () => null,
+        userRepository,
+        () => settings,
+        () => ({ hit: async () => false })
+      )
+    })
+
+    describe('getPublicationFee', () => {
+      it('returns sum of applicable publication fees', () => {
+        expect((handler as any).getPublicationFee(event)).to.equal(1500n)
+      })
+
+      it('returns zero if payments are disabled', () => {
+        settings.payments.enabled = false
+
+        expect((handler as any).getPublicationFee(event)).to.equal(0n)
+      })
+
+      it('returns zero if publication fee schedules are not set', () => {
+        settings.payments.feeSchedules.publication = undefined
+
+        expect((handler as any).getPublicationFee(event)).to.equal(0n)
+      })
+
+      it('skips disabled fee schedules', () => {
+        settings.payments.feeSchedules.publication[1].enabled = false
+
+        expect((handler as any).getPublicationFee(event)).to.equal(1000n)
+      })
+
+      it('skips fee schedules waived for pubkey', () => {
+        settings.payments.feeSchedules.publication[0].whitelists.pubkeys.push(event.pubkey.slice(0, 8))
+
+        expect((handler as any).getPublicationFee(event)).to.equal(500n)
+      })
+
+      it('skips fee schedules waived for event kind range', () => {
+        settings.payments.feeSchedules.publication[0].whitelists.event_kinds.push([
+          EventKinds.SET_METADATA,
+          EventKinds.RECOMMEND_SERVER,
+        ])
+
+        expect((handler as any).getPublicationFee(event)).to.equal(500n)
+      })
+
+      it('adds per-byte amount for the size of the event', () => {
+        settings.payments.feeSchedules.publication[1].perByteAmount = 2n
+
+        expect((handler as any).getPublicationFee(event)).to.equal(
+          1500n + 2n * BigInt(Buffer.byteLength(JSON.stringify(event))),
+        )
+      })
+
+      it('skips fee schedules scoped to other event kinds', () => {
+        settings.payments.feeSchedules.publication[0].kinds = [[
+          EventKinds.PARAMETERIZED_REPLACEABLE_FIRST,
+          EventKinds.PARAMETERIZED_REPLACEABLE_LAST,
+        ]]
+
+        expect((handler as any).getPublicationFee(event)).to.equal(500n)
+      })
+
+      it('applies fee schedules scoped to event kind', () => {
+        settings.payments.feeSchedules.publication[0].kinds = [EventKinds.TEXT_NOTE]
+
+        expect((handler as any).getPublicationFee(event)).to.equal(1500n)
+      })
+
+      it('returns zero for ephemeral events', () => {
+        event.kind = EventKinds.EPHEMERAL_FIRST
+
+        expect((handler as any).getPublicationFee(event)).to.equal(0n)
+      })
+
+      it('returns zero for relay\'s own events', () => {
+        event.pubkey = 'a'.repeat(64)
+
+        expect((handler as any).getPublicationFee(event)).to.equal(0n)
+      })
+    })
+
+    describe('canPayPublicationFee', () => {
+      it('fulfills with undefined if there is no publication fee', async () => {
+        settings.payments.feeSchedules.publication = []
+
+        await expect((handler as any).canPayPublicationFee(event)).to.eventually.be.undefined
+        expect(userRepositoryGetBalanceByPubkeyStub).not.to.have.been.called
+      })
+
+      it('fulfills with undefined if balance covers publication fee', async () => {
+        userRepositoryGetBalanceByPubkeyStub.resolves(1500n)
+
+        await expect((handler as any).canPayPublicationFee(event)).to.eventually.be.undefined
+        expect(userRepositoryGetBalanceByPubkeyStub).to.have.been.calledOnceWithExactly(
+          event.pubkey,
+          { assetCode: 'BTC', assetScale: 11 },
+        )
+      })
+
+      it('fulfills with reason if balance does not cover publication fee', async () => {
+        userRepositoryGetBalanceByPubkeyStub.resolves(1499n)
+
+        return expect((handler as any).canPayPublicationFee(event)).to.eventually.equal(
+          'payment-required: insufficient balance for publication fee of 0.000000015 BTC',
+        )
+      })
+    })
+
+    describe('addPublicationFeeMetadata', () => {
+      it('returns event as is if there is no publication fee', () => {
+        settings.payments.enabled = false
+
+        expect((handler as any).addPublicationFeeMetadata(event)).to.equal(event)
+      })
+
+      it('returns event with publication fee in base asset', () => {
+        settings.payments.baseAsset = { assetCode: 'USD', assetScale: 2 }
+
+        expect((handler as any).addPublicationFeeMetadata(event)).to.deep.equal({
+          ...event,
+          [EventPublicationFeeMetadataKey]: {
+            assetCode: 'USD',
+            assetScale: 2,
+            amount: 1500n,
+          },
+        })
+      })
+    })
   })
 })
@@ -1,8 +1,10 @@
 import chai from 'chai'
 import chaiAsPromised from 'chai-as-promised'
 import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
 
 chai.use(chaiAsPromised)
+chai.use(sinonChai)
 
 import { DatabaseClient } from '../../../../src/@types/base'
 import { DeleteEventStrategy } from '../../../../src/handlers/event-strategies/delete-event-strategy'
@@ -32,6 +34,7 @@ describe('DeleteEventStrategy', () => {
   let webSocketEmitStub: Sinon.SinonStub
   let eventRepositoryCreateStub: Sinon.SinonStub
   let eventRepositoryDeleteByPubkeyAndIdsStub: Sinon.SinonStub
+  let eventRepositoryDeleteByPubkeyAndAddressesStub: Sinon.SinonStub
 
   let strategy: IEventStrategy<Event, Promise<void>>
 
@@ -42,6 +45,10 @@ describe('DeleteEventStrategy', () => {
 
     eventRepositoryCreateStub = sandbox.stub(EventRepository.prototype, 'create')
     eventRepositoryDeleteByPubkeyAndIdsStub = sandbox.stub(EventRepository.prototype, 'deleteByPubkeyAndIds')
+    eventRepositoryDeleteByPubkeyAndAddressesStub = sandbox.stub(
+      EventRepository.prototype,
+      'deleteByPubkeyAndAddresses',
+    )
 
     webSocketEmitStub = sandbox.stub()
     webSocket = {
@@ -77,6 +84,45 @@ describe('DeleteEventStrategy', () => {
       )
     })
 
+    it('deletes events up to its creation if it has a tags of own addresses', async () => {
+      const pubkey = 'a'.repeat(64)
+      const deleteEvent: Event = {
+        ...event,
+        pubkey,
+        created_at: 1000,
+        tags: [
+          [EventTags.Address, `30023:${pubkey}:article`],
+          [EventTags.Address, `30000:${pubkey}:`],
+          [EventTags.Address, `30023:${'b'.repeat(64)}:article`],
+          [EventTags.Address, `10002:${pubkey}:`],
+        ],
+      }
+
+      await strategy.execute(deleteEvent)
+
+      expect(eventRepositoryDeleteByPubkeyAndAddressesStub).to.have.been.calledOnceWithExactly(
+        pubkey,
+        [
+          { kind: 30023, pubkey, identifier: 'article' },
+          { kind: 30000, pubkey, identifier: '' },
+        ],
+        1000,
+      )
+      expect(eventRepositoryDeleteByPubkeyAndIdsStub).not.to.have.been.called
+    })
+
+    it('does not delete addresses of other pubkeys', async () => {
+      const deleteEvent: Event = {
+        ...event,
+        pubkey: 'a'.repeat(64),
+        tags: [[EventTags.Address, `30023:${'b'.repeat(64)}:article`]],
+      }
+
+      await strategy.execute(deleteEvent)
+
+      expect(eventRepositoryDeleteByPubkeyAndAddressesStub).not.to.have.been.called
+    })
+
     it('does not delete events if there are no e tags', async () => {
       event.tags = []
 
@@ -121,6 +167,7 @@ describe('DeleteEventStrategy', () => {
 
       expect(eventRepositoryCreateStub).to.have.been.calledOnceWithExactly(event)
       expect(eventRepositoryDeleteByPubkeyAndIdsStub).not.to.have.been.called
+      expect(eventRepositoryDeleteByPubkeyAndAddressesStub).not.to.have.been.called
       expect(webSocketEmitStub).not.to.have.been.called
     })
   })
@@ -0,0 +1,228 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { Event, PaidEvent } from '../../../../src/@types/event'
+import { EventKinds, EventPublicationFeeMetadataKey } from '../../../../src/constants/base'
+import { IInviteRepository, IUserRepository } from '../../../../src/@types/repositories'
+import { InviteEventStrategy } from '../../../../src/handlers/event-strategies/invite-event-strategy'
+import { IWebSocketAdapter } from '../../../../src/@types/adapters'
+import { LedgerEntryType } from '../../../../src/@types/ledger'
+import { MessageType } from '../../../../src/@types/messages'
+import { Settings } from '../../../../src/@types/settings'
+import { toBech32 } from '../../../../src/utils/transform'
+import { WebSocketAdapterEvent } from '../../../../src/constants/adapter'
+
+const { expect } = chai
+
+describe('InviteEventStrategy', () => {
+  const operator = 'a'.repeat(64)
+  const issuer = 'b'.repeat(64)
+  const invitee = 'c'.repeat(64)
+  let sandbox: Sinon.SinonSandbox
+  let settings: Settings
+  let webSocketEmitStub: Sinon.SinonStub
+  let inviteRepository: IInviteRepository
+  let userRepository: IUserRepository
+  let strategy: InviteEventStrategy
+
+  const createEvent = (pubkey: string, tags: string[][] = []): Event => ({
+    id: 'd'.repeat(64),
+    pubkey,
+    kind: EventKinds.RELAY_INVITE,
+    created_at: 1700000000,
+    content: '',
+    tags,
+    sig: 'e'.repeat(128),
+  })
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    settings = {
+      info: { pubkey: operator },
+      payments: {
+        invites: { enabled: true, maxUses: 2 },
+        feeSchedules: { admission: [] },
+      },
+    } as any
+    webSocketEmitStub = sandbox.stub()
+    inviteRepository = {
+      findById: sandbox.stub(),
+      create: sandbox.stub().resolves(1),
+      countByIssuer: sandbox.stub().resolves(0),
+      redeem: sandbox.stub(),
+    }
+    userRepository = {
+      findByPubkey: sandbox.stub().resolves({ pubkey: issuer, isAdmitted: true }),
+      chargeBalance: sandbox.stub().resolves(true),
+    } as any
+    strategy = new InviteEventStrategy(
+      { emit: webSocketEmitStub } as unknown as IWebSocketAdapter,
+      inviteRepository,
+      userRepository,
+      () => settings,
+    )
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  it('creates an invite from an admitted pubkey without broadcasting it', async () => {
+    await strategy.execute(createEvent(issuer, [['p', invitee], ['uses', '2'], ['expiration', '1800000000']]))
+
+    expect(inviteRepository.create).to.have.been.calledOnceWith(Sinon.match({
+      id: 'd'.repeat(64),
+      issuer,
+      invitee,
+      maxUses: 2,
+      amount: null,
+      expiresAt: new Date(1800000000 * 1000),
+    }))
+    expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+      WebSocketAdapterEvent.Message,
+      [MessageType.OK, 'd'.repeat(64), true, ''],
+    )
+  })
+
+  it('reports duplicate invites', async () => {
+    (inviteRepository.create as Sinon.SinonStub).resolves(0)
+
+    await strategy.execute(createEvent(issuer))
+
+    expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+      WebSocketAdapterEvent.Message,
+      [MessageType.OK, 'd'.repeat(64), true, 'duplicate:'],
+    )
+  })
+
+  describe('when a publication fee applies', () => {
+    const fee = { assetCode: 'BTC', assetScale: 11, amount: 1000n }
+    const createPaidEvent = (): PaidEvent => ({ ...createEvent(issuer), [EventPublicationFeeMetadataKey]: fee })
+
+    it('charges the publication fee for the invite', async () => {
+      await strategy.execute(createPaidEvent())
+
+      expect(userRepository.chargeBalance).to.have.been.calledOnceWithExactly(
+        issuer,
+        fee,
+        { type: LedgerEntryType.PUBLICATION_FEE, reference: 'd'.repeat(64) },
+      )
+      expect(inviteRepository.create).to.have.been.calledOnce
+      expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+        WebSocketAdapterEvent.Message,
+        [MessageType.OK, 'd'.repeat(64), true, ''],
+      )
+    })
+
+    it('rejects the invite if the balance does not cover the publication fee', async () => {
+      (userRepository.chargeBalance as Sinon.SinonStub).resolves(false)
+
+      await strategy.execute(createPaidEvent())
+
+      expect(inviteRepository.create).not.to.have.been.called
+      expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+        WebSocketAdapterEvent.Message,
+        [
+          MessageType.OK,
+          'd'.repeat(64),
+          false,
+          'payment-required: insufficient balance for publication fee of 0.00000001 BTC',
+        ],
+      )
+    })
+
+    it('does not charge duplicate invites', async () => {
+      (inviteRepository.findById as Sinon.SinonStub).resolves({ id: 'd'.repeat(64) })
+
+      await strategy.execute(createPaidEvent())
+
+      expect(userRepository.chargeBalance).not.to.have.been.called
+      expect(inviteRepository.create).not.to.have.been.called
+      expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+        WebSocketAdapterEvent.Message,
+        [MessageType.OK, 'd'.repeat(64), true, 'duplicate:'],
+      )
+    })
+  })
+
+  it('rejects invites when invites are disabled', async () => {
+    settings.payments.invites.enabled = false
+
+    await strategy.execute(createEvent(issuer))
+
+    expect(inviteRepository.create).not.to.have.been.called
+    expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+      WebSocketAdapterEvent.Message,
+      [MessageType.OK, 'd'.repeat(64), false, 'blocked: invites are disabled'],
+    )
+  })
+
+  it('rejects invites from pubkeys that are not admitted', async () => {
+    (userRepository.findByPubkey as Sinon.SinonStub).resolves({ pubkey: issuer, isAdmitted: false })
+
+    await strategy.execute(createEvent(issuer))
+
+    expect(inviteRepository.create).not.to.have.been.called
+    expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+      WebSocketAdapterEvent.Message,
+      [MessageType.OK, 'd'.repeat(64), false, 'blocked: only admitted pubkeys may issue invites'],
+    )
+  })
+
+  it('rejects invites from pubkeys that issued as many invites as allowed', async () => {
+    settings.payments.invites.maxInvites = 3;
+    (inviteRepository.countByIssuer as Sinon.SinonStub).resolves(3)
+
+    await strategy.execute(createEvent(issuer))
+
+    expect(inviteRepository.countByIssuer).to.have.been.calledOnceWithExactly(issuer)
+    expect(inviteRepository.create).not.to.have.been.called
+    expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+      WebSocketAdapterEvent.Message,
+      [MessageType.OK, 'd'.repeat(64), false, 'blocked: pubkeys may issue at most 3 invites'],
+    )
+  })
+
+  it('rejects invites allowing more uses than configured', async () => {
+    await strategy.execute(createEvent(issuer, [['uses', '3']]))
+
+    expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+      WebSocketAdapterEvent.Message,
+      [MessageType.OK, 'd'.repeat(64), false, 'blocked: invites may allow at most 2 uses'],
+    )
+  })
+
+  it('rejects vouchers from pubkeys other than the relay operator', async () => {
+    await strategy.execute(createEvent(issuer, [['amount', '1000']]))
+
+    expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+      WebSocketAdapterEvent.Message,
+      [MessageType.OK, 'd'.repeat(64), false, 'blocked: only the relay operator may issue vouchers'],
+    )
+  })
+
+  it('creates vouchers with any number of uses from the relay operator', async () => {
+    await strategy.execute(createEvent(operator, [['amount', '1000'], ['uses', '100']]))
+
+    expect(userRepository.findByPubkey).not.to.have.been.called
+    expect(inviteRepository.create).to.have.been.calledOnceWith(Sinon.match({
+      issuer: operator,
+      invitee: null,
+      maxUses: 100,
+      amount: 1000n,
+      expiresAt: null,
+    }))
+  })
+
+  it('recognizes the relay operator set as an npub', async () => {
+    settings.info.pubkey = toBech32('npub')(operator)
+
+    await strategy.execute(createEvent(operator, [['amount', '1000']]))
+
+    expect(inviteRepository.countByIssuer).not.to.have.been.called
+    expect(inviteRepository.create).to.have.been.calledOnceWith(Sinon.match({ issuer: operator, amount: 1000n }))
+  })
+})
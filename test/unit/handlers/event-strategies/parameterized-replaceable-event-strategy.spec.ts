@@ -1,8 +1,10 @@
 import chai from 'chai'
 import chaiAsPromised from 'chai-as-promised'
 import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
 
 chai.use(chaiAsPromised)
+chai.use(sinonChai)
 
 import { EventDeduplicationMetadataKey, EventTags } from '../../../../src/constants/base'
 import { DatabaseClient } from '../../../../src/@types/base'
@@ -29,6 +31,7 @@ describe('ParameterizedReplaceableEventStrategy', () => {
 
   let webSocketEmitStub: Sinon.SinonStub
   let eventRepositoryUpsertStub: Sinon.SinonStub
+  let eventRepositoryIsAddressDeletedStub: Sinon.SinonStub
 
   let strategy: IEventStrategy<Event, Promise<void>>
 
@@ -38,6 +41,7 @@ describe('ParameterizedReplaceableEventStrategy', () => {
     sandbox = Sinon.createSandbox()
 
     eventRepositoryUpsertStub = sandbox.stub(EventRepository.prototype, 'upsert')
+    eventRepositoryIsAddressDeletedStub = sandbox.stub(EventRepository.prototype, 'isAddressDeleted').resolves(false)
 
     webSocketEmitStub = sandbox.stub()
     webSocket = {
@@ -107,6 +111,29 @@ describe('ParameterizedReplaceableEventStrategy', () => {
       )
     })
 
+    it('does not upsert event if its address was deleted after it was created', async () => {
+      const deletedEvent: Event = {
+        ...event,
+        kind: 30023,
+        pubkey: 'pubkey',
+        created_at: 1000,
+        tags: [[EventTags.Deduplication, 'one']],
+      }
+      eventRepositoryIsAddressDeletedStub.resolves(true)
+
+      await strategy.execute(deletedEvent)
+
+      expect(eventRepositoryIsAddressDeletedStub).to.have.been.calledOnceWithExactly(
+        { kind: 30023, pubkey: 'pubkey', identifier: 'one' },
+        1000,
+      )
+      expect(eventRepositoryUpsertStub).not.to.have.been.called
+      expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+        WebSocketAdapterEvent.Message,
+        [MessageType.OK, 'id', false, 'blocked: event has been deleted']
+      )
+    })
+
     it('rejects if unable to upsert event', async () => {
       const error = new Error()
       eventRepositoryUpsertStub.rejects(error)
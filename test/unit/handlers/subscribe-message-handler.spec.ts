@@ -3,18 +3,21 @@ import chai from 'chai'
 import chaiAsPromised from 'chai-as-promised'
 import EventEmitter from 'events'
 import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
 
 import { IAbortable, IMessageHandler } from '../../../src/@types/message-handlers'
+import { IEventRepository, IUserRepository } from '../../../src/@types/repositories'
 import { MessageType, SubscribeMessage } from '../../../src/@types/messages'
 import { SubscriptionFilter, SubscriptionId } from '../../../src/@types/subscription'
 import { Event } from '../../../src/@types/event'
-import { IEventRepository } from '../../../src/@types/repositories'
 import { IWebSocketAdapter } from '../../../src/@types/adapters'
+import { LedgerEntryType } from '../../../src/@types/ledger'
 import { PassThrough } from 'stream'
 import { SubscribeMessageHandler } from '../../../src/handlers/subscribe-message-handler'
 import { WebSocketAdapterEvent } from '../../../src/constants/adapter'
 
 chai.use(chaiAsPromised)
+chai.use(sinonChai)
 const { expect } = chai
 
 const toDbEvent = (event: Event) => ({
@@ -34,10 +37,14 @@ describe('SubscribeMessageHandler', () => {
   let handler: IMessageHandler & IAbortable
   let webSocket: IWebSocketAdapter
   let eventRepository: IEventRepository
+  let userRepository: IUserRepository
   let message: SubscribeMessage
   let stream: PassThrough
   let settingsFactory: Sinon.SinonStub
   let webSocketGetSubscriptionsStub: Sinon.SinonStub
+  let webSocketGetAuthenticatedPubkeysStub: Sinon.SinonStub
+  let userRepositoryChargeBalanceStub: Sinon.SinonStub
+  let userRepositoryGetBalanceByPubkeyStub: Sinon.SinonStub
   let eventRepositoryFindByFiltersStub: Sinon.SinonSpy
 
   let sandbox: Sinon.SinonSandbox
@@ -49,7 +56,9 @@ describe('SubscribeMessageHandler', () => {
     webSocket = new EventEmitter() as any
     webSocketGetSubscriptionsStub = sandbox.stub().returns(subscriptions)
     webSocket.getSubscriptions = webSocketGetSubscriptionsStub
-    settingsFactory = sandbox.stub()
+    webSocketGetAuthenticatedPubkeysStub = sandbox.stub().returns([])
+    webSocket.getAuthenticatedPubkeys = webSocketGetAuthenticatedPubkeysStub
+    settingsFactory = sandbox.stub().returns({})
     stream = new PassThrough({
       objectMode: true,
     })
@@ -59,9 +68,16 @@ describe('SubscribeMessageHandler', () => {
     eventRepository = {
       findByFilters: eventRepositoryFindByFiltersStub,
     } as any
+    userRepositoryChargeBalanceStub = sandbox.stub().resolves(true)
+    userRepositoryGetBalanceByPubkeyStub = sandbox.stub().resolves(0n)
+    userRepository = {
+      chargeBalance: userRepositoryChargeBalanceStub,
+      getBalanceByPubkey: userRepositoryGetBalanceByPubkeyStub,
+    } as any
     handler = new SubscribeMessageHandler(
       webSocket,
       eventRepository,
+      userRepository,
       settingsFactory,
     )
   })
@@ -108,6 +124,233 @@ describe('SubscribeMessageHandler', () => {
       expect(fetchAndSendStub).to.have.been.calledOnceWithExactly(subscriptionId, filters)
     })
 
+    it('emits CLOSED message if subscription fees apply and client is not authenticated', async () => {
+      canSubscribeStub.returns(undefined)
+      settingsFactory.returns({
+        payments: {
+          enabled: true,
+          feeSchedules: {
+            subscription: [{ enabled: true, amount: 100n }],
+          },
+        },
+      })
+      message = [MessageType.REQ, subscriptionId, ...filters] as any
+
+      await handler.handleMessage(message)
+
+      expect(webSocketOnMessageStub).to.have.been.calledOnceWithExactly(
+        ['CLOSED', subscriptionId, 'auth-required: subscriptions on this relay are paid']
+      )
+      expect(fetchAndSendStub).not.to.have.been.called
+    })
+
+    it('emits CLOSED message if authentication is required and client is not authenticated', async () => {
+      canSubscribeStub.returns(undefined)
+      settingsFactory.returns({
+        authentication: { enabled: true, requiredForSubscriptions: true },
+      })
+      message = [MessageType.REQ, subscriptionId, ...filters] as any
+
+      await handler.handleMessage(message)
+
+      expect(webSocketOnMessageStub).to.have.been.calledOnceWithExactly(
+        ['CLOSED', subscriptionId, 'auth-required: authentication is required to subscribe']
+      )
+      expect(webSocketOnSubscribeStub).not.to.have.been.called
+      expect(fetchAndSendStub).not.to.have.been.called
+    })
+
+    it('emits subscribe event if authentication is required and client is authenticated', async () => {
+      canSubscribeStub.returns(undefined)
+      webSocketGetAuthenticatedPubkeysStub.returns(['a'.repeat(64)])
+      settingsFactory.returns({
+        authentication: { enabled: true, requiredForSubscriptions: true },
+      })
+      message = [MessageType.REQ, subscriptionId, ...filters] as any
+
+      await handler.handleMessage(message)
+
+      expect(webSocketOnSubscribeStub).to.have.been.calledOnceWith(subscriptionId)
+      expect(fetchAndSendStub).to.have.been.calledOnceWithExactly(subscriptionId, filters)
+    })
+
+    describe('when query fees are enabled', () => {
+      const pubkey = 'a'.repeat(64)
+
+      beforeEach(() => {
+        canSubscribeStub.returns(undefined)
+        message = [MessageType.REQ, subscriptionId, ...filters] as any
+        settingsFactory.returns({
+          payments: {
+            enabled: true,
+            feeSchedules: {
+              query: [
+                {
+                  enabled: true,
+                  amount: 1000n,
+                  kinds: [1],
+                  whitelists: { pubkeys: ['bbbb'] },
+                },
+              ],
+            },
+          },
+        })
+      })
+
+      it('emits CLOSED message if client is not authenticated', async () => {
+        await handler.handleMessage(message)
+
+        expect(webSocketOnMessageStub).to.have.been.calledOnceWithExactly(
+          ['CLOSED', subscriptionId, 'auth-required: subscriptions on this relay are paid']
+        )
+        expect(webSocketOnSubscribeStub).not.to.have.been.called
+        expect(fetchAndSendStub).not.to.have.been.called
+      })
+
+      it('charges query fee to the authenticated pubkey', async () => {
+        webSocketGetAuthenticatedPubkeysStub.returns([pubkey])
+
+        await handler.handleMessage(message)
+
+        expect(userRepositoryChargeBalanceStub).to.have.been.calledOnceWithExactly(
+          pubkey,
+          { assetCode: 'BTC', assetScale: 11, amount: 1000n },
+          { type: LedgerEntryType.QUERY_FEE, reference: subscriptionId },
+        )
+        expect(webSocketOnSubscribeStub).to.have.been.calledOnceWith(subscriptionId)
+        expect(fetchAndSendStub).to.have.been.calledOnceWithExactly(subscriptionId, filters)
+      })
+
+      it('emits CLOSED message if balance is insufficient', async () => {
+        webSocketGetAuthenticatedPubkeysStub.returns([pubkey])
+        userRepositoryChargeBalanceStub.resolves(false)
+
+        await handler.handleMessage(message)
+
+        expect(webSocketOnMessageStub).to.have.been.calledOnceWithExactly(
+          ['CLOSED', subscriptionId, 'payment-required: insufficient balance for query fee of 0.00000001 BTC']
+        )
+        expect(webSocketOnSubscribeStub).not.to.have.been.called
+        expect(fetchAndSendStub).not.to.have.been.called
+      })
+
+      it('does not charge whitelisted pubkeys', async () => {
+        webSocketGetAuthenticatedPubkeysStub.returns(['b'.repeat(64)])
+
+        await handler.handleMessage(message)
+
+        expect(userRepositoryChargeBalanceStub).not.to.have.been.called
+        expect(fetchAndSendStub).to.have.been.calledOnceWithExactly(subscriptionId, filters)
+      })
+
+      it('does not charge for filters of other kinds', async () => {
+        filters = [{ kinds: [0] }]
+        message = [MessageType.REQ, subscriptionId, ...filters] as any
+
+        await handler.handleMessage(message)
+
+        expect(userRepositoryChargeBalanceStub).not.to.have.been.called
+        expect(fetchAndSendStub).to.have.been.calledOnceWithExactly(subscriptionId, filters)
+      })
+    })
+
+    describe('when query fees are charged per event', () => {
+      const pubkey = 'a'.repeat(64)
+
+      beforeEach(() => {
+        canSubscribeStub.returns(undefined)
+        webSocketGetAuthenticatedPubkeysStub.returns([pubkey])
+        settingsFactory.returns({
+          payments: {
+            enabled: true,
+            feeSchedules: {
+              query: [{ enabled: true, amount: 0n, perEventAmount: 10n, kinds: [1] }],
+            },
+          },
+        })
+      })
+
+      it('emits CLOSED message if balance does not cover the most events the filters may return', async () => {
+        filters = [{ kinds: [1], limit: 10 }, { kinds: [1, 7] }]
+        message = [MessageType.REQ, subscriptionId, ...filters] as any
+        userRepositoryGetBalanceByPubkeyStub.resolves(5099n)
+
+        await handler.handleMessage(message)
+
+        expect(userRepositoryGetBalanceByPubkeyStub).to.have.been.calledOnceWithExactly(
+          pubkey,
+          { assetCode: 'BTC', assetScale: 11 },
+        )
+        expect(webSocketOnMessageStub).to.have.been.calledOnceWithExactly(
+          ['CLOSED', subscriptionId, 'payment-required: insufficient balance for per-event query fees of up to 0.000000051 BTC']
+        )
+        expect(webSocketOnSubscribeStub).not.to.have.been.called
+        expect(fetchAndSendStub).not.to.have.been.called
+      })
+
+      it('subscribes if balance covers the most events the filters may return', async () => {
+        filters = [{ kinds: [1], limit: 10 }]
+        message = [MessageType.REQ, subscriptionId, ...filters] as any
+        userRepositoryGetBalanceByPubkeyStub.resolves(100n)
+
+        await handler.handleMessage(message)
+
+        expect(userRepositoryChargeBalanceStub).not.to.have.been.called
+        expect(fetchAndSendStub).to.have.been.calledOnceWithExactly(subscriptionId, filters)
+      })
+
+      it('does not check balance for filters of other kinds', async () => {
+        filters = [{ kinds: [0] }]
+        message = [MessageType.REQ, subscriptionId, ...filters] as any
+
+        await handler.handleMessage(message)
+
+        expect(userRepositoryGetBalanceByPubkeyStub).not.to.have.been.called
+        expect(fetchAndSendStub).to.have.been.calledOnceWithExactly(subscriptionId, filters)
+      })
+    })
+
+    describe('when subscription fees are enabled', () => {
+      const pubkey = 'a'.repeat(64)
+
+      beforeEach(() => {
+        canSubscribeStub.returns(undefined)
+        message = [MessageType.REQ, subscriptionId, ...filters] as any
+        webSocketGetAuthenticatedPubkeysStub.returns([pubkey])
+        settingsFactory.returns({
+          payments: {
+            enabled: true,
+            feeSchedules: {
+              subscription: [{ enabled: true, amount: 100n, kinds: [1] }],
+            },
+          },
+        })
+      })
+
+      it('charges the first minute up front', async () => {
+        await handler.handleMessage(message)
+
+        expect(userRepositoryChargeBalanceStub).to.have.been.calledOnceWithExactly(
+          pubkey,
+          { assetCode: 'BTC', assetScale: 11, amount: 100n },
+          { type: LedgerEntryType.SUBSCRIPTION_FEE, reference: subscriptionId },
+        )
+        expect(webSocketOnSubscribeStub).to.have.been.calledOnceWith(subscriptionId)
+        expect(fetchAndSendStub).to.have.been.calledOnceWithExactly(subscriptionId, filters)
+      })
+
+      it('emits CLOSED message if balance is insufficient', async () => {
+        userRepositoryChargeBalanceStub.resolves(false)
+
+        await handler.handleMessage(message)
+
+        expect(webSocketOnMessageStub).to.have.been.calledOnceWithExactly(
+          ['CLOSED', subscriptionId, 'payment-required: insufficient balance for subscription fee of 0.000000001 BTC']
+        )
+        expect(webSocketOnSubscribeStub).not.to.have.been.called
+        expect(fetchAndSendStub).not.to.have.been.called
+      })
+    })
   })
 
   describe('#fetchAndSend', () => {
@@ -193,6 +436,77 @@ describe('SubscribeMessageHandler', () => {
       await expect(promise).to.eventually.be.rejectedWith(error)
       expect(closeSpy).to.have.been.called
     })
+
+    describe('when query fees are charged per event', () => {
+      const pubkey = 'a'.repeat(64)
+      let webSocketOnUnsubscribeStub: Sinon.SinonStub
+
+      beforeEach(() => {
+        isClientSubscribedToEventStub.returns(always(true))
+        webSocketGetAuthenticatedPubkeysStub.returns([pubkey])
+        webSocketOnUnsubscribeStub = sandbox.stub()
+        webSocket.on(WebSocketAdapterEvent.Unsubscribe, webSocketOnUnsubscribeStub)
+        settingsFactory.returns({
+          payments: {
+            enabled: true,
+            feeSchedules: {
+              query: [{ enabled: true, amount: 0n, perEventAmount: 10n }],
+            },
+          },
+        })
+      })
+
+      it('charges for all events sent at once before sending EOSE', async () => {
+        const promise = (handler as any).fetchAndSend(subscriptionId, filters)
+
+        stream.write(toDbEvent(event))
+        stream.write(toDbEvent({ ...event, id: 'a'.repeat(64) }))
+        stream.end()
+
+        await promise
+
+        expect(userRepositoryChargeBalanceStub).to.have.been.calledOnceWithExactly(
+          pubkey,
+          { assetCode: 'BTC', assetScale: 11, amount: 20n },
+          { type: LedgerEntryType.QUERY_FEE, reference: subscriptionId },
+        )
+        expect(webSocketOnMessageStub).to.have.been.calledThrice
+        expect(webSocketOnMessageStub.thirdCall).to.have.been.calledWithExactly(['EOSE', subscriptionId])
+      })
+
+      it('does not charge if no events are sent', async () => {
+        const promise = (handler as any).fetchAndSend(subscriptionId, filters)
+
+        stream.end()
+
+        await promise
+
+        expect(userRepositoryChargeBalanceStub).not.to.have.been.called
+        expect(webSocketOnMessageStub).to.have.been.calledOnceWithExactly(['EOSE', subscriptionId])
+      })
+
+      it('emits CLOSED message after sending all events if balance does not cover the fees', async () => {
+        userRepositoryChargeBalanceStub.resolves(false)
+
+        const promise = (handler as any).fetchAndSend(subscriptionId, filters)
+
+        stream.write(toDbEvent(event))
+        stream.write(toDbEvent({ ...event, id: 'a'.repeat(64) }))
+        stream.write(toDbEvent({ ...event, id: 'c'.repeat(64) }))
+        stream.end()
+
+        await promise
+
+        expect(userRepositoryChargeBalanceStub).to.have.been.calledOnce
+        expect(webSocketOnMessageStub.callCount).to.equal(4)
+        expect(webSocketOnMessageStub.firstCall).to.have.been.calledWithExactly(['EVENT', subscriptionId, event])
+        expect(webSocketOnMessageStub.lastCall).to.have.been.calledWithExactly(
+          ['CLOSED', subscriptionId, 'payment-required: insufficient balance for per-event query fees of 0.0000000003 BTC'],
+        )
+        expect(webSocketOnMessageStub).not.to.have.been.calledWith(['EOSE', subscriptionId])
+        expect(webSocketOnUnsubscribeStub).to.have.been.calledOnceWithExactly(subscriptionId)
+      })
+    })
   })
 
   describe('.isClientSubscribedToEvent', () => {
@@ -212,6 +526,22 @@ describe('SubscribeMessageHandler', () => {
   })
 
   describe('#canSubscribe', () => {
+    it('returns reason if filter has search query and search is disabled', () => {
+      settingsFactory.returns({ limits: { client: { subscription: {} } } })
+      filters = [{ search: 'nostr' }]
+
+      expect((handler as any).canSubscribe(subscriptionId, filters)).to.equal(
+        'Search not supported: Full-text search is disabled on this relay'
+      )
+    })
+
+    it('returns undefined if filter has search query and search is enabled', () => {
+      settingsFactory.returns({ search: { enabled: true }, limits: { client: { subscription: {} } } })
+      filters = [{ search: 'nostr' }]
+
+      expect((handler as any).canSubscribe(subscriptionId, filters)).to.be.undefined
+    })
+
     it('returns undefined if subscription & filter count are allowed', () => {
       settingsFactory.returns({
         limits: {
@@ -0,0 +1,150 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+
+chai.use(chaiAsPromised)
+
+import { InvoiceStatus, PaymentRequestType } from '../../../src/@types/invoice'
+import { IlpConnectorPaymentsProcessor } from '../../../src/payments-processors/ilp-connector-payments-processor'
+import { MockIlpConnectorClient } from '../../helpers/mock-ilp-connector-client'
+import { Settings } from '../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('IlpConnectorPaymentsProcessor', () => {
+  const MSATS = { assetCode: 'BTC', assetScale: 11 }
+  let settings: Settings
+  let connector: MockIlpConnectorClient
+  let processor: IlpConnectorPaymentsProcessor
+
+  beforeEach(() => {
+    settings = {
+      paymentsProcessors: {
+        ilpConnector: { invoiceExpiry: 60 },
+      },
+    } as Settings
+    connector = new MockIlpConnectorClient('test.relay')
+    processor = new IlpConnectorPaymentsProcessor(connector, () => settings)
+  })
+
+  describe('createInvoice', () => {
+    it('creates receiver on connector', async () => {
+      const invoice = await processor.createInvoice({
+        ...MSATS,
+        amount: 1000n,
+        description: 'Admission fee',
+        requestId: 'pubkey',
+      })
+
+      expect(invoice).to.include({
+        pubkey: 'pubkey',
+        description: 'Admission fee',
+        amountRequested: 1000n,
+        assetCode: 'BTC',
+        assetScale: 11,
+        status: InvoiceStatus.PENDING,
+      })
+      expect(invoice.expiresAt.getTime() - Date.now()).to.be.within(59000, 60000)
+      expect(invoice.paymentRequest).to.deep.include({
+        type: PaymentRequestType.STREAM,
+        destinationAccount: `test.relay.${invoice.id}`,
+      })
+    })
+
+    it('throws if connector does not support asset', async () => {
+      connector.createReceiver = async (request) => ({
+        id: 'id',
+        destinationAccount: 'test.relay.id',
+        sharedSecret: '',
+        assetCode: 'XRP',
+        assetScale: 6,
+        amount: request.amount,
+        amountReceived: 0n,
+        expiresAt: request.expiresAt,
+        createdAt: new Date(),
+      })
+
+      await expect(processor.createInvoice({ ...MSATS, amount: 1000n })).to.eventually.be.rejectedWith(
+        'Unsupported ILP asset: XRP (scale 6)',
+      )
+    })
+  })
+
+  describe('getInvoice', () => {
+    it('throws if receiver does not exist', async () => {
+      await expect(processor.getInvoice('unknown')).to.eventually.be.rejectedWith('Invoice not found: unknown')
+    })
+
+    it('returns pending invoice until paid in full', async () => {
+      const { id } = await processor.createInvoice({ ...MSATS, amount: 1000n })
+      connector.pay(id, 400n)
+      connector.settle(id)
+
+      const invoice = await processor.getInvoice(id)
+
+      expect(invoice.status).to.equal(InvoiceStatus.PENDING)
+      expect(invoice.amountPaid).to.equal(400n)
+      expect(invoice).not.to.have.property('pubkey')
+    })
+
+    it('returns pending invoice until payments settle', async () => {
+      const { id } = await processor.createInvoice({ ...MSATS, amount: 1000n })
+      connector.pay(id, 1000n)
+
+      expect((await processor.getInvoice(id)).status).to.equal(InvoiceStatus.PENDING)
+    })
+
+    it('returns completed invoice once paid and settled', async () => {
+      const { id } = await processor.createInvoice({ ...MSATS, amount: 1000n })
+      const receivedAt = new Date('2030-01-01T00:00:00.000Z')
+      connector.pay(id, 600n)
+      connector.pay(id, 600n, receivedAt)
+      connector.settle(id)
+
+      const invoice = await processor.getInvoice(id)
+
+      expect(invoice.status).to.equal(InvoiceStatus.COMPLETED)
+      expect(invoice.amountPaid).to.equal(1200n)
+      expect(invoice.confirmedAt).to.deep.equal(receivedAt)
+    })
+
+    it('returns expired invoice if unpaid past expiry', async () => {
+      settings.paymentsProcessors.ilpConnector.invoiceExpiry = -1
+      const { id } = await processor.createInvoice({ ...MSATS, amount: 1000n })
+      connector.pay(id, 1n)
+
+      expect((await processor.getInvoice(id)).status).to.equal(InvoiceStatus.EXPIRED)
+    })
+
+    it('completes open amount invoice once expired', async () => {
+      settings.paymentsProcessors.ilpConnector.invoiceExpiry = -1
+      const { id } = await processor.createInvoice({ ...MSATS, amount: 0n })
+      connector.pay(id, 5000n)
+      connector.settle(id)
+
+      const invoice = await processor.getInvoice(id)
+
+      expect(invoice.status).to.equal(InvoiceStatus.COMPLETED)
+      expect(invoice.amountPaid).to.equal(5000n)
+    })
+  })
+
+  describe('sendPayment', () => {
+    const paymentPointer = '$wallet.example/alice'
+
+    it('sends payment through connector', async () => {
+      const payment = await processor.sendPayment({ ...MSATS, paymentPointer, amount: 1000n })
+
+      expect(payment).to.include({ ...MSATS, amountSent: 1000n })
+      expect(connector.outgoingPayments).to.have.length(1)
+      expect(connector.outgoingPayments[0]).to.include({ ...MSATS, paymentPointer, amount: 1000n })
+    })
+
+    it('returns the amount sent if payment falls short', async () => {
+      connector.limitPaymentsTo(paymentPointer, 400n)
+
+      const payment = await processor.sendPayment({ ...MSATS, paymentPointer, amount: 1000n })
+
+      expect(payment.amountSent).to.equal(400n)
+    })
+  })
+})
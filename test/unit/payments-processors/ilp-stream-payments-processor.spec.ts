@@ -0,0 +1,430 @@
+import * as Ildcp from 'ilp-protocol-ildcp'
+import * as IlpPacket from 'ilp-packet'
+import { Connection, createConnection, createServer, DataAndMoneyStream, Server } from 'ilp-protocol-stream'
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(chaiAsPromised)
+chai.use(sinonChai)
+
+import { IlpPlugin, IlpStreamPaymentsProcessor } from '../../../src/payments-processors/ilp-stream-payments-processor'
+import { InvoiceStatus, PaymentRequest, PaymentRequestType, StreamPaymentRequest } from '../../../src/@types/invoice'
+import { ICacheAdapter } from '../../../src/@types/adapters'
+import { ISpspClient } from '../../../src/@types/clients'
+import { PaymentsProcessorEvent } from '../../../src/constants/payments'
+import { Settings } from '../../../src/@types/settings'
+
+const { expect } = chai
+
+type DataHandler = (data: Buffer) => Promise<Buffer>
+
+class InProcessPlugin implements IlpPlugin {
+  public peer: InProcessPlugin
+  private connected = false
+  private dataHandler: DataHandler | undefined
+
+  public constructor(
+    private readonly address: string,
+    private readonly assetCode: string,
+    private readonly assetScale: number,
+  ) {}
+
+  public async connect(): Promise<void> {
+    this.connected = true
+  }
+
+  public async disconnect(): Promise<void> {
+    this.connected = false
+  }
+
+  public isConnected(): boolean {
+    return this.connected
+  }
+
+  public async sendData(data: Buffer): Promise<Buffer> {
+    if (IlpPacket.deserializeIlpPrepare(data).destination === 'peer.config') {
+      return Ildcp.serve({
+        requestPacket: data,
+        serverAddress: 'test.connector',
+        handler: async () => ({
+          clientAddress: this.address,
+          assetCode: this.assetCode,
+          assetScale: this.assetScale,
+        }),
+      })
+    }
+
+    return this.peer.handleData(data)
+  }
+
+  public registerDataHandler(handler: DataHandler): void {
+    this.dataHandler = handler
+  }
+
+  public deregisterDataHandler(): void {
+    this.dataHandler = undefined
+  }
+
+  private handleData(data: Buffer): Promise<Buffer> {
+    if (!this.dataHandler) {
+      throw new Error('no data handler registered')
+    }
+    return this.dataHandler(data)
+  }
+}
+
+const createPluginPair = (assetCode: string, assetScale: number): [InProcessPlugin, InProcessPlugin] => {
+  const relayPlugin = new InProcessPlugin('test.connector.relay', assetCode, assetScale)
+  const payerPlugin = new InProcessPlugin('test.connector.payer', assetCode, assetScale)
+  relayPlugin.peer = payerPlugin
+  payerPlugin.peer = relayPlugin
+
+  return [relayPlugin, payerPlugin]
+}
+
+const createSenderPlugin = (wallet: InProcessPlugin): InProcessPlugin => {
+  const senderPlugin = new InProcessPlugin('test.connector.relay-sender', 'BTC', 8)
+  senderPlugin.peer = wallet
+
+  return senderPlugin
+}
+
+const MSATS = { assetCode: 'BTC', assetScale: 11 }
+
+const createCache = (): ICacheAdapter => {
+  const store = new Map<string, string>()
+
+  return {
+    getKey: async (key: string) => store.get(key),
+    hasKey: async (key: string) => store.has(key),
+    setKey: async (key: string, value: string) => {
+      store.set(key, value)
+      return true
+    },
+    setKeyExpiry: async () => undefined,
+  } as any
+}
+
+describe('IlpStreamPaymentsProcessor', () => {
+  let relayPlugin: InProcessPlugin
+  let payerPlugin: InProcessPlugin
+  let walletPlugin: InProcessPlugin
+  let spspClient: ISpspClient
+  let settings: Settings
+  let processor: IlpStreamPaymentsProcessor
+  let sandbox: Sinon.SinonSandbox
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    const plugins = createPluginPair('BTC', 8)
+    relayPlugin = plugins[0]
+    payerPlugin = plugins[1]
+    walletPlugin = new InProcessPlugin('test.connector.wallet', 'BTC', 8)
+    spspClient = { query: sandbox.stub() }
+    settings = {
+      paymentsProcessors: {
+        ilpStream: {
+          invoiceExpiry: 60,
+        },
+      },
+    } as any
+
+    processor = new IlpStreamPaymentsProcessor(
+      relayPlugin,
+      Buffer.alloc(32, 1),
+      createCache(),
+      () => settings,
+      () => createSenderPlugin(walletPlugin),
+      spspClient,
+    )
+  })
+
+  afterEach(async () => {
+    await processor.close()
+    sandbox.restore()
+  })
+
+  const pay = async (paymentRequest: PaymentRequest, amount: string) => {
+    const { destinationAccount, sharedSecret } = paymentRequest as StreamPaymentRequest
+    const connection = await createConnection({
+      plugin: payerPlugin,
+      destinationAccount,
+      sharedSecret: Buffer.from(sharedSecret, 'base64'),
+    })
+    const stream = connection.createStream()
+    await stream.sendTotal(amount, { timeout: 500 }).catch(() => undefined)
+    await connection.end()
+
+    return stream.totalSent
+  }
+
+  const waitForStatus = async (invoiceId: string, status: InvoiceStatus) => {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const invoice = await processor.getInvoice(invoiceId)
+      if (invoice.status === status) {
+        return invoice
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+
+    return processor.getInvoice(invoiceId)
+  }
+
+  describe('getAsset', () => {
+    it('returns the asset of the ILP account', async () => {
+      expect(await processor.getAsset()).to.deep.equal({ assetCode: 'BTC', assetScale: 8 })
+    })
+  })
+
+  describe('createInvoice', () => {
+    it('returns a pending invoice with STREAM credentials', async () => {
+      const invoice = await processor.createInvoice({
+        ...MSATS,
+        amount: 1000000n,
+        description: 'Admission fee',
+        requestId: 'pubkey',
+      })
+
+      expect(invoice).to.include({
+        pubkey: 'pubkey',
+        amountRequested: 1000000n,
+        description: 'Admission fee',
+        assetCode: 'BTC',
+        assetScale: 11,
+        status: InvoiceStatus.PENDING,
+      })
+      expect(invoice.expiresAt.getTime() - invoice.createdAt.getTime()).to.equal(60000)
+
+      const { type, destinationAccount, sharedSecret } = invoice.paymentRequest as StreamPaymentRequest
+      expect(type).to.equal(PaymentRequestType.STREAM)
+      expect(destinationAccount.startsWith('test.connector.relay.')).to.be.true
+      expect(Buffer.from(sharedSecret, 'base64')).to.have.length(32)
+    })
+
+    it('issues different credentials for each invoice', async () => {
+      const invoice1 = await processor.createInvoice({ ...MSATS, amount: 1000n, requestId: 'pubkey' })
+      const invoice2 = await processor.createInvoice({ ...MSATS, amount: 1000n, requestId: 'pubkey' })
+
+      expect(invoice1.id).not.to.equal(invoice2.id)
+      expect(invoice1.paymentRequest).not.to.deep.equal(invoice2.paymentRequest)
+    })
+
+    it('rejects if the ILP account is not denominated in the invoice asset', async () => {
+      const [xrpPlugin] = createPluginPair('XRP', 6)
+      processor = new IlpStreamPaymentsProcessor(
+        xrpPlugin,
+        Buffer.alloc(32, 1),
+        createCache(),
+        () => settings,
+        () => createSenderPlugin(walletPlugin),
+        spspClient,
+      )
+
+      await expect(
+        processor.createInvoice({ ...MSATS, amount: 1000n, requestId: 'pubkey' })
+      ).to.eventually.be.rejectedWith('Unsupported ILP asset: XRP')
+    })
+  })
+
+  describe('getInvoice', () => {
+    it('throws if invoice is unknown', async () => {
+      await expect(processor.getInvoice('unknown')).to.eventually.be.rejectedWith('Invoice not found: unknown')
+    })
+
+    it('returns pending invoice until it is paid', async () => {
+      const invoice = await processor.createInvoice({ ...MSATS, amount: 1000000n, requestId: 'pubkey' })
+
+      const result = await processor.getInvoice(invoice.id)
+
+      expect(result.status).to.equal(InvoiceStatus.PENDING)
+      expect(result.amountPaid).to.be.undefined
+    })
+
+    it('returns completed invoice once paid over STREAM', async () => {
+      const invoice = await processor.createInvoice({ ...MSATS, amount: 1000000n, requestId: 'pubkey' })
+
+      const totalSent = await pay(invoice.paymentRequest, '1000')
+
+      const result = await processor.getInvoice(invoice)
+
+      expect(totalSent).to.equal('1000')
+      expect(result.status).to.equal(InvoiceStatus.COMPLETED)
+      expect(result.amountPaid).to.equal(1000000n)
+      expect(result.confirmedAt).to.be.an.instanceOf(Date)
+    })
+
+    it('rounds amounts up to the asset scale of the ILP account', async () => {
+      const invoice = await processor.createInvoice({ ...MSATS, amount: 1500n, requestId: 'pubkey' })
+
+      const totalSent = await pay(invoice.paymentRequest, '2')
+
+      const result = await processor.getInvoice(invoice.id)
+
+      expect(totalSent).to.equal('2')
+      expect(result.status).to.equal(InvoiceStatus.COMPLETED)
+      expect(result.amountPaid).to.equal(2000n)
+    })
+
+    it('keeps invoice pending if partially paid', async () => {
+      const invoice = await processor.createInvoice({ ...MSATS, amount: 1000000n, requestId: 'pubkey' })
+
+      await pay(invoice.paymentRequest, '400')
+
+      const result = await processor.getInvoice(invoice.id)
+
+      expect(result.status).to.equal(InvoiceStatus.PENDING)
+      expect(result.amountPaid).to.equal(400000n)
+    })
+
+    it('does not accept more than the amount requested', async () => {
+      const invoice = await processor.createInvoice({ ...MSATS, amount: 1000000n, requestId: 'pubkey' })
+
+      const totalSent = await pay(invoice.paymentRequest, '5000')
+
+      const result = await waitForStatus(invoice.id, InvoiceStatus.COMPLETED)
+
+      expect(totalSent).to.equal('1000')
+      expect(result.amountPaid).to.equal(1000000n)
+    })
+
+    it('returns expired invoice if not paid in time', async () => {
+      const invoice = await processor.createInvoice({ ...MSATS, amount: 1000000n, requestId: 'pubkey' })
+      const clock = sandbox.useFakeTimers({ now: invoice.expiresAt.getTime(), toFake: ['Date'] })
+
+      const result = await processor.getInvoice(invoice.id)
+      clock.restore()
+
+      expect(result.status).to.equal(InvoiceStatus.EXPIRED)
+    })
+  })
+
+  describe('payment received event', () => {
+    const waitForPayment = () => new Promise<any>((resolve) => {
+      processor.once(PaymentsProcessorEvent.PaymentReceived, resolve)
+    })
+
+    it('is emitted once an invoice is paid in full', async () => {
+      const invoice = await processor.createInvoice({ ...MSATS, amount: 1000000n, requestId: 'pubkey' })
+      const paymentReceived = waitForPayment()
+
+      await pay(invoice.paymentRequest, '1000')
+
+      expect(await paymentReceived).to.include({
+        id: invoice.id,
+        pubkey: 'pubkey',
+        status: InvoiceStatus.COMPLETED,
+        amountPaid: 1000000n,
+      })
+    })
+
+    it('is not emitted for partial payments', async () => {
+      const invoice = await processor.createInvoice({ ...MSATS, amount: 1000000n, requestId: 'pubkey' })
+      const listener = sandbox.stub()
+      processor.on(PaymentsProcessorEvent.PaymentReceived, listener)
+
+      await pay(invoice.paymentRequest, '400')
+      await processor.getInvoice(invoice.id)
+
+      expect(listener.called).to.be.false
+    })
+
+    it('is emitted once the payer of an open amount invoice closes the connection', async () => {
+      const invoice = await processor.createInvoice({ ...MSATS, amount: 0n, requestId: 'pubkey' })
+      const paymentReceived = waitForPayment()
+
+      await pay(invoice.paymentRequest, '5000')
+
+      const result = await paymentReceived
+      expect(result).to.include({ id: invoice.id, status: InvoiceStatus.COMPLETED, amountPaid: 5000000n })
+      expect(result.confirmedAt).to.be.an.instanceOf(Date)
+    })
+  })
+
+  describe('open amount invoices', () => {
+    it('accepts any amount and completes once the payer closes the connection', async () => {
+      const invoice = await processor.createInvoice({ ...MSATS, amount: 0n, requestId: 'pubkey' })
+
+      const totalSent = await pay(invoice.paymentRequest, '5000')
+
+      const result = await waitForStatus(invoice.id, InvoiceStatus.COMPLETED)
+
+      expect(totalSent).to.equal('5000')
+      expect(result.status).to.equal(InvoiceStatus.COMPLETED)
+      expect(result.amountPaid).to.equal(5000000n)
+      expect(result.confirmedAt).to.be.an.instanceOf(Date)
+    })
+
+    it('returns completed invoice if paid and expired before the connection closed', async () => {
+      const invoice = await processor.createInvoice({ ...MSATS, amount: 0n, requestId: 'pubkey' })
+      await pay(invoice.paymentRequest, '100')
+      const clock = sandbox.useFakeTimers({ now: invoice.expiresAt.getTime(), toFake: ['Date'] })
+
+      const result = await processor.getInvoice(invoice.id)
+      clock.restore()
+
+      expect(result.status).to.equal(InvoiceStatus.COMPLETED)
+      expect(result.amountPaid).to.equal(100000n)
+    })
+
+    it('returns expired invoice if not paid in time', async () => {
+      const invoice = await processor.createInvoice({ ...MSATS, amount: 0n, requestId: 'pubkey' })
+      const clock = sandbox.useFakeTimers({ now: invoice.expiresAt.getTime(), toFake: ['Date'] })
+
+      const result = await processor.getInvoice(invoice.id)
+      clock.restore()
+
+      expect(result.status).to.equal(InvoiceStatus.EXPIRED)
+    })
+  })
+
+  describe('sendPayment', () => {
+    const paymentPointer = '$wallet.example/alice'
+    let wallet: Server
+    let receiveMax: string | number
+
+    beforeEach(async () => {
+      receiveMax = Infinity
+      settings.paymentsProcessors.ilpStream.paymentTimeout = 0.5
+      wallet = await createServer({ plugin: walletPlugin, serverSecret: Buffer.alloc(32, 2) })
+      wallet.on('connection', (connection: Connection) => {
+        connection.on('stream', (stream: DataAndMoneyStream) => stream.setReceiveMax(receiveMax))
+      })
+      const query = spspClient.query as Sinon.SinonStub
+      query.resolves(wallet.generateAddressAndSecret())
+    })
+
+    afterEach(async () => {
+      await wallet.close()
+    })
+
+    it('streams the amount to the payment pointer', async () => {
+      const payment = await processor.sendPayment({ ...MSATS, paymentPointer, amount: 1000000n })
+
+      expect(spspClient.query).to.have.been.calledOnceWithExactly(paymentPointer)
+      expect(payment).to.include({ ...MSATS, amountSent: 1000000n })
+      expect(payment.id).to.be.a('string')
+    })
+
+    it('never sends more than the amount requested', async () => {
+      const payment = await processor.sendPayment({ ...MSATS, paymentPointer, amount: 1500n })
+
+      expect(payment.amountSent).to.equal(1000n)
+    })
+
+    it('returns the amount sent if the receiver stops accepting money', async () => {
+      receiveMax = 400
+
+      const payment = await processor.sendPayment({ ...MSATS, paymentPointer, amount: 1000000n })
+
+      expect(payment.amountSent).to.equal(400000n)
+    })
+
+    it('rejects if the ILP account is not denominated in the payment asset', async () => {
+      await expect(
+        processor.sendPayment({ assetCode: 'XRP', assetScale: 6, paymentPointer, amount: 1000n })
+      ).to.eventually.be.rejectedWith('Unsupported ILP asset: BTC')
+    })
+  })
+})
@@ -1,5 +1,6 @@
 import * as chai from 'chai'
 import * as sinon from 'sinon'
+import chaiAsPromised from 'chai-as-promised'
 import knex from 'knex'
 import sinonChai from 'sinon-chai'
 
@@ -8,12 +9,19 @@ import { IEventRepository } from '../../../src/@types/repositories'
 import { SubscriptionFilter } from '../../../src/@types/subscription'
 
 chai.use(sinonChai)
+chai.use(chaiAsPromised)
 
 const { expect } = chai
 
-import { ContextMetadataKey, EventDeduplicationMetadataKey, EventTags } from '../../../src/constants/base'
+import {
+  ContextMetadataKey,
+  EventDeduplicationMetadataKey,
+  EventPublicationFeeMetadataKey,
+  EventTags,
+} from '../../../src/constants/base'
 import { DatabaseClient } from '../../../src/@types/base'
 import { EventRepository } from '../../../src/repositories/event-repository'
+import { InsufficientBalanceError } from '../../../src/errors/insufficient-balance-error'
 
 describe('EventRepository', () => {
   let repository: IEventRepository
@@ -57,7 +65,7 @@ describe('EventRepository', () => {
 
         const query = repository.findByFilters(filters).toString()
 
-        expect(query).to.equal('select * from "events" order by "event_created_at" asc limit 500')
+        expect(query).to.equal('select * from "events" where ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
       })
 
       describe('authors', () => {
@@ -66,7 +74,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (1 = 0) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (1 = 0) and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one author', () => {
@@ -74,7 +82,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where ("event_pubkey" in (X\'22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793\')) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where ("event_pubkey" in (X\'22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793\')) and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two authors', () => {
@@ -89,7 +97,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where ("event_pubkey" in (X\'22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793\', X\'32e1827635450ebb3c5a7d12c1f8e7b2b514439ac10a67eef3d9fd9c5c68e245\')) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where ("event_pubkey" in (X\'22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793\', X\'32e1827635450ebb3c5a7d12c1f8e7b2b514439ac10a67eef3d9fd9c5c68e245\')) and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one author prefix (even length)', () => {
@@ -103,7 +111,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (substring("event_pubkey" from 1 for 3) = X\'22e804\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (substring("event_pubkey" from 1 for 3) = X\'22e804\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one author prefix (odd length)', () => {
@@ -117,7 +125,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (substring("event_pubkey" from 1 for 4) BETWEEN E\'\\\\x22e804f0\' AND E\'\\\\x22e804ff\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (substring("event_pubkey" from 1 for 4) BETWEEN E\'\\\\x22e804f0\' AND E\'\\\\x22e804ff\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two author prefix (first even, second odd)', () => {
@@ -132,7 +140,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (substring("event_pubkey" from 1 for 3) = X\'22e804\' or substring("event_pubkey" from 1 for 4) BETWEEN E\'\\\\x32e18270\' AND E\'\\\\x32e1827f\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (substring("event_pubkey" from 1 for 3) = X\'22e804\' or substring("event_pubkey" from 1 for 4) BETWEEN E\'\\\\x32e18270\' AND E\'\\\\x32e1827f\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -142,7 +150,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (1 = 0) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (1 = 0) and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one id', () => {
@@ -150,7 +158,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where ("event_id" in (X\'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\')) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where ("event_id" in (X\'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\')) and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two ids', () => {
@@ -165,7 +173,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where ("event_id" in (X\'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\', X\'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb\')) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where ("event_id" in (X\'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\', X\'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb\')) and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one id prefix (even length)', () => {
@@ -179,7 +187,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (substring("event_id" from 1 for 2) = X\'abcd\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (substring("event_id" from 1 for 2) = X\'abcd\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one id prefix (odd length)', () => {
@@ -193,7 +201,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (substring("event_id" from 1 for 2) BETWEEN E\'\\\\xabc0\' AND E\'\\\\xabcf\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (substring("event_id" from 1 for 2) BETWEEN E\'\\\\xabc0\' AND E\'\\\\xabcf\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two id prefix (first even, second odd)', () => {
@@ -208,7 +216,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (substring("event_id" from 1 for 3) = X\'abcdef\' or substring("event_id" from 1 for 2) BETWEEN E\'\\\\xabc0\' AND E\'\\\\xabcf\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (substring("event_id" from 1 for 3) = X\'abcdef\' or substring("event_id" from 1 for 2) BETWEEN E\'\\\\xabc0\' AND E\'\\\\xabcf\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -218,7 +226,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where 1 = 0 order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where 1 = 0 and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one kind', () => {
@@ -226,7 +234,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where "event_kind" in (1) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where "event_kind" in (1) and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two kinds', () => {
@@ -234,7 +242,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where "event_kind" in (1, 2) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where "event_kind" in (1, 2) and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -244,7 +252,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where "event_created_at" >= 1000 order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where "event_created_at" >= 1000 and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -254,7 +262,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where "event_created_at" <= 1000 order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where "event_created_at" <= 1000 and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -264,7 +272,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" order by "event_created_at" DESC limit 1000')
+          expect(query).to.equal('select * from "events" where ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" DESC limit 1000')
         })
       })
 
@@ -274,7 +282,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (1 = 0) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (1 = 0) and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one #e tag', () => {
@@ -282,7 +290,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (event_tags.tag_name = \'e\' AND event_tags.tag_value = \'aaaaaa\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (event_tags.tag_name = \'e\' AND event_tags.tag_value = \'aaaaaa\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two #e tag', () => {
@@ -290,7 +298,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (event_tags.tag_name = \'e\' AND event_tags.tag_value = \'aaaaaa\' or event_tags.tag_name = \'e\' AND event_tags.tag_value = \'bbbbbb\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (event_tags.tag_name = \'e\' AND event_tags.tag_value = \'aaaaaa\' or event_tags.tag_name = \'e\' AND event_tags.tag_value = \'bbbbbb\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -300,7 +308,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (1 = 0) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (1 = 0) and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one #p tag', () => {
@@ -308,7 +316,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (event_tags.tag_name = \'p\' AND event_tags.tag_value = \'aaaaaa\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (event_tags.tag_name = \'p\' AND event_tags.tag_value = \'aaaaaa\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two #p tag', () => {
@@ -316,7 +324,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (event_tags.tag_name = \'p\' AND event_tags.tag_value = \'aaaaaa\' or event_tags.tag_name = \'p\' AND event_tags.tag_value = \'bbbbbb\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (event_tags.tag_name = \'p\' AND event_tags.tag_value = \'aaaaaa\' or event_tags.tag_name = \'p\' AND event_tags.tag_value = \'bbbbbb\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -326,7 +334,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (1 = 0) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (1 = 0) and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one #r tag', () => {
@@ -334,7 +342,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (event_tags.tag_name = \'r\' AND event_tags.tag_value = \'aaaaaa\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (event_tags.tag_name = \'r\' AND event_tags.tag_value = \'aaaaaa\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two #r tag', () => {
@@ -342,18 +350,36 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (event_tags.tag_name = \'r\' AND event_tags.tag_value = \'aaaaaa\' or event_tags.tag_name = \'r\' AND event_tags.tag_value = \'bbbbbb\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select "events".* from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where (event_tags.tag_name = \'r\' AND event_tags.tag_value = \'aaaaaa\' or event_tags.tag_name = \'r\' AND event_tags.tag_value = \'bbbbbb\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500')
         })
       })
     })
 
+    describe('search', () => {
+      it('selects events matching search query by relevance', () => {
+        const filters = [{ kinds: [1], search: 'Best nostr-apps include:spam' }]
+
+        const query = repository.findByFilters(filters).toString()
+
+        expect(query).to.equal('select * from "events" where "event_kind" in (1) and "events"."event_search" @@ plainto_tsquery(\'simple\', \'best nostr apps\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by ts_rank("events"."event_search", plainto_tsquery(\'simple\', \'best nostr apps\')) DESC limit 500')
+      })
+
+      it('selects events regardless of search query without words', () => {
+        const filters = [{ search: 'include:spam', limit: 10 }]
+
+        const query = repository.findByFilters(filters).toString()
+
+        expect(query).to.equal('select * from "events" where ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" DESC limit 10')
+      })
+    })
+
     describe('2 filters', () => {
       it('selects union of both filters', () => {
         const filters = [{}, {}]
 
         const query = repository.findByFilters(filters).toString()
 
-        expect(query).to.equal('(select * from "events") union (select * from "events" order by "event_created_at" asc limit 500) order by "event_created_at" asc limit 500')
+        expect(query).to.equal('(select * from "events" where ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer)) union (select * from "events" where ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500) order by "event_created_at" asc limit 500')
       })
     })
 
@@ -363,11 +389,43 @@ describe('EventRepository', () => {
 
         const query = repository.findByFilters(filters).toString()
 
-        expect(query).to.equal('(select * from "events" where "event_kind" in (1)) union (select * from "events" where (substring("event_id" from 1 for 3) BETWEEN E\'\\\\xaaaaa0\' AND E\'\\\\xaaaaaf\') order by "event_created_at" asc limit 500) union (select * from "events" where (substring("event_pubkey" from 1 for 3) BETWEEN E\'\\\\xbbbbb0\' AND E\'\\\\xbbbbbf\') order by "event_created_at" asc limit 500) union (select * from "events" where "event_created_at" >= 1000 order by "event_created_at" asc limit 500) union (select * from "events" where "event_created_at" <= 1000 order by "event_created_at" asc limit 500) union (select * from "events" order by "event_created_at" DESC limit 1000) order by "event_created_at" asc limit 500')
+        expect(query).to.equal('(select * from "events" where "event_kind" in (1) and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer)) union (select * from "events" where (substring("event_id" from 1 for 3) BETWEEN E\'\\\\xaaaaa0\' AND E\'\\\\xaaaaaf\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500) union (select * from "events" where (substring("event_pubkey" from 1 for 3) BETWEEN E\'\\\\xbbbbb0\' AND E\'\\\\xbbbbbf\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500) union (select * from "events" where "event_created_at" >= 1000 and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500) union (select * from "events" where "event_created_at" <= 1000 and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" asc limit 500) union (select * from "events" where ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) order by "event_created_at" DESC limit 1000) order by "event_created_at" asc limit 500')
       })
     })
   })
 
+  describe('.countByFilters', () => {
+    let fromStub: sinon.SinonStub
+    let countDistinctStub: sinon.SinonStub
+
+    beforeEach(() => {
+      countDistinctStub = sandbox.stub().resolves([{ count: '3' }])
+      fromStub = sandbox.stub(rrDbClient, 'from').returns({ countDistinct: countDistinctStub } as any)
+    })
+
+    it('throws error if filters is empty', async () => {
+      await expect(repository.countByFilters([])).to.eventually.be.rejectedWith(Error, 'Filters cannot be empty')
+    })
+
+    it('counts distinct events not deleted matching filter', async () => {
+      const count = await repository.countByFilters([{ kinds: [7], '#e': ['aaaa'], limit: 10 }])
+
+      expect(count).to.equal(3)
+      expect(countDistinctStub).to.have.been.calledOnceWithExactly('event_id as count')
+      expect(fromStub.firstCall.args[0].toString()).to.equal(
+        'select "events"."event_id" from "events" left join "event_tags" on "events"."event_id" = "event_tags"."event_id" where "event_kind" in (7) and (event_tags.tag_name = \'e\' AND event_tags.tag_value = \'aaaa\') and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) and "events"."deleted_at" is null'
+      )
+    })
+
+    it('counts distinct events matching any filter', async () => {
+      await repository.countByFilters([{ kinds: [1] }, { kinds: [7] }])
+
+      expect(fromStub.firstCall.args[0].toString()).to.equal(
+        '(select "events"."event_id" from "events" where "event_kind" in (1) and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) and "events"."deleted_at" is null) union (select "events"."event_id" from "events" where "event_kind" in (7) and ("events"."expires_at" is null or "events"."expires_at" > extract(epoch from now())::integer) and "events"."deleted_at" is null)'
+      )
+    })
+  })
+
   describe('.create', () => {
     let insertStub: sinon.SinonStub
     beforeEach(() => {
@@ -405,6 +463,61 @@ describe('EventRepository', () => {
       expect(insertStub).to.have.been.calledOnceWithExactly(event)
       expect(result).to.equal(1)
     })
+
+    describe('paid event', () => {
+      const fee = { assetCode: 'BTC', assetScale: 8, amount: 1000n }
+      const event: Event = {
+        id: '6b3cdd0302ded8068ad3f0269c74423ca4fee460f800f3d90103b63f14400407',
+        pubkey: '22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793',
+        created_at: 1648351380,
+        kind: 1,
+        tags: [],
+        content: 'paid',
+        sig: 'b37adfed0e6398546d623536f9ddc92b95b7dc71927e1123266332659253ecd0ffa91ddf2c0a82a8426c5b363139d28534d6cac893b8a810149557a3f6d36768',
+        [EventPublicationFeeMetadataKey]: fee,
+      } as Event
+      let trx: { raw: sinon.SinonStub }
+      let transactionStub: sinon.SinonStub
+
+      beforeEach(() => {
+        insertStub.resolves({ rowCount: 1 })
+        trx = { raw: sandbox.stub().resolves({ rows: [{ charged: 1 }] }) }
+        transactionStub = sandbox.stub(dbClient, 'transaction').callsFake((callback: any) => callback(trx))
+      })
+
+      it('inserts event and charges publication fee', async () => {
+        const result = await repository.create(event)
+
+        expect(insertStub).to.have.been.calledOnceWithExactly(event, trx)
+        expect(trx.raw).to.have.been.calledOnce
+        expect(result).to.equal(1)
+      })
+
+      it('rejects with insufficient balance error if fee cannot be charged', async () => {
+        trx.raw.resolves({ rows: [{ charged: 0 }] })
+
+        await expect(repository.create(event)).to.eventually.be.rejectedWith(InsufficientBalanceError)
+          .and.to.have.property('amount', fee)
+      })
+
+      it('retries transaction on serialization failure', async () => {
+        transactionStub.onFirstCall().rejects(Object.assign(new Error('could not serialize access'), { code: '40001' }))
+
+        const result = await repository.create(event)
+
+        expect(transactionStub).to.have.been.calledTwice
+        expect(result).to.equal(1)
+      })
+
+      it('gives up after three serialization failures', async () => {
+        const error = Object.assign(new Error('could not serialize access'), { code: '40001' })
+        transactionStub.rejects(error)
+
+        await expect(repository.create(event)).to.eventually.be.rejectedWith(error)
+
+        expect(transactionStub).to.have.been.calledThrice
+      })
+    })
   })
 
   describe('.insert', () => {
@@ -447,6 +560,27 @@ describe('EventRepository', () => {
     })
   })
 
+  describe('deleteByPubkeyAndAddresses', () => {
+    it('marks versions of events at addresses as deleted by pubkey until given time if not deleted', () => {
+      const query = repository.deleteByPubkeyAndAddresses(
+        '001122',
+        [
+          { kind: 30023, pubkey: '001122', identifier: 'article' },
+          { kind: 30000, pubkey: '001122', identifier: '' },
+        ],
+        1000,
+      ).toString()
+
+      expect(query).to.equal('update "events" set "deleted_at" = now() where "event_pubkey" = X\'001122\' and (("event_kind" = 30023 and coalesce("event_deduplication"->>0, \'\') = \'article\') or ("event_kind" = 30000 and coalesce("event_deduplication"->>0, \'\') = \'\')) and "event_created_at" <= 1000 and "deleted_at" is null')
+    })
+
+    it('does not mark events as deleted without addresses', () => {
+      const query = repository.deleteByPubkeyAndAddresses('001122', [], 1000).toString()
+
+      expect(query).to.equal('update "events" set "deleted_at" = now() where "event_pubkey" = X\'001122\' and (1 = 0) and "event_created_at" <= 1000 and "deleted_at" is null')
+    })
+  })
+
   describe('upsert', () => {
     it('replaces event based on event_pubkey and event_kind', () => {
       const event: Event = {
@@ -52,6 +52,55 @@ describe('NIP-01', () => {
       })
     })
 
+    describe('AUTH', () => {
+      it('returns same message if valid', () => {
+        message = [
+          'AUTH',
+          {
+            'id': 'b1601d26958e6508b7b9df0af609c652346c09392b6534d93aead9819a51b4ef',
+            'pubkey': '22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793',
+            'created_at': 1648351380,
+            'kind': 22242,
+            'tags': [['relay', 'wss://relay.example.com'], ['challenge', 'challenge']],
+            'content': '',
+            'sig': 'ef4ff4f69ac387239eb1401fb07d7a44a5d5d57127e0dc3466a0403cf7d5486b668608ebfcbe9ff1f8d3b5d710545999fe08ee767284ec0b474e4cf92537678f',
+          },
+        ] as any
+
+        const result = validateSchema(messageSchema)(message)
+
+        expect(result).not.to.have.property('error')
+        expect(result).to.have.deep.property('value', message)
+      })
+
+      it('returns error if event is missing', () => {
+        message = ['AUTH'] as any
+
+        const result = validateSchema(messageSchema)(message)
+
+        expect(result).to.have.property('error')
+      })
+    })
+
+    describe('COUNT', () => {
+      it('returns same message if valid', () => {
+        message = ['COUNT', 'id', { kinds: [7], '#e': ['aaaa'] }] as any
+
+        const result = validateSchema(messageSchema)(message)
+
+        expect(result).not.to.have.property('error')
+        expect(result).to.have.deep.property('value', message)
+      })
+
+      it('returns error if filter is missing', () => {
+        message = ['COUNT', 'id'] as any
+
+        const result = validateSchema(messageSchema)(message)
+
+        expect(result).to.have.property('error')
+      })
+    })
+
     describe('REQ', () => {
       beforeEach(() => {
         message = [
@@ -0,0 +1,88 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(chaiAsPromised)
+chai.use(sinonChai)
+
+import { ExchangeRateService } from '../../../src/services/exchange-rate-service'
+import { Settings } from '../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('ExchangeRateService', () => {
+  const DROPS = { assetCode: 'XRP', assetScale: 6 }
+  let clock: Sinon.SinonFakeTimers
+  let settings: Settings
+  let getRatesStub: Sinon.SinonStub
+  let service: ExchangeRateService
+
+  beforeEach(() => {
+    clock = Sinon.useFakeTimers({ now: 1700000000000, toFake: ['Date'] })
+    settings = {
+      payments: {
+        exchangeRates: {
+          source: 'static',
+          slippage: 0.01,
+          cacheTtl: 60,
+        },
+      },
+    } as Settings
+    getRatesStub = Sinon.stub().resolves({ XRP: '0.0000085' })
+    service = new ExchangeRateService({ getRates: getRatesStub }, () => settings)
+  })
+
+  afterEach(() => {
+    clock.restore()
+  })
+
+  it('quotes base asset at rate 1 without slippage', async () => {
+    const quote = await service.quote(1000000n, { assetCode: 'BTC', assetScale: 8 })
+
+    expect(quote).to.deep.equal({
+      amount: { assetCode: 'BTC', assetScale: 8, amount: 1000n },
+      baseAmount: { assetCode: 'BTC', assetScale: 11, amount: 1000000n },
+      rate: '1',
+      slippage: 0,
+    })
+    expect(getRatesStub).not.to.have.been.called
+  })
+
+  it('quotes amount in payer asset with slippage margin', async () => {
+    const quote = await service.quote(1000000n, DROPS)
+
+    // 1.176470588 XRP + 1% = 1.188235294 XRP, rounded up
+    expect(quote).to.deep.equal({
+      amount: { ...DROPS, amount: 1188236n },
+      baseAmount: { assetCode: 'BTC', assetScale: 11, amount: 1000000n },
+      rate: '0.0000085',
+      slippage: 0.01,
+    })
+  })
+
+  it('quotes without slippage if not configured', async () => {
+    delete settings.payments.exchangeRates.slippage
+
+    expect((await service.quote(1000000n, DROPS)).amount.amount).to.equal(1176471n)
+  })
+
+  it('rejects if there is no rate for asset', async () => {
+    await expect(service.quote(1000000n, { assetCode: 'ATOM', assetScale: 6 })).to.eventually.be.rejectedWith(
+      'No exchange rate for ATOM',
+    )
+  })
+
+  it('reuses rates until cache expires', async () => {
+    await service.quote(1n, DROPS)
+    clock.tick(59999)
+    await service.quote(1n, DROPS)
+
+    expect(getRatesStub).to.have.been.calledOnce
+
+    clock.tick(1)
+    await service.quote(1n, DROPS)
+
+    expect(getRatesStub).to.have.been.calledTwice
+  })
+})
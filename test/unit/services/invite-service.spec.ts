@@ -0,0 +1,180 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(chaiAsPromised)
+chai.use(sinonChai)
+
+import { IInviteRepository, IUserRepository } from '../../../src/@types/repositories'
+import { DatabaseClient } from '../../../src/@types/base'
+import { Invite } from '../../../src/@types/invite'
+import { InviteService } from '../../../src/services/invite-service'
+import { Settings } from '../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('InviteService', () => {
+  const pubkey = 'f'.repeat(64)
+  const issuer = 'a'.repeat(64)
+  const operator = 'e'.repeat(64)
+  let sandbox: Sinon.SinonSandbox
+  let settings: Settings
+  let findByPubkeyStub: Sinon.SinonStub
+  let invite: Invite
+  let trx: { commit: Sinon.SinonStub, rollback: Sinon.SinonStub }
+  let dbClient: DatabaseClient
+  let inviteRepository: IInviteRepository
+  let userRepository: IUserRepository
+  let service: InviteService
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    invite = {
+      id: 'invite-id',
+      issuer,
+      invitee: null,
+      maxUses: 1,
+      uses: 0,
+      amount: null,
+      assetCode: 'BTC',
+      assetScale: 11,
+      expiresAt: null,
+      updatedAt: new Date(),
+      createdAt: new Date(),
+    }
+    trx = { commit: sandbox.stub().resolves(), rollback: sandbox.stub().resolves() }
+    dbClient = { transaction: sandbox.stub().resolves(trx) } as any
+    inviteRepository = {
+      findById: sandbox.stub().callsFake(async () => invite),
+      create: sandbox.stub(),
+      countByIssuer: sandbox.stub(),
+      redeem: sandbox.stub().resolves(true),
+    }
+    settings = { info: { pubkey: operator } } as any
+    findByPubkeyStub = sandbox.stub().callsFake(async (userPubkey: string) =>
+      userPubkey === issuer ? { pubkey: issuer, isAdmitted: true, admittedUntil: null } : undefined
+    )
+    userRepository = { upsert: sandbox.stub().resolves(1), findByPubkey: findByPubkeyStub } as any
+    service = new InviteService(dbClient, inviteRepository, userRepository, () => settings)
+    sandbox.stub(console, 'error')
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  describe('redeemInvite', () => {
+    it('admits the pubkey when redeeming an invite', async () => {
+      await expect(service.redeemInvite('invite-id', pubkey)).to.eventually.be.undefined
+
+      expect(inviteRepository.redeem).to.have.been.calledOnceWithExactly('invite-id', pubkey, trx)
+      expect(userRepository.upsert).to.have.been.calledWithExactly(
+        { pubkey, isAdmitted: true, admittedUntil: null },
+        trx,
+      )
+      expect(trx.commit).to.have.been.calledOnce
+    })
+
+    it('admits the pubkey no longer than the issuer', async () => {
+      const admittedUntil = new Date(Date.now() + 60000)
+      findByPubkeyStub.withArgs(issuer).resolves({ pubkey: issuer, isAdmitted: true, admittedUntil })
+
+      await expect(service.redeemInvite('invite-id', pubkey)).to.eventually.be.undefined
+
+      expect(userRepository.upsert).to.have.been.calledWithExactly(
+        { pubkey, isAdmitted: true, admittedUntil },
+        trx,
+      )
+    })
+
+    it('does not cut a longer admission of the pubkey short', async () => {
+      findByPubkeyStub.withArgs(issuer).resolves({
+        pubkey: issuer,
+        isAdmitted: true,
+        admittedUntil: new Date(Date.now() + 60000),
+      })
+      findByPubkeyStub.withArgs(pubkey).resolves({ pubkey, isAdmitted: true, admittedUntil: null })
+
+      await expect(service.redeemInvite('invite-id', pubkey)).to.eventually.be.undefined
+
+      expect(userRepository.upsert).to.have.been.calledWithExactly(
+        { pubkey, isAdmitted: true, admittedUntil: null },
+        trx,
+      )
+    })
+
+    it('admits the pubkey for good when redeeming an invite from the relay operator', async () => {
+      invite.issuer = operator
+
+      await expect(service.redeemInvite('invite-id', pubkey)).to.eventually.be.undefined
+
+      expect(findByPubkeyStub).not.to.have.been.calledWith(operator)
+      expect(userRepository.upsert).to.have.been.calledWithExactly(
+        { pubkey, isAdmitted: true, admittedUntil: null },
+        trx,
+      )
+    })
+
+    it('rejects invites from issuers no longer admitted', async () => {
+      findByPubkeyStub.withArgs(issuer).resolves({
+        pubkey: issuer,
+        isAdmitted: true,
+        admittedUntil: new Date(Date.now() - 1000),
+      })
+
+      await expect(service.redeemInvite('invite-id', pubkey)).to.eventually.equal('invite issuer is no longer admitted')
+      expect(inviteRepository.redeem).not.to.have.been.called
+      expect(trx.rollback).to.have.been.calledOnce
+    })
+
+    it('does not admit the pubkey when redeeming a voucher', async () => {
+      invite.amount = 1000n
+
+      await expect(service.redeemInvite('invite-id', pubkey)).to.eventually.be.undefined
+
+      expect(userRepository.upsert).to.have.been.calledOnceWithExactly({ pubkey }, trx)
+      expect(trx.commit).to.have.been.calledOnce
+    })
+
+    it('rejects unknown invites', async () => {
+      (inviteRepository.findById as Sinon.SinonStub).resolves(undefined)
+
+      await expect(service.redeemInvite('invite-id', pubkey)).to.eventually.equal('invite not found')
+      expect(dbClient.transaction).not.to.have.been.called
+    })
+
+    it('rejects expired invites', async () => {
+      invite.expiresAt = new Date(Date.now() - 1000)
+
+      await expect(service.redeemInvite('invite-id', pubkey)).to.eventually.equal('invite expired')
+    })
+
+    it('rejects invites for other pubkeys', async () => {
+      invite.invitee = 'b'.repeat(64)
+
+      await expect(service.redeemInvite('invite-id', pubkey)).to.eventually.equal('invite is for another pubkey')
+    })
+
+    it('rejects used up invites', async () => {
+      invite.uses = 1
+
+      await expect(service.redeemInvite('invite-id', pubkey)).to.eventually.equal('invite used up')
+    })
+
+    it('rolls back when the invite was already redeemed', async () => {
+      (inviteRepository.redeem as Sinon.SinonStub).resolves(false)
+
+      await expect(service.redeemInvite('invite-id', pubkey)).to.eventually.equal('invite already redeemed')
+      expect(trx.rollback).to.have.been.calledOnce
+      expect(trx.commit).not.to.have.been.called
+    })
+
+    it('rolls back and rethrows on errors', async () => {
+      (inviteRepository.redeem as Sinon.SinonStub).rejects(new Error('boom'))
+
+      await expect(service.redeemInvite('invite-id', pubkey)).to.eventually.be.rejectedWith('boom')
+      expect(trx.rollback).to.have.been.calledOnce
+    })
+  })
+})
@@ -0,0 +1,133 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(chaiAsPromised)
+chai.use(sinonChai)
+
+import { IClaimVerifier, PaymentChannel, PaymentChannelClaim } from '../../../src/@types/payment-channel'
+import { IPaymentChannelRepository, IUserRepository } from '../../../src/@types/repositories'
+import { DatabaseClient } from '../../../src/@types/base'
+import { PaymentChannelService } from '../../../src/services/payment-channel-service'
+
+const { expect } = chai
+
+describe('PaymentChannelService', () => {
+  let sandbox: Sinon.SinonSandbox
+  let channel: PaymentChannel
+  let claim: PaymentChannelClaim
+  let trx: { commit: Sinon.SinonStub, rollback: Sinon.SinonStub }
+  let dbClient: DatabaseClient
+  let userRepository: IUserRepository
+  let paymentChannelRepository: IPaymentChannelRepository
+  let verifySignatureStub: Sinon.SinonStub
+  let service: PaymentChannelService
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    channel = {
+      id: 'channel-id',
+      chain: 'xrp',
+      pubkey: 'f'.repeat(64),
+      senderKey: 'sender-key',
+      assetCode: 'XRP',
+      assetScale: 6,
+      capacity: 1000n,
+      claimedAmount: 100n,
+      expiresAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+    claim = {
+      channelId: 'channel-id',
+      amount: 250n,
+      signature: 'signature',
+    }
+    trx = { commit: sandbox.stub().resolves(), rollback: sandbox.stub().resolves() }
+    dbClient = { transaction: sandbox.stub().resolves(trx) } as any
+    userRepository = { upsert: sandbox.stub().resolves(1) } as any
+    paymentChannelRepository = {
+      findById: sandbox.stub().resolves(channel),
+      upsert: sandbox.stub().resolves(1),
+      claim: sandbox.stub().resolves(150n),
+    }
+    verifySignatureStub = sandbox.stub().returns(true)
+    const claimVerifier: IClaimVerifier = { verifySignature: verifySignatureStub }
+    service = new PaymentChannelService(dbClient, userRepository, paymentChannelRepository, { xrp: claimVerifier })
+    sandbox.stub(console, 'error')
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  describe('registerChannel', () => {
+    it('upserts user and channel in a transaction', async () => {
+      await service.registerChannel(channel)
+
+      expect(userRepository.upsert).to.have.been.calledOnceWithExactly({ pubkey: channel.pubkey }, trx)
+      expect(paymentChannelRepository.upsert).to.have.been.calledOnceWithExactly(channel, trx)
+      expect(trx.commit).to.have.been.calledOnce
+    })
+
+    it('rejects channels on unsupported chains', async () => {
+      await expect(service.registerChannel({ ...channel, chain: 'unknown' })).to.eventually.be.rejectedWith(
+        'Unsupported payment channel chain: unknown',
+      )
+      expect(paymentChannelRepository.upsert).not.to.have.been.called
+    })
+  })
+
+  describe('submitClaim', () => {
+    it('credits increase over last claim', async () => {
+      expect(await service.submitClaim(claim)).to.equal(150n)
+
+      expect(verifySignatureStub).to.have.been.calledOnceWithExactly(channel, claim)
+      expect(paymentChannelRepository.claim).to.have.been.calledOnceWithExactly('channel-id', 250n, 'signature', trx)
+      expect(trx.commit).to.have.been.calledOnce
+    })
+
+    it('rejects claims on unknown channels', async () => {
+      (paymentChannelRepository.findById as Sinon.SinonStub).resolves(undefined)
+
+      await expect(service.submitClaim(claim)).to.eventually.be.rejectedWith('Unknown payment channel: channel-id')
+    })
+
+    it('rejects claims on expired channels', async () => {
+      channel.expiresAt = new Date(Date.now() - 1000)
+
+      await expect(service.submitClaim(claim)).to.eventually.be.rejectedWith('Payment channel expired: channel-id')
+      expect(paymentChannelRepository.claim).not.to.have.been.called
+    })
+
+    it('rejects claims not exceeding last claim', async () => {
+      claim.amount = 100n
+
+      await expect(service.submitClaim(claim)).to.eventually.be.rejectedWith('Claim amount must exceed last claim')
+      expect(paymentChannelRepository.claim).not.to.have.been.called
+    })
+
+    it('rejects claims exceeding channel capacity', async () => {
+      claim.amount = 1001n
+
+      await expect(service.submitClaim(claim)).to.eventually.be.rejectedWith('Claim amount exceeds channel capacity')
+      expect(paymentChannelRepository.claim).not.to.have.been.called
+    })
+
+    it('rejects claims with invalid signature', async () => {
+      verifySignatureStub.returns(false)
+
+      await expect(service.submitClaim(claim)).to.eventually.be.rejectedWith('Invalid claim signature')
+      expect(paymentChannelRepository.claim).not.to.have.been.called
+    })
+
+    it('rolls back if a concurrent claim got there first', async () => {
+      (paymentChannelRepository.claim as Sinon.SinonStub).resolves(0n)
+
+      await expect(service.submitClaim(claim)).to.eventually.be.rejectedWith('Claim amount must exceed last claim')
+      expect(trx.rollback).to.have.been.calledOnce
+      expect(trx.commit).not.to.have.been.called
+    })
+  })
+})
@@ -0,0 +1,308 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(chaiAsPromised)
+chai.use(sinonChai)
+
+import { IInvoiceRepository, IUserRepository, IWithdrawalRepository } from '../../../src/@types/repositories'
+import { Invoice, InvoiceStatus, PaymentRequestType } from '../../../src/@types/invoice'
+import { Withdrawal, WithdrawalStatus } from '../../../src/@types/withdrawal'
+import { IlpConnectorPaymentsProcessor } from '../../../src/payments-processors/ilp-connector-payments-processor'
+import { IPaymentsProcessor } from '../../../src/@types/clients'
+import { MockIlpConnectorClient } from '../../helpers/mock-ilp-connector-client'
+import { PaymentsService } from '../../../src/services/payments-service'
+import { Settings } from '../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('PaymentsService', () => {
+  const pubkey = 'a'.repeat(64)
+  const paymentPointer = '$wallet.example/alice'
+  const MSATS = { assetCode: 'BTC', assetScale: 11 }
+  let sandbox: Sinon.SinonSandbox
+  let connector: MockIlpConnectorClient
+  let withdrawals: Map<string, Withdrawal>
+  let userRepository: IUserRepository
+  let invoiceRepository: IInvoiceRepository
+  let paymentsProcessor: IPaymentsProcessor
+  let withdrawalRepository: IWithdrawalRepository
+  let trx: { commit: Sinon.SinonStub, rollback: Sinon.SinonStub }
+  let paymentsService: PaymentsService
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    const settings = { payments: { enabled: true, processor: 'ilpConnector' } } as Settings
+    connector = new MockIlpConnectorClient()
+    withdrawals = new Map()
+
+    trx = { commit: sandbox.stub().resolves(), rollback: sandbox.stub().resolves() }
+    const dbClient = { transaction: sandbox.stub().resolves(trx) } as any
+
+    userRepository = {
+      findByPubkey: sandbox.stub(),
+      upsert: sandbox.stub().resolves(1),
+      getBalanceByPubkey: sandbox.stub().resolves(5000n),
+      chargeBalance: sandbox.stub().resolves(true),
+      addProofOfWork: sandbox.stub().resolves(true),
+    }
+    withdrawalRepository = {
+      getWithdrawableBalance: sandbox.stub().resolves(5000n),
+      findById: sandbox.stub().callsFake(async (id: string) => withdrawals.get(id)),
+      request: sandbox.stub().callsFake(async (withdrawal: Withdrawal) => {
+        withdrawals.set(withdrawal.id, {
+          ...withdrawal,
+          amountSent: null,
+          status: WithdrawalStatus.PENDING,
+          paymentId: null,
+          completedAt: null,
+          updatedAt: new Date(),
+          createdAt: new Date(),
+        })
+        return true
+      }),
+      complete: sandbox.stub().callsFake(async (id: string, amountSent: bigint, paymentId: string | null) => {
+        withdrawals.set(id, {
+          ...withdrawals.get(id),
+          amountSent,
+          paymentId,
+          status: amountSent > 0n ? WithdrawalStatus.COMPLETED : WithdrawalStatus.FAILED,
+          completedAt: new Date(),
+        })
+      }),
+    }
+
+    invoiceRepository = {
+      findPendingOpenAmountInvoice: sandbox.stub().resolves(undefined),
+      upsert: sandbox.stub().resolves(1),
+    } as any
+    paymentsProcessor = new IlpConnectorPaymentsProcessor(connector, () => settings)
+
+    paymentsService = new PaymentsService(
+      dbClient,
+      paymentsProcessor,
+      userRepository,
+      invoiceRepository,
+      {} as any,
+      withdrawalRepository,
+      {} as any,
+      () => settings,
+    )
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  describe('getTopUpInvoice', () => {
+    const description = 'Top-up'
+
+    it('creates an open amount invoice in the base asset', async () => {
+      const invoice = await paymentsService.getTopUpInvoice(pubkey, description)
+
+      expect(invoiceRepository.findPendingOpenAmountInvoice).to.have.been.calledOnceWith(pubkey, MSATS)
+      expect(invoiceRepository.upsert).to.have.been.calledOnceWith(Sinon.match({ id: invoice.id, pubkey }))
+      expect(invoice).to.include({ ...MSATS, amountRequested: 0n, description, status: InvoiceStatus.PENDING })
+    })
+
+    it('reuses the pending invoice until it receives a payment', async () => {
+      const pendingInvoice = await paymentsService.getTopUpInvoice(pubkey, description);
+      (invoiceRepository.findPendingOpenAmountInvoice as Sinon.SinonStub).resolves(pendingInvoice)
+
+      expect(await paymentsService.getTopUpInvoice(pubkey, description)).to.equal(pendingInvoice)
+
+      connector.pay(pendingInvoice.id, 1000n)
+
+      const invoice = await paymentsService.getTopUpInvoice(pubkey, description)
+      expect(invoice.id).not.to.equal(pendingInvoice.id)
+      expect(invoiceRepository.upsert).to.have.been.calledTwice
+    })
+
+    it('creates the invoice in the asset of the payments processor', async () => {
+      paymentsProcessor.getAsset = async () => ({ assetCode: 'XRP', assetScale: 6 })
+
+      const invoice = await paymentsService.getTopUpInvoice(pubkey, description)
+
+      expect(invoiceRepository.findPendingOpenAmountInvoice).to.have.been.calledOnceWith(
+        pubkey,
+        { assetCode: 'XRP', assetScale: 6 },
+      )
+      expect(invoice).to.include({ assetCode: 'XRP', assetScale: 6, amountRequested: 0n })
+    })
+
+    it('keeps the base asset scale if the payments processor receives the base asset', async () => {
+      paymentsProcessor.getAsset = async () => ({ assetCode: 'BTC', assetScale: 8 })
+
+      const invoice = await paymentsService.getTopUpInvoice(pubkey, description)
+
+      expect(invoice).to.include(MSATS)
+    })
+  })
+
+  describe('withdraw', () => {
+    it('pays out the amount to the payment pointer', async () => {
+      const withdrawal = await paymentsService.withdraw({ id: 'w1', pubkey, paymentPointer, ...MSATS, amount: 1000n })
+
+      expect(withdrawalRepository.request).to.have.been.calledOnceWith(
+        { id: 'w1', pubkey, paymentPointer, ...MSATS, amount: 1000n },
+      )
+      expect(trx.commit).to.have.been.calledOnce
+      expect(connector.outgoingPayments).to.have.length(1)
+      expect(connector.outgoingPayments[0]).to.include({ paymentPointer, ...MSATS, amount: 1000n })
+      expect(withdrawalRepository.complete).to.have.been.calledOnceWithExactly(
+        'w1',
+        1000n,
+        connector.outgoingPayments[0].id,
+      )
+      expect(withdrawal).to.include({ id: 'w1', status: WithdrawalStatus.COMPLETED, amountSent: 1000n })
+    })
+
+    it('pays out the whole withdrawable balance if no amount is given', async () => {
+      const withdrawal = await paymentsService.withdraw({ id: 'w1', pubkey, paymentPointer, ...MSATS })
+
+      expect(withdrawalRepository.getWithdrawableBalance).to.have.been.calledOnceWith(pubkey, Sinon.match(MSATS))
+      expect(withdrawal).to.include({ amount: 5000n, amountSent: 5000n })
+    })
+
+    it('does not pay out voucher credit if no amount is given', async () => {
+      (withdrawalRepository.getWithdrawableBalance as Sinon.SinonStub).resolves(3000n)
+
+      const withdrawal = await paymentsService.withdraw({ id: 'w1', pubkey, paymentPointer, ...MSATS })
+
+      expect(withdrawalRepository.request).to.have.been.calledOnceWith(Sinon.match({ amount: 3000n }))
+      expect(withdrawal).to.include({ amount: 3000n, amountSent: 3000n })
+    })
+
+    it('does not pay out proof of work credit', async () => {
+      (userRepository.getBalanceByPubkey as Sinon.SinonStub).resolves(5000n);
+      (withdrawalRepository.getWithdrawableBalance as Sinon.SinonStub).resolves(0n)
+
+      const withdrawal = await paymentsService.withdraw({ id: 'w1', pubkey, paymentPointer, ...MSATS })
+
+      expect(withdrawal).to.be.undefined
+      expect(withdrawalRepository.request).not.to.have.been.called
+      expect(connector.outgoingPayments).to.be.empty
+    })
+
+    it('records the amount sent if the payment falls short', async () => {
+      connector.limitPaymentsTo(paymentPointer, 400n)
+
+      const withdrawal = await paymentsService.withdraw({ id: 'w1', pubkey, paymentPointer, ...MSATS, amount: 1000n })
+
+      expect(withdrawalRepository.complete).to.have.been.calledOnceWith('w1', 400n)
+      expect(withdrawal).to.include({ status: WithdrawalStatus.COMPLETED, amountSent: 400n })
+    })
+
+    it('fails the withdrawal if the payment cannot be sent', async () => {
+      sandbox.stub(connector, 'sendPayment').rejects(new Error('No route'))
+      sandbox.stub(console, 'error')
+
+      const withdrawal = await paymentsService.withdraw({ id: 'w1', pubkey, paymentPointer, ...MSATS, amount: 1000n })
+
+      expect(withdrawalRepository.complete).to.have.been.calledOnceWithExactly('w1', 0n, null)
+      expect(withdrawal).to.include({ status: WithdrawalStatus.FAILED, amountSent: 0n })
+    })
+
+    it('returns undefined without paying if the balance does not cover the amount', async () => {
+      const request = withdrawalRepository.request as Sinon.SinonStub
+      request.resolves(false)
+
+      const withdrawal = await paymentsService.withdraw({ id: 'w1', pubkey, paymentPointer, ...MSATS, amount: 1000n })
+
+      expect(withdrawal).to.be.undefined
+      expect(connector.outgoingPayments).to.be.empty
+      expect(withdrawalRepository.complete).not.to.have.been.called
+    })
+
+    it('returns undefined without paying if the balance is empty', async () => {
+      (withdrawalRepository.getWithdrawableBalance as Sinon.SinonStub).resolves(0n)
+
+      const withdrawal = await paymentsService.withdraw({ id: 'w1', pubkey, paymentPointer, ...MSATS })
+
+      expect(withdrawal).to.be.undefined
+      expect(withdrawalRepository.request).not.to.have.been.called
+      expect(connector.outgoingPayments).to.be.empty
+    })
+
+    it('rolls back and rethrows if the withdrawal cannot be requested', async () => {
+      const request = withdrawalRepository.request as Sinon.SinonStub
+      request.rejects(new Error('could not serialize access'))
+      sandbox.stub(console, 'error')
+
+      await expect(
+        paymentsService.withdraw({ id: 'w1', pubkey, paymentPointer, ...MSATS, amount: 1000n })
+      ).to.eventually.be.rejectedWith('could not serialize access')
+      expect(trx.rollback).to.have.been.calledOnce
+      expect(connector.outgoingPayments).to.be.empty
+    })
+  })
+
+  describe('sendInvoiceUpdateNotification', () => {
+    let origEnv: NodeJS.ProcessEnv
+    let eventRepository: { create: Sinon.SinonStub }
+    let invoice: Invoice
+
+    beforeEach(() => {
+      origEnv = { ...process.env }
+      process.env.SECRET = 'changeme'
+      eventRepository = { create: sandbox.stub().resolves(1) }
+      const settings = { info: { relay_url: 'wss://relay.example.com' } } as Settings
+      paymentsService = new PaymentsService(
+        {} as any,
+        {} as any,
+        userRepository,
+        {} as any,
+        eventRepository as any,
+        withdrawalRepository,
+        {} as any,
+        () => settings,
+      )
+      invoice = {
+        id: 'invoice-id',
+        pubkey,
+        paymentRequest: {
+          type: PaymentRequestType.STREAM,
+          destinationAccount: 'test.relay.invoice-id',
+          sharedSecret: 'c2VjcmV0',
+        },
+        amountRequested: 1000n,
+        amountPaid: 1000n,
+        ...MSATS,
+        status: InvoiceStatus.COMPLETED,
+        description: 'Admission fee',
+        expiresAt: null,
+        updatedAt: new Date(),
+        createdAt: new Date(),
+      }
+    })
+
+    afterEach(() => {
+      process.env = origEnv
+    })
+
+    it('tags the notification with the ILP payment without the shared secret', async () => {
+      await paymentsService.sendInvoiceUpdateNotification(invoice)
+
+      expect(eventRepository.create).to.have.been.calledOnce
+      const [event] = eventRepository.create.firstCall.args
+      expect(event.tags.slice(0, -1)).to.deep.equal([
+        ['p', pubkey],
+        ['invoice', 'invoice-id'],
+        ['amount', '1000'],
+        ['asset', 'BTC', '11'],
+        ['destination_account', 'test.relay.invoice-id'],
+      ])
+      expect(JSON.stringify(event)).not.to.include('c2VjcmV0')
+    })
+
+    it('tags the notification with the payment pointer', async () => {
+      invoice.paymentRequest = { type: PaymentRequestType.PAYMENT_POINTER, paymentPointer }
+
+      await paymentsService.sendInvoiceUpdateNotification(invoice)
+
+      const [event] = eventRepository.create.firstCall.args
+      expect(event.tags).to.deep.include(['payment_pointer', paymentPointer])
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { expect } from 'chai'
+
+import { AdmissionPlan, Settings } from '../../../src/@types/settings'
+import { extendAdmittedUntil, getAdmittedUntil, isAdmissionActive, isRelayOperator } from '../../../src/utils/admission'
+import { toBech32 } from '../../../src/utils/transform'
+import { User } from '../../../src/@types/user'
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe('isAdmissionActive', () => {
+  const now = new Date('2025-01-01T00:00:00.000Z')
+
+  it('returns false if user is not found', () => {
+    expect(isAdmissionActive(undefined, now)).to.be.false
+  })
+
+  it('returns false if user is not admitted', () => {
+    expect(isAdmissionActive({ isAdmitted: false } as User, now)).to.be.false
+  })
+
+  it('returns true if admission does not expire', () => {
+    expect(isAdmissionActive({ isAdmitted: true, admittedUntil: null } as User, now)).to.be.true
+  })
+
+  it('returns true if admission has not expired', () => {
+    const user = { isAdmitted: true, admittedUntil: new Date(now.getTime() + 1) } as User
+
+    expect(isAdmissionActive(user, now)).to.be.true
+  })
+
+  it('returns false if admission has expired', () => {
+    const user = { isAdmitted: true, admittedUntil: now } as User
+
+    expect(isAdmissionActive(user, now)).to.be.false
+  })
+})
+
+describe('getAdmittedUntil', () => {
+  const now = new Date('2025-01-01T00:00:00.000Z')
+  const monthly: AdmissionPlan = { id: 'monthly', amount: 1000n, days: 30 }
+  const lifetime: AdmissionPlan = { id: 'lifetime', amount: 10000n }
+
+  it('returns null for lifetime plans', () => {
+    expect(getAdmittedUntil(undefined, lifetime, now)).to.be.null
+  })
+
+  it('counts days from now for new users', () => {
+    expect(getAdmittedUntil(undefined, monthly, now)).to.deep.equal(new Date(now.getTime() + 30 * DAY))
+  })
+
+  it('counts days from now if admission expired', () => {
+    const user = { isAdmitted: true, admittedUntil: new Date(now.getTime() - DAY) } as User
+
+    expect(getAdmittedUntil(user, monthly, now)).to.deep.equal(new Date(now.getTime() + 30 * DAY))
+  })
+
+  it('extends admission that has not expired', () => {
+    const user = { isAdmitted: true, admittedUntil: new Date(now.getTime() + 5 * DAY) } as User
+
+    expect(getAdmittedUntil(user, monthly, now)).to.deep.equal(new Date(now.getTime() + 35 * DAY))
+  })
+
+  it('keeps lifetime admission', () => {
+    const user = { isAdmitted: true, admittedUntil: null } as User
+
+    expect(getAdmittedUntil(user, monthly, now)).to.be.null
+  })
+})
+
+describe('extendAdmittedUntil', () => {
+  const now = new Date('2025-01-01T00:00:00.000Z')
+  const later = new Date(now.getTime() + DAY)
+
+  it('returns given date if admission is not active', () => {
+    expect(extendAdmittedUntil(undefined, later, now)).to.equal(later)
+  })
+
+  it('returns null if given date is null', () => {
+    const user = { isAdmitted: true, admittedUntil: new Date(now.getTime() + 5 * DAY) } as User
+
+    expect(extendAdmittedUntil(user, null, now)).to.be.null
+  })
+
+  it('keeps lifetime admission', () => {
+    const user = { isAdmitted: true, admittedUntil: null } as User
+
+    expect(extendAdmittedUntil(user, later, now)).to.be.null
+  })
+
+  it('keeps the later of the two dates', () => {
+    const user = { isAdmitted: true, admittedUntil: new Date(now.getTime() + 5 * DAY) } as User
+
+    expect(extendAdmittedUntil(user, later, now)).to.deep.equal(user.admittedUntil)
+    expect(extendAdmittedUntil({ ...user, admittedUntil: new Date(now.getTime() + 1000) }, later, now))
+      .to.deep.equal(later)
+  })
+})
+
+describe('isRelayOperator', () => {
+  const operator = 'a'.repeat(64)
+
+  it('returns true for the relay operator pubkey', () => {
+    expect(isRelayOperator({ info: { pubkey: operator } } as Settings, operator)).to.be.true
+  })
+
+  it('returns true for the relay operator npub', () => {
+    expect(isRelayOperator({ info: { pubkey: toBech32('npub')(operator) } } as Settings, operator)).to.be.true
+  })
+
+  it('returns false for other pubkeys', () => {
+    expect(isRelayOperator({ info: { pubkey: operator } } as Settings, 'b'.repeat(64))).to.be.false
+  })
+
+  it('returns false if the operator pubkey is invalid', () => {
+    expect(isRelayOperator({ info: { pubkey: 'npub1invalid' } } as Settings, operator)).to.be.false
+  })
+})
@@ -0,0 +1,121 @@
+import { expect } from 'chai'
+
+import {
+  convertAmount,
+  DEFAULT_BASE_ASSET,
+  formatAmount,
+  getAssetUnit,
+  getBaseAsset,
+  parseDecimal,
+  rescaleAmount,
+} from '../../../src/utils/asset'
+import { Settings } from '../../../src/@types/settings'
+
+describe('getBaseAsset', () => {
+  it('returns base asset from settings', () => {
+    const settings = { payments: { baseAsset: { assetCode: 'USD', assetScale: 2 } } } as Settings
+
+    expect(getBaseAsset(settings)).to.deep.equal({ assetCode: 'USD', assetScale: 2 })
+  })
+
+  it('returns msats if base asset is not set', () => {
+    expect(getBaseAsset({} as Settings)).to.equal(DEFAULT_BASE_ASSET)
+    expect(DEFAULT_BASE_ASSET).to.deep.equal({ assetCode: 'BTC', assetScale: 11 })
+  })
+})
+
+describe('getAssetUnit', () => {
+  it('returns msats for BTC at scale 11', () => {
+    expect(getAssetUnit({ assetCode: 'BTC', assetScale: 11 })).to.equal('msats')
+  })
+
+  it('returns sats for BTC at scale 8', () => {
+    expect(getAssetUnit({ assetCode: 'BTC', assetScale: 8 })).to.equal('sats')
+  })
+
+  it('returns asset code for other assets', () => {
+    expect(getAssetUnit({ assetCode: 'XRP', assetScale: 6 })).to.equal('XRP')
+  })
+})
+
+describe('rescaleAmount', () => {
+  it('returns same amount if scales are equal', () => {
+    expect(rescaleAmount(1234n, 9, 9)).to.equal(1234n)
+  })
+
+  it('scales amount up', () => {
+    expect(rescaleAmount(1234n, 8, 11)).to.equal(1234000n)
+  })
+
+  it('scales amount down rounding down', () => {
+    expect(rescaleAmount(1999n, 11, 8)).to.equal(1n)
+  })
+
+  it('scales amount down rounding up', () => {
+    expect(rescaleAmount(1001n, 11, 8, true)).to.equal(2n)
+  })
+
+  it('does not round up exact amounts', () => {
+    expect(rescaleAmount(2000n, 11, 8, true)).to.equal(2n)
+  })
+})
+
+describe('formatAmount', () => {
+  it('formats amount with decimals', () => {
+    expect(formatAmount(123456n, { assetCode: 'USD', assetScale: 2 })).to.equal('1234.56 USD')
+  })
+
+  it('omits trailing zeros', () => {
+    expect(formatAmount(1000000n, { assetCode: 'BTC', assetScale: 11 })).to.equal('0.00001 BTC')
+  })
+
+  it('omits decimal point for whole amounts', () => {
+    expect(formatAmount(500n, { assetCode: 'USD', assetScale: 2 })).to.equal('5 USD')
+  })
+
+  it('formats amount with zero scale', () => {
+    expect(formatAmount(42n, { assetCode: 'XRP', assetScale: 0 })).to.equal('42 XRP')
+  })
+
+  it('formats negative amount', () => {
+    expect(formatAmount(-5n, { assetCode: 'USD', assetScale: 2 })).to.equal('-0.05 USD')
+  })
+})
+
+describe('parseDecimal', () => {
+  it('parses integer', () => {
+    expect(parseDecimal('42')).to.deep.equal([42n, 1n])
+  })
+
+  it('parses decimal string', () => {
+    expect(parseDecimal('0.0000085')).to.deep.equal([85n, 10000000n])
+  })
+
+  it('parses number in exponent notation', () => {
+    expect(parseDecimal(8.5e-6)).to.deep.equal([85n, 10000000n])
+    expect(parseDecimal('1.5e3')).to.deep.equal([1500n, 1n])
+  })
+
+  it('throws if value is not a non-negative decimal', () => {
+    expect(() => parseDecimal('-1')).to.throw('Invalid decimal: -1')
+    expect(() => parseDecimal('abc')).to.throw('Invalid decimal: abc')
+  })
+})
+
+describe('convertAmount', () => {
+  const MSATS = { assetCode: 'BTC', assetScale: 11 }
+  const DROPS = { assetCode: 'XRP', assetScale: 6 }
+
+  it('converts amount at rate', () => {
+    // 0.00001 BTC / 0.0000085 BTC per XRP = 1.176470... XRP
+    expect(convertAmount(1000000n, MSATS, DROPS, '0.0000085')).to.equal(1176470n)
+  })
+
+  it('converts amount rounding up', () => {
+    expect(convertAmount(1000000n, MSATS, DROPS, '0.0000085', true)).to.equal(1176471n)
+  })
+
+  it('throws if rate is zero', () => {
+    expect(() => convertAmount(1n, MSATS, DROPS, '0')).to.throw('Invalid exchange rate for XRP: 0')
+  })
+})
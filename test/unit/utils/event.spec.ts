@@ -1,8 +1,11 @@
 import { expect } from 'chai'
 
 import { CanonicalEvent, Event } from '../../../src/@types/event'
+import { ContextMetadataKey, EventKinds } from '../../../src/constants/base'
 import {
+  getEventAddress,
   getEventExpiration,
+  getEventSize,
   isDeleteEvent,
   isEphemeralEvent,
   isEventIdValid,
@@ -11,9 +14,9 @@ import {
   isExpiredEvent,
   isParameterizedReplaceableEvent,
   isReplaceableEvent,
+  parseEventAddress,
   serializeEvent,
 } from '../../../src/utils/event'
-import { EventKinds } from '../../../src/constants/base'
 
 describe('NIP-01', () => {
   describe('serializeEvent', () => {
@@ -315,6 +318,35 @@ describe('NIP-12', () => {
   })
 })
 
+describe('NIP-50', () => {
+  describe('isEventMatchingFilter', () => {
+    let event: Event
+    beforeEach(() => {
+      event = {
+        id: 'cf8de9db67a1d7203512d1d81e6190f5e53abfdc0ac90275f67172b65a5b09a0',
+        pubkey: 'e8b487c079b0f67c695ae6c4c2552a47f38adfa2533cc5926bd2c102942fdcb7',
+        created_at: 1645030752,
+        kind: 1,
+        tags: [],
+        content: 'The best Nostr apps, ranked!',
+        sig: '53d12018d036092794366283eca36df4e0cabd014b6e91bbf684c8bb9bbbe9dedafa77b6b928587e11e05e036227598dded8713e8da17d55076e12242b361542',
+      }
+    })
+
+    it('returns true if content contains every word of search query', () => {
+      expect(isEventMatchingFilter({ search: 'nostr Best' })(event)).to.be.true
+    })
+
+    it('returns false if content lacks a word of search query', () => {
+      expect(isEventMatchingFilter({ search: 'best nostr relays' })(event)).to.be.false
+    })
+
+    it('returns false if search query only matches part of a word', () => {
+      expect(isEventMatchingFilter({ search: 'app' })(event)).to.be.false
+    })
+  })
+})
+
 describe('NIP-16', () => {
   describe('isReplaceableEvent', () => {
     it('returns true if event is replaceable', () => {
@@ -414,6 +446,34 @@ describe('NIP-09', () => {
       expect(isDeleteEvent(event)).to.be.false
     })
   })
+
+  describe('parseEventAddress', () => {
+    const pubkey = 'a'.repeat(64)
+
+    it('returns address of parameterized replaceable event', () => {
+      expect(parseEventAddress(`30023:${pubkey}:my:article`)).to.deep.equal({
+        kind: 30023,
+        pubkey,
+        identifier: 'my:article',
+      })
+    })
+
+    it('returns address with empty identifier', () => {
+      expect(parseEventAddress(`30000:${pubkey}:`)).to.deep.equal({ kind: 30000, pubkey, identifier: '' })
+    })
+
+    it('returns undefined if kind is not parameterized replaceable', () => {
+      expect(parseEventAddress(`10002:${pubkey}:`)).to.be.undefined
+    })
+
+    it('returns undefined if pubkey is invalid', () => {
+      expect(parseEventAddress('30023:pubkey:article')).to.be.undefined
+    })
+
+    it('returns undefined if identifier is missing', () => {
+      expect(parseEventAddress(`30023:${pubkey}`)).to.be.undefined
+    })
+  })
 })
 
 describe('NIP-33', () => {
@@ -426,6 +486,20 @@ describe('NIP-33', () => {
       expect(isParameterizedReplaceableEvent({ kind: 40000 } as any)).to.be.false
     })
   })
+
+  describe('getEventAddress', () => {
+    it('returns address with first value of d tag as identifier', () => {
+      const event: Event = { kind: 30023, pubkey: 'pubkey', tags: [['d', 'one', 'two']] } as any
+
+      expect(getEventAddress(event)).to.deep.equal({ kind: 30023, pubkey: 'pubkey', identifier: 'one' })
+    })
+
+    it('returns address with empty identifier if there is no d tag', () => {
+      const event: Event = { kind: 30023, pubkey: 'pubkey', tags: [['d']] } as any
+
+      expect(getEventAddress(event)).to.deep.equal({ kind: 30023, pubkey: 'pubkey', identifier: '' })
+    })
+  })
 })
 describe('NIP-40', () => {
   let event: Event
@@ -493,4 +567,39 @@ describe('NIP-40', () => {
       expect(isExpiredEvent(event)).to.equal(true)
     })
   })
-})
\ No newline at end of file
+})
+
+describe('getEventSize', () => {
+  it('returns size in bytes of the serialized event', () => {
+    const event: Event = {
+      id: 'a',
+      pubkey: 'b',
+      created_at: 1,
+      kind: EventKinds.TEXT_NOTE,
+      tags: [],
+      content: 'ñ',
+      sig: 'c',
+    }
+
+    expect(getEventSize(event)).to.equal(
+      Buffer.byteLength('{"id":"a","pubkey":"b","created_at":1,"kind":1,"tags":[],"content":"ñ","sig":"c"}'),
+    )
+  })
+
+  it('ignores relay metadata', () => {
+    const event: Event = {
+      id: 'a',
+      pubkey: 'b',
+      created_at: 1,
+      kind: EventKinds.TEXT_NOTE,
+      tags: [],
+      content: '',
+      sig: 'c',
+      [ContextMetadataKey]: { remoteAddress: { address: '::1' } as any },
+    }
+
+    expect(getEventSize(event)).to.equal(
+      Buffer.byteLength('{"id":"a","pubkey":"b","created_at":1,"kind":1,"tags":[],"content":"","sig":"c"}'),
+    )
+  })
+})
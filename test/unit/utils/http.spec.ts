@@ -1,7 +1,15 @@
-import { expect } from 'chai'
+import chai from 'chai'
 import { IncomingMessage } from 'http'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
 
-import { getRemoteAddress } from '../../../src/utils/http'
+import { getRemoteAddress, hasBearerToken, isRequestRateLimited } from '../../../src/utils/http'
+import { IRateLimiter } from '../../../src/@types/utils'
+import { Settings } from '../../../src/@types/settings'
+
+chai.use(sinonChai)
+
+const { expect } = chai
 
 describe('getRemoteAddress', () => {
   const header = 'x-forwarded-for'
@@ -48,3 +56,82 @@ describe('getRemoteAddress', () => {
     ).to.equal(socketAddress)
   })
 })
+
+describe('hasBearerToken', () => {
+  const withAuthorization = (authorization?: string): IncomingMessage => ({
+    headers: authorization === undefined ? {} : { authorization },
+  }) as any
+
+  it('returns true if bearer token matches', () => {
+    expect(hasBearerToken(withAuthorization('Bearer secret'), 'secret')).to.be.true
+  })
+
+  it('returns false if bearer token does not match', () => {
+    expect(hasBearerToken(withAuthorization('Bearer secre'), 'secret')).to.be.false
+  })
+
+  it('returns false if authorization is not a bearer token', () => {
+    expect(hasBearerToken(withAuthorization('Basic secret'), 'secret')).to.be.false
+  })
+
+  it('returns false if authorization is missing', () => {
+    expect(hasBearerToken(withAuthorization(), 'secret')).to.be.false
+  })
+})
+
+describe('isRequestRateLimited', () => {
+  const request: IncomingMessage = { headers: {}, socket: { remoteAddress: 'address' } } as any
+  let settings: Settings
+  let rateLimiter: IRateLimiter
+  let hitStub: Sinon.SinonStub
+
+  beforeEach(() => {
+    hitStub = Sinon.stub().resolves(false)
+    rateLimiter = { hit: hitStub }
+    settings = {
+      network: {},
+      limits: {
+        invoice: {
+          rateLimits: [{ period: 60000, rate: 3 }, { period: 3600000, rate: 10 }],
+          ipWhitelist: [],
+        },
+      },
+    } as any
+  })
+
+  it('hits each rate limit under the given key', async () => {
+    expect(await isRequestRateLimited(request, settings, rateLimiter, 'spsp')).to.be.false
+
+    expect(hitStub).to.have.been.calledTwice
+    expect(hitStub).to.have.been.calledWithExactly('address:spsp:60000', 1, { period: 60000, rate: 3 })
+    expect(hitStub).to.have.been.calledWithExactly('address:spsp:3600000', 1, { period: 3600000, rate: 10 })
+  })
+
+  it('returns true if any rate limit is exceeded', async () => {
+    hitStub.onSecondCall().resolves(true)
+
+    expect(await isRequestRateLimited(request, settings, rateLimiter, 'spsp')).to.be.true
+  })
+
+  it('does not limit whitelisted addresses', async () => {
+    settings.limits.invoice.ipWhitelist = ['address']
+
+    expect(await isRequestRateLimited(request, settings, rateLimiter, 'spsp')).to.be.false
+    expect(hitStub).not.to.have.been.called
+  })
+
+  it('uses the given limits', async () => {
+    const limits = { rateLimits: [{ period: 1000, rate: 1 }], ipWhitelist: [] }
+
+    await isRequestRateLimited(request, settings, rateLimiter, 'admission-check', limits)
+
+    expect(hitStub).to.have.been.calledOnceWithExactly('address:admission-check:1000', 1, { period: 1000, rate: 1 })
+  })
+
+  it('returns false if no rate limits are set', async () => {
+    settings.limits = {}
+
+    expect(await isRequestRateLimited(request, settings, rateLimiter, 'spsp')).to.be.false
+    expect(hitStub).not.to.have.been.called
+  })
+})
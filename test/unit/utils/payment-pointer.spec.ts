@@ -0,0 +1,94 @@
+import chai from 'chai'
+import dns from 'dns'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { isPaymentPointer, isPaymentPointerHostPublic, toPaymentPointerUrl } from '../../../src/utils/payment-pointer'
+
+const { expect } = chai
+
+describe('toPaymentPointerUrl', () => {
+  it('resolves payment pointer with path', () => {
+    expect(toPaymentPointerUrl('$wallet.example/alice')).to.equal('https://wallet.example/alice')
+  })
+
+  it('resolves payment pointer without path to well-known location', () => {
+    expect(toPaymentPointerUrl('$wallet.example')).to.equal('https://wallet.example/.well-known/pay')
+  })
+
+  it('keeps port', () => {
+    expect(toPaymentPointerUrl('$wallet.example:8443/alice')).to.equal('https://wallet.example:8443/alice')
+  })
+
+  it('throws if payment pointer does not start with $', () => {
+    expect(() => toPaymentPointerUrl('wallet.example/alice')).to.throw('Invalid payment pointer: wallet.example/alice')
+  })
+
+  it('throws if payment pointer has a query string', () => {
+    expect(() => toPaymentPointerUrl('$wallet.example/alice?x=1')).to.throw('Invalid payment pointer')
+  })
+
+  it('throws if payment pointer has credentials', () => {
+    expect(() => toPaymentPointerUrl('$user:pass@wallet.example')).to.throw('Invalid payment pointer')
+  })
+})
+
+describe('isPaymentPointer', () => {
+  it('returns true for valid payment pointer', () => {
+    expect(isPaymentPointer('$wallet.example/alice')).to.be.true
+  })
+
+  it('returns false for invalid payment pointer', () => {
+    expect(isPaymentPointer('$')).to.be.false
+    expect(isPaymentPointer('https://wallet.example/alice')).to.be.false
+    expect(isPaymentPointer(undefined)).to.be.false
+  })
+})
+
+describe('isPaymentPointerHostPublic', () => {
+  let lookupStub: Sinon.SinonStub
+
+  beforeEach(() => {
+    lookupStub = Sinon.stub(dns.promises, 'lookup')
+  })
+
+  afterEach(() => {
+    lookupStub.restore()
+  })
+
+  it('returns true if host resolves to public addresses only', async () => {
+    lookupStub.resolves([{ address: '93.184.215.14', family: 4 }, { address: '2606:2800:21f:cb07::1', family: 6 }])
+
+    expect(await isPaymentPointerHostPublic('$wallet.example/alice')).to.be.true
+    expect(lookupStub).to.have.been.calledOnceWithExactly('wallet.example', { all: true })
+  })
+
+  it('returns false if host resolves to any non-public address', async () => {
+    lookupStub.resolves([{ address: '93.184.215.14', family: 4 }, { address: '192.168.1.1', family: 4 }])
+
+    expect(await isPaymentPointerHostPublic('$wallet.example/alice')).to.be.false
+  })
+
+  it('returns false for loopback, private and link-local addresses', async () => {
+    for (const host of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '169.254.169.254', '[::1]', '[fe80::1]', '[fd00::1]']) {
+      expect(await isPaymentPointerHostPublic(`$${host}/alice`), host).to.be.false
+    }
+    expect(lookupStub).not.to.have.been.called
+  })
+
+  it('returns false for IPv4-mapped IPv6 loopback address', async () => {
+    expect(await isPaymentPointerHostPublic('$[::ffff:127.0.0.1]/alice')).to.be.false
+  })
+
+  it('returns true for public address', async () => {
+    expect(await isPaymentPointerHostPublic('$93.184.215.14/alice')).to.be.true
+  })
+
+  it('returns false if host does not resolve', async () => {
+    lookupStub.rejects(new Error('getaddrinfo ENOTFOUND wallet.invalid'))
+
+    expect(await isPaymentPointerHostPublic('$wallet.invalid/alice')).to.be.false
+  })
+})
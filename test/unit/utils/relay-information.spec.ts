@@ -0,0 +1,142 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { FeeSchedule, Settings } from '../../../src/@types/settings'
+import { getRelayInformationFees, getSupportedNips } from '../../../src/utils/relay-information'
+import { IExchangeRateService } from '../../../src/@types/exchange-rate'
+
+const { expect } = chai
+
+describe('getRelayInformationFees', () => {
+  let settings: Settings
+  let quoteStub: Sinon.SinonStub
+  let exchangeRateService: IExchangeRateService
+  let sandbox: Sinon.SinonSandbox
+
+  const feeSchedule = (fee: Partial<FeeSchedule>): FeeSchedule => ({ enabled: true, amount: 1000n, ...fee })
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    quoteStub = sandbox.stub().callsFake(async (amount: bigint, asset) => ({
+      amount: { ...asset, amount: amount * 2n },
+    }))
+    exchangeRateService = { quote: quoteStub }
+    settings = {
+      payments: {
+        enabled: true,
+        feeSchedules: {
+          admission: [],
+          publication: [],
+        },
+      },
+    } as unknown as Settings
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  it('lists enabled fees in msats by default', async () => {
+    settings.payments.feeSchedules.publication = [
+      feeSchedule({ perByteAmount: 10n }),
+      feeSchedule({ enabled: false }),
+    ]
+
+    expect(await getRelayInformationFees(settings, exchangeRateService)).to.deep.equal({
+      admission: [],
+      publication: [{ amount: 1000, unit: 'msats', per_byte_amount: 10 }],
+    })
+    expect(quoteStub).not.to.have.been.called
+  })
+
+  it('lists fees in base asset with quotes in accepted assets', async () => {
+    settings.payments.baseAsset = { assetCode: 'USD', assetScale: 2 }
+    settings.payments.acceptedAssets = [
+      { assetCode: 'USD', assetScale: 2 },
+      { assetCode: 'XRP', assetScale: 6 },
+    ]
+    settings.payments.feeSchedules.admission = [feeSchedule({})]
+
+    expect(await getRelayInformationFees(settings, exchangeRateService)).to.deep.equal({
+      admission: [{
+        amount: 1000,
+        unit: 'USD',
+        scale: 2,
+        quotes: [{ amount: 2000, unit: 'XRP', scale: 6 }],
+      }],
+      publication: [],
+    })
+    expect(quoteStub).to.have.been.calledOnceWithExactly(1000n, { assetCode: 'XRP', assetScale: 6 })
+  })
+
+  it('leaves out quotes that fail', async () => {
+    settings.payments.acceptedAssets = [{ assetCode: 'XRP', assetScale: 6 }]
+    settings.payments.feeSchedules.admission = [feeSchedule({})]
+    quoteStub.rejects(new Error('No exchange rate for XRP'))
+
+    expect(await getRelayInformationFees(settings, exchangeRateService)).to.have.nested.property('admission[0]')
+      .that.deep.equals({ amount: 1000, unit: 'msats' })
+  })
+
+  it('excludes whitelisted kinds from kinds a fee applies to', async () => {
+    settings.payments.feeSchedules.publication = [
+      feeSchedule({ kinds: [1, 4, [30000, 39999]], whitelists: { event_kinds: [4, [30000, 40000]] } }),
+    ]
+
+    expect(await getRelayInformationFees(settings, exchangeRateService)).to.have.nested.property('publication[0]')
+      .that.deep.equals({ amount: 1000, unit: 'msats', kinds: [1] })
+  })
+
+  it('lists whitelisted kinds as exempt when a fee applies to all kinds', async () => {
+    settings.payments.feeSchedules.publication = [
+      feeSchedule({ whitelists: { event_kinds: [0, [10000, 19999]] } }),
+    ]
+
+    expect(await getRelayInformationFees(settings, exchangeRateService)).to.have.nested.property('publication[0]')
+      .that.deep.equals({ amount: 1000, unit: 'msats', exempt_kinds: [0, [10000, 19999]] })
+  })
+
+  it('lists admission plans with their period', async () => {
+    settings.payments.feeSchedules.admission = [feeSchedule({})]
+    settings.payments.admissionPlans = [
+      { id: 'monthly', amount: 5000n, days: 30 },
+      { id: 'lifetime', amount: 50000n },
+    ]
+
+    expect(await getRelayInformationFees(settings, exchangeRateService)).to.have.property('admission')
+      .that.deep.equals([
+        { amount: 5000, unit: 'msats', period: 2592000 },
+        { amount: 50000, unit: 'msats' },
+      ])
+  })
+
+  it('lists subscription fees per minute', async () => {
+    settings.payments.feeSchedules.subscription = [feeSchedule({ amount: 10n })]
+
+    expect(await getRelayInformationFees(settings, exchangeRateService)).to.have.property('subscription')
+      .that.deep.equals([{ amount: 10, unit: 'msats', period: 60 }])
+  })
+})
+
+describe('getSupportedNips', () => {
+  it('leaves out NIP-50 if search is disabled', () => {
+    expect(getSupportedNips({ search: { enabled: false } } as Settings)).not.to.include(50)
+    expect(getSupportedNips({} as Settings)).to.include(1)
+  })
+
+  it('includes NIP-50 if search is enabled', () => {
+    expect(getSupportedNips({ search: { enabled: true } } as Settings)).to.include(50)
+  })
+
+  it('leaves out NIP-42 if authentication is disabled', () => {
+    expect(getSupportedNips({ authentication: { enabled: false } } as Settings)).not.to.include(42)
+    expect(getSupportedNips({} as Settings)).not.to.include(42)
+  })
+
+  it('includes NIP-42 if authentication is enabled', () => {
+    expect(getSupportedNips({ authentication: { enabled: true } } as Settings)).to.include(42)
+  })
+})
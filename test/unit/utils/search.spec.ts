@@ -0,0 +1,44 @@
+import { expect } from 'chai'
+
+import { getSearchTerms, isEventMatchingSearch, tokenize } from '../../../src/utils/search'
+import { Event } from '../../../src/@types/event'
+
+describe('tokenize', () => {
+  it('splits text into lowercase words of letters and digits', () => {
+    expect(tokenize('Hello, World! Nostr-2024 café')).to.deep.equal(['hello', 'world', 'nostr', '2024', 'café'])
+  })
+
+  it('returns empty array given no words', () => {
+    expect(tokenize(' ... ')).to.deep.equal([])
+  })
+})
+
+describe('getSearchTerms', () => {
+  it('returns words of search query', () => {
+    expect(getSearchTerms('Best nostr-apps')).to.deep.equal(['best', 'nostr', 'apps'])
+  })
+
+  it('leaves out extensions', () => {
+    expect(getSearchTerms('nostr include:spam language:en')).to.deep.equal(['nostr'])
+  })
+
+  it('keeps URLs', () => {
+    expect(getSearchTerms('https://nostr.com')).to.deep.equal(['https', 'nostr', 'com'])
+  })
+})
+
+describe('isEventMatchingSearch', () => {
+  const event = { content: 'GM nostr! #coffee' } as Event
+
+  it('returns true if content contains every word', () => {
+    expect(isEventMatchingSearch('coffee gm')(event)).to.be.true
+  })
+
+  it('returns false if content lacks a word', () => {
+    expect(isEventMatchingSearch('coffee tea')(event)).to.be.false
+  })
+
+  it('returns true if search query has no words', () => {
+    expect(isEventMatchingSearch('include:spam')(event)).to.be.true
+  })
+})
@@ -52,6 +52,16 @@ describe('streamEnd', () => {
 
     expect(spy).to.have.been.calledOnce
   })
+
+  it('finishes once the promise returned by the given function settles', async () => {
+    const error = new Error('mistakes were made')
+
+    const stream = streamEnd(() => Promise.reject(error))
+    const finished = new Promise((resolve) => stream.once('error', resolve))
+    stream.end()
+
+    expect(await finished).to.equal(error)
+  })
 })
 
 describe('streamFilter', () => {
@@ -1,6 +1,6 @@
 import { expect } from 'chai'
 
-import { fromBuffer, toBuffer, toJSON } from '../../../src/utils/transform'
+import { fromBuffer, fromDBInvoice, toBuffer, toJSON } from '../../../src/utils/transform'
 
 
 describe('toJSON', () => {
@@ -20,3 +20,58 @@ describe('fromBuffer', () => {
     expect(fromBuffer(Buffer.from('aa55', 'hex'))).to.equal('aa55')
   })
 })
+
+describe('fromDBInvoice', () => {
+  const dbInvoice = {
+    id: 'invoice-id',
+    pubkey: Buffer.from('aa55', 'hex'),
+    payment_request: {
+      type: 'stream',
+      destinationAccount: 'test.relay.invoice-id',
+      sharedSecret: 'c2VjcmV0',
+    },
+    amount_requested: '1188236',
+    amount_paid: null,
+    asset_code: 'XRP',
+    asset_scale: 6,
+    quote_amount: null,
+    quote_asset_code: null,
+    quote_asset_scale: null,
+    quote_rate: null,
+    quote_slippage: null,
+  }
+
+  it('returns invoice without quote', () => {
+    expect(fromDBInvoice(dbInvoice)).to.include({
+      id: 'invoice-id',
+      pubkey: 'aa55',
+      amountRequested: 1188236n,
+      amountPaid: undefined,
+      quote: null,
+    })
+  })
+
+  it('returns invoice with payment request', () => {
+    expect(fromDBInvoice(dbInvoice).paymentRequest).to.deep.equal({
+      type: 'stream',
+      destinationAccount: 'test.relay.invoice-id',
+      sharedSecret: 'c2VjcmV0',
+    })
+  })
+
+  it('returns invoice with quote', () => {
+    expect(fromDBInvoice({
+      ...dbInvoice,
+      quote_amount: '1000000',
+      quote_asset_code: 'BTC',
+      quote_asset_scale: 11,
+      quote_rate: '0.0000085',
+      quote_slippage: 0.01,
+    }).quote).to.deep.equal({
+      amount: { amount: 1188236n, assetCode: 'XRP', assetScale: 6 },
+      baseAmount: { amount: 1000000n, assetCode: 'BTC', assetScale: 11 },
+      rate: '0.0000085',
+      slippage: 0.01,
+    })
+  })
+})
@@ -0,0 +1,49 @@
+import { expect } from 'chai'
+
+import { getRelayWebUrl, getWebMonetizationUrl } from '../../../src/utils/web-monetization'
+import { Settings } from '../../../src/@types/settings'
+
+describe('getRelayWebUrl', () => {
+  it('returns https URL given a wss relay URL', () => {
+    expect(getRelayWebUrl({ info: { relay_url: 'wss://relay.example.com' } } as Settings, '/monetization'))
+      .to.equal('https://relay.example.com/monetization')
+  })
+
+  it('returns http URL given a ws relay URL', () => {
+    expect(getRelayWebUrl({ info: { relay_url: 'ws://localhost:8008' } } as Settings, '/monetization'))
+      .to.equal('http://localhost:8008/monetization')
+  })
+})
+
+describe('getWebMonetizationUrl', () => {
+  let settings: Settings
+
+  beforeEach(() => {
+    settings = {
+      info: { relay_url: 'wss://relay.example.com' },
+      payments: { enabled: true, webMonetization: { enabled: true } },
+    } as Settings
+  })
+
+  it('returns undefined if web monetization is disabled', () => {
+    settings.payments.webMonetization.enabled = false
+
+    expect(getWebMonetizationUrl(settings)).to.be.undefined
+  })
+
+  it('returns undefined if payments are disabled', () => {
+    settings.payments.enabled = false
+
+    expect(getWebMonetizationUrl(settings)).to.be.undefined
+  })
+
+  it('returns the relay\'s own SPSP endpoint by default', () => {
+    expect(getWebMonetizationUrl(settings)).to.equal('https://relay.example.com/monetization')
+  })
+
+  it('returns the URL of the configured payment pointer', () => {
+    settings.payments.webMonetization.paymentPointer = '$wallet.example/operator'
+
+    expect(getWebMonetizationUrl(settings)).to.equal('https://wallet.example/operator')
+  })
+})